@@ -166,6 +166,27 @@ module contract::events {
         player: address,
     }
 
+    // ============================================================================
+    // SESSION EVENTS
+    // ============================================================================
+
+    /// Emitted when a player delegates farm actions to a session key
+    public struct SessionStarted has copy, drop {
+        session_id: ID,
+        owner: address,
+        delegate: address,
+        expires_at: u64,
+        scope: u64,
+        allowance: u64,
+    }
+
+    /// Emitted when a session ends and its objects return to the owner
+    public struct SessionEnded has copy, drop {
+        session_id: ID,
+        owner: address,
+        refunded: u64,
+    }
+
     // ============================================================================
     // NFT EVENTS
     // ============================================================================
@@ -185,6 +206,13 @@ module contract::events {
         owner: address,
     }
 
+    /// Emitted when a fruit NFT is sent to another player
+    public struct FruitNFTTransferred has copy, drop {
+        nft_id: ID,
+        from: address,
+        to: address,
+    }
+
     // ============================================================================
     // EMIT FUNCTIONS - PLAYER
     // ============================================================================
@@ -330,6 +358,25 @@ module contract::events {
         event::emit(InventoryCleared { player });
     }
 
+    // ============================================================================
+    // EMIT FUNCTIONS - SESSION
+    // ============================================================================
+
+    public fun emit_session_started(
+        session_id: ID,
+        owner: address,
+        delegate: address,
+        expires_at: u64,
+        scope: u64,
+        allowance: u64
+    ) {
+        event::emit(SessionStarted { session_id, owner, delegate, expires_at, scope, allowance });
+    }
+
+    public fun emit_session_ended(session_id: ID, owner: address, refunded: u64) {
+        event::emit(SessionEnded { session_id, owner, refunded });
+    }
+
     // ============================================================================
     // EMIT FUNCTIONS - NFT
     // ============================================================================
@@ -347,4 +394,8 @@ module contract::events {
     public fun emit_fruit_nft_burned(nft_id: ID, owner: address) {
         event::emit(FruitNFTBurned { nft_id, owner });
     }
+
+    public fun emit_fruit_nft_transferred(nft_id: ID, from: address, to: address) {
+        event::emit(FruitNFTTransferred { nft_id, from, to });
+    }
 }
@@ -137,7 +137,8 @@ module contract::fruit_nft {
     }
 
     /// Transfer NFT to another address
-    entry fun transfer_nft(nft: FruitNFT, recipient: address, _ctx: &mut TxContext) {
+    entry fun transfer_nft(nft: FruitNFT, recipient: address, ctx: &mut TxContext) {
+        events::emit_fruit_nft_transferred(object::id(&nft), ctx.sender(), recipient);
         transfer::public_transfer(nft, recipient);
     }
 
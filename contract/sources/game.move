@@ -8,7 +8,8 @@
 // 3. Fruits merge when same level collide → earn seeds
 // 4. When ready to harvest: player calls start_claim()
 // 5. Player MUST complete exactly 5 more drops to finish claim
-// 6. After 5 drops, player calls complete_harvest() to get seeds
+// 6. After 5 drops, player calls complete_harvest() to get seeds, with the relay's
+//    signed count of what a replay of the game earned; it mints no more than that
 // 7. If game over during claim → lose pending seeds
 //
 // KEY FIX: Once claiming mode starts, player CAN'T drop after 5 drops
@@ -18,6 +19,7 @@
 
 module contract::game {
     use sui::random::{Random, new_generator};
+    use sui::{address, bcs, ed25519, hash};
     use contract::utils;
     use contract::events;
     use contract::player::{Self, PlayerAccount};
@@ -38,8 +40,16 @@ module contract::game {
         claim_completed: bool,        // Whether claim drops are done
         game_over: bool,
         current_fruits: vector<u8>,   // Active fruit levels on board
+        dropped: vector<u8>,          // Every fruit dropped this game, in order
+        seeds_harvested: u64,         // Verified seeds already minted this game
+        harvests: u64,                // Harvests ever completed, so a signature is used once
     }
 
+    // Prefix of the message the minter signs for complete_harvest
+    const HARVEST_DOMAIN: vector<u8> = b"fruit_merge::harvest";
+    // Signature scheme flag of an Ed25519 key in a Sui address
+    const ED25519_FLAG: u8 = 0;
+
     // ============================================================================
     // GAME SESSION MANAGEMENT
     // ============================================================================
@@ -64,6 +74,9 @@ module contract::game {
             claim_completed: false,
             game_over: false,
             current_fruits: vector::empty(),
+            dropped: vector::empty(),
+            seeds_harvested: 0,
+            harvests: 0,
         };
         
         events::emit_game_started(sender, object::id(&session));
@@ -119,6 +132,7 @@ module contract::game {
         
         // Add fruit to board
         session.current_fruits.push_back(fruit_type);
+        session.dropped.push_back(fruit_type);
         
         // If in claiming mode, decrement drops and check completion
         if (session.is_claiming) {
@@ -210,10 +224,18 @@ module contract::game {
     }
 
     /// Complete harvest after 5 drops - mints SEED coins to player
+    ///
+    /// Merges are reported by the player, so seeds_pending alone can't be trusted. The minter
+    /// (the sponsor relay) replays the game's drops against `dropped` and signs
+    /// `verified_seeds`, the whole seeds the game earned; this mints at most what that
+    /// leaves unharvested. `public_key` is the minter's Ed25519 key.
     entry fun complete_harvest(
         session: &mut GameSession,
         player_account: &mut PlayerAccount,
         admin_cap: &mut SeedAdminCap,
+        verified_seeds: u64,
+        public_key: vector<u8>,
+        signature: vector<u8>,
         ctx: &mut TxContext
     ) {
         assert!(!session.game_over, utils::e_game_over());
@@ -221,12 +243,31 @@ module contract::game {
         assert!(session.claim_completed, utils::e_drops_remaining());
         assert!(session.drops_remaining == 0, utils::e_drops_remaining());
         
-        let harvested = session.seeds_pending;
+        // The count must be signed by the minter, for this session as it stands now
+        let message = harvest_message(session, verified_seeds);
+        assert!(ed25519::ed25519_verify(&signature, &public_key, &message), utils::e_unverified_harvest());
+        let mut flagged_key = vector[ED25519_FLAG];
+        flagged_key.append(public_key);
+        let key_address = address::from_bytes(hash::blake2b256(&flagged_key));
+        assert!(key_address == seed::minter(admin_cap), utils::e_unverified_harvest());
+        
+        let unharvested = if (verified_seeds > session.seeds_harvested) {
+            verified_seeds - session.seeds_harvested
+        } else {
+            0
+        };
+        let harvested = if (session.seeds_pending < unharvested) {
+            session.seeds_pending
+        } else {
+            unharvested
+        };
         
         // Mint SEED coins to player
         if (harvested > 0) {
-            seed::mint_to(admin_cap, harvested, ctx.sender(), ctx);
+            seed::mint_to(admin_cap, harvested * utils::seed_decimals(), ctx.sender(), ctx);
         };
+        session.seeds_harvested = session.seeds_harvested + harvested;
+        session.harvests = session.harvests + 1;
         
         // Update player stats
         player::add_seeds_earned(player_account, harvested);
@@ -239,6 +280,17 @@ module contract::game {
         events::emit_harvest_completed(object::id(session), harvested);
     }
 
+    /// What the minter signs for complete_harvest: the domain, the session, how many harvests
+    /// it has had and fruits it has dropped, and the verified seeds, the numbers BCS-encoded
+    fun harvest_message(session: &GameSession, verified_seeds: u64): vector<u8> {
+        let mut message = HARVEST_DOMAIN;
+        message.append(object::id_to_bytes(&object::id(session)));
+        message.append(bcs::to_bytes(&session.harvests));
+        message.append(bcs::to_bytes(&session.dropped.length()));
+        message.append(bcs::to_bytes(&verified_seeds));
+        message
+    }
+
     // ============================================================================
     // GAME END STATES
     // ============================================================================
@@ -264,6 +316,8 @@ module contract::game {
         session.claim_completed = false;
         session.game_over = false;
         session.current_fruits = vector::empty();
+        session.dropped = vector::empty();
+        session.seeds_harvested = 0;
         
         events::emit_game_reset(object::id(session));
     }
@@ -304,6 +358,10 @@ module contract::game {
         session.current_fruits.length()
     }
 
+    public fun get_seeds_harvested(session: &GameSession): u64 {
+        session.seeds_harvested
+    }
+
     /// Check if player can drop a fruit
     public fun can_drop(session: &GameSession): bool {
         if (session.game_over) { return false };
@@ -181,7 +181,7 @@ module contract::land {
 
     /// Plant seeds in a specific slot (costs SEED coins) - no account required
     /// Fruits are automatically harvested to wallet when ready
-    entry fun plant_in_slot(
+    public(package) entry fun plant_in_slot(
         land: &mut PlayerLand,
         slot_index: u64,
         payment: Coin<SEED>,
@@ -238,7 +238,7 @@ module contract::land {
     }
 
     /// Plant in all empty slots at once (costs SEED coins) - no account required
-    entry fun plant_all(
+    public(package) entry fun plant_all(
         land: &mut PlayerLand,
         payment: Coin<SEED>,
         seeds_per_slot: u64,
@@ -322,7 +322,7 @@ module contract::land {
     // ============================================================================
 
     /// Clear all ready fruits from slots and add to inventory
-    entry fun harvest_ready(
+    public(package) entry fun harvest_ready(
         land: &mut PlayerLand,
         inventory: &mut PlayerInventory,
         clock: &Clock,
@@ -375,7 +375,7 @@ module contract::land {
     // ============================================================================
 
     /// Use watering can on a planted fruit to speed up growth by 25%
-    entry fun use_watering_can(
+    public(package) entry fun use_watering_can(
         land: &mut PlayerLand,
         slot_index: u64,
         payment: Coin<SEED>,
@@ -411,7 +411,7 @@ module contract::land {
     }
 
     /// Use fertilizer on a planted fruit to speed up growth by 50%
-    entry fun use_fertilizer(
+    public(package) entry fun use_fertilizer(
         land: &mut PlayerLand,
         slot_index: u64,
         payment: Coin<SEED>,
@@ -447,7 +447,7 @@ module contract::land {
     }
 
     /// Use shovel to remove a planted fruit (burns the fruit)
-    entry fun use_shovel(
+    public(package) entry fun use_shovel(
         land: &mut PlayerLand,
         slot_index: u64,
         payment: Coin<SEED>,
@@ -567,4 +567,9 @@ module contract::land {
     public fun id(land: &PlayerLand): ID {
         object::id(land)
     }
+
+    #[test_only]
+    public fun create_first_land_for_testing(clock: &Clock, ctx: &mut TxContext) {
+        create_first_land(clock, ctx)
+    }
 }
@@ -122,17 +122,6 @@ module contract::player {
         events::emit_seeds_spent(owner, amount, purpose);
     }
 
-    /// Entry function to mint seeds (for testing/hackathon)
-    /// No account required - seeds go directly to wallet
-    entry fun mint_seeds(
-        admin_cap: &mut SeedAdminCap,
-        amount: u64,
-        ctx: &mut TxContext
-    ) {
-        assert!(amount > 0, utils::e_invalid_seed_count());
-        seed::mint_to(admin_cap, amount, ctx.sender(), ctx);
-    }
-
     // ============================================================================
     // INVENTORY MANAGEMENT
     // ============================================================================
@@ -304,4 +293,9 @@ module contract::player {
     public fun id(player: &PlayerAccount): ID {
         object::id(player)
     }
+
+    #[test_only]
+    public fun create_player_for_testing(clock: &Clock, ctx: &mut TxContext) {
+        create_player(clock, ctx)
+    }
 }
@@ -13,6 +13,7 @@
 module contract::seed {
     use sui::coin::{Self, Coin, TreasuryCap};
     use sui::url;
+    use contract::utils;
 
     // ============================================================================
     // STRUCTS
@@ -21,10 +22,13 @@ module contract::seed {
     /// One-time witness for the SEED coin
     public struct SEED has drop {}
 
-    /// Admin capability to mint seeds (given to game module)
+    /// Holds the SEED treasury. Shared, because spending SEED burns through it; only `minter`
+    /// (the sponsor relay, which checks what a player earned first) can mint from outside
+    /// this package
     public struct SeedAdminCap has key, store {
         id: UID,
         treasury_cap: TreasuryCap<SEED>,
+        minter: address,
     }
 
     // ============================================================================
@@ -47,10 +51,11 @@ module contract::seed {
         // Make metadata immutable (publicly frozen)
         transfer::public_freeze_object(metadata);
 
-        // Create admin cap with treasury
+        // Create admin cap with treasury; the publisher mints until it hands over to the relay
         let admin_cap = SeedAdminCap {
             id: object::new(ctx),
             treasury_cap,
+            minter: ctx.sender(),
         };
 
         // Share the admin cap so game module can mint seeds
@@ -62,7 +67,7 @@ module contract::seed {
     // ============================================================================
 
     /// Mint seeds to a player (called by game module after harvest)
-    public fun mint(
+    public(package) fun mint(
         admin_cap: &mut SeedAdminCap,
         amount: u64,
         ctx: &mut TxContext
@@ -71,7 +76,7 @@ module contract::seed {
     }
 
     /// Mint seeds and transfer directly to recipient
-    public fun mint_to(
+    public(package) fun mint_to(
         admin_cap: &mut SeedAdminCap,
         amount: u64,
         recipient: address,
@@ -81,16 +86,27 @@ module contract::seed {
         transfer::public_transfer(coins, recipient);
     }
 
-    /// Entry function to mint seeds (for testing/admin)
+    /// Entry function to mint seeds; only the minter may call it
     entry fun mint_seeds(
         admin_cap: &mut SeedAdminCap,
         amount: u64,
         recipient: address,
         ctx: &mut TxContext
     ) {
+        assert!(ctx.sender() == admin_cap.minter, utils::e_not_minter());
         mint_to(admin_cap, amount, recipient, ctx);
     }
 
+    /// Hand minting over to another address, e.g. a new relay key
+    entry fun set_minter(
+        admin_cap: &mut SeedAdminCap,
+        minter: address,
+        ctx: &mut TxContext
+    ) {
+        assert!(ctx.sender() == admin_cap.minter, utils::e_not_minter());
+        admin_cap.minter = minter;
+    }
+
     // ============================================================================
     // BURNING FUNCTIONS
     // ============================================================================
@@ -107,6 +123,11 @@ module contract::seed {
     // UTILITY FUNCTIONS
     // ============================================================================
 
+    /// The address allowed to mint SEED
+    public fun minter(admin_cap: &SeedAdminCap): address {
+        admin_cap.minter
+    }
+
     /// Get the total supply of SEED coins
     public fun total_supply(admin_cap: &SeedAdminCap): u64 {
         coin::total_supply(&admin_cap.treasury_cap)
@@ -143,4 +164,9 @@ module contract::seed {
     public fun destroy_zero(coin: Coin<SEED>) {
         coin::destroy_zero(coin);
     }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(SEED {}, ctx)
+    }
 }
@@ -0,0 +1,349 @@
+// ============================================================================
+// Module: session
+// Description: Farm sessions - delegate routine farm actions to a session key
+// The player approves once; the session key then plants, waters, harvests and
+// merges without a wallet popup until the session expires or is ended
+// ============================================================================
+// SPDX-License-Identifier: Apache-2.0
+
+module contract::session {
+    use sui::clock::Clock;
+    use sui::coin::{Self, Coin};
+    use sui::balance::{Self, Balance};
+    use sui::random::Random;
+    use sui::dynamic_object_field as dof;
+    use contract::utils;
+    use contract::events;
+    use contract::market;
+    use contract::seed::{SEED, SeedAdminCap};
+    use contract::land::{Self, PlayerLand};
+    use contract::player::PlayerInventory;
+
+    // ============================================================================
+    // CONSTANTS
+    // ============================================================================
+
+    // Scope bits - which actions the session key may perform
+    const SCOPE_PLANT: u64 = 1;
+    const SCOPE_TOOLS: u64 = 2;
+    const SCOPE_HARVEST: u64 = 4;
+    const SCOPE_MERGE: u64 = 8;
+
+    const MAX_SESSION_DURATION_MS: u64 = 86_400_000; // 24 hours
+
+    // ============================================================================
+    // STRUCTS
+    // ============================================================================
+
+    /// Dynamic object field keys for the objects held by a session
+    public struct LandKey has copy, drop, store {}
+    public struct InventoryKey has copy, drop, store {}
+
+    /// Shared session holding the player's land, inventory and a SEED allowance.
+    /// The land and inventory stay addressable by ID while the session holds them.
+    public struct FarmSession has key {
+        id: UID,
+        owner: address,
+        delegate: address,
+        expires_at: u64,
+        scope: u64,
+        land_id: ID,
+        inventory_id: ID,
+        allowance: Balance<SEED>,
+    }
+
+    /// Held by the session key; authorizes actions on one session
+    public struct SessionCap has key {
+        id: UID,
+        session_id: ID,
+        expires_at: u64,
+        scope: u64,
+    }
+
+    /// Held by the owner; required to end the session and take the objects back
+    public struct SessionReceipt has key {
+        id: UID,
+        session_id: ID,
+    }
+
+    // ============================================================================
+    // SESSION LIFECYCLE
+    // ============================================================================
+
+    /// Hand land, inventory and a SEED allowance to a session and give `delegate` a SessionCap
+    entry fun start_session(
+        land: PlayerLand,
+        inventory: PlayerInventory,
+        allowance: Coin<SEED>,
+        delegate: address,
+        duration_ms: u64,
+        scope: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let owner = ctx.sender();
+        assert!(land::get_owner(&land) == owner, utils::e_not_owner());
+        assert!(duration_ms > 0 && duration_ms <= MAX_SESSION_DURATION_MS, utils::e_invalid_session_duration());
+        // At least one action, and no bits a later version might give a meaning
+        assert!(scope != 0 && scope | scope_all() == scope_all(), utils::e_invalid_session_scope());
+
+        let expires_at = sui::clock::timestamp_ms(clock) + duration_ms;
+        let allowance_value = coin::value(&allowance);
+
+        let mut session = FarmSession {
+            id: object::new(ctx),
+            owner,
+            delegate,
+            expires_at,
+            scope,
+            land_id: object::id(&land),
+            inventory_id: object::id(&inventory),
+            allowance: coin::into_balance(allowance),
+        };
+        dof::add(&mut session.id, LandKey {}, land);
+        dof::add(&mut session.id, InventoryKey {}, inventory);
+
+        let session_id = object::id(&session);
+        transfer::transfer(SessionCap { id: object::new(ctx), session_id, expires_at, scope }, delegate);
+        transfer::transfer(SessionReceipt { id: object::new(ctx), session_id }, owner);
+
+        events::emit_session_started(session_id, owner, delegate, expires_at, scope, allowance_value);
+        transfer::share_object(session);
+    }
+
+    /// End a session: land, inventory and the unspent allowance go back to the owner
+    entry fun end_session(
+        session: FarmSession,
+        receipt: SessionReceipt,
+        ctx: &mut TxContext
+    ) {
+        let SessionReceipt { id: receipt_id, session_id } = receipt;
+        assert!(session_id == object::id(&session), utils::e_session_mismatch());
+        object::delete(receipt_id);
+
+        let FarmSession { mut id, owner, allowance, .. } = session;
+        let land: PlayerLand = dof::remove(&mut id, LandKey {});
+        let inventory: PlayerInventory = dof::remove(&mut id, InventoryKey {});
+        transfer::public_transfer(land, owner);
+        transfer::public_transfer(inventory, owner);
+
+        let refunded = balance::value(&allowance);
+        if (refunded > 0) {
+            transfer::public_transfer(coin::from_balance(allowance, ctx), owner);
+        } else {
+            balance::destroy_zero(allowance);
+        };
+
+        events::emit_session_ended(session_id, owner, refunded);
+        object::delete(id);
+    }
+
+    /// Delete a SessionCap whose session has ended
+    entry fun destroy_cap(cap: SessionCap) {
+        let SessionCap { id, .. } = cap;
+        object::delete(id);
+    }
+
+    // ============================================================================
+    // DELEGATED ACTIONS
+    // ============================================================================
+
+    /// Plant in a slot of the session's land, paid from the allowance
+    entry fun plant_in_slot(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        slot_index: u64,
+        seeds: u64,
+        admin_cap: &mut SeedAdminCap,
+        clock: &Clock,
+        r: &Random,
+        ctx: &mut TxContext
+    ) {
+        assert_authorized(session, cap, SCOPE_PLANT, clock);
+        let payment = take_allowance(session, seeds, ctx);
+        land::plant_in_slot(land_mut(session), slot_index, payment, admin_cap, clock, r, ctx);
+    }
+
+    /// Plant in every empty slot of the session's land, paid from the allowance
+    entry fun plant_all(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        seeds_per_slot: u64,
+        admin_cap: &mut SeedAdminCap,
+        clock: &Clock,
+        r: &Random,
+        ctx: &mut TxContext
+    ) {
+        assert_authorized(session, cap, SCOPE_PLANT, clock);
+        let empty_count = land::count_empty_slots(land_mut(session));
+        let payment = take_allowance(session, empty_count * seeds_per_slot, ctx);
+        land::plant_all(land_mut(session), payment, seeds_per_slot, admin_cap, clock, r, ctx);
+    }
+
+    /// Harvest ready fruits from the session's land into the session's inventory
+    entry fun harvest_ready(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_authorized(session, cap, SCOPE_HARVEST, clock);
+        // Both children are needed mutably; detach the inventory while harvesting
+        let mut inventory: PlayerInventory = dof::remove(&mut session.id, InventoryKey {});
+        land::harvest_ready(land_mut(session), &mut inventory, clock, ctx);
+        dof::add(&mut session.id, InventoryKey {}, inventory);
+    }
+
+    entry fun use_watering_can(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        slot_index: u64,
+        admin_cap: &mut SeedAdminCap,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_authorized(session, cap, SCOPE_TOOLS, clock);
+        let payment = take_allowance(session, utils::watering_can_cost(), ctx);
+        land::use_watering_can(land_mut(session), slot_index, payment, admin_cap, ctx);
+    }
+
+    entry fun use_fertilizer(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        slot_index: u64,
+        admin_cap: &mut SeedAdminCap,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_authorized(session, cap, SCOPE_TOOLS, clock);
+        let payment = take_allowance(session, utils::fertilizer_cost(), ctx);
+        land::use_fertilizer(land_mut(session), slot_index, payment, admin_cap, ctx);
+    }
+
+    entry fun use_shovel(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        slot_index: u64,
+        admin_cap: &mut SeedAdminCap,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_authorized(session, cap, SCOPE_TOOLS, clock);
+        let payment = take_allowance(session, utils::shovel_cost(), ctx);
+        land::use_shovel(land_mut(session), slot_index, payment, admin_cap, ctx);
+    }
+
+    /// Merge fruits in the session's inventory
+    entry fun merge_fruits(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        fruit_type: u8,
+        count: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_authorized(session, cap, SCOPE_MERGE, clock);
+        let inventory: &mut PlayerInventory = dof::borrow_mut(&mut session.id, InventoryKey {});
+        market::merge_fruits(inventory, fruit_type, count, clock, ctx);
+    }
+
+    // ============================================================================
+    // INTERNAL
+    // ============================================================================
+
+    fun assert_authorized(session: &FarmSession, cap: &SessionCap, required: u64, clock: &Clock) {
+        assert!(cap.session_id == object::id(session), utils::e_session_mismatch());
+        assert!(sui::clock::timestamp_ms(clock) < session.expires_at, utils::e_session_expired());
+        assert!(session.scope & required == required, utils::e_session_scope());
+    }
+
+    fun take_allowance(session: &mut FarmSession, amount: u64, ctx: &mut TxContext): Coin<SEED> {
+        assert!(balance::value(&session.allowance) >= amount, utils::e_insufficient_seeds());
+        coin::take(&mut session.allowance, amount, ctx)
+    }
+
+    fun land_mut(session: &mut FarmSession): &mut PlayerLand {
+        dof::borrow_mut(&mut session.id, LandKey {})
+    }
+
+    // ============================================================================
+    // VIEW FUNCTIONS
+    // ============================================================================
+
+    public fun get_owner(session: &FarmSession): address {
+        session.owner
+    }
+
+    public fun get_delegate(session: &FarmSession): address {
+        session.delegate
+    }
+
+    public fun get_expires_at(session: &FarmSession): u64 {
+        session.expires_at
+    }
+
+    public fun get_scope(session: &FarmSession): u64 {
+        session.scope
+    }
+
+    public fun get_allowance(session: &FarmSession): u64 {
+        balance::value(&session.allowance)
+    }
+
+    public fun get_land_id(session: &FarmSession): ID {
+        session.land_id
+    }
+
+    public fun get_inventory_id(session: &FarmSession): ID {
+        session.inventory_id
+    }
+
+    public fun scope_all(): u64 { SCOPE_PLANT | SCOPE_TOOLS | SCOPE_HARVEST | SCOPE_MERGE }
+
+    // ============================================================================
+    // TEST HELPERS
+    // ============================================================================
+
+    #[test_only]
+    public fun start_session_for_testing(
+        land: PlayerLand,
+        inventory: PlayerInventory,
+        allowance: Coin<SEED>,
+        delegate: address,
+        duration_ms: u64,
+        scope: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        start_session(land, inventory, allowance, delegate, duration_ms, scope, clock, ctx)
+    }
+
+    #[test_only]
+    public fun end_session_for_testing(session: FarmSession, receipt: SessionReceipt, ctx: &mut TxContext) {
+        end_session(session, receipt, ctx)
+    }
+
+    #[test_only]
+    public fun merge_fruits_for_testing(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        fruit_type: u8,
+        count: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        merge_fruits(session, cap, fruit_type, count, clock, ctx)
+    }
+
+    #[test_only]
+    public fun use_watering_can_for_testing(
+        session: &mut FarmSession,
+        cap: &SessionCap,
+        slot_index: u64,
+        admin_cap: &mut SeedAdminCap,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        use_watering_can(session, cap, slot_index, admin_cap, clock, ctx)
+    }
+}
@@ -22,11 +22,13 @@ module contract::utils {
     const E_INVALID_FRUIT_LEVEL: u64 = 105;
     const E_CLAIMING_MUST_DROP: u64 = 106;
     const E_INSUFFICIENT_FRUITS: u64 = 107;
+    const E_UNVERIFIED_HARVEST: u64 = 108;
     
     // Seed/Balance Errors (200-299)
     const E_INSUFFICIENT_SEEDS: u64 = 200;
     const E_INSUFFICIENT_BALANCE: u64 = 201;
     const E_INVALID_SEED_COUNT: u64 = 202;
+    const E_NOT_MINTER: u64 = 203;
     
     // Land Errors (300-399)
     const E_SLOT_OCCUPIED: u64 = 300;
@@ -44,6 +46,13 @@ module contract::utils {
     const E_INVENTORY_EMPTY: u64 = 403;
     const E_INVALID_LAND_INDEX: u64 = 404;
 
+    // Session Errors (500-599)
+    const E_SESSION_EXPIRED: u64 = 500;
+    const E_SESSION_MISMATCH: u64 = 501;
+    const E_SESSION_SCOPE: u64 = 502;
+    const E_INVALID_SESSION_DURATION: u64 = 503;
+    const E_INVALID_SESSION_SCOPE: u64 = 504;
+
     // ============================================================================
     // GAME CONSTANTS
     // ============================================================================
@@ -170,9 +179,11 @@ module contract::utils {
     public fun e_invalid_fruit_level(): u64 { E_INVALID_FRUIT_LEVEL }
     public fun e_claiming_must_drop(): u64 { E_CLAIMING_MUST_DROP }
     public fun e_insufficient_fruits(): u64 { E_INSUFFICIENT_FRUITS }
+    public fun e_unverified_harvest(): u64 { E_UNVERIFIED_HARVEST }
     public fun e_insufficient_seeds(): u64 { E_INSUFFICIENT_SEEDS }
     public fun e_insufficient_balance(): u64 { E_INSUFFICIENT_BALANCE }
     public fun e_invalid_seed_count(): u64 { E_INVALID_SEED_COUNT }
+    public fun e_not_minter(): u64 { E_NOT_MINTER }
     public fun e_slot_occupied(): u64 { E_SLOT_OCCUPIED }
     public fun e_slot_empty(): u64 { E_SLOT_EMPTY }
     public fun e_fruit_not_ready(): u64 { E_FRUIT_NOT_READY }
@@ -185,6 +196,11 @@ module contract::utils {
     public fun e_inventory_full(): u64 { E_INVENTORY_FULL }
     public fun e_inventory_empty(): u64 { E_INVENTORY_EMPTY }
     public fun e_invalid_land_index(): u64 { E_INVALID_LAND_INDEX }
+    public fun e_session_expired(): u64 { E_SESSION_EXPIRED }
+    public fun e_session_mismatch(): u64 { E_SESSION_MISMATCH }
+    public fun e_session_scope(): u64 { E_SESSION_SCOPE }
+    public fun e_invalid_session_duration(): u64 { E_INVALID_SESSION_DURATION }
+    public fun e_invalid_session_scope(): u64 { E_INVALID_SESSION_SCOPE }
 
     // ============================================================================
     // CONSTANT GETTERS
@@ -194,6 +210,7 @@ module contract::utils {
     public fun drops_required(): u64 { DROPS_REQUIRED_AFTER_CLAIM }
     public fun max_fruit_level(): u8 { MAX_FRUIT_LEVEL }
     public fun initial_drops(): u64 { INITIAL_DROPS_PER_GAME }
+    public fun seed_decimals(): u64 { SEED_DECIMALS }
     
     // Land Constants
     public fun initial_land_slots(): u64 { INITIAL_LAND_SLOTS }
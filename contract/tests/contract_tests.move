@@ -6,7 +6,18 @@
 
 #[test_only]
 module contract::contract_tests {
+    use sui::clock::{Self, Clock};
+    use sui::coin::{Self, Coin};
+    use sui::test_scenario::{Self as ts, Scenario};
     use contract::utils;
+    use contract::seed::{Self, SEED, SeedAdminCap};
+    use contract::land::{Self, PlayerLand};
+    use contract::player::{Self, PlayerInventory};
+    use contract::session::{Self, FarmSession, SessionCap, SessionReceipt};
+
+    const PLAYER: address = @0xA;
+    const DELEGATE: address = @0xB;
+    const HOUR_MS: u64 = 3_600_000;
 
     // ============================================================================
     // UTILS TESTS
@@ -63,4 +74,195 @@ module contract::contract_tests {
         assert!(utils::initial_land_slots() == 6, 2);
         assert!(utils::max_lands_per_player() == 5, 3);
     }
+
+    // ============================================================================
+    // SESSION TESTS
+    // ============================================================================
+
+    /// Give PLAYER a new land and inventory and hand them to a session for DELEGATE.
+    /// Returns the IDs of the session, its cap and its receipt.
+    fun start_test_session(scenario: &mut Scenario, clock: &Clock, allowance: u64, scope: u64): (ID, ID, ID) {
+        ts::next_tx(scenario, PLAYER);
+        land::create_first_land_for_testing(clock, ts::ctx(scenario));
+        player::create_player_for_testing(clock, ts::ctx(scenario));
+
+        ts::next_tx(scenario, PLAYER);
+        let land = ts::take_from_sender<PlayerLand>(scenario);
+        let inventory = ts::take_from_sender<PlayerInventory>(scenario);
+        let payment = coin::mint_for_testing<SEED>(allowance, ts::ctx(scenario));
+        session::start_session_for_testing(land, inventory, payment, DELEGATE, HOUR_MS, scope, clock, ts::ctx(scenario));
+
+        ts::next_tx(scenario, PLAYER);
+        (
+            ts::most_recent_id_shared<FarmSession>().destroy_some(),
+            ts::most_recent_id_for_address<SessionCap>(DELEGATE).destroy_some(),
+            ts::most_recent_id_for_address<SessionReceipt>(PLAYER).destroy_some(),
+        )
+    }
+
+    #[test]
+    fun test_session_start_and_end() {
+        let mut scenario = ts::begin(PLAYER);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let (session_id, _, receipt_id) = start_test_session(&mut scenario, &clock, 500, session::scope_all());
+
+        let session = ts::take_shared_by_id<FarmSession>(&scenario, session_id);
+        assert!(session::get_owner(&session) == PLAYER, 0);
+        assert!(session::get_delegate(&session) == DELEGATE, 1);
+        assert!(session::get_expires_at(&session) == HOUR_MS, 2);
+        assert!(session::get_allowance(&session) == 500, 3);
+        let land_id = session::get_land_id(&session);
+        let inventory_id = session::get_inventory_id(&session);
+
+        // The session holds the land and inventory until it ends
+        assert!(!ts::has_most_recent_for_sender<PlayerLand>(&scenario), 4);
+        let receipt = ts::take_from_sender_by_id<SessionReceipt>(&scenario, receipt_id);
+        session::end_session_for_testing(session, receipt, ts::ctx(&mut scenario));
+
+        ts::next_tx(&mut scenario, PLAYER);
+        let land = ts::take_from_sender_by_id<PlayerLand>(&scenario, land_id);
+        let inventory = ts::take_from_sender_by_id<PlayerInventory>(&scenario, inventory_id);
+        let refund = ts::take_from_sender<Coin<SEED>>(&scenario);
+        assert!(coin::value(&refund) == 500, 5);
+
+        ts::return_to_sender(&scenario, land);
+        ts::return_to_sender(&scenario, inventory);
+        ts::return_to_sender(&scenario, refund);
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_session_key_acts_within_scope() {
+        let mut scenario = ts::begin(PLAYER);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let (session_id, cap_id, _) = start_test_session(&mut scenario, &clock, 0, session::scope_all());
+
+        ts::next_tx(&mut scenario, DELEGATE);
+        let mut session = ts::take_shared_by_id<FarmSession>(&scenario, session_id);
+        let cap = ts::take_from_sender_by_id<SessionCap>(&scenario, cap_id);
+        session::merge_fruits_for_testing(&mut session, &cap, 1, 0, &clock, ts::ctx(&mut scenario));
+
+        ts::return_shared(session);
+        ts::return_to_sender(&scenario, cap);
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 500, location = contract::session)]
+    fun test_session_rejects_expired_cap() {
+        let mut scenario = ts::begin(PLAYER);
+        let mut clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let (session_id, cap_id, _) = start_test_session(&mut scenario, &clock, 0, session::scope_all());
+        clock::increment_for_testing(&mut clock, HOUR_MS);
+
+        ts::next_tx(&mut scenario, DELEGATE);
+        let mut session = ts::take_shared_by_id<FarmSession>(&scenario, session_id);
+        let cap = ts::take_from_sender_by_id<SessionCap>(&scenario, cap_id);
+        session::merge_fruits_for_testing(&mut session, &cap, 1, 0, &clock, ts::ctx(&mut scenario));
+
+        ts::return_shared(session);
+        ts::return_to_sender(&scenario, cap);
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 502, location = contract::session)]
+    fun test_session_rejects_action_outside_scope() {
+        let mut scenario = ts::begin(PLAYER);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        // Planting only; merging needs scope bit 8
+        let (session_id, cap_id, _) = start_test_session(&mut scenario, &clock, 0, 1);
+
+        ts::next_tx(&mut scenario, DELEGATE);
+        let mut session = ts::take_shared_by_id<FarmSession>(&scenario, session_id);
+        let cap = ts::take_from_sender_by_id<SessionCap>(&scenario, cap_id);
+        session::merge_fruits_for_testing(&mut session, &cap, 1, 0, &clock, ts::ctx(&mut scenario));
+
+        ts::return_shared(session);
+        ts::return_to_sender(&scenario, cap);
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 501, location = contract::session)]
+    fun test_session_rejects_cap_of_other_session() {
+        let mut scenario = ts::begin(PLAYER);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let (session_id, _, _) = start_test_session(&mut scenario, &clock, 0, session::scope_all());
+        let (_, other_cap_id, _) = start_test_session(&mut scenario, &clock, 0, session::scope_all());
+
+        ts::next_tx(&mut scenario, DELEGATE);
+        let mut session = ts::take_shared_by_id<FarmSession>(&scenario, session_id);
+        let cap = ts::take_from_sender_by_id<SessionCap>(&scenario, other_cap_id);
+        session::merge_fruits_for_testing(&mut session, &cap, 1, 0, &clock, ts::ctx(&mut scenario));
+
+        ts::return_shared(session);
+        ts::return_to_sender(&scenario, cap);
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 501, location = contract::session)]
+    fun test_session_rejects_receipt_of_other_session() {
+        let mut scenario = ts::begin(PLAYER);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let (session_id, _, _) = start_test_session(&mut scenario, &clock, 0, session::scope_all());
+        let (_, _, other_receipt_id) = start_test_session(&mut scenario, &clock, 0, session::scope_all());
+
+        let session = ts::take_shared_by_id<FarmSession>(&scenario, session_id);
+        let receipt = ts::take_from_sender_by_id<SessionReceipt>(&scenario, other_receipt_id);
+        session::end_session_for_testing(session, receipt, ts::ctx(&mut scenario));
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 200, location = contract::session)]
+    fun test_session_rejects_allowance_overdraw() {
+        let mut scenario = ts::begin(PLAYER);
+        seed::init_for_testing(ts::ctx(&mut scenario));
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let allowance = utils::watering_can_cost() - 1;
+        let (session_id, cap_id, _) = start_test_session(&mut scenario, &clock, allowance, session::scope_all());
+
+        ts::next_tx(&mut scenario, DELEGATE);
+        let mut session = ts::take_shared_by_id<FarmSession>(&scenario, session_id);
+        let cap = ts::take_from_sender_by_id<SessionCap>(&scenario, cap_id);
+        let mut admin_cap = ts::take_shared<SeedAdminCap>(&scenario);
+        session::use_watering_can_for_testing(&mut session, &cap, 0, &mut admin_cap, &clock, ts::ctx(&mut scenario));
+
+        ts::return_shared(admin_cap);
+        ts::return_shared(session);
+        ts::return_to_sender(&scenario, cap);
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 504, location = contract::session)]
+    fun test_session_rejects_empty_scope() {
+        let mut scenario = ts::begin(PLAYER);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let (_, _, _) = start_test_session(&mut scenario, &clock, 0, 0);
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 504, location = contract::session)]
+    fun test_session_rejects_unknown_scope_bits() {
+        let mut scenario = ts::begin(PLAYER);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        let (_, _, _) = start_test_session(&mut scenario, &clock, 0, session::scope_all() | 16);
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
 }
@@ -0,0 +1,19 @@
+import { defineConfig, devices } from '@playwright/test'
+import { FRONTEND_URL } from './src/config.ts'
+
+// The specs share one localnet and one player, started by src/run.ts; run them in order
+export default defineConfig({
+  testDir: './specs',
+  fullyParallel: false,
+  workers: 1,
+  retries: 0,
+  // Growing fruits takes real time on chain
+  timeout: 10 * 60_000,
+  expect: { timeout: 30_000 },
+  reporter: [['list']],
+  use: {
+    baseURL: FRONTEND_URL,
+    trace: 'retain-on-failure',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+})
@@ -0,0 +1,107 @@
+import { expect, test, type Page } from '@playwright/test'
+import { readEnvironment } from '../src/environment.ts'
+import {
+  harvestAll,
+  largestTypeCount,
+  mintTestSeeds,
+  openGame,
+  openTab,
+  plantAll,
+  readInventory,
+  upgradeInventory,
+} from './game.ts'
+
+// One player through the whole loop against the published package: every step is a real
+// transaction, so a moveCall that no longer matches its entry function fails here.
+
+const MERGE_SIZE = 10
+// Fruit types are random; give up if no type reaches MERGE_SIZE after this many harvests
+const MAX_FARMING_ROUNDS = 20
+
+const env = readEnvironment()
+let page: Page
+let slotCount: number
+
+test.describe.configure({ mode: 'serial' })
+
+test.beforeAll(async ({ browser }) => {
+  page = await browser.newPage()
+  await openGame(page, env)
+})
+
+test.afterAll(async () => {
+  await page.close()
+})
+
+test('creates the first land', async () => {
+  await openTab(page, 'FARM')
+  await page.getByRole('button', { name: '🏡 Create Your First Land' }).click()
+
+  await expect(page.getByText('🎉 Land created!')).toBeVisible()
+  await expect(page.locator('.slots-grid .slot').first()).toBeVisible()
+  slotCount = await page.locator('.slots-grid .slot').count()
+  expect(slotCount).toBeGreaterThan(0)
+})
+
+test('plants every empty slot', async () => {
+  await mintTestSeeds(page)
+  await plantAll(page)
+
+  await expect(page.locator('.slots-grid .slot.growing')).toHaveCount(slotCount)
+})
+
+test('harvests the ripe fruits into the inventory', async () => {
+  await harvestAll(page)
+
+  await expect.poll(async () => (await readInventory(env.client, env.inventoryId)).fruitTypes.length).toBe(slotCount)
+  await expect(page.locator('.slots-grid .slot.empty')).toHaveCount(slotCount)
+})
+
+test('mints a harvested fruit as an NFT', async () => {
+  await openTab(page, 'BAGS')
+  await page.getByRole('button', { name: '✨ Select to Mint' }).click()
+  await page.locator('.inventory-item-large').first().click()
+  await page.getByRole('button', { name: '💎 Mint 1 NFTs' }).click()
+  await expect(page.getByText('✅ Successfully minted 1 NFTs!')).toBeVisible()
+
+  await openTab(page, 'NFTs')
+  await expect(page.locator('.nft-name-pill')).toHaveCount(1)
+  expect((await readInventory(env.client, env.inventoryId)).fruitTypes).toHaveLength(slotCount - 1)
+})
+
+test('merges ten fruits of one type', async () => {
+  let inventory = await readInventory(env.client, env.inventoryId)
+  for (let round = 0; largestTypeCount(inventory) < MERGE_SIZE; round++) {
+    if (round === MAX_FARMING_ROUNDS) throw new Error(`No fruit type reached ${MERGE_SIZE} after ${round} harvests`)
+    // Never let a harvest overflow; harvest_ready aborts on a full inventory
+    if (inventory.maxSlots - inventory.fruitTypes.length < slotCount) await upgradeInventory(page)
+    await plantAll(page)
+    await harvestAll(page)
+    inventory = await readInventory(env.client, env.inventoryId)
+  }
+  const before = inventory.fruitTypes.length
+
+  await openTab(page, 'MERGE')
+  await page.locator('.merge-card').first().getByRole('button', { name: 'MERGE', exact: true }).click()
+  await expect(page.locator('.burn-list .burn-item')).toHaveCount(MERGE_SIZE)
+  await page.getByRole('button', { name: 'Confirm', exact: true }).click()
+
+  await expect(page.getByText('✨ MERGE SUCCESS! ✨')).toBeVisible()
+  await expect.poll(async () => (await readInventory(env.client, env.inventoryId)).fruitTypes.length).toBe(before - MERGE_SIZE + 1)
+})
+
+test('joins the leaderboard', async () => {
+  await openTab(page, 'RANK')
+  const startSeason = page.getByRole('button', { name: 'START NEW SEASON' })
+  const join = page.getByRole('button', { name: 'JOIN COMPETITION (0.01 SUI)' })
+  await expect(startSeason.or(join)).toBeVisible()
+  if (await startSeason.isVisible()) {
+    await startSeason.click()
+    await expect(page.getByText('✅ New Tournament Started!')).toBeVisible()
+  }
+
+  await join.click()
+  await expect(page.getByText('✅ Joined!')).toBeVisible()
+  await expect(page.locator('.rank-row.is-me')).toBeVisible()
+  await expect(page.getByRole('button', { name: 'UPDATE MY SCORE' })).toBeVisible()
+})
@@ -0,0 +1,78 @@
+import { expect, type Page } from '@playwright/test'
+import type { SuiClient } from '@mysten/sui/client'
+import type { E2EEnvironment } from '../src/environment.ts'
+import { installTestWallet, TEST_WALLET_NAME } from '../src/wallet.ts'
+
+// Steps through the app the way a player would. Chain state is read directly where the
+// specs need to know what the contract actually did.
+
+export type GameTab = 'GAME' | 'FARM' | 'BAGS' | 'NFTs' | 'MERGE' | 'RANK'
+
+/** Open the app with the test wallet and connect it */
+export async function openGame(page: Page, env: E2EEnvironment & { client: SuiClient }) {
+  await installTestWallet(page, env.player, env.client)
+  await page.goto('/')
+  await page.getByRole('button', { name: 'Connect Wallet' }).first().click()
+  await page.getByRole('button', { name: TEST_WALLET_NAME }).click()
+  await expect(page.locator('.game-layout')).toBeVisible()
+}
+
+export async function openTab(page: Page, tab: GameTab) {
+  await page.locator('.sidebar-nav button', { hasText: tab }).click()
+}
+
+export interface InventoryState {
+  fruitTypes: number[]
+  maxSlots: number
+}
+
+export async function readInventory(client: SuiClient, inventoryId: string): Promise<InventoryState> {
+  const object = await client.getObject({ id: inventoryId, options: { showContent: true } })
+  const content = object.data?.content
+  if (content?.dataType !== 'moveObject') throw new Error(`${inventoryId} is not a PlayerInventory`)
+  const fields = content.fields as { fruits: Array<{ fields: { fruit_type: number } }>; max_slots: string }
+  return { fruitTypes: fields.fruits.map((fruit) => Number(fruit.fields.fruit_type)), maxSlots: Number(fields.max_slots) }
+}
+
+/** How many fruits the most common type has */
+export function largestTypeCount({ fruitTypes }: InventoryState): number {
+  const counts = new Map<number, number>()
+  for (const type of fruitTypes) counts.set(type, (counts.get(type) ?? 0) + 1)
+  return Math.max(0, ...counts.values())
+}
+
+/** Mint 1000 SEED through the farm's test button */
+export async function mintTestSeeds(page: Page) {
+  await openTab(page, 'FARM')
+  await page.getByRole('button', { name: '🎁 Mint 1000 Test Seeds' }).click()
+  await expect(page.getByText('🎉 Got 1000 seeds!')).toBeVisible()
+}
+
+/** Plant one seed in every empty slot, confirming the transaction preview */
+export async function plantAll(page: Page) {
+  await openTab(page, 'FARM')
+  await page.locator('.land-actions').getByRole('button', { name: '🌱 Plant All' }).click()
+  const modal = page.locator('.modal', { hasText: 'Plant All Empty Slots' })
+  await modal.getByRole('spinbutton').fill('1')
+  await modal.getByRole('button', { name: '🌱 Plant All' }).click()
+  await page.getByRole('button', { name: 'Confirm', exact: true }).click()
+  await expect(page.getByText('🌳 Planted All Successfully!')).toBeVisible()
+}
+
+/** Wait for the planted fruits to ripen, then harvest them all */
+export async function harvestAll(page: Page) {
+  await openTab(page, 'FARM')
+  const harvest = page.getByRole('button', { name: /^🌾 Harvest All/ })
+  // Common fruits grow in 15s; leave room for the clock and block times
+  await expect(harvest).toBeVisible({ timeout: 90_000 })
+  await harvest.click()
+  await expect(page.getByText('🍎 Fruits harvested!')).toBeVisible()
+}
+
+/** Buy ten more inventory slots, minting the SEED for it first */
+export async function upgradeInventory(page: Page) {
+  await mintTestSeeds(page)
+  await openTab(page, 'BAGS')
+  await page.locator('.inventory-capacity .upgrade-btn').click()
+  await expect(page.getByText('✅ Upgraded!')).toBeVisible()
+}
@@ -0,0 +1,27 @@
+import { fileURLToPath } from 'node:url'
+
+const getEnv = (key: string, fallback: string): string => process.env[key] ?? fallback
+
+const fromRoot = (path: string) => fileURLToPath(new URL(`../../${path}`, import.meta.url))
+
+export const REPO_PATHS = {
+  contract: fromRoot('contract'),
+  relay: fromRoot('relay'),
+  frontend: fromRoot('frontend'),
+  e2e: fromRoot('e2e'),
+  // Read by frontend/src/config/sui.ts like any other network's manifest
+  manifest: fromRoot('frontend/src/config/deployments/localnet.json'),
+}
+
+// `sui start` defaults; override when something else already listens there
+export const LOCALNET_RPC_URL = getEnv('E2E_RPC_URL', 'http://127.0.0.1:9000')
+export const LOCALNET_FAUCET_URL = getEnv('E2E_FAUCET_URL', 'http://127.0.0.1:9123')
+export const SUI_BINARY = getEnv('SUI_BINARY', 'sui')
+
+// Not the dev defaults (8787, 5173), so a running dev setup doesn't get in the way
+export const RELAY_PORT = Number(getEnv('E2E_RELAY_PORT', '8788'))
+export const FRONTEND_PORT = Number(getEnv('E2E_FRONTEND_PORT', '5174'))
+export const FRONTEND_URL = `http://127.0.0.1:${FRONTEND_PORT}`
+
+// How long the node, relay and dev server get to come up
+export const STARTUP_TIMEOUT_MS = Number(getEnv('E2E_STARTUP_TIMEOUT_MS', '120000'))
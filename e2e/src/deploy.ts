@@ -0,0 +1,62 @@
+import { writeFile } from 'node:fs/promises'
+import type { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client'
+import type { Keypair } from '@mysten/sui/cryptography'
+import { Transaction } from '@mysten/sui/transactions'
+import { parsePublishOutput, type DeploymentIds } from '../../frontend/src/config/deployment.ts'
+import { REPO_PATHS, SUI_BINARY } from './config.ts'
+import { runCommand } from './processes.ts'
+
+interface CompiledPackage {
+  modules: string[]
+  dependencies: string[]
+}
+
+async function execute(client: SuiClient, signer: Keypair, tx: Transaction): Promise<SuiTransactionBlockResponse> {
+  const response = await client.signAndExecuteTransaction({
+    signer,
+    transaction: tx,
+    options: { showEffects: true, showObjectChanges: true },
+  })
+  await client.waitForTransaction({ digest: response.digest })
+  if (response.effects?.status.status !== 'success') {
+    throw new Error(`Transaction ${response.digest} failed: ${response.effects?.status.error ?? 'unknown error'}`)
+  }
+  return response
+}
+
+/**
+ * Build `contract/` and publish it from `publisher`, who keeps the UpgradeCap and becomes the
+ * SeedAdminCap's minter. The response is saved as the localnet manifest, the same shape as
+ * `sui client publish --json`, so the frontend picks the deployment up like any other.
+ */
+export async function publishContract(client: SuiClient, publisher: Keypair): Promise<DeploymentIds> {
+  const output = await runCommand(SUI_BINARY, ['move', 'build', '--dump-bytecode-as-base64', '--path', REPO_PATHS.contract], {
+    cwd: REPO_PATHS.contract,
+  })
+  // The build may log before the JSON; the bytecode is the last line
+  const { modules, dependencies } = JSON.parse(output.trim().split('\n').at(-1) ?? '') as CompiledPackage
+
+  const tx = new Transaction()
+  const upgradeCap = tx.publish({ modules, dependencies })
+  tx.transferObjects([upgradeCap], publisher.toSuiAddress())
+  const response = await execute(client, publisher, tx)
+
+  await writeFile(REPO_PATHS.manifest, `${JSON.stringify(response, null, 2)}\n`)
+  return parsePublishOutput(response, REPO_PATHS.manifest)
+}
+
+/**
+ * Run player::create_player for `owner`; returns their inventory's ID.
+ * The app has no button for this, so players are set up before the browser takes over.
+ */
+export async function createPlayer(client: SuiClient, packageId: string, owner: Keypair): Promise<string> {
+  const tx = new Transaction()
+  tx.moveCall({ target: `${packageId}::player::create_player`, arguments: [tx.object.clock()] })
+  const response = await execute(client, owner, tx)
+
+  const inventory = response.objectChanges?.find(
+    (change) => change.type === 'created' && change.objectType === `${packageId}::player::PlayerInventory`
+  )
+  if (inventory?.type !== 'created') throw new Error('create_player created no PlayerInventory')
+  return inventory.objectId
+}
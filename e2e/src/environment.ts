@@ -0,0 +1,42 @@
+import { SuiClient } from '@mysten/sui/client'
+import { decodeSuiPrivateKey } from '@mysten/sui/cryptography'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+
+// What src/run.ts set up, handed to the Playwright specs through environment variables
+
+export interface E2EEnvironment {
+  rpcUrl: string
+  packageId: string
+  /** The player the browser signs as, with a PlayerAccount and PlayerInventory already created */
+  player: Ed25519Keypair
+  inventoryId: string
+}
+
+const requireEnv = (key: string): string => {
+  const value = process.env[key]
+  if (!value) {
+    throw new Error(`Missing ${key}; run the specs through \`npm test\`, which starts the localnet first`)
+  }
+  return value
+}
+
+export function environmentVariables(env: Omit<E2EEnvironment, 'player'> & { playerKey: string }): Record<string, string> {
+  return {
+    E2E_RPC_URL: env.rpcUrl,
+    E2E_PACKAGE_ID: env.packageId,
+    E2E_PLAYER_KEY: env.playerKey,
+    E2E_INVENTORY_ID: env.inventoryId,
+  }
+}
+
+export function readEnvironment(): E2EEnvironment & { client: SuiClient } {
+  const rpcUrl = requireEnv('E2E_RPC_URL')
+  const { secretKey } = decodeSuiPrivateKey(requireEnv('E2E_PLAYER_KEY'))
+  return {
+    rpcUrl,
+    client: new SuiClient({ url: rpcUrl }),
+    packageId: requireEnv('E2E_PACKAGE_ID'),
+    player: Ed25519Keypair.fromSecretKey(secretKey),
+    inventoryId: requireEnv('E2E_INVENTORY_ID'),
+  }
+}
@@ -0,0 +1,40 @@
+import { SuiClient } from '@mysten/sui/client'
+import { requestSuiFromFaucetV2 } from '@mysten/sui/faucet'
+import { LOCALNET_FAUCET_URL, LOCALNET_RPC_URL, REPO_PATHS, STARTUP_TIMEOUT_MS, SUI_BINARY } from './config.ts'
+import { isListening, startService, waitUntil, type Service } from './processes.ts'
+
+/**
+ * Start a fresh local network with a faucet (`sui start --force-regenesis`), so every run
+ * begins from genesis. Resolves once both the fullnode and the faucet answer.
+ */
+export async function startLocalnet(): Promise<{ node: Service; client: SuiClient }> {
+  const node = startService('sui', SUI_BINARY, ['start', '--with-faucet', '--force-regenesis'], {
+    cwd: REPO_PATHS.e2e,
+    env: { RUST_LOG: 'off,sui_node=info' },
+  })
+  const client = new SuiClient({ url: LOCALNET_RPC_URL })
+
+  try {
+    await waitUntil('the localnet fullnode', async () => !!(await client.getChainIdentifier()), {
+      timeoutMs: STARTUP_TIMEOUT_MS,
+      service: node,
+    })
+    await waitUntil('the localnet faucet', isListening(LOCALNET_FAUCET_URL), {
+      timeoutMs: STARTUP_TIMEOUT_MS,
+      service: node,
+    })
+  } catch (err) {
+    await node.stop()
+    throw err
+  }
+  return { node, client }
+}
+
+/** Fund `address` from the localnet faucet and wait until the coins are visible */
+export async function fundFromFaucet(client: SuiClient, address: string): Promise<void> {
+  await requestSuiFromFaucetV2({ host: LOCALNET_FAUCET_URL, recipient: address })
+  await waitUntil(`SUI for ${address}`, async () => {
+    const { totalBalance } = await client.getBalance({ owner: address })
+    return BigInt(totalBalance) > 0n
+  }, { timeoutMs: 30_000 })
+}
@@ -0,0 +1,76 @@
+import { spawn, type ChildProcess } from 'node:child_process'
+
+/** A process the harness started and has to stop again */
+export interface Service {
+  name: string
+  child: ChildProcess
+  stop: () => Promise<void>
+}
+
+interface ServiceOptions {
+  cwd: string
+  env?: Record<string, string>
+}
+
+/**
+ * Start a long-running process, prefixing its output with `name`. `stop` ends this process,
+ * by its own PID, and waits for it to exit.
+ */
+export function startService(name: string, command: string, args: string[], { cwd, env }: ServiceOptions): Service {
+  const child = spawn(command, args, { cwd, env: { ...process.env, ...env }, stdio: ['ignore', 'pipe', 'pipe'] })
+  const prefix = (chunk: Buffer) => chunk.toString().replace(/^(?=.)/gm, `[${name}] `)
+  child.stdout?.on('data', (chunk: Buffer) => process.stdout.write(prefix(chunk)))
+  child.stderr?.on('data', (chunk: Buffer) => process.stderr.write(prefix(chunk)))
+
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()))
+  const stop = async () => {
+    if (child.exitCode !== null || child.signalCode !== null) return
+    child.kill('SIGTERM')
+    const killTimer = setTimeout(() => child.kill('SIGKILL'), 10_000)
+    await exited
+    clearTimeout(killTimer)
+  }
+  return { name, child, stop }
+}
+
+/** Run a command to completion and return its stdout; throws with its stderr when it fails */
+export function runCommand(command: string, args: string[], { cwd, env }: ServiceOptions): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd, env: { ...process.env, ...env }, stdio: ['ignore', 'pipe', 'pipe'] })
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString() })
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString() })
+    child.once('error', reject)
+    child.once('exit', (code) => {
+      if (code === 0) resolve(stdout)
+      else reject(new Error(`${command} ${args.join(' ')} exited with ${code}\n${stderr}`))
+    })
+  })
+}
+
+/**
+ * Poll `check` until it returns true. Errors count as "not yet", so it can probe a port
+ * that isn't open. Throws once `timeoutMs` has passed, or when `service` exits first.
+ */
+export async function waitUntil(
+  label: string,
+  check: () => Promise<boolean>,
+  { timeoutMs, service }: { timeoutMs: number; service?: Service }
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (service && service.child.exitCode !== null) {
+      throw new Error(`${service.name} exited with ${service.child.exitCode} before ${label}`)
+    }
+    if (await check().catch(() => false)) return
+    await new Promise((resolve) => setTimeout(resolve, 500))
+  }
+  throw new Error(`Timed out after ${timeoutMs}ms waiting for ${label}`)
+}
+
+/** True once `url` answers at all, whatever the status */
+export const isListening = (url: string) => async () => {
+  await fetch(url, { signal: AbortSignal.timeout(2_000) })
+  return true
+}
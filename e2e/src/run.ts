@@ -0,0 +1,100 @@
+import { spawn } from 'node:child_process'
+import { join } from 'node:path'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { FRONTEND_PORT, FRONTEND_URL, LOCALNET_RPC_URL, RELAY_PORT, REPO_PATHS, STARTUP_TIMEOUT_MS } from './config.ts'
+import { createPlayer, publishContract } from './deploy.ts'
+import { environmentVariables } from './environment.ts'
+import { fundFromFaucet, startLocalnet } from './localnet.ts'
+import { isListening, startService, waitUntil, type Service } from './processes.ts'
+
+// Start a localnet, publish the contract, bring up the relay and the frontend against it,
+// then run the Playwright specs. Arguments are passed on to `playwright test`.
+
+const services: Service[] = []
+
+async function stopAll() {
+  for (const service of services.splice(0).reverse()) await service.stop()
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    void stopAll().finally(() => process.exit(130))
+  })
+}
+
+const bin = (packageDir: string, name: string) => join(packageDir, 'node_modules', '.bin', name)
+
+async function main(): Promise<number> {
+  console.log('Starting localnet...')
+  const { node, client } = await startLocalnet()
+  services.push(node)
+
+  const sponsor = new Ed25519Keypair()
+  const player = new Ed25519Keypair()
+  await fundFromFaucet(client, sponsor.toSuiAddress())
+  await fundFromFaucet(client, player.toSuiAddress())
+
+  console.log('Publishing contract/...')
+  // The sponsor publishes, so it is the only address the contract lets mint SEED
+  const deployment = await publishContract(client, sponsor)
+  console.log(`Published ${deployment.packageId}`)
+  const inventoryId = await createPlayer(client, deployment.packageId, player)
+
+  const relayUrl = `http://127.0.0.1:${RELAY_PORT}`
+  const relay = startService('relay', bin(REPO_PATHS.relay, 'tsx'), ['src/index.ts'], {
+    cwd: REPO_PATHS.relay,
+    env: {
+      SPONSOR_PRIVATE_KEY: sponsor.getSecretKey(),
+      PACKAGE_ID: deployment.packageId,
+      SEED_ADMIN_CAP: deployment.seedAdminCap,
+      SUI_NETWORK: 'localnet',
+      SUI_FULLNODE_URL: LOCALNET_RPC_URL,
+      RELAY_PORT: String(RELAY_PORT),
+      RELAY_ALLOWED_ORIGIN: FRONTEND_URL,
+      // The specs make more calls a minute than a player would
+      SPONSOR_CALLS_PER_MINUTE: '600',
+      // For the farm's test-seed button
+      ALLOW_DIRECT_MINTS: 'true',
+    },
+  })
+  services.push(relay)
+  await waitUntil('the sponsor relay', async () => (await fetch(`${relayUrl}/health`)).ok, {
+    timeoutMs: STARTUP_TIMEOUT_MS,
+    service: relay,
+  })
+
+  const frontend = startService('vite', bin(REPO_PATHS.frontend, 'vite'), ['--host', '127.0.0.1', '--port', String(FRONTEND_PORT), '--strictPort'], {
+    cwd: REPO_PATHS.frontend,
+    env: {
+      VITE_SUI_NETWORK: 'localnet',
+      VITE_SUI_FULLNODE_URL_LOCALNET: LOCALNET_RPC_URL,
+      VITE_SPONSOR_RELAY_URL_LOCALNET: relayUrl,
+    },
+  })
+  services.push(frontend)
+  await waitUntil('the frontend', isListening(FRONTEND_URL), { timeoutMs: STARTUP_TIMEOUT_MS, service: frontend })
+
+  const playwright = spawn(bin(REPO_PATHS.e2e, 'playwright'), ['test', ...process.argv.slice(2)], {
+    cwd: REPO_PATHS.e2e,
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      ...environmentVariables({
+        rpcUrl: LOCALNET_RPC_URL,
+        packageId: deployment.packageId,
+        playerKey: player.getSecretKey(),
+        inventoryId,
+      }),
+    },
+  })
+  return new Promise((resolve) => playwright.once('exit', (code) => resolve(code ?? 1)))
+}
+
+try {
+  process.exitCode = await main()
+} catch (err) {
+  console.error(err)
+  process.exitCode = 1
+} finally {
+  await stopAll()
+}
@@ -0,0 +1,75 @@
+import type { Page } from '@playwright/test'
+import type { SuiClient } from '@mysten/sui/client'
+import type { Keypair } from '@mysten/sui/cryptography'
+import { Transaction } from '@mysten/sui/transactions'
+import { fromBase64 } from '@mysten/sui/utils'
+
+export const TEST_WALLET_NAME = 'E2E Wallet'
+
+interface WalletAccountInit {
+  name: string
+  address: string
+  publicKey: number[]
+  chain: string
+}
+
+/**
+ * Runs in the page before the app: registers a wallet-standard wallet whose one account
+ * signs through `e2eSignTransaction`, a function exposed from Node. Must be self-contained,
+ * Playwright serializes it into the page.
+ */
+function registerTestWallet({ name, address, publicKey, chain }: WalletAccountInit) {
+  type SignInput = { transaction: { toJSON: () => Promise<string> } }
+  const sign = (window as unknown as { e2eSignTransaction: (json: string) => Promise<{ bytes: string; signature: string }> })
+    .e2eSignTransaction
+  const account = {
+    address,
+    publicKey: Uint8Array.from(publicKey),
+    chains: [chain],
+    features: ['sui:signTransaction'],
+    label: name,
+  }
+  const wallet = {
+    version: '1.0.0',
+    name,
+    icon: 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciLz4=',
+    chains: [chain],
+    accounts: [account],
+    features: {
+      'standard:connect': { version: '1.0.0', connect: async () => ({ accounts: [account] }) },
+      'standard:events': { version: '1.0.0', on: () => () => {} },
+      'sui:signTransaction': {
+        version: '2.0.0',
+        signTransaction: async ({ transaction }: SignInput) => sign(await transaction.toJSON()),
+      },
+    },
+  }
+
+  // The wallet-standard registration handshake, from either side of app start-up
+  type RegisterApi = { register: (wallet: unknown) => void }
+  const callback = ({ register }: RegisterApi) => register(wallet)
+  window.addEventListener('wallet-standard:app-ready', (event) => callback((event as CustomEvent<RegisterApi>).detail))
+  window.dispatchEvent(new CustomEvent('wallet-standard:register-wallet', { detail: callback }))
+}
+
+/**
+ * Give `page` a wallet holding `keypair`. The key stays in Node: the page only sees the
+ * account, and every signature is made here, building the transaction against `client`.
+ */
+export async function installTestWallet(page: Page, keypair: Keypair, client: SuiClient): Promise<void> {
+  const address = keypair.toSuiAddress()
+
+  await page.exposeFunction('e2eSignTransaction', async (input: string) => {
+    // Sponsored transactions arrive as finished bytes the sponsor already signed; sign them as they are
+    if (!input.trimStart().startsWith('{')) return keypair.signTransaction(fromBase64(input))
+    const tx = Transaction.from(input)
+    tx.setSenderIfNotSet(address)
+    return keypair.signTransaction(await tx.build({ client }))
+  })
+  await page.addInitScript(registerTestWallet, {
+    name: TEST_WALLET_NAME,
+    address,
+    publicKey: [...keypair.getPublicKey().toRawBytes()],
+    chain: 'sui:localnet',
+  })
+}
@@ -0,0 +1,252 @@
+#!/usr/bin/env node
+// Generates typed transaction builders for the contract's entry functions into src/bindings/.
+//
+// Signatures come from the package's normalized Move modules, so the builders match what is
+// actually published; parameter names come from contract/sources, which the normalized form
+// doesn't carry.
+//
+//   npm run codegen                              # package from src/config/deployments/testnet.json
+//   npm run codegen -- --network localnet
+//   npm run codegen -- --package 0x... --url http://127.0.0.1:9000
+//   npm run codegen -- --modules normalized.json # output of sui_getNormalizedMoveModulesByPackage
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+
+const { values: options } = parseArgs({
+  options: {
+    network: { type: 'string', default: 'testnet' },
+    package: { type: 'string' },
+    url: { type: 'string' },
+    modules: { type: 'string' },
+    sources: { type: 'string', default: join(root, '../contract/sources') },
+    out: { type: 'string', default: join(root, 'src/bindings') },
+  },
+})
+
+// Objects the app already knows; their parameters become optional and default to these
+const WELL_KNOWN_OBJECTS = {
+  '0x2::clock::Clock': 'CLOCK_OBJECT',
+  '0x2::random::Random': 'RANDOM_OBJECT',
+  'seed::SeedAdminCap': 'SEED_ADMIN_CAP',
+  'leaderboard::LeaderboardConfig': 'LEADERBOARD_CONFIG_ID',
+}
+
+// Structs passed as pure values, with their pure type names
+const PURE_STRUCTS = {
+  '0x1::string::String': 'string',
+  '0x1::ascii::String': 'string',
+  '0x2::object::ID': 'id',
+}
+
+const PRIMITIVES = {
+  Bool: { ts: 'boolean', pure: 'bool', move: 'bool' },
+  U8: { ts: 'number', pure: 'u8', move: 'u8' },
+  U16: { ts: 'number', pure: 'u16', move: 'u16' },
+  U32: { ts: 'number', pure: 'u32', move: 'u32' },
+  U64: { ts: 'number | bigint', pure: 'u64', move: 'u64' },
+  U128: { ts: 'number | bigint', pure: 'u128', move: 'u128' },
+  U256: { ts: 'number | bigint', pure: 'u256', move: 'u256' },
+  Address: { ts: 'string', pure: 'address', move: 'address' },
+}
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+function packageFromManifest(network) {
+  const file = join(root, `src/config/deployments/${network}.json`)
+  if (!existsSync(file)) {
+    throw new Error(`No ${file}; pass --package or save the publish output there first`)
+  }
+  const published = JSON.parse(readFileSync(file, 'utf8')).objectChanges?.find((change) => change.type === 'published')
+  if (!published) throw new Error(`${file} has no published package`)
+  return published.packageId
+}
+
+async function loadModules() {
+  if (options.modules) return JSON.parse(readFileSync(options.modules, 'utf8'))
+  const packageId = options.package ?? packageFromManifest(options.network)
+  const client = new SuiClient({ url: options.url ?? getFullnodeUrl(options.network) })
+  return client.getNormalizedMoveModulesByPackage({ package: packageId })
+}
+
+// Split on commas that aren't inside type arguments
+function splitTopLevel(list) {
+  const parts = []
+  let depth = 0
+  let current = ''
+  for (const char of list) {
+    if (char === '<') depth++
+    if (char === '>') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts.map((part) => part.trim()).filter(Boolean)
+}
+
+/** Parameter names of every function in a Move source file */
+function readParameterNames(moduleName) {
+  const file = join(options.sources, `${moduleName}.move`)
+  const names = new Map()
+  if (!existsSync(file)) return names
+  const source = readFileSync(file, 'utf8').replace(/\/\/.*$/gm, '')
+  for (const match of source.matchAll(/\bfun\s+(\w+)\s*(?:<[^>]*>)?\s*\(([^)]*)\)/g)) {
+    names.set(match[1], splitTopLevel(match[2]).map((param) => param.split(':')[0].replace(/^mut\s+/, '').trim()))
+  }
+  return names
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const camelCase = (name) => name.replace(/^_+/, '').replace(/_([a-z0-9])/g, (_, char) => char.toUpperCase())
+const pascalCase = (name) => camelCase(name).replace(/^[a-z]/, (char) => char.toUpperCase())
+
+const structKey = ({ address, module, name }) => {
+  const normalized = normalizeSuiAddress(address)
+  const short = normalized === normalizeSuiAddress('0x1') ? '0x1' : normalized === normalizeSuiAddress('0x2') ? '0x2' : null
+  return short ? `${short}::${module}::${name}` : `${module}::${name}`
+}
+
+const isTxContext = (type) => {
+  const inner = type.MutableReference ?? type.Reference ?? type
+  return typeof inner === 'object' && 'Struct' in inner && structKey(inner.Struct) === '0x2::tx_context::TxContext'
+}
+
+/** How a Move type reads in the contract source, for the doc comments */
+function moveTypeName(type) {
+  if (typeof type === 'string') return PRIMITIVES[type]?.move ?? type.toLowerCase()
+  if ('Reference' in type) return `&${moveTypeName(type.Reference)}`
+  if ('MutableReference' in type) return `&mut ${moveTypeName(type.MutableReference)}`
+  if ('Vector' in type) return `vector<${moveTypeName(type.Vector)}>`
+  if ('TypeParameter' in type) return `T${type.TypeParameter}`
+  const { name, typeArguments } = type.Struct
+  return typeArguments.length ? `${name}<${typeArguments.map(moveTypeName).join(', ')}>` : name
+}
+
+/** The pure encoding of a type, or null when it has to be passed as an object */
+function pureType(type) {
+  if (typeof type === 'string') return PRIMITIVES[type] ? { ts: PRIMITIVES[type].ts, pure: PRIMITIVES[type].pure } : null
+  if ('Vector' in type) {
+    const inner = pureType(type.Vector)
+    return inner && { ts: `Array<${inner.ts}>`, pure: `vector<${inner.pure}>` }
+  }
+  if ('Struct' in type) {
+    const key = structKey(type.Struct)
+    if (PURE_STRUCTS[key]) return { ts: 'string', pure: PURE_STRUCTS[key] }
+    if (key === '0x1::option::Option') {
+      const inner = pureType(type.Struct.typeArguments[0])
+      return inner && { ts: `${inner.ts} | null`, pure: `option<${inner.pure}>` }
+    }
+  }
+  return null
+}
+
+function describeParameter(type, name) {
+  const pure = pureType(type)
+  if (pure) {
+    return { name, doc: moveTypeName(type), tsType: `PureArg<${pure.ts}>`, encode: (value) => `pure(tx, '${pure.pure}', ${value})` }
+  }
+  const inner = type.MutableReference ?? type.Reference ?? type
+  const wellKnown = typeof inner === 'object' && 'Struct' in inner ? WELL_KNOWN_OBJECTS[structKey(inner.Struct)] : undefined
+  return {
+    name,
+    doc: wellKnown ? `${moveTypeName(type)}; defaults to ${wellKnown}` : moveTypeName(type),
+    tsType: 'ObjectArg',
+    optional: !!wellKnown,
+    wellKnown,
+    encode: (value) => wellKnown ? `tx.object(${value} ?? ${wellKnown})` : `tx.object(${value})`,
+  }
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function renderFunction(moduleName, functionName, fn, sourceNames) {
+  const params = fn.parameters.map((type, i) => ({ type, name: camelCase(sourceNames?.[i] ?? `arg${i}`) }))
+    .filter(({ type }) => !isTxContext(type))
+    .map(({ type, name }) => describeParameter(type, name))
+  const argsName = `${pascalCase(functionName)}Args`
+  const required = params.some((param) => !param.optional) || fn.typeParameters.length > 0
+
+  const fields = params.map((param) => `  /** ${param.doc} */\n  ${param.name}${param.optional ? '?' : ''}: ${param.tsType}\n`)
+  if (fn.typeParameters.length) {
+    fields.push(`  typeArguments: [${fn.typeParameters.map(() => 'string').join(', ')}]\n`)
+  }
+
+  const call = [
+    `    target: \`\${PACKAGE_ID}::${moduleName}::${functionName}\`,\n`,
+    fn.typeParameters.length ? '    typeArguments: args.typeArguments,\n' : '',
+    `    arguments: [${params.length ? '\n' + params.map((param) => `      ${param.encode(`args.${param.name}`)},\n`).join('') + '    ' : ''}],\n`,
+  ].join('')
+
+  return {
+    params,
+    source: `export interface ${argsName} {\n${fields.join('')}}\n\n`
+      + `/** \`${moduleName}::${functionName}\` */\n`
+      + `export function ${camelCase(functionName)}(tx: Transaction, args: ${argsName}${required ? '' : ' = {}'}) {\n`
+      + `  return tx.moveCall({\n${call}  })\n}\n`,
+  }
+}
+
+function renderModule(module) {
+  const sourceNames = readParameterNames(module.name)
+  const functions = Object.entries(module.exposedFunctions)
+    .filter(([, fn]) => fn.isEntry)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, fn]) => renderFunction(module.name, name, fn, sourceNames.get(name)))
+  if (functions.length === 0) return null
+
+  const params = functions.flatMap((fn) => fn.params)
+  const configImports = ['PACKAGE_ID', ...new Set(params.map((param) => param.wellKnown).filter(Boolean))].sort()
+  const runtimeImports = [
+    params.some((param) => param.tsType !== 'ObjectArg') && 'pure',
+    params.some((param) => param.tsType === 'ObjectArg') && 'type ObjectArg',
+    params.some((param) => param.tsType !== 'ObjectArg') && 'type PureArg',
+  ].filter(Boolean)
+
+  return [
+    `// Generated by scripts/generate-bindings.mjs from the normalized \`${module.name}\` module.`,
+    '// Do not edit; run `npm run codegen` after changing the contract.',
+    "import type { Transaction } from '@mysten/sui/transactions'",
+    `import { ${configImports.join(', ')} } from '../config/sui'`,
+    runtimeImports.length ? `import { ${runtimeImports.join(', ')} } from './runtime'` : null,
+    '',
+    functions.map((fn) => fn.source).join('\n'),
+  ].filter((line) => line !== null).join('\n')
+}
+
+const modules = await loadModules()
+mkdirSync(options.out, { recursive: true })
+for (const file of readdirSync(options.out)) {
+  if (file !== 'runtime.ts') rmSync(join(options.out, file))
+}
+
+const written = []
+for (const module of Object.values(modules).sort((a, b) => a.name.localeCompare(b.name))) {
+  const source = renderModule(module)
+  if (!source) continue
+  writeFileSync(join(options.out, `${module.name}.ts`), source)
+  written.push(module.name)
+}
+writeFileSync(
+  join(options.out, 'index.ts'),
+  '// Generated by scripts/generate-bindings.mjs. Do not edit.\n'
+    + written.map((name) => `export * as ${camelCase(name)} from './${name}'\n`).join('')
+    + "export type { ObjectArg, PureArg } from './runtime'\n"
+)
+console.log(`Wrote bindings for ${written.join(', ')} to ${options.out}`)
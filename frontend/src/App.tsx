@@ -1,6 +1,9 @@
-import { useState, useEffect, useCallback } from 'react'
-import { ConnectButton, useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
-import { PACKAGE_ID } from './config/sui'
+import { useState } from 'react'
+import { ConnectButton, useCurrentAccount } from '@mysten/dapp-kit'
+import { CURRENT_NETWORK, SHOW_NETWORK_SWITCHER } from './config/sui'
+import { useFarmSession } from './hooks/useFarmSession'
+import { useDeploymentCheck } from './hooks/useDeploymentCheck'
+import { usePlayerInventories, usePlayerLands, useSeedBalance, useSeedScale } from './hooks/useGameQueries'
 
 // Import Trang con
 import FruitGame from './components/FruitGame'
@@ -9,6 +12,9 @@ import Inventory from './components/Inventory'
 import Market from './components/Market'
 import Leaderboard from './components/Leaderboard'
 import NFTCollection from './components/NFTCollection'
+import NetworkSwitcher from './components/NetworkSwitcher'
+import DeploymentError from './components/DeploymentError'
+import EventNotifications from './components/EventNotifications'
 
 // Import Logo mới
 import logoDoc from './assets/Logo dọc.svg'
@@ -41,7 +47,6 @@ import imgCherry from './assets/fruit/Cherry.png'
 import imgOrange from './assets/fruit/Cam.png'
 import imgSeed from './assets/Hạt 1.svg' // Using Hạt 1.svg for the seed icon
 
-const SEED_COIN_TYPE = `${PACKAGE_ID}::seed::SEED`
 
 type GameTab = 'game' | 'land' | 'inventory' | 'market' | 'leaderboard' | 'collection'
 
@@ -50,107 +55,38 @@ function App() {
      LOGIC BACKEND (GIỮ NGUYÊN)
      =================================================== */
   const account = useCurrentAccount()
-  const suiClient = useSuiClient()
   const [activeTab, setActiveTab] = useState<GameTab>('game')
   
-  const [landId, setLandId] = useState<string | null>(null)
-  const [inventoryId, setInventoryId] = useState<string | null>(null)
-  const [playerSeeds, setPlayerSeeds] = useState(0)
-  const [seedScale, setSeedScale] = useState<bigint>(1_000_000_000n)
-  const [refreshTrigger, setRefreshTrigger] = useState(0)
+  const { data: ownedLands } = usePlayerLands()
+  const { data: ownedInventories } = usePlayerInventories()
+  const ownedLandId = ownedLands?.[0]?.id ?? null
+  const ownedInventoryId = ownedInventories?.[0]?.id ?? null
+  // A farm session holds the land and inventory while it's open; they keep their IDs
+  const { session: farmSession } = useFarmSession()
+  const deployment = useDeploymentCheck()
+  const landId = ownedLandId ?? farmSession?.landId ?? null
+  const inventoryId = ownedInventoryId ?? farmSession?.inventoryId ?? null
+  const seedScale = useSeedScale()
+  const { data: seedBalance } = useSeedBalance()
+  // Divide with BigInt to avoid precision loss
+  const playerSeeds = seedBalance === undefined ? 0 : Number(seedBalance / seedScale)
   const [mergeFruitType, setMergeFruitType] = useState<number | null>(null)
-  const [mergeTrigger, setMergeTrigger] = useState(0)
-  
-  const [isGameActive, setIsGameActive] = useState(false)
-  const [showExitModal, setShowExitModal] = useState(false)
-  const [pendingTab, setPendingTab] = useState<GameTab | null>(null)
   
   // Theme State
   const [isDarkMode, setIsDarkMode] = useState(false)
 
-  const loadUserObjects = useCallback(async () => {
-    if (!account?.address) {
-      setLandId(null)
-      setPlayerSeeds(0)
-      return
-    }
-    try {
-      const objects = await suiClient.getOwnedObjects({
-        owner: account.address,
-        options: { showType: true, showContent: true },
-      })
-      let foundLand: string | null = null
-      let foundInventory: string | null = null
-      for (const obj of objects.data) {
-        if (obj.data?.type?.includes(`${PACKAGE_ID}::land::PlayerLand`)) foundLand = obj.data.objectId
-        if (obj.data?.type?.includes(`${PACKAGE_ID}::player::PlayerInventory`)) foundInventory = obj.data.objectId
-      }
-      const seedBalance = await suiClient.getBalance({
-        owner: account.address,
-        coinType: SEED_COIN_TYPE,
-      })
-      setLandId(foundLand)
-      setInventoryId(foundInventory)
-      // Divide with BigInt to avoid precision loss
-      const balanceBig = BigInt(seedBalance.totalBalance)
-      const scale = seedScale || 1_000_000_000n
-      setPlayerSeeds(Number(balanceBig / scale))
-      setRefreshTrigger(prev => prev + 1)
-    } catch (error) {
-      console.error('Error loading user objects:', error)
-    }
-  }, [account?.address, seedScale, suiClient])
-
-  // Fetch coin decimals so UI uses the exact on-chain scale
-  useEffect(() => {
-    const fetchDecimals = async () => {
-      try {
-        const meta = await suiClient.getCoinMetadata({ coinType: SEED_COIN_TYPE })
-        if (meta?.decimals !== undefined) {
-          const scale = 10n ** BigInt(meta.decimals)
-          setSeedScale(scale)
-        }
-      } catch (err) {
-        console.warn('Using default SEED decimals (9):', err)
-      }
-    }
-    fetchDecimals()
-  }, [suiClient])
-
-  useEffect(() => { loadUserObjects() }, [loadUserObjects])
-
-  const handleSeedsHarvested = (seeds: number) => {
-    setPlayerSeeds(prev => prev + seeds)
-    loadUserObjects()
-  }
-
+  // A game left for another tab is saved and paused, so switching needs no warning
   const handleTabChange = (newTab: GameTab) => {
-    if (isGameActive && newTab !== activeTab) {
-      setPendingTab(newTab)
-      setShowExitModal(true)
-    } else {
-      setActiveTab(newTab)
-    }
+    setActiveTab(newTab)
   }
 
   const handleInventoryMergeRequest = (fruitType: number) => {
     setMergeFruitType(fruitType)
-    setMergeTrigger(prev => prev + 1)
     setActiveTab('market')
   }
 
-  const confirmTabChange = () => {
-    if (pendingTab) {
-      setActiveTab(pendingTab)
-      setIsGameActive(false)
-      setPendingTab(null)
-    }
-    setShowExitModal(false)
-  }
-
-  const cancelTabChange = () => {
-    setPendingTab(null)
-    setShowExitModal(false)
+  if (deployment.status === 'invalid') {
+    return <DeploymentError problems={deployment.problems} />
   }
 
   /* ===================================================
@@ -209,7 +145,8 @@ function App() {
             <img src={imgLemon} className="fruit-float f12" />
           </div>
           <div className="landing-content">
-            <div className="badge">SUI NETWORK • TESTNET</div>
+            <div className="badge">SUI NETWORK • {CURRENT_NETWORK.label}</div>
+            {SHOW_NETWORK_SWITCHER && <div><NetworkSwitcher /></div>}
             
             {/* New Title & Vibe */}
             <h1 className="hero-title watery-text">WATERY</h1>
@@ -237,6 +174,7 @@ function App() {
       ) : (
         /* 3. GIAO DIỆN CHÍNH (Sau khi đã Connect) */
         <div className="game-layout">
+          <EventNotifications />
           {/* SIDEBAR / BOTTOM BAR */}
           <aside className="sidebar-menu">
             <div className="sidebar-header">
@@ -283,6 +221,7 @@ function App() {
                   <img src={imgSeed} alt="SEED" className="seed-icon-small" />
                   <span className="seed-amount">{playerSeeds.toLocaleString()}</span>
                 </div>
+                {SHOW_NETWORK_SWITCHER && <NetworkSwitcher />}
                 <ConnectButton />
               </div>
             </header>
@@ -291,38 +230,24 @@ function App() {
               {(() => {
                 switch (activeTab) {
                   case 'game':
-                    return <FruitGame onSeedsHarvested={handleSeedsHarvested} onGameStateChange={setIsGameActive} />
+                    return <FruitGame />
                   case 'land':
-                    return <PlayerLand landId={landId} inventoryId={inventoryId} playerSeeds={playerSeeds} seedScale={seedScale} onDataChanged={loadUserObjects} />
+                    return <PlayerLand landId={landId} inventoryId={inventoryId} playerSeeds={playerSeeds} seedScale={seedScale} />
                   case 'market':
-                    return <Market inventoryId={inventoryId} onUpdate={loadUserObjects} refreshTrigger={refreshTrigger} playerSeeds={playerSeeds} initialMergeFruitType={mergeFruitType} mergeTrigger={mergeTrigger} />
+                    return <Market inventoryId={inventoryId} playerSeeds={playerSeeds} initialMergeFruitType={mergeFruitType} />
                   case 'leaderboard':
-                    return <Leaderboard inventoryId={inventoryId} onUpdate={loadUserObjects} />
+                    return <Leaderboard inventoryId={inventoryId} />
                   case 'collection':
                     return <NFTCollection />
                   case 'inventory':
                   default:
-                    return <Inventory inventoryId={inventoryId} refreshTrigger={refreshTrigger} onUpdate={loadUserObjects} playerSeeds={playerSeeds} onRequestMerge={handleInventoryMergeRequest} />
+                    return <Inventory inventoryId={inventoryId} playerSeeds={playerSeeds} onRequestMerge={handleInventoryMergeRequest} />
                 }
               })()}
             </main>
           </div>
         </div>
       )}
-
-      {/* 4. MODALS & NOTIFICATIONS */}
-      {showExitModal && (
-        <div className="modal-overlay">
-          <div className="modal-content">
-            <h3>⚠️ Warning</h3>
-            <p>You are in a game session. Switching tabs now will cause you to lose all current progress!</p>
-            <div className="modal-buttons">
-              <button className="btn-cancel" onClick={cancelTabChange}>STAY</button>
-              <button className="btn-confirm" onClick={confirmTabChange}>LEAVE</button>
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   )
 }
@@ -0,0 +1,77 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `fruit_nft` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { PACKAGE_ID } from '../config/sui'
+import { pure, type ObjectArg, type PureArg } from './runtime'
+
+export interface BurnArgs {
+  /** FruitNFT */
+  nft: ObjectArg
+}
+
+/** `fruit_nft::burn` */
+export function burn(tx: Transaction, args: BurnArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::fruit_nft::burn`,
+    arguments: [
+      tx.object(args.nft),
+    ],
+  })
+}
+
+export interface MintDirectArgs {
+  /** u8 */
+  fruitType: PureArg<number>
+  /** u8 */
+  rarity: PureArg<number>
+  /** u64 */
+  weight: PureArg<number | bigint>
+}
+
+/** `fruit_nft::mint_direct` */
+export function mintDirect(tx: Transaction, args: MintDirectArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::fruit_nft::mint_direct`,
+    arguments: [
+      pure(tx, 'u8', args.fruitType),
+      pure(tx, 'u8', args.rarity),
+      pure(tx, 'u64', args.weight),
+    ],
+  })
+}
+
+export interface MintFromInventoryArgs {
+  /** &mut PlayerInventory */
+  inventory: ObjectArg
+  /** u64 */
+  fruitIndex: PureArg<number | bigint>
+}
+
+/** `fruit_nft::mint_from_inventory` */
+export function mintFromInventory(tx: Transaction, args: MintFromInventoryArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::fruit_nft::mint_from_inventory`,
+    arguments: [
+      tx.object(args.inventory),
+      pure(tx, 'u64', args.fruitIndex),
+    ],
+  })
+}
+
+export interface TransferNftArgs {
+  /** FruitNFT */
+  nft: ObjectArg
+  /** address */
+  recipient: PureArg<string>
+}
+
+/** `fruit_nft::transfer_nft` */
+export function transferNft(tx: Transaction, args: TransferNftArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::fruit_nft::transfer_nft`,
+    arguments: [
+      tx.object(args.nft),
+      pure(tx, 'address', args.recipient),
+    ],
+  })
+}
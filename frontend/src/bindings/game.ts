@@ -0,0 +1,134 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `game` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { PACKAGE_ID, RANDOM_OBJECT, SEED_ADMIN_CAP } from '../config/sui'
+import { pure, type ObjectArg, type PureArg } from './runtime'
+
+export interface CompleteHarvestArgs {
+  /** &mut GameSession */
+  session: ObjectArg
+  /** &mut PlayerAccount */
+  playerAccount: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** u64 */
+  verifiedSeeds: PureArg<number | bigint>
+  /** vector<u8> */
+  publicKey: PureArg<Array<number>>
+  /** vector<u8> */
+  signature: PureArg<Array<number>>
+}
+
+/** `game::complete_harvest` */
+export function completeHarvest(tx: Transaction, args: CompleteHarvestArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::game::complete_harvest`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.playerAccount),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      pure(tx, 'u64', args.verifiedSeeds),
+      pure(tx, 'vector<u8>', args.publicKey),
+      pure(tx, 'vector<u8>', args.signature),
+    ],
+  })
+}
+
+export interface DropFruitArgs {
+  /** &mut GameSession */
+  session: ObjectArg
+  /** &Random; defaults to RANDOM_OBJECT */
+  r?: ObjectArg
+}
+
+/** `game::drop_fruit` */
+export function dropFruit(tx: Transaction, args: DropFruitArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::game::drop_fruit`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.r ?? RANDOM_OBJECT),
+    ],
+  })
+}
+
+export interface MergeFruitsArgs {
+  /** &mut GameSession */
+  session: ObjectArg
+  /** u64 */
+  fruitIndex1: PureArg<number | bigint>
+  /** u64 */
+  fruitIndex2: PureArg<number | bigint>
+}
+
+/** `game::merge_fruits` */
+export function mergeFruits(tx: Transaction, args: MergeFruitsArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::game::merge_fruits`,
+    arguments: [
+      tx.object(args.session),
+      pure(tx, 'u64', args.fruitIndex1),
+      pure(tx, 'u64', args.fruitIndex2),
+    ],
+  })
+}
+
+export interface ResetGameArgs {
+  /** &mut GameSession */
+  session: ObjectArg
+}
+
+/** `game::reset_game` */
+export function resetGame(tx: Transaction, args: ResetGameArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::game::reset_game`,
+    arguments: [
+      tx.object(args.session),
+    ],
+  })
+}
+
+export interface StartClaimArgs {
+  /** &mut GameSession */
+  session: ObjectArg
+}
+
+/** `game::start_claim` */
+export function startClaim(tx: Transaction, args: StartClaimArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::game::start_claim`,
+    arguments: [
+      tx.object(args.session),
+    ],
+  })
+}
+
+export interface StartGameEntryArgs {
+  /** &mut PlayerAccount */
+  playerAccount: ObjectArg
+}
+
+/** `game::start_game_entry` */
+export function startGameEntry(tx: Transaction, args: StartGameEntryArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::game::start_game_entry`,
+    arguments: [
+      tx.object(args.playerAccount),
+    ],
+  })
+}
+
+export interface TriggerGameOverArgs {
+  /** &mut GameSession */
+  session: ObjectArg
+}
+
+/** `game::trigger_game_over` */
+export function triggerGameOver(tx: Transaction, args: TriggerGameOverArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::game::trigger_game_over`,
+    arguments: [
+      tx.object(args.session),
+    ],
+  })
+}
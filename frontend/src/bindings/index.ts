@@ -0,0 +1,10 @@
+// Generated by scripts/generate-bindings.mjs. Do not edit.
+export * as fruitNft from './fruit_nft'
+export * as game from './game'
+export * as land from './land'
+export * as leaderboard from './leaderboard'
+export * as market from './market'
+export * as player from './player'
+export * as seed from './seed'
+export * as session from './session'
+export type { ObjectArg, PureArg } from './runtime'
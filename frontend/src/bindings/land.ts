@@ -0,0 +1,215 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `land` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { CLOCK_OBJECT, PACKAGE_ID, RANDOM_OBJECT, SEED_ADMIN_CAP } from '../config/sui'
+import { pure, type ObjectArg, type PureArg } from './runtime'
+
+export interface BuyNewLandArgs {
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `land::buy_new_land` */
+export function buyNewLand(tx: Transaction, args: BuyNewLandArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::buy_new_land`,
+    arguments: [
+      tx.object(args.payment),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface CreateFirstLandArgs {
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `land::create_first_land` */
+export function createFirstLand(tx: Transaction, args: CreateFirstLandArgs = {}) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::create_first_land`,
+    arguments: [
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface HarvestReadyArgs {
+  /** &mut PlayerLand */
+  land: ObjectArg
+  /** &mut PlayerInventory */
+  inventory: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `land::harvest_ready` */
+export function harvestReady(tx: Transaction, args: HarvestReadyArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::harvest_ready`,
+    arguments: [
+      tx.object(args.land),
+      tx.object(args.inventory),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface PlantAllArgs {
+  /** &mut PlayerLand */
+  land: ObjectArg
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** u64 */
+  seedsPerSlot: PureArg<number | bigint>
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+  /** &Random; defaults to RANDOM_OBJECT */
+  r?: ObjectArg
+}
+
+/** `land::plant_all` */
+export function plantAll(tx: Transaction, args: PlantAllArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::plant_all`,
+    arguments: [
+      tx.object(args.land),
+      tx.object(args.payment),
+      pure(tx, 'u64', args.seedsPerSlot),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+      tx.object(args.r ?? RANDOM_OBJECT),
+    ],
+  })
+}
+
+export interface PlantInSlotArgs {
+  /** &mut PlayerLand */
+  land: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+  /** &Random; defaults to RANDOM_OBJECT */
+  r?: ObjectArg
+}
+
+/** `land::plant_in_slot` */
+export function plantInSlot(tx: Transaction, args: PlantInSlotArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::plant_in_slot`,
+    arguments: [
+      tx.object(args.land),
+      pure(tx, 'u64', args.slotIndex),
+      tx.object(args.payment),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+      tx.object(args.r ?? RANDOM_OBJECT),
+    ],
+  })
+}
+
+export interface UpgradeLandArgs {
+  /** &mut PlayerLand */
+  land: ObjectArg
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+}
+
+/** `land::upgrade_land` */
+export function upgradeLand(tx: Transaction, args: UpgradeLandArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::upgrade_land`,
+    arguments: [
+      tx.object(args.land),
+      tx.object(args.payment),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+    ],
+  })
+}
+
+export interface UseFertilizerArgs {
+  /** &mut PlayerLand */
+  land: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+}
+
+/** `land::use_fertilizer` */
+export function useFertilizer(tx: Transaction, args: UseFertilizerArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::use_fertilizer`,
+    arguments: [
+      tx.object(args.land),
+      pure(tx, 'u64', args.slotIndex),
+      tx.object(args.payment),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+    ],
+  })
+}
+
+export interface UseShovelArgs {
+  /** &mut PlayerLand */
+  land: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+}
+
+/** `land::use_shovel` */
+export function useShovel(tx: Transaction, args: UseShovelArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::use_shovel`,
+    arguments: [
+      tx.object(args.land),
+      pure(tx, 'u64', args.slotIndex),
+      tx.object(args.payment),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+    ],
+  })
+}
+
+export interface UseWateringCanArgs {
+  /** &mut PlayerLand */
+  land: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+}
+
+/** `land::use_watering_can` */
+export function useWateringCan(tx: Transaction, args: UseWateringCanArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::land::use_watering_can`,
+    arguments: [
+      tx.object(args.land),
+      pure(tx, 'u64', args.slotIndex),
+      tx.object(args.payment),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+    ],
+  })
+}
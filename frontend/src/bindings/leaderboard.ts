@@ -0,0 +1,113 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `leaderboard` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { CLOCK_OBJECT, LEADERBOARD_CONFIG_ID, PACKAGE_ID, RANDOM_OBJECT } from '../config/sui'
+import { type ObjectArg } from './runtime'
+
+export interface CloseRoundAndDistributeArgs {
+  /** &mut LeaderboardConfig; defaults to LEADERBOARD_CONFIG_ID */
+  config?: ObjectArg
+  /** &mut LeaderboardRound */
+  round: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `leaderboard::close_round_and_distribute` */
+export function closeRoundAndDistribute(tx: Transaction, args: CloseRoundAndDistributeArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::leaderboard::close_round_and_distribute`,
+    arguments: [
+      tx.object(args.config ?? LEADERBOARD_CONFIG_ID),
+      tx.object(args.round),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface CreateNewRoundArgs {
+  /** &mut LeaderboardConfig; defaults to LEADERBOARD_CONFIG_ID */
+  config?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+  /** &Random; defaults to RANDOM_OBJECT */
+  random?: ObjectArg
+}
+
+/** `leaderboard::create_new_round` */
+export function createNewRound(tx: Transaction, args: CreateNewRoundArgs = {}) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::leaderboard::create_new_round`,
+    arguments: [
+      tx.object(args.config ?? LEADERBOARD_CONFIG_ID),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+      tx.object(args.random ?? RANDOM_OBJECT),
+    ],
+  })
+}
+
+export interface JoinLeaderboardArgs {
+  /** &mut LeaderboardRound */
+  round: ObjectArg
+  /** &PlayerInventory */
+  inventory: ObjectArg
+  /** Coin<SUI> */
+  payment: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `leaderboard::join_leaderboard` */
+export function joinLeaderboard(tx: Transaction, args: JoinLeaderboardArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::leaderboard::join_leaderboard`,
+    arguments: [
+      tx.object(args.round),
+      tx.object(args.inventory),
+      tx.object(args.payment),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface ResetInventoryForNewRoundArgs {
+  /** &LeaderboardRound */
+  round: ObjectArg
+  /** &mut PlayerInventory */
+  inventory: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `leaderboard::reset_inventory_for_new_round` */
+export function resetInventoryForNewRound(tx: Transaction, args: ResetInventoryForNewRoundArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::leaderboard::reset_inventory_for_new_round`,
+    arguments: [
+      tx.object(args.round),
+      tx.object(args.inventory),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface UpdateEntryArgs {
+  /** &mut LeaderboardRound */
+  round: ObjectArg
+  /** &PlayerInventory */
+  inventory: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `leaderboard::update_entry` */
+export function updateEntry(tx: Transaction, args: UpdateEntryArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::leaderboard::update_entry`,
+    arguments: [
+      tx.object(args.round),
+      tx.object(args.inventory),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
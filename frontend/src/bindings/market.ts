@@ -0,0 +1,29 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `market` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { CLOCK_OBJECT, PACKAGE_ID } from '../config/sui'
+import { pure, type ObjectArg, type PureArg } from './runtime'
+
+export interface MergeFruitsArgs {
+  /** &mut PlayerInventory */
+  inventory: ObjectArg
+  /** u8 */
+  fruitType: PureArg<number>
+  /** u64 */
+  count: PureArg<number | bigint>
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `market::merge_fruits` */
+export function mergeFruits(tx: Transaction, args: MergeFruitsArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::market::merge_fruits`,
+    arguments: [
+      tx.object(args.inventory),
+      pure(tx, 'u8', args.fruitType),
+      pure(tx, 'u64', args.count),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
@@ -0,0 +1,44 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `player` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { CLOCK_OBJECT, PACKAGE_ID, SEED_ADMIN_CAP } from '../config/sui'
+import { type ObjectArg } from './runtime'
+
+export interface CreatePlayerArgs {
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `player::create_player` */
+export function createPlayer(tx: Transaction, args: CreatePlayerArgs = {}) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::player::create_player`,
+    arguments: [
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface UpgradeInventoryArgs {
+  /** &mut PlayerAccount */
+  player: ObjectArg
+  /** &mut PlayerInventory */
+  inventory: ObjectArg
+  /** Coin<SEED> */
+  payment: ObjectArg
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+}
+
+/** `player::upgrade_inventory` */
+export function upgradeInventory(tx: Transaction, args: UpgradeInventoryArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::player::upgrade_inventory`,
+    arguments: [
+      tx.object(args.player),
+      tx.object(args.inventory),
+      tx.object(args.payment),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+    ],
+  })
+}
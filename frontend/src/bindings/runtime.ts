@@ -0,0 +1,18 @@
+import type { Transaction, TransactionArgument, TransactionObjectInput } from '@mysten/sui/transactions'
+
+// Shared by the generated builders next to this file (see scripts/generate-bindings.mjs)
+
+/** An object ID, or an object produced earlier in the same transaction */
+export type ObjectArg = TransactionObjectInput
+
+/** A plain value, or a result produced earlier in the same transaction */
+export type PureArg<T> = T | TransactionArgument
+
+const isArgument = (value: unknown): value is TransactionArgument =>
+  typeof value === 'function' || (typeof value === 'object' && value !== null && '$kind' in value)
+
+/** Encode `value` as the pure Move type `type`; transaction results pass through */
+export function pure(tx: Transaction, type: string, value: PureArg<unknown>): TransactionArgument {
+  if (isArgument(value)) return value
+  return (tx.pure as (type: string, value: unknown) => TransactionArgument)(type, value)
+}
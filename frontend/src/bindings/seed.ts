@@ -0,0 +1,44 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `seed` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { PACKAGE_ID, SEED_ADMIN_CAP } from '../config/sui'
+import { pure, type ObjectArg, type PureArg } from './runtime'
+
+export interface MintSeedsArgs {
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** u64 */
+  amount: PureArg<number | bigint>
+  /** address */
+  recipient: PureArg<string>
+}
+
+/** `seed::mint_seeds` */
+export function mintSeeds(tx: Transaction, args: MintSeedsArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::seed::mint_seeds`,
+    arguments: [
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      pure(tx, 'u64', args.amount),
+      pure(tx, 'address', args.recipient),
+    ],
+  })
+}
+
+export interface SetMinterArgs {
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** address */
+  minter: PureArg<string>
+}
+
+/** `seed::set_minter` */
+export function setMinter(tx: Transaction, args: SetMinterArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::seed::set_minter`,
+    arguments: [
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      pure(tx, 'address', args.minter),
+    ],
+  })
+}
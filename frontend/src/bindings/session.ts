@@ -0,0 +1,263 @@
+// Generated by scripts/generate-bindings.mjs from the normalized `session` module.
+// Do not edit; run `npm run codegen` after changing the contract.
+import type { Transaction } from '@mysten/sui/transactions'
+import { CLOCK_OBJECT, PACKAGE_ID, RANDOM_OBJECT, SEED_ADMIN_CAP } from '../config/sui'
+import { pure, type ObjectArg, type PureArg } from './runtime'
+
+export interface DestroyCapArgs {
+  /** SessionCap */
+  cap: ObjectArg
+}
+
+/** `session::destroy_cap` */
+export function destroyCap(tx: Transaction, args: DestroyCapArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::destroy_cap`,
+    arguments: [
+      tx.object(args.cap),
+    ],
+  })
+}
+
+export interface EndSessionArgs {
+  /** FarmSession */
+  session: ObjectArg
+  /** SessionReceipt */
+  receipt: ObjectArg
+}
+
+/** `session::end_session` */
+export function endSession(tx: Transaction, args: EndSessionArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::end_session`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.receipt),
+    ],
+  })
+}
+
+export interface HarvestReadyArgs {
+  /** &mut FarmSession */
+  session: ObjectArg
+  /** &SessionCap */
+  cap: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `session::harvest_ready` */
+export function harvestReady(tx: Transaction, args: HarvestReadyArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::harvest_ready`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.cap),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface MergeFruitsArgs {
+  /** &mut FarmSession */
+  session: ObjectArg
+  /** &SessionCap */
+  cap: ObjectArg
+  /** u8 */
+  fruitType: PureArg<number>
+  /** u64 */
+  count: PureArg<number | bigint>
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `session::merge_fruits` */
+export function mergeFruits(tx: Transaction, args: MergeFruitsArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::merge_fruits`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.cap),
+      pure(tx, 'u8', args.fruitType),
+      pure(tx, 'u64', args.count),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface PlantAllArgs {
+  /** &mut FarmSession */
+  session: ObjectArg
+  /** &SessionCap */
+  cap: ObjectArg
+  /** u64 */
+  seedsPerSlot: PureArg<number | bigint>
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+  /** &Random; defaults to RANDOM_OBJECT */
+  r?: ObjectArg
+}
+
+/** `session::plant_all` */
+export function plantAll(tx: Transaction, args: PlantAllArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::plant_all`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.cap),
+      pure(tx, 'u64', args.seedsPerSlot),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+      tx.object(args.r ?? RANDOM_OBJECT),
+    ],
+  })
+}
+
+export interface PlantInSlotArgs {
+  /** &mut FarmSession */
+  session: ObjectArg
+  /** &SessionCap */
+  cap: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** u64 */
+  seeds: PureArg<number | bigint>
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+  /** &Random; defaults to RANDOM_OBJECT */
+  r?: ObjectArg
+}
+
+/** `session::plant_in_slot` */
+export function plantInSlot(tx: Transaction, args: PlantInSlotArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::plant_in_slot`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.cap),
+      pure(tx, 'u64', args.slotIndex),
+      pure(tx, 'u64', args.seeds),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+      tx.object(args.r ?? RANDOM_OBJECT),
+    ],
+  })
+}
+
+export interface StartSessionArgs {
+  /** PlayerLand */
+  land: ObjectArg
+  /** PlayerInventory */
+  inventory: ObjectArg
+  /** Coin<SEED> */
+  allowance: ObjectArg
+  /** address */
+  delegate: PureArg<string>
+  /** u64 */
+  durationMs: PureArg<number | bigint>
+  /** u64 */
+  scope: PureArg<number | bigint>
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `session::start_session` */
+export function startSession(tx: Transaction, args: StartSessionArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::start_session`,
+    arguments: [
+      tx.object(args.land),
+      tx.object(args.inventory),
+      tx.object(args.allowance),
+      pure(tx, 'address', args.delegate),
+      pure(tx, 'u64', args.durationMs),
+      pure(tx, 'u64', args.scope),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface UseFertilizerArgs {
+  /** &mut FarmSession */
+  session: ObjectArg
+  /** &SessionCap */
+  cap: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `session::use_fertilizer` */
+export function useFertilizer(tx: Transaction, args: UseFertilizerArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::use_fertilizer`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.cap),
+      pure(tx, 'u64', args.slotIndex),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface UseShovelArgs {
+  /** &mut FarmSession */
+  session: ObjectArg
+  /** &SessionCap */
+  cap: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `session::use_shovel` */
+export function useShovel(tx: Transaction, args: UseShovelArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::use_shovel`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.cap),
+      pure(tx, 'u64', args.slotIndex),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
+
+export interface UseWateringCanArgs {
+  /** &mut FarmSession */
+  session: ObjectArg
+  /** &SessionCap */
+  cap: ObjectArg
+  /** u64 */
+  slotIndex: PureArg<number | bigint>
+  /** &mut SeedAdminCap; defaults to SEED_ADMIN_CAP */
+  adminCap?: ObjectArg
+  /** &Clock; defaults to CLOCK_OBJECT */
+  clock?: ObjectArg
+}
+
+/** `session::use_watering_can` */
+export function useWateringCan(tx: Transaction, args: UseWateringCanArgs) {
+  return tx.moveCall({
+    target: `${PACKAGE_ID}::session::use_watering_can`,
+    arguments: [
+      tx.object(args.session),
+      tx.object(args.cap),
+      pure(tx, 'u64', args.slotIndex),
+      tx.object(args.adminCap ?? SEED_ADMIN_CAP),
+      tx.object(args.clock ?? CLOCK_OBJECT),
+    ],
+  })
+}
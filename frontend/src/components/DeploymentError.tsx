@@ -0,0 +1,25 @@
+import { CURRENT_NETWORK, SUI_NETWORK } from '../config/sui'
+import NetworkSwitcher from './NetworkSwitcher'
+
+interface DeploymentErrorProps {
+  problems: string[]
+}
+
+/** Shown instead of the game when the selected network's deployment is missing or wrong */
+export default function DeploymentError({ problems }: DeploymentErrorProps) {
+  return (
+    <div className="deployment-error">
+      <div className="modal">
+        <h3>⚠️ Game not available on {CURRENT_NETWORK.label}</h3>
+        <ul className="deployment-error-list">
+          {problems.map((problem) => <li key={problem}>{problem}</li>)}
+        </ul>
+        <p className="deployment-error-hint">
+          Publish the package with <code>sui client publish --json &gt; frontend/src/config/deployments/{SUI_NETWORK}.json</code>,
+          or pick another network.
+        </p>
+        <NetworkSwitcher />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { useEventNotifications } from '../hooks/useEventFeed'
+
+/** Toasts for contract events that concern the connected player, e.g. a prize or an incoming NFT */
+export default function EventNotifications() {
+  const { notifications, dismiss } = useEventNotifications()
+  if (notifications.length === 0) return null
+
+  return (
+    <div className="event-toasts">
+      {notifications.map((notification) => (
+        <div key={notification.id} className="event-toast">
+          <span>{notification.message}</span>
+          <button className="event-toast-close" onClick={() => dismiss(notification.id)} aria-label="Dismiss">✕</button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react'
+import { useFarmSession } from '../hooks/useFarmSession'
+import { describeTransactionError } from '../utils/moveErrors'
+import TransactionPreviewModal from './TransactionPreviewModal'
+
+const DURATIONS = [
+  { label: '30 minutes', ms: 30 * 60_000 },
+  { label: '1 hour', ms: 60 * 60_000 },
+  { label: '4 hours', ms: 4 * 60 * 60_000 },
+]
+
+interface FarmSessionPanelProps {
+  landId: string | null
+  inventoryId: string | null
+  /** SEED in the player's wallet, whole units */
+  walletSeeds: number
+  seedScale: bigint
+}
+
+const formatRemaining = (ms: number): string => {
+  const minutes = Math.max(0, Math.ceil(ms / 60_000))
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+}
+
+/** Start or end a farm session, so routine farm actions stop asking the wallet */
+export default function FarmSessionPanel({ landId, inventoryId, walletSeeds, seedScale }: FarmSessionPanelProps) {
+  const { session, startSession, endSession, isPending, confirmation } = useFarmSession()
+  const [showStartModal, setShowStartModal] = useState(false)
+  const [allowance, setAllowance] = useState(100)
+  const [durationMs, setDurationMs] = useState(DURATIONS[1].ms)
+  const [status, setStatus] = useState('')
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const handleStart = async () => {
+    if (!landId || !inventoryId) return
+    setShowStartModal(false)
+    setStatus('⚡ Starting session...')
+    try {
+      await startSession({ landId, inventoryId, allowance: BigInt(allowance) * seedScale, durationMs })
+      setStatus('⚡ Session started! Farm actions no longer need your wallet.')
+    } catch (e) {
+      setStatus('Error: ' + describeTransactionError(e))
+    }
+    setTimeout(() => setStatus(''), 3000)
+  }
+
+  const handleEnd = async () => {
+    setStatus('🔓 Ending session...')
+    try {
+      await endSession()
+      setStatus('🔓 Session ended. Your farm and unspent SEED are back in your wallet.')
+    } catch (e) {
+      setStatus('Error: ' + describeTransactionError(e))
+    }
+    setTimeout(() => setStatus(''), 3000)
+  }
+
+  return (
+    <div className="farm-session">
+      {!session ? (
+        <button
+          className="farm-session-btn"
+          onClick={() => setShowStartModal(true)}
+          disabled={isPending || !landId || !inventoryId || walletSeeds <= 0}
+          title={!inventoryId ? 'Harvest once to create your inventory first' : undefined}
+        >
+          ⚡ Start Session
+        </button>
+      ) : (
+        <div className={`farm-session-info ${session.signer && now < session.expiresAt ? 'active' : 'locked'}`}>
+          {!session.signer ? (
+            <span>🔒 Your farm is in a session from an earlier visit</span>
+          ) : now < session.expiresAt ? (
+            <span>⚡ Session: {Number(session.allowance / seedScale)} SEED left · {formatRemaining(session.expiresAt - now)}</span>
+          ) : (
+            <span>⌛ Session expired</span>
+          )}
+          <button className="farm-session-btn" onClick={handleEnd} disabled={isPending}>🔓 End Session</button>
+        </div>
+      )}
+      {status && <p className="farm-session-status">{status}</p>}
+
+      {showStartModal && (
+        <div className="modal-overlay" onClick={() => setShowStartModal(false)}>
+          <div className="modal" onClick={e => e.stopPropagation()}>
+            <h3>⚡ Start a Farm Session</h3>
+            <p>Approve once, then plant, water, harvest and merge without wallet popups. Your farm and inventory stay in the session until you end it.</p>
+            <div className="modal-input">
+              <label>SEED allowance:</label>
+              <input
+                type="number"
+                min="1"
+                max={walletSeeds}
+                value={allowance}
+                onChange={(e) => setAllowance(Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+            <div className="modal-input">
+              <label>Duration:</label>
+              <select value={durationMs} onChange={(e) => setDurationMs(Number(e.target.value))}>
+                {DURATIONS.map(d => <option key={d.ms} value={d.ms}>{d.label}</option>)}
+              </select>
+            </div>
+            <p className="modal-total">Unspent SEED is refunded when the session ends. (You have: {walletSeeds})</p>
+            <div className="modal-actions">
+              <button onClick={() => setShowStartModal(false)}>Cancel</button>
+              <button onClick={handleStart} disabled={isPending || allowance > walletSeeds}>⚡ Start</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {confirmation && <TransactionPreviewModal title="Review Session" confirmation={confirmation} seedScale={seedScale} />}
+    </div>
+  )
+}
@@ -1,8 +1,14 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
 import { useCurrentAccount } from '@mysten/dapp-kit'
 import Matter from 'matter-js'
-import { mintSeedsToUser, sponsorClient } from '../hooks/useSponsoredTransaction'
-import { PACKAGE_ID, SEED_ADMIN_CAP } from '../config/sui'
+import { describeTransactionError } from '../utils/moveErrors'
+import { claimGameSeeds, startGameSession } from '../utils/sponsorTransaction'
+import { useSyncTransaction } from '../hooks/useSyncTransaction'
+import { useChainGame } from '../hooks/useChainGame'
+import { OFFLINE_MODE, PACKAGE_ID } from '../config/sui'
+import { replayChainGame } from 'fruit-merge-shared/chainGame'
+import { MergeGame, PREVIEW_Y, STEP_MS, boardForViewport } from 'fruit-merge-shared/mergeGame'
+import { loadSavedGame, saveGame, savedGameKey, type SavedGame } from '../game/savedGame'
 
 // Fruit Assets
 import imgCherry from '../assets/fruit/Cherry.png'
@@ -19,88 +25,78 @@ import imgWatermelon from '../assets/fruit/Dưa hấu.png'
 // Import Logo mới
 import logoNgang from '../assets/Logo ngang.svg'
 
-const SEED_DECIMALS = 1_000_000_000n
-
-const WALL_THICKNESS = 20
-const PREVIEW_BALL_Y = 50
-const DROP_COOLDOWN = 500
-
-const FRICTION = {
-  friction: 0.005,
-  frictionStatic: 0.005,
-  frictionAir: 0,
-  restitution: 0.5,
-}
-
+// Sizes, scores and seeds live in shared/src/mergeGame.ts; this is how each size looks
 const FRUITS = [
-  { level: 1, image: imgCherry, radius: 32, name: 'Cherry', scoreValue: 1 },
-  { level: 2, image: imgGrape, radius: 44, name: 'Grape', scoreValue: 3 },
-  { level: 3, image: imgOrange, radius: 58, name: 'Orange', scoreValue: 6 },
-  { level: 4, image: imgLemon, radius: 72, name: 'Lemon', scoreValue: 10 },
-  { level: 5, image: imgApple, radius: 88, name: 'Apple', scoreValue: 15 },
-  { level: 6, image: imgPear, radius: 106, name: 'Pear', scoreValue: 21 },
-  { level: 7, image: imgPeach, radius: 124, name: 'Peach', scoreValue: 28 },
-  { level: 8, image: imgPineapple, radius: 144, name: 'Pineapple', scoreValue: 36 },
-  { level: 9, image: imgMelon, radius: 166, name: 'Melon', scoreValue: 45 },
-  { level: 10, image: imgWatermelon, radius: 195, name: 'Watermelon', scoreValue: 55 },
+  { level: 1, image: imgCherry, name: 'Cherry' },
+  { level: 2, image: imgGrape, name: 'Grape' },
+  { level: 3, image: imgOrange, name: 'Orange' },
+  { level: 4, image: imgLemon, name: 'Lemon' },
+  { level: 5, image: imgApple, name: 'Apple' },
+  { level: 6, image: imgPear, name: 'Pear' },
+  { level: 7, image: imgPeach, name: 'Peach' },
+  { level: 8, image: imgPineapple, name: 'Pineapple' },
+  { level: 9, image: imgMelon, name: 'Melon' },
+  { level: 10, image: imgWatermelon, name: 'Watermelon' },
 ]
 
-const getRandomDroppableFruitIndex = () => {
-  const rand = Math.random()
-  if (rand < 0.30) return 0
-  if (rand < 0.55) return 1
-  if (rand < 0.75) return 2
-  if (rand < 0.90) return 3
-  return 4
-}
+// After a long frame (e.g. a background tab) catch up at most this many steps; the game
+// just runs behind the wall clock, since ticks are all the relay counts
+const MAX_STEPS_PER_FRAME = 5
+
+// Matter.Render draws `render.engine`; @types/matter-js leaves the field off the class
+type GameRender = Matter.Render & { engine: Matter.Engine }
 
-const GameState = {
-  MENU: 0,
-  READY: 1,
-  DROP: 2,
-  LOSE: 3,
-} as const
-
-interface FruitBody extends Matter.Body {
-  sizeIndex?: number
-  popped?: boolean
-  dropTime?: number
+/** Where on the board the pointer is; the canvas may be drawn smaller than the board on mobile */
+const boardX = (e: React.MouseEvent<HTMLCanvasElement>, boardWidth: number) => {
+  const rect = e.currentTarget.getBoundingClientRect()
+  return (e.clientX - rect.left) * (boardWidth / rect.width)
 }
 
 interface FruitGameProps {
   onSeedsHarvested?: (seeds: number) => void
-  onGameStateChange?: (isActive: boolean) => void
 }
 
-export default function FruitGame({ onSeedsHarvested, onGameStateChange }: FruitGameProps) {
+export default function FruitGame({ onSeedsHarvested }: FruitGameProps) {
   const account = useCurrentAccount()
+  const syncTransaction = useSyncTransaction()
   const [isPending, setIsPending] = useState(false)
   
   const containerRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const engineRef = useRef<Matter.Engine | null>(null)
-  const renderRef = useRef<Matter.Render | null>(null)
-  const runnerRef = useRef<Matter.Runner | null>(null)
-  const previewBallRef = useRef<Matter.Body | null>(null)
-  const gameStateRef = useRef<number>(GameState.MENU)
-  const currentFruitIndexRef = useRef(0)
-  const nextFruitIndexRef = useRef(0)
-  
-  // Game Dimensions State (useRef to access inside closures without re-render)
-  const gameDimensions = useRef({ width: 900, height: 800, loseHeight: 150, scale: 1 });
+  const renderRef = useRef<GameRender | null>(null)
+  // The game on the board; before the first start, an idle one so the walls show
+  const gameRef = useRef<MergeGame | null>(null)
+  // The relay's session for the current game, or null when its seeds can't be claimed
+  const sessionIdRef = useRef<string | null>(null)
+  // A game was started or restored; it stays saved after it ends, so its seeds can be claimed
+  const startedRef = useRef(false)
+  const playingRef = useRef(false)
+  const pausedRef = useRef(false)
+  const previewXRef = useRef(0)
+  const boardRef = useRef(boardForViewport(900, 800))
+  const storageKey = savedGameKey(PACKAGE_ID, account?.address)
+  const storageKeyRef = useRef(storageKey)
+
+  // On-chain mode: fruits, merges and the harvest go through game.move (see useChainGame)
+  const chain = useChainGame()
+  const chainRef = useRef(chain)
+  const [onChainMode, setOnChainMode] = useState(false)
+  // Whether the game on the board is on chain; the ref is for the physics callbacks
+  const [playingOnChain, setPlayingOnChain] = useState(false)
+  const playingOnChainRef = useRef(false)
+  const droppingRef = useRef(false)
 
   const [areAssetsLoaded, setAreAssetsLoaded] = useState(false)
   const fruitImageElements = useRef<HTMLImageElement[]>([])
 
-  const [, setDisplayCurrentFruit] = useState(0)
   const [displayNextFruit, setDisplayNextFruit] = useState(0)
   const [score, setScore] = useState(0)
   const [seedsPending, setSeedsPending] = useState(0)
   const [txStatus, setTxStatus] = useState<string>('')
   const [gameStarted, setGameStarted] = useState(false)
+  const [isStarting, setIsStarting] = useState(false)
   const [isGameOver, setIsGameOver] = useState(false)
-  
-  const fruitsMergedRef = useRef<number[]>(Array(FRUITS.length).fill(0))
+  const [isPaused, setIsPaused] = useState(false)
 
   useEffect(() => {
     const images = FRUITS.map(f => {
@@ -125,421 +121,359 @@ export default function FruitGame({ onSeedsHarvested, onGameStateChange }: Fruit
   }, [])
 
   useEffect(() => {
-    if (onGameStateChange) {
-      onGameStateChange(gameStarted && !isGameOver)
-    }
-  }, [gameStarted, isGameOver, onGameStateChange])
-
-  const calculateSeeds = useCallback((level: number): number => {
-    if (level <= 3) return 0
-    if (level <= 5) return level - 3
-    if (level <= 7) return level - 2
-    return level
-  }, [])
-
-  const calculateScore = useCallback(() => {
-    const newScore = fruitsMergedRef.current.reduce((total, count, sizeIndex) => {
-      return total + (FRUITS[sizeIndex]?.scoreValue || 0) * count
-    }, 0)
-    setScore(newScore)
-  }, [])
-
-  const generateFruitBody = useCallback((x: number, y: number, sizeIndex: number, extraConfig: object = {}): FruitBody => {
-    const fruit = FRUITS[sizeIndex]
-    const scale = gameDimensions.current.scale;
-    
-    const body: FruitBody = Matter.Bodies.circle(x, y, fruit.radius * scale, {
-      ...FRICTION,
-      ...extraConfig,
-      label: 'fruit',
-      render: {
-        fillStyle: 'transparent',
-      }
+    chainRef.current = chain
+    storageKeyRef.current = storageKey
+  })
+
+  const saveCurrentGame = useCallback(() => {
+    const game = gameRef.current
+    if (!startedRef.current || !game) return
+    saveGame(storageKeyRef.current, {
+      seed: game.seed,
+      log: game.log(),
+      sessionId: sessionIdRef.current,
+      chainSessionId: playingOnChainRef.current ? chainRef.current.session?.id ?? null : null,
     })
-    body.sizeIndex = sizeIndex
-    body.popped = false
-    body.dropTime = Date.now()
-    return body
   }, [])
 
-  const setNextFruitSize = useCallback(() => {
-    const next = getRandomDroppableFruitIndex()
-    nextFruitIndexRef.current = next
-    setDisplayNextFruit(next)
-  }, [])
-
-  const mintSeedsOnChain = async () => {
-    if (!account?.address) {
-      setTxStatus('❌ Connect wallet first')
-      setTimeout(() => setTxStatus(''), 3000)
-      return
-    }
-    if (seedsPending === 0) {
-      setTxStatus('❌ No seeds to mint')
-      setTimeout(() => setTxStatus(''), 3000)
-      return
-    }
-    
-    setTxStatus(`🌱 Minting ${seedsPending} seeds...`)
-    setIsPending(true)
-    
-    try {
-      const amountWithDecimals = BigInt(seedsPending) * SEED_DECIMALS
-      
-      const result = await mintSeedsToUser(
-        account.address,
-        amountWithDecimals,
-        PACKAGE_ID,
-        SEED_ADMIN_CAP
-      )
-      
-      await sponsorClient.waitForTransaction({ digest: result.digest })
-      
-      const minted = seedsPending
-      onSeedsHarvested?.(minted)
-      
-      setTxStatus(`🎉 Minted ${minted} seeds!`)
-      setSeedsPending(0)
-      
-      setTimeout(() => {
-        resetGame()
-        setTxStatus('')
-      }, 2000)
-    } catch (error) {
-      console.error('Error minting seeds:', error)
-      setTxStatus('Error: ' + (error instanceof Error ? error.message : String(error)))
-      setTimeout(() => setTxStatus(''), 5000)
-    } finally {
-      setIsPending(false)
-    }
-  }
-
-  const loseGame = useCallback(() => {
-    gameStateRef.current = GameState.LOSE
-    setIsGameOver(true)
-    if (runnerRef.current) {
-      runnerRef.current.enabled = false
-    }
+  const setPaused = useCallback((paused: boolean) => {
+    pausedRef.current = paused
+    setIsPaused(paused)
   }, [])
 
   useEffect(() => {
     if (!canvasRef.current || !areAssetsLoaded) return
 
-    // --- RESPONSIVE GAME SIZE LOGIC ---
-    let width = 900;
-    let height = 800;
-    let scale = 1;
-
-    if (window.innerWidth < 768) {
-        // Mobile Logic
-        width = Math.min(window.innerWidth * 0.95, 450); 
-        height = window.innerHeight * 0.65;
-        if (height < 500) height = 500;
-        scale = Math.min(1, width / 400); 
-    }
-
-    gameDimensions.current = {
-        width,
-        height,
-        loseHeight: height * 0.2, // 20% from top
-        scale
-    };
-
-    const engine = Matter.Engine.create()
-    engineRef.current = engine
+    const board = boardForViewport(window.innerWidth, window.innerHeight)
+    boardRef.current = board
+    gameRef.current = new MergeGame(0, board)
 
     const render = Matter.Render.create({
       canvas: canvasRef.current,
-      engine: engine,
+      engine: gameRef.current.engine,
       options: {
-        width: width,
-        height: height,
+        width: board.width,
+        height: board.height,
         wireframes: false,
         background: '#e8f5e9',
         pixelRatio: window.devicePixelRatio
       },
     })
-    renderRef.current = render
-
-    const wallProps = {
-      isStatic: true,
-      render: { fillStyle: '#FFEEDB' },
-      ...FRICTION,
-    }
-
-    const walls = [
-      Matter.Bodies.rectangle(
-        width / 2, 
-        height + WALL_THICKNESS / 2, 
-        width + WALL_THICKNESS * 2, 
-        WALL_THICKNESS, 
-        { ...wallProps, label: 'wall' }
-      ),
-      Matter.Bodies.rectangle(
-        -WALL_THICKNESS / 2, 
-        height / 2, 
-        WALL_THICKNESS, 
-        height, 
-        { ...wallProps, label: 'wall' }
-      ),
-      Matter.Bodies.rectangle(
-        width + WALL_THICKNESS / 2, 
-        height / 2, 
-        WALL_THICKNESS, 
-        height, 
-        { ...wallProps, label: 'wall' }
-      ),
-    ]
-
-    Matter.Composite.add(engine.world, walls)
-
-    const gameOverLine = Matter.Bodies.rectangle(width / 2, gameDimensions.current.loseHeight, width, 2, {
-      isStatic: true,
-      isSensor: true,
-      render: { fillStyle: 'rgba(231, 76, 60, 0.5)' },
-      label: 'gameOverLine',
-    })
-    Matter.Composite.add(engine.world, gameOverLine)
-
-    Matter.Events.on(engine, 'collisionStart', (event) => {
-      for (const pair of event.pairs) {
-        const bodyA = pair.bodyA as FruitBody
-        const bodyB = pair.bodyB as FruitBody
-
-        if (bodyA.isStatic || bodyB.isStatic) continue
-        if (bodyA.label !== 'fruit' || bodyB.label !== 'fruit') continue
-
-        if (bodyA.sizeIndex === undefined || bodyB.sizeIndex === undefined) continue
-        if (bodyA.sizeIndex !== bodyB.sizeIndex) continue
-        if (bodyA.popped || bodyB.popped) continue
-
-        const currentSize = bodyA.sizeIndex
-        let newSize = currentSize + 1
-
-        if (currentSize >= FRUITS.length - 1) {
-          newSize = 0
-        }
-
-        bodyA.popped = true
-        bodyB.popped = true
-
-        fruitsMergedRef.current[currentSize] += 1
-
-        const midX = (bodyA.position.x + bodyB.position.x) / 2
-        const midY = (bodyA.position.y + bodyB.position.y) / 2
-
-        Matter.Composite.remove(engine.world, bodyA)
-        Matter.Composite.remove(engine.world, bodyB)
-
-        const newFruit = generateFruitBody(midX, midY, newSize)
-        Matter.Composite.add(engine.world, newFruit)
-
-        calculateScore()
-        const seeds = calculateSeeds(newSize + 1)
-        if (seeds > 0) {
-          setSeedsPending(prev => prev + seeds)
-        }
-      }
-    })
-
-    Matter.Events.on(engine, 'afterUpdate', () => {
-      if (gameStateRef.current === GameState.LOSE) return
-      
-      const now = Date.now()
-      const bodies = Matter.Composite.allBodies(engine.world)
-      for (const body of bodies) {
-        const fruitBody = body as FruitBody
-        if (fruitBody.label !== 'fruit' || fruitBody.isStatic) continue
-        
-        const timeSinceDrop = now - (fruitBody.dropTime || now)
-        if (timeSinceDrop < 2000) continue
-        
-        if (fruitBody.position.y < gameDimensions.current.loseHeight && 
-            Math.abs(fruitBody.velocity.y) < 0.5 &&
-            Math.abs(fruitBody.velocity.x) < 0.5) {
-          loseGame()
-          break
-        }
-      }
-    })
-
-    const runner = Matter.Runner.create()
-    runnerRef.current = runner
-    Matter.Runner.run(runner, engine)
+    renderRef.current = render as GameRender
     Matter.Render.run(render)
 
-    const fruitImages: HTMLImageElement[] = FRUITS.map(f => {
-      const img = new Image()
-      img.src = f.image
-      return img
-    })
-
+    // Fruit images, plus the fruit waiting to drop. The preview is only drawn, never added
+    // to the world, so the world holds exactly what a replay of the game would. On chain the
+    // next fruit isn't known until drop_fruit picks it, so there's no preview
     Matter.Events.on(render, 'afterRender', () => {
       const context = render.canvas.getContext('2d')
-      if (!context) return
-
-      const bodies = Matter.Composite.allBodies(engine.world)
-      for (const body of bodies) {
-        const fruitBody = body as FruitBody
-        if (fruitBody.label !== 'fruit') continue
-        if (fruitBody.sizeIndex === undefined) continue
-
-        const fruit = FRUITS[fruitBody.sizeIndex]
-        const img = fruitImages[fruitBody.sizeIndex]
-        if (!fruit || !img) continue
+      const game = gameRef.current
+      if (!context || !game) return
 
+      const drawFruit = (x: number, y: number, angle: number, sizeIndex: number) => {
+        const img = fruitImageElements.current[sizeIndex]
+        if (!img) return
+        const radius = game.fruitRadius(sizeIndex)
         context.save()
-        context.translate(fruitBody.position.x, fruitBody.position.y)
-        context.rotate(fruitBody.angle)
-        
-        const scale = gameDimensions.current.scale
-        const size = fruit.radius * 2 * scale
-        context.drawImage(img, -fruit.radius * scale, -fruit.radius * scale, size, size)
+        context.translate(x, y)
+        context.rotate(angle)
+        context.drawImage(img, -radius, -radius, radius * 2, radius * 2)
         context.restore()
       }
+
+      for (const fruit of game.fruits()) {
+        drawFruit(fruit.position.x, fruit.position.y, fruit.angle, fruit.sizeIndex)
+      }
+      if (playingRef.current && !pausedRef.current && !playingOnChainRef.current && game.canDrop()) {
+        drawFruit(game.clampX(previewXRef.current), PREVIEW_Y, 0, game.currentFruit)
+      }
     })
 
-    const initialFruit = getRandomDroppableFruitIndex()
-    currentFruitIndexRef.current = initialFruit
-    setDisplayCurrentFruit(initialFruit)
-    
-    const nextFruit = getRandomDroppableFruitIndex()
-    nextFruitIndexRef.current = nextFruit
-    setDisplayNextFruit(nextFruit)
+    // Fixed steps instead of Matter.Runner, so the game plays the same at any frame rate
+    let frame = 0
+    let last = performance.now()
+    let behind = 0
+    const loop = (now: number) => {
+      behind = Math.min(behind + now - last, STEP_MS * MAX_STEPS_PER_FRAME)
+      last = now
+      const game = gameRef.current
+      while (behind >= STEP_MS) {
+        behind -= STEP_MS
+        if (playingRef.current && !pausedRef.current && game && !game.isOver) game.step()
+      }
+      frame = requestAnimationFrame(loop)
+    }
+    frame = requestAnimationFrame(loop)
 
     return () => {
+      // Leaving the game tab unmounts the game; it carries on from here when the tab is opened again
+      saveCurrentGame()
+      cancelAnimationFrame(frame)
       Matter.Render.stop(render)
-      Matter.Runner.stop(runner)
-      Matter.Engine.clear(engine)
+      if (gameRef.current) Matter.Engine.clear(gameRef.current.engine)
     }
-  }, [generateFruitBody, calculateScore, calculateSeeds, loseGame, areAssetsLoaded])
-
-  const startGame = useCallback(() => {
-    if (!engineRef.current || !areAssetsLoaded) return
-
+  }, [areAssetsLoaded, saveCurrentGame])
+
+  // Put `game` on the board and hook the page up to it
+  const mountGame = useCallback((game: MergeGame, onChain: boolean) => {
+    const render = renderRef.current
+    if (!render) return
+    game.onChange = () => {
+      setScore(game.score)
+      setSeedsPending(game.seedsEarned)
+      if (game.isOver) {
+        playingRef.current = false
+        setIsGameOver(true)
+        saveCurrentGame()
+        if (onChain) {
+          chainRef.current.gameOver().catch(error => console.error('Could not end the on-chain game:', error))
+        }
+      }
+    }
+    if (onChain) game.onMerge = (sizeIndex) => chainRef.current.merge(sizeIndex)
+
+    const previous = gameRef.current
+    gameRef.current = game
+    render.engine = game.engine
+    if (previous) Matter.Engine.clear(previous.engine)
+    // A restored game keeps the board it was played on, even if the window has changed since
+    if (game.board.width !== render.options.width || game.board.height !== render.options.height) {
+      Matter.Render.setSize(render, game.board.width, game.board.height)
+    }
+    boardRef.current = game.board
+
+    previewXRef.current = game.board.width / 2
+    startedRef.current = true
+    playingRef.current = !game.isOver
+    playingOnChainRef.current = onChain
+    droppingRef.current = false
+    setPlayingOnChain(onChain)
     setGameStarted(true)
-    setIsGameOver(false)
-    setScore(0)
-    fruitsMergedRef.current = Array(FRUITS.length).fill(0)
-    gameStateRef.current = GameState.READY
+    setIsGameOver(game.isOver)
+    setScore(game.score)
+    setSeedsPending(game.seedsEarned)
+    setDisplayNextFruit(game.nextFruit)
+  }, [saveCurrentGame])
 
-    if (runnerRef.current) {
-      runnerRef.current.enabled = true
+  // Pick up the game saved when the page was last left, by replaying its drops
+  useEffect(() => {
+    if (!areAssetsLoaded || startedRef.current) return
+    const saved: SavedGame | null = loadSavedGame(storageKey)
+    if (!saved) return
+
+    let cancelled = false
+    const restore = async () => {
+      // An on-chain game's fruits were picked by the contract, which lists them in order
+      const dropped = saved.chainSessionId ? (await chainRef.current.resume(saved.chainSessionId)).dropped : null
+      if (cancelled || startedRef.current) return
+      const game = dropped ? replayChainGame(saved.seed, saved.log, dropped) : MergeGame.replay(saved.seed, saved.log)
+      sessionIdRef.current = saved.sessionId
+      mountGame(game, !!saved.chainSessionId)
+      setPaused(!game.isOver)
+      // Keep any drops the replay caught up on
+      saveCurrentGame()
     }
+    restore().catch(error => {
+      console.warn('Could not restore the saved game:', error)
+      if (!saved.chainSessionId) return
+      setTxStatus('Error: ' + describeTransactionError(error))
+      setTimeout(() => setTxStatus(''), 5000)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [areAssetsLoaded, mountGame, saveCurrentGame, setPaused, storageKey])
 
-    if (renderRef.current && canvasRef.current) {
-        renderRef.current.canvas.width = gameDimensions.current.width;
-        renderRef.current.canvas.height = gameDimensions.current.height;
+  // Pause when the page is hidden, and save in case it doesn't come back
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState !== 'hidden') return
+      if (playingRef.current) setPaused(true)
+      saveCurrentGame()
+    }
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    window.addEventListener('pagehide', saveCurrentGame)
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      window.removeEventListener('pagehide', saveCurrentGame)
     }
+  }, [saveCurrentGame, setPaused])
 
-    const bodies = Matter.Composite.allBodies(engineRef.current.world)
-    bodies.forEach(body => {
-      if (body.label === 'fruit') {
-        Matter.Composite.remove(engineRef.current!.world, body)
-      }
-    })
+  const startGame = useCallback(async () => {
+    if (!renderRef.current || !areAssetsLoaded || isStarting) return
 
-    if (previewBallRef.current) {
-      Matter.Composite.remove(engineRef.current.world, previewBallRef.current)
+    const onChain = onChainMode && !!account
+    let seed = crypto.getRandomValues(new Uint32Array(1))[0]
+    sessionIdRef.current = null
+    setIsStarting(true)
+    try {
+      if (onChain) {
+        await chainRef.current.start()
+      } else {
+        // The relay picks the seed, so it can replay the game before minting what it earned
+        try {
+          if (!account?.address) throw new Error('No wallet connected')
+          const session = await startGameSession(account.address)
+          sessionIdRef.current = session.sessionId
+          seed = session.seed
+        } catch (error) {
+          console.warn('Playing without a game session:', error)
+          setTxStatus(account ? '⚠️ Sponsor relay unavailable: seeds from this game cannot be minted' : '')
+          if (account) setTimeout(() => setTxStatus(''), 5000)
+        }
+      }
+    } catch (error) {
+      console.error('Error starting the on-chain game:', error)
+      setTxStatus('Error: ' + describeTransactionError(error))
+      setTimeout(() => setTxStatus(''), 5000)
+      return
+    } finally {
+      setIsStarting(false)
     }
 
-    const initialFruit = getRandomDroppableFruitIndex()
-    currentFruitIndexRef.current = initialFruit
-    setDisplayCurrentFruit(initialFruit)
-    
-    const nextFruit = getRandomDroppableFruitIndex()
-    nextFruitIndexRef.current = nextFruit
-    setDisplayNextFruit(nextFruit)
-
-    const preview = generateFruitBody(gameDimensions.current.width / 2, PREVIEW_BALL_Y, initialFruit, {
-      isStatic: true,
-      collisionFilter: { mask: 0x0000 },
-    })
-    previewBallRef.current = preview
-    Matter.Composite.add(engineRef.current.world, preview)
-  }, [generateFruitBody, areAssetsLoaded])
+    // New games are laid out for the current window
+    mountGame(new MergeGame(seed, boardForViewport(window.innerWidth, window.innerHeight)), onChain)
+    setPaused(false)
+    saveCurrentGame()
+  }, [account, areAssetsLoaded, isStarting, mountGame, onChainMode, saveCurrentGame, setPaused])
 
   const resetGame = useCallback(() => {
-    if (!engineRef.current) return
-
-    const bodies = Matter.Composite.allBodies(engineRef.current.world)
-    bodies.forEach(body => {
-      if (body.label === 'fruit') {
-        Matter.Composite.remove(engineRef.current!.world, body)
-      }
-    })
-
-    previewBallRef.current = null
-    startGame()
+    playingRef.current = false
+    void startGame()
   }, [startGame])
 
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!gameStarted || isGameOver || !previewBallRef.current) return
-    if (gameStateRef.current !== GameState.READY) return
-
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (!rect) return
+  const mintSeedsOnChain = async () => {
+    const game = gameRef.current
+    if (!account?.address) {
+      setTxStatus('❌ Connect wallet first')
+      setTimeout(() => setTxStatus(''), 3000)
+      return
+    }
+    if (seedsPending === 0 || !game) {
+      setTxStatus('❌ No seeds to mint')
+      setTimeout(() => setTxStatus(''), 3000)
+      return
+    }
+    if (!sessionIdRef.current) {
+      setTxStatus('❌ This game was played offline from the relay; its seeds cannot be minted')
+      setTimeout(() => setTxStatus(''), 5000)
+      return
+    }
+    
+    setTxStatus(`🌱 Minting ${seedsPending} seeds...`)
+    setIsPending(true)
+    
+    try {
+      // The relay replays the drops and mints what they earned; a retry after an error
+      // never mints the same seeds twice
+      const claim = await claimGameSeeds(sessionIdRef.current, game.log())
+      // Refreshes the SEED balance shown in the top bar
+      if (claim.digest) await syncTransaction(claim.digest)
+
+      onSeedsHarvested?.(claim.mintedSeeds)
+      setTxStatus(claim.verifiedSeeds < seedsPending
+        ? `🎉 Minted ${claim.mintedSeeds} seeds (the relay verified ${claim.verifiedSeeds})`
+        : `🎉 Minted ${claim.mintedSeeds} seeds!`)
+      setSeedsPending(0)
+      
+      setTimeout(() => {
+        resetGame()
+        setTxStatus('')
+      }, 2000)
+    } catch (error) {
+      console.error('Error minting seeds:', error)
+      setTxStatus('Error: ' + describeTransactionError(error))
+      setTimeout(() => setTxStatus(''), 5000)
+    } finally {
+      setIsPending(false)
+    }
+  }
 
-    const scaleX = gameDimensions.current.width / rect.width
-    const relativeX = (e.clientX - rect.left) * scaleX
+  // On chain: start_claim, then five more drops, then complete_harvest
+  const startChainClaim = async () => {
+    setTxStatus(`🌾 Claiming ${chain.session?.seedsPending ?? 0} seeds...`)
+    setIsPending(true)
+    try {
+      await chain.startClaim()
+      setTxStatus('🌾 Drop 5 more fruits to harvest!')
+      setTimeout(() => setTxStatus(''), 3000)
+    } catch (error) {
+      console.error('Error starting claim:', error)
+      setTxStatus('Error: ' + describeTransactionError(error))
+      setTimeout(() => setTxStatus(''), 5000)
+    } finally {
+      setIsPending(false)
+    }
+  }
 
-    const scale = gameDimensions.current.scale
-    const currentRadius = FRUITS[currentFruitIndexRef.current].radius * scale
-    
-    const x = Math.max(
-      currentRadius + WALL_THICKNESS,
-      Math.min(gameDimensions.current.width - currentRadius - WALL_THICKNESS, relativeX)
-    )
+  const harvestChainSeeds = async () => {
+    const game = gameRef.current
+    if (!game) return
+    const pending = chain.session?.seedsPending ?? 0
+    setTxStatus('🌾 Harvesting...')
+    setIsPending(true)
+    try {
+      // The relay replays the drops; the contract mints no more than the replay earned
+      const harvested = await chain.harvest(game.log())
+      onSeedsHarvested?.(harvested)
+      setTxStatus(harvested < pending
+        ? `🎉 Harvested ${harvested} of ${pending} seeds (the relay's replay earned fewer)`
+        : `🎉 Harvested ${harvested} seeds!`)
+      setTimeout(() => setTxStatus(''), 3000)
+    } catch (error) {
+      console.error('Error harvesting seeds:', error)
+      setTxStatus('Error: ' + describeTransactionError(error))
+      setTimeout(() => setTxStatus(''), 5000)
+    } finally {
+      setIsPending(false)
+    }
+  }
 
-    Matter.Body.setPosition(previewBallRef.current, { x, y: PREVIEW_BALL_Y })
-  }, [gameStarted, isGameOver])
+  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!playingRef.current || pausedRef.current) return
+    previewXRef.current = boardX(e, boardRef.current.width)
+  }, [])
 
   const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!gameStarted) {
+    const game = gameRef.current
+    if (!playingRef.current || pausedRef.current || !game) return
+
+    const x = boardX(e, boardRef.current.width)
+    previewXRef.current = x
+    if (!playingOnChainRef.current) {
+      // Ignored during the cooldown after the last drop
+      if (game.drop(x)) {
+        setDisplayNextFruit(game.nextFruit)
+        saveCurrentGame()
+      }
       return
     }
 
-    if (isGameOver || gameStateRef.current !== GameState.READY) return
-    if (!engineRef.current || !previewBallRef.current) return
-
-    const rect = canvasRef.current?.getBoundingClientRect()
-    if (!rect) return
-
-    const scaleX = gameDimensions.current.width / rect.width
-    const relativeX = (e.clientX - rect.left) * scaleX
-
-    const scale = gameDimensions.current.scale
-    const currentRadius = FRUITS[currentFruitIndexRef.current].radius * scale
-    
-    const x = Math.max(
-      currentRadius + WALL_THICKNESS,
-      Math.min(gameDimensions.current.width - currentRadius - WALL_THICKNESS, relativeX)
-    )
-
-    gameStateRef.current = GameState.DROP
-
-    Matter.Composite.remove(engineRef.current.world, previewBallRef.current)
-    previewBallRef.current = null
-
-    const droppedFruit = generateFruitBody(x, PREVIEW_BALL_Y, currentFruitIndexRef.current)
-    Matter.Composite.add(engineRef.current.world, droppedFruit)
-
-    currentFruitIndexRef.current = nextFruitIndexRef.current
-    setDisplayCurrentFruit(nextFruitIndexRef.current)
-    setNextFruitSize()
-
-    setTimeout(() => {
-      if (gameStateRef.current === GameState.DROP && engineRef.current) {
-        const preview = generateFruitBody(gameDimensions.current.width / 2, PREVIEW_BALL_Y, currentFruitIndexRef.current, {
-          isStatic: true,
-          collisionFilter: { mask: 0x0000 },
-        })
-        previewBallRef.current = preview
-        Matter.Composite.add(engineRef.current.world, preview)
-        gameStateRef.current = GameState.READY
-      }
-    }, DROP_COOLDOWN)
-  }, [gameStarted, isGameOver, startGame, generateFruitBody, setNextFruitSize])
+    // The fruit falls once drop_fruit has picked it
+    if (droppingRef.current || !game.canDrop()) return
+    if (chainRef.current.session?.claimCompleted) {
+      setTxStatus('🌾 Harvest your seeds before dropping more fruit')
+      setTimeout(() => setTxStatus(''), 3000)
+      return
+    }
+    droppingRef.current = true
+    chainRef.current.drop()
+      .then(sizeIndex => {
+        if (gameRef.current === game && game.drop(x, sizeIndex)) saveCurrentGame()
+      })
+      .catch(error => {
+        console.error('Error dropping fruit:', error)
+        setTxStatus('Error: ' + describeTransactionError(error))
+        setTimeout(() => setTxStatus(''), 5000)
+      })
+      .finally(() => {
+        droppingRef.current = false
+      })
+  }, [saveCurrentGame])
+
+  const chainSession = playingOnChain ? chain.session : null
+  const shownScore = chainSession ? chainSession.score : score
+  const shownSeeds = chainSession ? chainSession.seedsPending : seedsPending
 
   return (
     <div className="fruit-game" ref={containerRef}>
@@ -557,15 +491,28 @@ export default function FruitGame({ onSeedsHarvested, onGameStateChange }: Fruit
         <div className="game-stats-vertical">
           <div className="v-stat">
             <span className="v-stat-label">SCORE</span>
-            <span className="v-stat-value">{score}</span>
+            <span className="v-stat-value">{shownScore}</span>
           </div>
           
           <div className="v-stat">
             <span className="v-stat-label">🌱 SEEDS</span>
-            <span className="v-stat-value">{seedsPending}</span>
+            <span className="v-stat-value">{shownSeeds}</span>
           </div>
 
-          {gameStarted && !isGameOver && (
+          {chainSession?.isClaiming && !chainSession.claimCompleted && (
+            <div className="v-stat">
+              <span className="v-stat-label">DROPS LEFT</span>
+              <span className="v-stat-value">{chainSession.dropsRemaining}</span>
+            </div>
+          )}
+
+          {gameStarted && !isGameOver && !isPaused && (
+            <button type="button" className="btn-pause" onClick={() => setPaused(true)}>
+              ⏸ PAUSE
+            </button>
+          )}
+
+          {gameStarted && !isGameOver && !playingOnChain && (
             <div className="v-stat next-preview">
               <span className="v-stat-label">NEXT</span>
               <div className="next-preview-box">
@@ -581,7 +528,7 @@ export default function FruitGame({ onSeedsHarvested, onGameStateChange }: Fruit
             ref={canvasRef}
             onMouseMove={handleMouseMove}
             onClick={handleClick}
-            style={{ cursor: (gameStarted && !isGameOver && gameStateRef.current === GameState.READY) ? 'pointer' : 'default' }}
+            style={{ cursor: (gameStarted && !isGameOver) ? 'pointer' : 'default' }}
           />
           
           {!gameStarted && (
@@ -596,19 +543,41 @@ export default function FruitGame({ onSeedsHarvested, onGameStateChange }: Fruit
                     <p>🌱 Same fruits = bigger fruit + seeds</p>
                     <p>🌾 Mint seeds on-chain when ready</p>
                   </div>
-                  <button type="button" className="btn-restart" style={{ fontSize: '1.5rem', padding: '1rem 2.5rem', marginTop: '1rem' }} onClick={startGame}>
-                    ▶ PLAY NOW
+                  {account && !OFFLINE_MODE && (
+                    <label className="chain-mode-toggle">
+                      <input type="checkbox" checked={onChainMode} onChange={e => setOnChainMode(e.target.checked)} />
+                      ⛓️ Play on-chain: every drop and merge is a transaction
+                    </label>
+                  )}
+                  {onChainMode && chain.session && chain.session.seedsPending > 0 && !chain.session.gameOver && (
+                    <p className="connect-hint">Starting over forfeits {chain.session.seedsPending} unharvested seeds</p>
+                  )}
+                  <button type="button" className="btn-restart" style={{ fontSize: '1.5rem', padding: '1rem 2.5rem', marginTop: '1rem' }} onClick={() => void startGame()} disabled={isStarting}>
+                    {isStarting ? '⏳ Starting...' : '▶ PLAY NOW'}
                   </button>
                 </>
               )}
             </div>
           )}
 
+          {isPaused && !isGameOver && (
+            <div className="game-overlay paused">
+              <h2>⏸ Paused</h2>
+              <p>Your game is saved and carries on where you left it.</p>
+              <button type="button" className="btn-restart" onClick={() => setPaused(false)}>
+                ▶ Resume
+              </button>
+            </div>
+          )}
+
           {isGameOver && (
             <div className="game-overlay game-over">
               <h2>💥 Game Over!</h2>
-              <p className="score-display">Score: {score}</p>
-              {seedsPending > 0 && (
+              <p className="score-display">Score: {shownScore}</p>
+              {playingOnChain && (
+                <p className="connect-hint">Seeds that weren't harvested are lost</p>
+              )}
+              {!playingOnChain && seedsPending > 0 && (
                 <div className="harvest-prompt">
                   <p className="seeds-earned">🌱 {seedsPending} seeds earned!</p>
                   {account ? (
@@ -624,7 +593,7 @@ export default function FruitGame({ onSeedsHarvested, onGameStateChange }: Fruit
                   )}
                 </div>
               )}
-              <button type="button" className="btn-restart" onClick={resetGame}>
+              <button type="button" className="btn-restart" onClick={resetGame} disabled={isStarting}>
                 🔄 Play Again
               </button>
             </div>
@@ -632,7 +601,23 @@ export default function FruitGame({ onSeedsHarvested, onGameStateChange }: Fruit
         </div>
       </div>
 
-      {gameStarted && !isGameOver && seedsPending > 0 && (
+      {chainSession && !isGameOver && (chainSession.seedsPending > 0 || chainSession.isClaiming) && (
+        <div className="mint-during-game">
+          {chainSession.claimCompleted ? (
+            <button className="btn-mint" onClick={harvestChainSeeds} disabled={isPending}>
+              {isPending ? '⏳ Harvesting...' : `🌾 Harvest ${chainSession.seedsPending} Seeds`}
+            </button>
+          ) : chainSession.isClaiming ? (
+            <span className="hint">Drop {chainSession.dropsRemaining} more fruits to harvest</span>
+          ) : (
+            <button className="btn-mint" onClick={startChainClaim} disabled={isPending}>
+              {isPending ? '⏳ Claiming...' : `🌾 Claim ${chainSession.seedsPending} Seeds`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {gameStarted && !isGameOver && !playingOnChain && seedsPending > 0 && (
         <div className="mint-during-game">
           {account ? (
             <button 
@@ -740,6 +725,25 @@ export default function FruitGame({ onSeedsHarvested, onGameStateChange }: Fruit
           align-items: center;
         }
         
+        .btn-pause {
+          padding: 6px 12px;
+          border-radius: 12px;
+          border: 2px solid rgba(255, 255, 255, 0.4);
+          background: rgba(0, 0, 0, 0.2);
+          color: #fff;
+          font-weight: 900;
+          cursor: pointer;
+        }
+
+        .chain-mode-toggle {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-top: 1rem;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
         .start-logo-img {
           width: 300px;
           margin-bottom: 2rem;
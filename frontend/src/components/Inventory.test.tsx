@@ -0,0 +1,112 @@
+import { screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it } from 'vitest'
+import Inventory from './Inventory'
+import { renderWithProviders } from '../test/render'
+import { connectFakeWallet, type FakeWallet } from '../test/fakes/wallet'
+import { createPlayer, editObject, inventoryFruit } from '../test/fixtures'
+import type { InventoryFruitData } from '../simulator/objects'
+
+let wallet: FakeWallet
+let inventoryId: string
+
+async function renderInventory(fruits: InventoryFruitData[]) {
+  editObject(inventoryId, 'playerInventory', (inventory) => { inventory.fruits = fruits })
+  const view = renderWithProviders(<Inventory inventoryId={inventoryId} />)
+  await screen.findByText(`${fruits.length} / 20`)
+  return view
+}
+
+const shownWeights = (container: HTMLElement) =>
+  [...container.querySelectorAll('.weight-pill')].map((pill) => pill.textContent)
+
+beforeEach(async () => {
+  wallet = connectFakeWallet()
+  ;({ inventoryId } = await createPlayer())
+})
+
+describe('Inventory', () => {
+  it('filters by rarity and by fruit type', async () => {
+    const user = userEvent.setup()
+    const { container } = await renderInventory([
+      inventoryFruit(1, 1, 11),
+      inventoryFruit(1, 3, 12),
+      inventoryFruit(2, 1, 21),
+      inventoryFruit(2, 3, 22),
+    ])
+    expect(shownWeights(container)).toEqual(['11g', '12g', '21g', '22g'])
+
+    await user.click(screen.getByRole('button', { name: 'Rare' }))
+    expect(shownWeights(container)).toEqual(['12g', '22g'])
+
+    // One button per type in the inventory, labelled with its count
+    const typeButtons = within(container.querySelector<HTMLElement>('.type-filter')!).getAllByRole('button')
+    expect(typeButtons.map((button) => button.textContent?.trim())).toEqual(['All Types', '2', '2'])
+    await user.click(typeButtons[2])
+    expect(shownWeights(container)).toEqual(['22g'])
+
+    await user.click(screen.getByRole('button', { name: 'All Rarities' }))
+    expect(shownWeights(container)).toEqual(['21g', '22g'])
+    await user.click(screen.getByRole('button', { name: 'All Types' }))
+    expect(shownWeights(container)).toHaveLength(4)
+  })
+
+  it('shows ten fruits a page and goes back to the first page when a filter changes', async () => {
+    const user = userEvent.setup()
+    const fruits = Array.from({ length: 20 }, (_, i) => inventoryFruit(1, i < 15 ? 1 : 2, 100 + i))
+    const { container } = await renderInventory(fruits)
+
+    expect(screen.getByText('1 / 2')).toBeInTheDocument()
+    expect(shownWeights(container)).toHaveLength(10)
+    expect(screen.getByRole('button', { name: '≪' })).toBeDisabled()
+
+    await user.click(screen.getByRole('button', { name: '＞' }))
+    expect(screen.getByText('2 / 2')).toBeInTheDocument()
+    expect(shownWeights(container)[0]).toBe('110g')
+    expect(screen.getByRole('button', { name: '≫' })).toBeDisabled()
+
+    await user.click(screen.getByRole('button', { name: 'Common' }))
+    expect(screen.getByText('1 / 2')).toBeInTheDocument()
+    expect(shownWeights(container)[0]).toBe('100g')
+
+    // Five uncommon fruits fit on one page, so there is nothing to page through
+    await user.click(screen.getByRole('button', { name: 'Uncommon' }))
+    expect(shownWeights(container)).toEqual(['115g', '116g', '117g', '118g', '119g'])
+    expect(screen.queryByRole('button', { name: '＞' })).not.toBeInTheDocument()
+  })
+
+  it('mints the selected fruits as NFTs in one transaction', async () => {
+    const user = userEvent.setup()
+    const { container } = await renderInventory([
+      inventoryFruit(1, 1, 11),
+      inventoryFruit(2, 2, 22),
+      inventoryFruit(3, 3, 33),
+    ])
+
+    await user.click(screen.getByRole('button', { name: '✨ Select to Mint' }))
+    const items = container.querySelectorAll<HTMLElement>('.inventory-item-large')
+    await user.click(items[0])
+    await user.click(items[2])
+    await user.click(screen.getByRole('button', { name: '💎 Mint 2 NFTs' }))
+
+    await screen.findByText('✅ Successfully minted 2 NFTs!')
+    expect(wallet.sponsoredTransactions).toHaveLength(1)
+    // Removing the highest index first keeps the other selected index valid
+    await waitFor(() => expect(shownWeights(container)).toEqual(['22g']))
+    const nfts = wallet.simulator.chain.ownedBy(wallet.account.address)
+      .flatMap((object) => object.data.kind === 'fruitNft' ? [object.data.weight] : [])
+    expect(nfts.sort((a, b) => a - b)).toEqual([11, 33])
+  })
+
+  it('selects every fruit with Select All', async () => {
+    const user = userEvent.setup()
+    await renderInventory([inventoryFruit(1, 1, 11), inventoryFruit(2, 1, 21)])
+
+    await user.click(screen.getByRole('button', { name: '✨ Select to Mint' }))
+    await user.click(screen.getByRole('button', { name: 'Select All' }))
+    expect(screen.getByRole('button', { name: '💎 Mint 2 NFTs' })).toBeEnabled()
+
+    await user.click(screen.getByRole('button', { name: 'Deselect All' }))
+    expect(screen.getByRole('button', { name: '💎 Mint 0 NFTs' })).toBeDisabled()
+  })
+})
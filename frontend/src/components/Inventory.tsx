@@ -2,7 +2,16 @@ import { useState, useEffect, useMemo } from 'react'
 import { useSuiClient, useCurrentAccount } from '@mysten/dapp-kit'
 import { Transaction } from '@mysten/sui/transactions'
 import { useSponsoredTransaction } from '../hooks/useSponsoredTransaction'
-import { PACKAGE_ID, SEED_ADMIN_CAP } from '../config/sui'
+import { useOptimisticState } from '../hooks/useOptimisticState'
+import { useFarmSession } from '../hooks/useFarmSession'
+import { useInventory } from '../hooks/useGameQueries'
+import { useSyncTransaction } from '../hooks/useSyncTransaction'
+import { describeTransactionError } from '../utils/moveErrors'
+import { addSeedPayment } from '../utils/seedWallet'
+import { decodeObject, decodePlayerAccount } from 'fruit-merge-shared/objectDecoders'
+import { isStatusUnknown } from '../utils/resilientExecution'
+import { PACKAGE_ID } from '../config/sui'
+import { fruitNft, player } from '../bindings'
 
 // Fruit Assets
 import imgCherry from '../assets/fruit/Cherry.png'
@@ -16,7 +25,6 @@ import imgPineapple from '../assets/fruit/Thơm.png'
 import imgMelon from '../assets/fruit/Dưa lưới.png'
 import imgWatermelon from '../assets/fruit/Dưa hấu.png'
 
-const SEED_COIN_TYPE = `${PACKAGE_ID}::seed::SEED`
 const SEED_DECIMALS = 1_000_000_000n
 const INVENTORY_UPGRADE_BASE_COST = 200n
 const INVENTORY_SLOTS_PER_UPGRADE = 10
@@ -51,21 +59,38 @@ interface InventoryFruit {
 interface InventoryProps {
   inventoryId: string | null
   playerId?: string | null
-  refreshTrigger?: number
-  onUpdate?: () => void
   playerSeeds?: number
   onRequestMerge?: (fruitType: number) => void
 }
 
-export default function Inventory({ inventoryId, refreshTrigger, onUpdate, playerSeeds = 0, onRequestMerge }: InventoryProps) {
+export default function Inventory({ inventoryId, playerSeeds = 0, onRequestMerge }: InventoryProps) {
   const account = useCurrentAccount()
   const suiClient = useSuiClient()
-  const { mutate: signAndExecute, isPending: isTxPending } = useSponsoredTransaction()
+  const { mutate: signAndExecute, isPending: isTxPending, lastExecutionPath } = useSponsoredTransaction()
+  const syncTransaction = useSyncTransaction()
   
-  const [fruits, setFruits] = useState<InventoryFruit[]>([])
-  const [maxSlots, setMaxSlots] = useState(20)
-  const [isLoading, setIsLoading] = useState(false)
+  const { data: inventory, isLoading } = useInventory(inventoryId)
+  const confirmedFruits = useMemo<InventoryFruit[]>(
+    () => inventory?.fruits.map((fruit, idx) => ({
+      fruit_type: fruit.fruitType,
+      rarity: fruit.rarity,
+      weight: fruit.weight,
+      originalIndex: idx,
+    })) ?? [],
+    [inventory]
+  )
+  const [fruits, applyToFruits] = useOptimisticState(confirmedFruits)
+  const maxSlots = inventory?.maxSlots ?? 20
   const [txStatus, setTxStatus] = useState('')
+  const { session: farmSession } = useFarmSession()
+
+  // Minting and upgrading need the inventory in the wallet, not held by a farm session
+  const inventoryInSession = () => {
+    if (!farmSession || farmSession.inventoryId !== inventoryId) return false
+    setTxStatus('🔒 End your farm session first')
+    setTimeout(() => setTxStatus(''), 3000)
+    return true
+  }
   const [selectedType, setSelectedType] = useState<number | null>(null)
   const [selectedRarity, setSelectedRarity] = useState<number | null>(null)
   const [isSelectionMode, setIsSelectionMode] = useState(false)
@@ -73,31 +98,6 @@ export default function Inventory({ inventoryId, refreshTrigger, onUpdate, playe
   const [currentPage, setCurrentPage] = useState(1)
   const [actionFruit, setActionFruit] = useState<InventoryFruit | null>(null)
 
-  useEffect(() => {
-    async function fetchInventory() {
-      if (!inventoryId) return
-      setIsLoading(true)
-      try {
-        const obj = await suiClient.getObject({ id: inventoryId, options: { showContent: true } })
-        if (obj.data?.content?.dataType === 'moveObject') {
-           const fields = obj.data.content.fields as any
-           const inventoryFruits = fields.fruits || []
-           setMaxSlots(Number(fields.max_slots || 20))
-           setFruits(inventoryFruits.map((f: any, idx: number) => {
-             const fruitData = f.fields || f
-             return {
-               fruit_type: Number(fruitData.fruit_type || 0),
-               rarity: Number(fruitData.rarity || 1),
-               weight: Number(fruitData.weight || 100),
-               originalIndex: idx 
-             }
-           }))
-        }
-      } catch (err) { console.error(err) } finally { setIsLoading(false) }
-    }
-    fetchInventory()
-  }, [inventoryId, suiClient, refreshTrigger])
-
   useEffect(() => { setCurrentPage(1) }, [selectedType, selectedRarity])
 
   const groupedByType = useMemo(() => {
@@ -168,26 +168,30 @@ export default function Inventory({ inventoryId, refreshTrigger, onUpdate, playe
   }
 
   const handleMintSingle = async (fruit: InventoryFruit) => {
-    if (!account?.address || !inventoryId) return
+    if (!account?.address || !inventoryId || inventoryInSession()) return
     setTxStatus('💎 Minting 1 NFT...')
+    const update = applyToFruits(fs => fs.filter(f => f.originalIndex !== fruit.originalIndex))
     try {
       const tx = new Transaction()
-      tx.moveCall({ target: `${PACKAGE_ID}::fruit_nft::mint_from_inventory`, arguments: [tx.object(inventoryId), tx.pure.u64(fruit.originalIndex)] })
+      fruitNft.mintFromInventory(tx, { inventory: inventoryId, fruitIndex: fruit.originalIndex })
 
       signAndExecute({ transaction: tx }, {
         onSuccess: async (result) => {
-          await suiClient.waitForTransaction({ digest: result.digest })
+          await syncTransaction(result.digest)
           setTxStatus('✅ NFT minted!')
-          onUpdate?.()
+          update.commit()
           setActionFruit(null)
           setTimeout(() => setTxStatus(''), 3000)
         },
         onError: (error) => {
-          setTxStatus('❌ Mint Failed: ' + error.message)
+          if (isStatusUnknown(error)) { setTxStatus('⏳ ' + describeTransactionError(error)); return }
+          update.rollback()
+          setTxStatus('↩️ Mint undone: ' + describeTransactionError(error))
           setTimeout(() => setTxStatus(''), 5000)
         }
       })
     } catch (err) {
+      update.rollback()
       setTxStatus('❌ Error creating transaction')
     }
   }
@@ -198,45 +202,51 @@ export default function Inventory({ inventoryId, refreshTrigger, onUpdate, playe
   }
 
   const handleBatchMint = async () => {
-    if (!account?.address || !inventoryId || selectedIndices.length === 0) return;
+    if (!account?.address || !inventoryId || selectedIndices.length === 0 || inventoryInSession()) return;
     setTxStatus(`💎 Minting ${selectedIndices.length} NFTs...`);
+    const minted = new Set(selectedIndices)
+    const update = applyToFruits(fs => fs.filter(f => !minted.has(f.originalIndex)))
     try {
       const tx = new Transaction();
       const sortedIndices = [...selectedIndices].sort((a, b) => b - a);
       for (const index of sortedIndices) {
-        tx.moveCall({ target: `${PACKAGE_ID}::fruit_nft::mint_from_inventory`, arguments: [tx.object(inventoryId), tx.pure.u64(index)] });
+        fruitNft.mintFromInventory(tx, { inventory: inventoryId, fruitIndex: index });
       }
       signAndExecute({ transaction: tx }, {
         onSuccess: async (result) => {
-          await suiClient.waitForTransaction({ digest: result.digest });
+          await syncTransaction(result.digest);
           setTxStatus(`✅ Successfully minted ${selectedIndices.length} NFTs!`);
-          onUpdate?.(); setIsSelectionMode(false); setSelectedIndices([]); setTimeout(() => setTxStatus(''), 3000);
+          update.commit();
+          setIsSelectionMode(false); setSelectedIndices([]); setTimeout(() => setTxStatus(''), 3000);
         },
-        onError: (error) => { setTxStatus('❌ Mint Failed: ' + error.message); setTimeout(() => setTxStatus(''), 5000); }
+        onError: (error) => {
+          if (isStatusUnknown(error)) { setTxStatus('⏳ ' + describeTransactionError(error)); return }
+          update.rollback(); setTxStatus('↩️ Mint undone: ' + describeTransactionError(error)); setTimeout(() => setTxStatus(''), 5000);
+        }
       });
-    } catch (err) { setTxStatus('❌ Error creating transaction'); }
+    } catch (err) { update.rollback(); setTxStatus('❌ Error creating transaction'); }
   };
 
   const upgradeInventory = async () => {
-    if (!account?.address || !inventoryId) return
+    if (!account?.address || !inventoryId || inventoryInSession()) return
     const upgradeCost = calculateUpgradeCost(maxSlots)
     const neededSeeds = Number(upgradeCost)
     if (playerSeeds < neededSeeds) { setTxStatus(`❌ Need ${neededSeeds} SEED`); return }
     
-    const objects = await suiClient.getOwnedObjects({ owner: account.address, filter: { StructType: `${PACKAGE_ID}::player::PlayerAccount` }, options: { showType: true } })
-    const playerObj = objects.data[0]; if (!playerObj?.data?.objectId) return
+    const objects = await suiClient.getOwnedObjects({ owner: account.address, filter: { StructType: `${PACKAGE_ID}::player::PlayerAccount` }, options: { showContent: true } })
+    if (!objects.data[0]) { setTxStatus('❌ No player account found'); return }
+    let playerAccount
+    try { playerAccount = decodeObject(objects.data[0], decodePlayerAccount) }
+    catch (err) { console.error(err); setTxStatus('❌ Could not read your player account'); return }
     setTxStatus('⬆️ Upgrading...');
     
-    const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })     
-    if (seedCoins.data.length === 0) return
-    
     const tx = new Transaction()
-    if (seedCoins.data.length > 1) tx.mergeCoins(tx.object(seedCoins.data[0].coinObjectId), seedCoins.data.slice(1).map(c => tx.object(c.coinObjectId)))
-    
-    const [payment] = tx.splitCoins(tx.object(seedCoins.data[0].coinObjectId), [tx.pure.u64(upgradeCost * SEED_DECIMALS)])
-    tx.moveCall({ target: `${PACKAGE_ID}::player::upgrade_inventory`, arguments: [tx.object(playerObj.data.objectId), tx.object(inventoryId), payment, tx.object(SEED_ADMIN_CAP)] })
+    let payment
+    try { payment = await addSeedPayment(tx, suiClient, account.address, upgradeCost * SEED_DECIMALS) }
+    catch (err) { setTxStatus('❌ ' + describeTransactionError(err)); return }
+    player.upgradeInventory(tx, { player: playerAccount.id, inventory: inventoryId, payment })
     
-    signAndExecute({ transaction: tx }, { onSuccess: async (result) => { await suiClient.waitForTransaction({ digest: result.digest }); onUpdate?.(); setTxStatus('✅ Upgraded!'); setTimeout(() => setTxStatus(''), 3000); } })
+    signAndExecute({ transaction: tx }, { onSuccess: async (result) => { await syncTransaction(result.digest); setTxStatus('✅ Upgraded!'); setTimeout(() => setTxStatus(''), 3000); }, onError: (error) => setTxStatus('❌ Upgrade Failed: ' + describeTransactionError(error)) })
   }
 
   const isFull = fruits.length >= maxSlots
@@ -319,7 +329,7 @@ export default function Inventory({ inventoryId, refreshTrigger, onUpdate, playe
         </div>
       )}
 
-      {txStatus && <div className="tx-status">{isTxPending && <span className="spinner">⏳</span>}{txStatus}</div>}
+      {txStatus && <div className="tx-status">{isTxPending && <span className="spinner">⏳</span>}{txStatus}{lastExecutionPath === 'self-paid' && <span className="gas-path-note">⛽ Paid with your gas</span>}</div>}
 
       {isLoading ? <div className="loading">Loading...</div> : fruits.length === 0 ? (
         <div className="empty-state"><div className="empty-icon">🌾</div><h3>Empty Inventory</h3><p>Harvest fruits to see them here!</p></div>
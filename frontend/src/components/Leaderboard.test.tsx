@@ -0,0 +1,93 @@
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { beforeEach, describe, expect, it } from 'vitest'
+import Leaderboard from './Leaderboard'
+import { renderWithProviders } from '../test/render'
+import { connectFakeWallet, type FakeWallet } from '../test/fakes/wallet'
+import { createPlayer, createRound, editObject, inventoryFruit, joinRound } from '../test/fixtures'
+
+let wallet: FakeWallet
+
+const short = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+/** Join the round as a new player whose heaviest fruit of the round's type weighs `weight` */
+async function joinAs(round: { roundId: string; fruitType: number }, weight: number, signer?: Ed25519Keypair) {
+  const { inventoryId } = await createPlayer(signer)
+  editObject(inventoryId, 'playerInventory', (inventory) => {
+    inventory.fruits = [inventoryFruit(round.fruitType, 1, weight), inventoryFruit(round.fruitType, 1, 1)]
+  })
+  await joinRound(round.roundId, inventoryId, signer)
+  return { address: signer?.toSuiAddress() ?? wallet.account.address, inventoryId }
+}
+
+const podium = (place: 'first' | 'second' | 'third') =>
+  document.querySelector(`.podium-item.${place} .addr`)?.textContent
+
+const listedScores = () =>
+  [...document.querySelectorAll('.rank-row')].map((row) => [
+    row.querySelector('.rank-num')?.textContent,
+    row.querySelector('.rank-score')?.textContent,
+  ])
+
+beforeEach(() => {
+  wallet = connectFakeWallet()
+})
+
+describe('Leaderboard', () => {
+  it('offers to start a season when no round exists', async () => {
+    renderWithProviders(<Leaderboard inventoryId={null} />)
+
+    expect(await screen.findByText('No tournament active')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'START NEW SEASON' })).toBeInTheDocument()
+  })
+
+  it('ranks entries by their heaviest fruit', async () => {
+    const round = await createRound()
+    const light = await joinAs(round, 40, new Ed25519Keypair())
+    const heavy = await joinAs(round, 1500, new Ed25519Keypair())
+    const middle = await joinAs(round, 150, new Ed25519Keypair())
+
+    renderWithProviders(<Leaderboard inventoryId={null} />)
+
+    await screen.findByText('All Participants (3)')
+    await waitFor(() => expect(listedScores()).toEqual([['#1', '1.50kg'], ['#2', '150g'], ['#3', '40g']]))
+    expect(podium('first')).toBe(short(heavy.address))
+    expect(podium('second')).toBe(short(middle.address))
+    expect(podium('third')).toBe(short(light.address))
+  })
+
+  it('leaves empty podium places blank', async () => {
+    const round = await createRound()
+    const only = await joinAs(round, 100, new Ed25519Keypair())
+
+    renderWithProviders(<Leaderboard inventoryId={null} />)
+
+    await waitFor(() => expect(podium('first')).toBe(short(only.address)))
+    expect(podium('second')).toBe('---')
+    expect(podium('third')).toBe('---')
+  })
+
+  it('moves the player up after they update their score', async () => {
+    const user = userEvent.setup()
+    const round = await createRound()
+    await joinAs(round, 500, new Ed25519Keypair())
+    const me = await joinAs(round, 200)
+
+    renderWithProviders(<Leaderboard inventoryId={me.inventoryId} />)
+
+    const myRow = await screen.findByText(`${short(me.address)} (You)`)
+    await waitFor(() => expect(listedScores()).toEqual([['#1', '500g'], ['#2', '200g']]))
+    expect(screen.queryByRole('button', { name: /JOIN COMPETITION/ })).not.toBeInTheDocument()
+    expect(myRow.closest('.rank-row')).toHaveClass('is-me')
+
+    editObject(me.inventoryId, 'playerInventory', (inventory) => {
+      inventory.fruits.push(inventoryFruit(round.fruitType, 2, 800))
+    })
+    await user.click(screen.getByRole('button', { name: 'UPDATE MY SCORE' }))
+
+    await screen.findByText('✅ Score Updated!')
+    await waitFor(() => expect(listedScores()).toEqual([['#1', '800g'], ['#2', '500g']]))
+    expect(podium('first')).toBe(short(me.address))
+  })
+})
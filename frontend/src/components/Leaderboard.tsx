@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback } from 'react'
-import { useSuiClient, useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit'
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit'
 import { Transaction } from '@mysten/sui/transactions'
 import { useSponsoredTransaction } from '../hooks/useSponsoredTransaction'
-import { PACKAGE_ID, CLOCK_OBJECT, RANDOM_OBJECT, LEADERBOARD_CONFIG_ID } from '../config/sui'
+import { useCurrentRound } from '../hooks/useGameQueries'
+import { useSyncTransaction } from '../hooks/useSyncTransaction'
+import { describeTransactionError } from '../utils/moveErrors'
+import { leaderboard } from '../bindings'
 
 // Fruit Assets
 import imgCherry from '../assets/fruit/Cherry.png'
@@ -18,7 +21,6 @@ import imgWatermelon from '../assets/fruit/Dưa hấu.png'
 
 const JOIN_FEE_MIST = 10_000_000 
 const SUI_DECIMALS = 1_000_000_000
-const LEADERBOARD_ROUND_TYPE = `${PACKAGE_ID}::leaderboard::LeaderboardRound`
 
 const FRUITS = [
   { level: 1, image: imgCherry, name: 'Cherry' },
@@ -33,127 +35,43 @@ const FRUITS = [
   { level: 10, image: imgWatermelon, name: 'Watermelon' },
 ]
 
-interface LeaderboardEntry { player: string; best_weight: number; last_updated: number; joined_at: number }
-interface LeaderboardRound {
-  objectId: string; roundId: number; fruitType: number; startTime: number; endTime: number; participantCount: number;
-  isActive: boolean; prizePool: number; prizesDistributed: boolean; firstPlace: string; firstWeight: number;
-  secondPlace: string; secondWeight: number; thirdPlace: string; thirdWeight: number;
-}
+interface LeaderboardProps { inventoryId: string | null }
 
-interface LeaderboardProps { inventoryId: string | null; onUpdate?: () => void }
-
-export default function Leaderboard({ inventoryId, onUpdate }: LeaderboardProps) {
-  const account = useCurrentAccount(); const suiClient = useSuiClient()
+export default function Leaderboard({ inventoryId }: LeaderboardProps) {
+  const account = useCurrentAccount()
   const { mutate: signAndExecute } = useSignAndExecuteTransaction()
   const { mutate: signAndExecuteSponsored } = useSponsoredTransaction()
+  const syncTransaction = useSyncTransaction()
   
-  const [currentRound, setCurrentRound] = useState<LeaderboardRound | null>(null)
-  const [entries, setEntries] = useState<LeaderboardEntry[]>([])
-  const [myEntry, setMyEntry] = useState<LeaderboardEntry | null>(null)
-  const [, setIsLoading] = useState(true); const [txStatus, setTxStatus] = useState('')
+  const { round: currentRound, entries } = useCurrentRound()
+  // Case-insensitive search
+  const myEntry = account ? entries.find(e => e.player.toLowerCase() === account.address.toLowerCase()) ?? null : null
+  const [txStatus, setTxStatus] = useState('')
   const [timeRemaining, setTimeRemaining] = useState<string>(''); const [isAutoStarting, setIsAutoStarting] = useState(false)
 
-  const findLatestRound = useCallback(async (): Promise<string | null> => {
-    try {
-      const events = await suiClient.queryEvents({ query: { MoveEventType: `${PACKAGE_ID}::leaderboard::RoundCreated` }, limit: 1, order: 'descending' })
-      if (events.data.length === 0) return null
-      const txDetails = await suiClient.getTransactionBlock({ digest: events.data[0].id.txDigest, options: { showObjectChanges: true } })
-      const createdRound = txDetails.objectChanges?.find((c: any) => c.type === 'created' && c.objectType === LEADERBOARD_ROUND_TYPE)
-      return (createdRound && 'objectId' in createdRound) ? createdRound.objectId : null
-    } catch (err) { return null }
-  }, [suiClient])
-
-  const fetchRoundData = useCallback(async (roundObjectId: string) => {
-    try {
-      const obj = await suiClient.getObject({ id: roundObjectId, options: { showContent: true } })
-      if (obj.data?.content?.dataType === 'moveObject') {
-        const f = obj.data.content.fields as any
-        const p = f.prize_pool?.fields || f.prize_pool
-        const round: LeaderboardRound = {
-          objectId: roundObjectId, roundId: Number(f.round_id), fruitType: Number(f.fruit_type),
-          startTime: Number(f.start_time), endTime: Number(f.end_time), participantCount: Number(f.participant_count),
-          isActive: f.is_active === true, prizePool: Number(p?.value || 0), prizesDistributed: f.prizes_distributed === true,
-          firstPlace: f.first_place, firstWeight: Number(f.first_weight), secondPlace: f.second_place,
-          secondWeight: Number(f.second_weight), thirdPlace: f.third_place, thirdWeight: Number(f.third_weight),
-        }
-        setCurrentRound(round)
-        if (f.entries?.fields?.id?.id) await fetchEntries(f.entries.fields.id.id, round.participantCount)
-        return round
-      }
-    } catch (err) { return null }
-  }, [suiClient])
-
-  const fetchEntries = async (tableId: string, _count: number) => {
-    try {
-      const fields = await suiClient.getDynamicFields({ parentId: tableId, limit: 50 })
-      const data: LeaderboardEntry[] = []
-      
-      for (const f of fields.data) {
-        const obj = await suiClient.getDynamicFieldObject({ parentId: tableId, name: f.name })
-        
-        if (obj.data?.content?.dataType === 'moveObject') {
-          // Robust extraction logic
-          const contentFields = obj.data.content.fields as any
-          // The 'value' might be directly in fields, or nested inside 'value.fields', or simply 'value'
-          const val = contentFields.value?.fields || contentFields.value || contentFields
-          
-          // Ensure we have the required fields before pushing
-          if (val && (val.player || f.name.value)) {
-             data.push({ 
-               player: val.player || f.name.value, // Fallback to field name if player field is missing
-               best_weight: Number(val.best_weight || 0), 
-               last_updated: Number(val.last_updated || 0), 
-               joined_at: Number(val.joined_at || 0) 
-             })
-          }
-        }
-      }
-      
-      // Deduplicate logic
-      const uniqueMap = new Map<string, LeaderboardEntry>()
-      data.forEach(e => {
-         const existing = uniqueMap.get(e.player)
-         if (!existing || e.best_weight > existing.best_weight) uniqueMap.set(e.player, e)
-      })
-      const uniqueEntries = Array.from(uniqueMap.values())
-      
-      uniqueEntries.sort((a, b) => b.best_weight - a.best_weight)
-      setEntries(uniqueEntries)
-      
-      if (account?.address) {
-        // Case-insensitive search
-        const myAddr = account.address.toLowerCase()
-        const myEntryData = uniqueEntries.find(e => e.player === account.address || e.player.toLowerCase() === myAddr)
-        setMyEntry(myEntryData || null)
-      }
-    } catch (err) { console.error("Fetch entries error:", err) }
-  }
-
   const createNewRound = useCallback(async () => {
     if (!account) return null
     setIsAutoStarting(true); setTxStatus('🎲 Creating Round...')
     const tx = new Transaction()
-    tx.moveCall({ target: `${PACKAGE_ID}::leaderboard::create_new_round`, arguments: [tx.object(LEADERBOARD_CONFIG_ID), tx.object(CLOCK_OBJECT), tx.object(RANDOM_OBJECT)] })
+    leaderboard.createNewRound(tx)
     signAndExecuteSponsored({ transaction: tx }, {
-      onSuccess: async () => {
+      onSuccess: async (result) => {
+        await syncTransaction(result.digest)
         setTxStatus('✅ New Tournament Started!')
-        setTimeout(async () => {
-          setTxStatus(''); setIsAutoStarting(false); const id = await findLatestRound();
-          if (id) await fetchRoundData(id); onUpdate?.()
-        }, 2000)
+        setTimeout(() => { setTxStatus(''); setIsAutoStarting(false) }, 2000)
       },
-      onError: (err) => { setTxStatus(`❌ Failed: ${err.message}`); setIsAutoStarting(false) }
+      onError: (err) => { setTxStatus(`❌ Failed: ${describeTransactionError(err)}`); setIsAutoStarting(false) }
     })
-  }, [account, signAndExecuteSponsored, findLatestRound, fetchRoundData, onUpdate])
+  }, [account, signAndExecuteSponsored, syncTransaction])
 
   const joinLeaderboard = async () => {
     if (!account || !inventoryId || !currentRound) return
     setTxStatus('💰 Joining...')
     const tx = new Transaction(); const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(JOIN_FEE_MIST)])
-    tx.moveCall({ target: `${PACKAGE_ID}::leaderboard::join_leaderboard`, arguments: [tx.object(currentRound.objectId), tx.object(inventoryId), coin, tx.object(CLOCK_OBJECT)] })
+    leaderboard.joinLeaderboard(tx, { round: currentRound.id, inventory: inventoryId, payment: coin })
     signAndExecute({ transaction: tx }, {
-      onSuccess: () => { setTxStatus('✅ Joined!'); setTimeout(() => { setTxStatus(''); fetchRoundData(currentRound.objectId); onUpdate?.() }, 2000) },
-      onError: (err) => setTxStatus(`❌ Failed: ${err.message}`)
+      onSuccess: async (result) => { await syncTransaction(result.digest); setTxStatus('✅ Joined!'); setTimeout(() => setTxStatus(''), 2000) },
+      onError: (err) => setTxStatus(`❌ Failed: ${describeTransactionError(err)}`)
     })
   }
 
@@ -161,10 +79,10 @@ export default function Leaderboard({ inventoryId, onUpdate }: LeaderboardProps)
     if (!account || !inventoryId || !currentRound) return
     setTxStatus('🔄 Updating Score...')
     const tx = new Transaction()
-    tx.moveCall({ target: `${PACKAGE_ID}::leaderboard::update_entry`, arguments: [tx.object(currentRound.objectId), tx.object(inventoryId), tx.object(CLOCK_OBJECT)] })
+    leaderboard.updateEntry(tx, { round: currentRound.id, inventory: inventoryId })
     signAndExecuteSponsored({ transaction: tx }, {
-      onSuccess: () => { setTxStatus('✅ Score Updated!'); setTimeout(() => { setTxStatus(''); fetchRoundData(currentRound.objectId); onUpdate?.() }, 2000) },
-      onError: (err) => setTxStatus(`❌ Failed: ${err.message}`)
+      onSuccess: async (result) => { await syncTransaction(result.digest); setTxStatus('✅ Score Updated!'); setTimeout(() => setTxStatus(''), 2000) },
+      onError: (err) => setTxStatus(`❌ Failed: ${describeTransactionError(err)}`)
     })
   }
 
@@ -172,18 +90,13 @@ export default function Leaderboard({ inventoryId, onUpdate }: LeaderboardProps)
     if (!account || !currentRound) return
     setTxStatus('💰 Distributing Prizes...')
     const tx = new Transaction()
-    tx.moveCall({ target: `${PACKAGE_ID}::leaderboard::close_round_and_distribute`, arguments: [tx.object(LEADERBOARD_CONFIG_ID), tx.object(currentRound.objectId), tx.object(CLOCK_OBJECT)] })
+    leaderboard.closeRoundAndDistribute(tx, { round: currentRound.id })
     signAndExecuteSponsored({ transaction: tx }, {
-      onSuccess: () => { setTxStatus('✅ Prizes Distributed!'); setTimeout(() => { setTxStatus(''); fetchRoundData(currentRound.objectId); onUpdate?.() }, 2000) },
-      onError: (err) => setTxStatus(`❌ Failed: ${err.message}`)
+      onSuccess: async (result) => { await syncTransaction(result.digest); setTxStatus('✅ Prizes Distributed!'); setTimeout(() => setTxStatus(''), 2000) },
+      onError: (err) => setTxStatus(`❌ Failed: ${describeTransactionError(err)}`)
     })
   }
 
-  useEffect(() => {
-    const init = async () => { setIsLoading(true); const id = await findLatestRound(); if (id) await fetchRoundData(id); setIsLoading(false) }
-    init()
-  }, [findLatestRound, fetchRoundData])
-
   useEffect(() => {
     if (!currentRound) return
     const update = () => {
@@ -247,7 +160,7 @@ export default function Leaderboard({ inventoryId, onUpdate }: LeaderboardProps)
               <div className="medal">🥈</div>
               <div className="podium-bar">
                 <span className="addr">{entries[1] ? formatAddr(entries[1].player) : '---'}</span>
-                <span className="weight">{entries[1] ? formatW(entries[1].best_weight) : ''}</span>
+                <span className="weight">{entries[1] ? formatW(entries[1].bestWeight) : ''}</span>
               </div>
               <div className="prize-tag highlight">{formatSUI(displayPrizePool * 0.25)}</div>
             </div>
@@ -256,7 +169,7 @@ export default function Leaderboard({ inventoryId, onUpdate }: LeaderboardProps)
               <div className="medal gold">🥇</div>
               <div className="podium-bar">
                 <span className="addr">{entries[0] ? formatAddr(entries[0].player) : '---'}</span>
-                <span className="weight">{entries[0] ? formatW(entries[0].best_weight) : ''}</span>
+                <span className="weight">{entries[0] ? formatW(entries[0].bestWeight) : ''}</span>
               </div>
               <div className="prize-tag gold-glow">{formatSUI(displayPrizePool * 0.50)}</div>
             </div>
@@ -265,7 +178,7 @@ export default function Leaderboard({ inventoryId, onUpdate }: LeaderboardProps)
               <div className="medal">🥉</div>
               <div className="podium-bar">
                 <span className="addr">{entries[2] ? formatAddr(entries[2].player) : '---'}</span>
-                <span className="weight">{entries[2] ? formatW(entries[2].best_weight) : ''}</span>
+                <span className="weight">{entries[2] ? formatW(entries[2].bestWeight) : ''}</span>
               </div>
               <div className="prize-tag highlight">{formatSUI(displayPrizePool * 0.10)}</div>
             </div>
@@ -293,9 +206,9 @@ export default function Leaderboard({ inventoryId, onUpdate }: LeaderboardProps)
                   <div className="rank-num">#{i + 1}</div>
                   <div className="rank-player-info">
                     <span className="rank-addr">{formatAddr(e.player)} {e.player === account?.address && '(You)'}</span>
-                    <span className="rank-date">{new Date(e.last_updated).toLocaleTimeString()}</span>
+                    <span className="rank-date">{new Date(e.lastUpdated).toLocaleTimeString()}</span>
                   </div>
-                  <div className="rank-score">{formatW(e.best_weight)}</div>
+                  <div className="rank-score">{formatW(e.bestWeight)}</div>
                 </div>
               ))}
               {entries.length === 0 && <p className="no-entries">Be the first to join!</p>}
@@ -0,0 +1,96 @@
+import { screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it } from 'vitest'
+import Market from './Market'
+import { renderWithProviders } from '../test/render'
+import { connectFakeWallet, type FakeWallet } from '../test/fakes/wallet'
+import { createPlayer, editObject, inventoryFruit } from '../test/fixtures'
+import type { InventoryFruitData } from '../simulator/objects'
+
+const CHERRY = 1
+const GRAPE = 2
+
+let wallet: FakeWallet
+let inventoryId: string
+
+async function renderMarket(fruits: InventoryFruitData[]) {
+  editObject(inventoryId, 'playerInventory', (inventory) => { inventory.fruits = fruits })
+  return renderWithProviders(<Market inventoryId={inventoryId} />)
+}
+
+const burnWeights = () =>
+  [...document.querySelectorAll('.burn-list .burn-weight')].map((weight) => weight.textContent)
+
+beforeEach(async () => {
+  wallet = connectFakeWallet()
+  ;({ inventoryId } = await createPlayer())
+})
+
+describe('Market', () => {
+  it('offers a merge only for fruit types with ten or more fruits', async () => {
+    await renderMarket([
+      ...Array.from({ length: 10 }, () => inventoryFruit(CHERRY, 1, 10)),
+      ...Array.from({ length: 9 }, () => inventoryFruit(GRAPE, 1, 3)),
+    ])
+
+    const card = (await screen.findByText('Merge 10 ➔ 1 Heavy Cherry')).closest<HTMLElement>('.merge-card')!
+    expect(within(card).getByRole('button', { name: 'MERGE' })).toBeEnabled()
+    expect(screen.getAllByRole('button', { name: 'MERGE' })).toHaveLength(1)
+    expect(screen.queryByText(/Heavy Grape/)).not.toBeInTheDocument()
+  })
+
+  it('selects the last ten fruits of the type, like the contract', async () => {
+    const user = userEvent.setup()
+    // Twelve cherries weighing 1g to 12g, with a grape after each of the first nine
+    await renderMarket(Array.from({ length: 12 }, (_, i) => [
+      inventoryFruit(CHERRY, 1, i + 1),
+      ...(i < 9 ? [inventoryFruit(GRAPE, 1, 3)] : []),
+    ]).flat())
+
+    await user.click(await screen.findByRole('button', { name: 'MERGE' }))
+
+    expect(burnWeights()).toEqual(['12g', '11g', '10g', '9g', '8g', '7g', '6g', '5g', '4g', '3g'])
+    expect(screen.getByText('Total: 75g ➔ New: ~37g')).toBeInTheDocument()
+    expect(screen.queryByText(/Merging Rare\+ fruits/)).not.toBeInTheDocument()
+  })
+
+  it('warns when a Rare or better fruit would be merged', async () => {
+    const user = userEvent.setup()
+    await renderMarket([
+      inventoryFruit(CHERRY, 4, 40),
+      ...Array.from({ length: 9 }, () => inventoryFruit(CHERRY, 1, 10)),
+    ])
+
+    await user.click(await screen.findByRole('button', { name: 'MERGE' }))
+
+    expect(screen.getByText(/Merging Rare\+ fruits/)).toBeInTheDocument()
+  })
+
+  it('leaves out a Rare fruit older than the last ten', async () => {
+    const user = userEvent.setup()
+    await renderMarket([
+      inventoryFruit(CHERRY, 4, 40),
+      ...Array.from({ length: 10 }, () => inventoryFruit(CHERRY, 1, 10)),
+    ])
+
+    await user.click(await screen.findByRole('button', { name: 'MERGE' }))
+
+    expect(burnWeights()).not.toContain('40g')
+    expect(screen.queryByText(/Merging Rare\+ fruits/)).not.toBeInTheDocument()
+  })
+
+  it('merges the previewed fruits on chain', async () => {
+    const user = userEvent.setup()
+    await renderMarket(Array.from({ length: 11 }, (_, i) => inventoryFruit(CHERRY, 1, i + 1)))
+
+    await user.click(await screen.findByRole('button', { name: 'MERGE' }))
+    await user.click(screen.getByRole('button', { name: 'Confirm' }))
+
+    await screen.findByText('✨ MERGE SUCCESS! ✨')
+    // 2g to 11g merged into one 32g cherry; the 1g cherry stays
+    expect(within(document.querySelector<HTMLElement>('.result-modal')!).getByText('32g')).toBeInTheDocument()
+    const inventory = wallet.simulator.chain.objects.get(inventoryId)!.data
+    expect(inventory.kind === 'playerInventory' && inventory.fruits.map((fruit) => fruit.weight)).toEqual([1, 32])
+    expect(wallet.sponsoredTransactions).toHaveLength(1)
+  })
+})
@@ -1,8 +1,14 @@
-import { useState, useEffect, useMemo } from 'react'
-import { useSuiClient, useCurrentAccount } from '@mysten/dapp-kit'
+import { useState, useMemo } from 'react'
+import { useCurrentAccount } from '@mysten/dapp-kit'
 import { Transaction } from '@mysten/sui/transactions'
 import { useSponsoredTransaction } from '../hooks/useSponsoredTransaction'
-import { PACKAGE_ID, CLOCK_OBJECT } from '../config/sui'
+import { useOptimisticState } from '../hooks/useOptimisticState'
+import { useInventory } from '../hooks/useGameQueries'
+import { useSyncTransaction } from '../hooks/useSyncTransaction'
+import { useFarmSession, sessionFor, sessionObjects, type SignedFarmSession } from '../hooks/useFarmSession'
+import { describeTransactionError } from '../utils/moveErrors'
+import { isStatusUnknown } from '../utils/resilientExecution'
+import { market, session as sessionCalls } from '../bindings'
 
 // Fruit Assets
 import imgCherry from '../assets/fruit/Cherry.png'
@@ -42,11 +48,8 @@ interface InventoryFruit {
 
 interface MarketProps {
   inventoryId: string | null
-  onUpdate?: () => void
-  refreshTrigger?: number
   playerSeeds?: number
   initialMergeFruitType?: number | null
-  mergeTrigger?: number
 }
 
 const FRUIT_WEIGHT_RANGES: Record<number, [number, number]> = {
@@ -64,28 +67,19 @@ const calculateRarityFromWeight = (type: number, weight: number): number => {
   return 1
 }
 
-export default function Market({ inventoryId, onUpdate, refreshTrigger }: MarketProps) {
-  const account = useCurrentAccount(); const suiClient = useSuiClient(); const { mutate: signAndExecute, isPending } = useSponsoredTransaction()
-  const [inventoryFruits, setInventoryFruits] = useState<InventoryFruit[]>([]); const [txStatus, setTxStatus] = useState('')
+export default function Market({ inventoryId }: MarketProps) {
+  const account = useCurrentAccount(); const { mutate: signAndExecute, isPending, lastExecutionPath } = useSponsoredTransaction()
+  const syncTransaction = useSyncTransaction()
+  const { data: inventory } = useInventory(inventoryId); const [txStatus, setTxStatus] = useState('')
+  const confirmedFruits = useMemo<InventoryFruit[]>(
+    () => inventory?.fruits.map((f, idx) => ({ fruit_type: f.fruitType, rarity: f.rarity, weight: f.weight, originalIndex: idx })) ?? [],
+    [inventory]
+  )
+  const [inventoryFruits, applyToInventory] = useOptimisticState(confirmedFruits)
   const [showConfirmModal, setShowConfirmModal] = useState(false); const [showResultModal, setShowResultModal] = useState(false)
   const [targetFruitType, setTargetFruitType] = useState<number | null>(null); const [fruitsToBurn, setFruitsToBurn] = useState<InventoryFruit[]>([])
   const [resultFruit, setResultFruit] = useState<InventoryFruit | null>(null)
-
-  useEffect(() => {
-    async function fetchInventory() {
-      if (!inventoryId) return
-      try {
-        const obj = await suiClient.getObject({ id: inventoryId, options: { showContent: true } })
-        if (obj.data?.content?.dataType === 'moveObject') {
-           const fields = obj.data.content.fields as any
-           setInventoryFruits((fields.fruits || []).map((f: any, idx: number) => {
-             const d = f.fields || f; return { fruit_type: Number(d.fruit_type || 0), rarity: Number(d.rarity || 1), weight: Number(d.weight || 100), originalIndex: idx }
-           }))
-        }
-      } catch (err) { console.error(err) }
-    }
-    fetchInventory()
-  }, [inventoryId, suiClient, txStatus, refreshTrigger])
+  const { session: farmSession } = useFarmSession()
 
   const groupedFruits = useMemo(() => {
     const c: Record<number, number> = {}; inventoryFruits.forEach(f => c[f.fruit_type] = (c[f.fruit_type] || 0) + 1); return c
@@ -106,18 +100,27 @@ export default function Market({ inventoryId, onUpdate, refreshTrigger }: Market
     setTxStatus('⏳ Merging...'); setShowConfirmModal(false)
     const totalWeight = fruitsToBurn.reduce((s, f) => s + f.weight, 0); const newWeight = Math.floor(totalWeight / 2)
     const res: InventoryFruit = { fruit_type: targetFruitType, rarity: calculateRarityFromWeight(targetFruitType, newWeight), weight: newWeight, originalIndex: -1 }
+    // Show the merge right away: the burned fruits leave, the merged one arrives
+    const burned = new Set(fruitsToBurn.map(f => f.originalIndex))
+    const update = applyToInventory(fruits => [...fruits.filter(f => !burned.has(f.originalIndex)), res])
     
     try {
+      // Merge with the session key when a farm session holds the inventory
+      const session: SignedFarmSession | null = sessionFor(farmSession, inventoryId, 'merge')
       const tx = new Transaction(); tx.setGasBudget(100000000)
-      tx.moveCall({ target: `${PACKAGE_ID}::market::merge_fruits`, arguments: [tx.object(inventoryId), tx.pure.u8(targetFruitType), tx.pure.u64(1), tx.object(CLOCK_OBJECT)] })
-      signAndExecute({ transaction: tx }, {
+      if (session) sessionCalls.mergeFruits(tx, { ...sessionObjects(session), fruitType: targetFruitType, count: 1 })
+      else market.mergeFruits(tx, { inventory: inventoryId, fruitType: targetFruitType, count: 1 })
+      signAndExecute({ transaction: tx, signer: session?.signer.keypair }, {
         onSuccess: async (r) => {
-          await suiClient.waitForTransaction({ digest: r.digest }); setTxStatus('✅ Merge Successful!'); setResultFruit(res); setShowResultModal(true)
-          if (onUpdate) onUpdate(); setTimeout(() => setTxStatus(''), 3000)
+          await syncTransaction(r.digest); setTxStatus('✅ Merge Successful!'); setResultFruit(res); setShowResultModal(true)
+          update.commit(); setTimeout(() => setTxStatus(''), 3000)
         },
-        onError: (err) => setTxStatus('❌ Failed: ' + err.message)
+        onError: (err) => {
+          if (isStatusUnknown(err)) { setTxStatus('⏳ ' + describeTransactionError(err)); return }
+          update.rollback(); setTxStatus('↩️ Merge undone: ' + describeTransactionError(err))
+        }
       })
-    } catch (e) { setTxStatus('❌ Error') }
+    } catch (e) { update.rollback(); setTxStatus('❌ ' + describeTransactionError(e)) }
   }
 
   const getRarityColor = (r: number) => ['#a0a0a0', '#2ecc71', '#3498db', '#9b59b6', '#f1c40f'][r-1] || '#a0a0a0'
@@ -125,7 +128,7 @@ export default function Market({ inventoryId, onUpdate, refreshTrigger }: Market
 
   return (
     <div className="merge-container">
-      {txStatus && <div className="tx-status-overlay">{txStatus}</div>}
+      {txStatus && <div className="tx-status-overlay">{txStatus}{lastExecutionPath === 'self-paid' && <span className="gas-path-note">⛽ Paid with your gas</span>}</div>}
       <div className="merge-layout">
         <div className="merchant-column">
           <div className="merchant-wrapper">
@@ -1,8 +1,12 @@
-import { useState, useEffect } from 'react'
-import { useSuiClient, useCurrentAccount } from '@mysten/dapp-kit'
+import { useState, useEffect, useRef } from 'react'
+import { useCurrentAccount } from '@mysten/dapp-kit'
 import { Transaction } from '@mysten/sui/transactions'
 import { useSponsoredTransaction } from '../hooks/useSponsoredTransaction'
-import { PACKAGE_ID } from '../config/sui'
+import { useFruitNFTs } from '../hooks/useGameQueries'
+import { useSyncTransaction } from '../hooks/useSyncTransaction'
+import { describeTransactionError } from '../utils/moveErrors'
+import type { FruitNFT } from 'fruit-merge-shared/objectDecoders'
+import { fruitNft } from '../bindings'
 
 // Fruit Assets (tái sử dụng)
 import imgCherry from '../assets/fruit/Cherry.png'
@@ -16,8 +20,6 @@ import imgPineapple from '../assets/fruit/Thơm.png'
 import imgMelon from '../assets/fruit/Dưa lưới.png'
 import imgWatermelon from '../assets/fruit/Dưa hấu.png'
 
-const NFT_TYPE = `${PACKAGE_ID}::fruit_nft::FruitNFT`
-
 const FRUITS = [
   { level: 1, image: imgCherry, name: 'Cherry' },
   { level: 2, image: imgGrape, name: 'Grape' },
@@ -31,56 +33,27 @@ const FRUITS = [
   { level: 10, image: imgWatermelon, name: 'Watermelon' },
 ]
 
-interface FruitNFT {
-  id: string
-  name: string
-  description: string
-  fruit_type: number
-  rarity: number
-  weight: number
-  created_by: string
-}
-
 export default function NFTCollection() {
   const account = useCurrentAccount()
-  const suiClient = useSuiClient()
-  const { mutate: signAndExecute, isPending } = useSponsoredTransaction()
+  const { mutate: signAndExecute, isPending, lastExecutionPath } = useSponsoredTransaction()
+  const syncTransaction = useSyncTransaction()
   
-  const [nfts, setNfts] = useState<FruitNFT[]>([])
-  const [isLoading, setIsLoading] = useState(false)
+  const { items: nfts, hasMore, isLoading, loadMore } = useFruitNFTs()
+  const loadMoreRef = useRef<HTMLDivElement>(null)
   const [selectedNft, setSelectedNft] = useState<FruitNFT | null>(null)
   const [transferAddress, setTransferAddress] = useState('')
   const [txStatus, setTxStatus] = useState('')
 
-  const fetchNFTs = async () => {
-    if (!account?.address) return
-    setIsLoading(true)
-    try {
-      const objects = await suiClient.getOwnedObjects({
-        owner: account.address,
-        filter: { StructType: NFT_TYPE },
-        options: { showContent: true, showDisplay: true }
-      })
-      const loadedNfts: FruitNFT[] = []
-      for (const obj of objects.data) {
-        if (obj.data?.content?.dataType === 'moveObject') {
-          const fields = obj.data.content.fields as any
-          loadedNfts.push({
-            id: obj.data.objectId,
-            name: fields.name || 'Unknown Fruit',
-            description: fields.description || '',
-            fruit_type: Number(fields.fruit_type || 1),
-            rarity: Number(fields.rarity || 1),
-            weight: Number(fields.weight || 0),
-            created_by: fields.created_by || ''
-          })
-        }
-      }
-      setNfts(loadedNfts)
-    } catch (err) { console.error('Error fetching NFTs:', err) } finally { setIsLoading(false) }
-  }
-
-  useEffect(() => { fetchNFTs() }, [account?.address, suiClient])
+  // Infinite scroll: load the next page when the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore()
+    }, { rootMargin: '200px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
 
   const getRarityName = (rarity: number) => {
     switch (rarity) {
@@ -99,13 +72,13 @@ export default function NFTCollection() {
     setTxStatus('⏳ Transferring NFT...')
     try {
       const tx = new Transaction()
-      tx.moveCall({ target: `${PACKAGE_ID}::fruit_nft::transfer_nft`, arguments: [tx.object(selectedNft.id), tx.pure.address(transferAddress)] })
+      fruitNft.transferNft(tx, { nft: selectedNft.id, recipient: transferAddress })
       signAndExecute({ transaction: tx }, {
         onSuccess: async (result) => {
-          await suiClient.waitForTransaction({ digest: result.digest })
-          setTxStatus('✅ Transfer Successful!'); setSelectedNft(null); setTransferAddress(''); fetchNFTs(); setTimeout(() => setTxStatus(''), 3000)
+          await syncTransaction(result.digest)
+          setTxStatus('✅ Transfer Successful!'); setSelectedNft(null); setTransferAddress(''); setTimeout(() => setTxStatus(''), 3000)
         },
-        onError: (err) => { console.error(err); setTxStatus('❌ Transfer Failed'); setTimeout(() => setTxStatus(''), 3000) }
+        onError: (err) => { console.error(err); setTxStatus('❌ Transfer Failed: ' + describeTransactionError(err)); setTimeout(() => setTxStatus(''), 3000) }
       })
     } catch (e) { console.error(e); setTxStatus('❌ Error creating transaction') }
   }
@@ -117,14 +90,14 @@ export default function NFTCollection() {
         <p>Your unique blockchain artifacts</p>
       </div>
 
-      {txStatus && <div className={`tx-status ${txStatus.includes('Failed') ? 'error' : 'success'}`}>{isPending && <span className="spinner">⏳</span>} {txStatus}</div>}
+      {txStatus && <div className={`tx-status ${txStatus.includes('Failed') ? 'error' : 'success'}`}>{isPending && <span className="spinner">⏳</span>} {txStatus}{lastExecutionPath === 'self-paid' && <span className="gas-path-note">⛽ Paid with your gas</span>}</div>}
 
-      {isLoading ? <div className="loading">Loading artifacts...</div> : nfts.length === 0 ? (
+      {isLoading && nfts.length === 0 ? <div className="loading">Loading artifacts...</div> : nfts.length === 0 ? (
         <div className="empty-state"><div className="empty-icon">🖼️</div><h3>No NFTs yet</h3><p>Mint fruits from your inventory!</p></div>
       ) : (
         <div className="nft-grid">
           {nfts.map((nft) => {
-            const fruitInfo = FRUITS.find(f => f.level === nft.fruit_type)
+            const fruitInfo = FRUITS.find(f => f.level === nft.fruitType)
             return (
               <div key={nft.id} className={`nft-card rarity-${nft.rarity}`} onClick={() => setSelectedNft(nft)}
                 style={{ 
@@ -148,6 +121,7 @@ export default function NFTCollection() {
           })}
         </div>
       )}
+      {hasMore && <div ref={loadMoreRef} className="nft-load-more">{isLoading ? 'Loading more...' : ''}</div>}
 
       {selectedNft && (
         <div className="modal-overlay" onClick={() => setSelectedNft(null)}>
@@ -155,7 +129,7 @@ export default function NFTCollection() {
             <button className="close-btn" onClick={() => setSelectedNft(null)}>×</button>
             <div className="modal-split">
               <div className="nft-preview-large" style={{ background: `radial-gradient(circle, ${getRarityColor(selectedNft.rarity)}40 0%, rgba(0,0,0,0) 70%)` }}>
-                 <img src={FRUITS.find(f => f.level === selectedNft.fruit_type)?.image} alt={selectedNft.name} />
+                 <img src={FRUITS.find(f => f.level === selectedNft.fruitType)?.image} alt={selectedNft.name} />
               </div>
               <div className="nft-info-panel">
                 <h2 style={{ color: getRarityColor(selectedNft.rarity), textShadow: `0 0 15px ${getRarityColor(selectedNft.rarity)}60` }}>{selectedNft.name}</h2>
@@ -166,7 +140,7 @@ export default function NFTCollection() {
                     <span style={{ color: getRarityColor(selectedNft.rarity), fontWeight: 900 }}>{getRarityName(selectedNft.rarity)}</span>
                   </div>
                   <div className="stat-box"><label>Weight</label><span>{selectedNft.weight}g</span></div>
-                  <div className="stat-box"><label>Type</label><span>{FRUITS.find(f => f.level === selectedNft.fruit_type)?.name}</span></div>
+                  <div className="stat-box"><label>Type</label><span>{FRUITS.find(f => f.level === selectedNft.fruitType)?.name}</span></div>
                 </div>
                 <div className="transfer-section">
                   <h4>🎁 Gift / Transfer</h4>
@@ -185,6 +159,7 @@ export default function NFTCollection() {
         .header-section h2 { font-size: 2.5rem; text-transform: uppercase; background: linear-gradient(to right, #fff, #aaa); -webkit-background-clip: text; -webkit-text-fill-color: transparent; margin-bottom: 10px; }
         
         .nft-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 25px; }
+        .nft-load-more { min-height: 40px; padding: 20px; text-align: center; opacity: 0.7; }
         
         .nft-card {
           border-radius: 20px;
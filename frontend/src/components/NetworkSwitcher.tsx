@@ -0,0 +1,19 @@
+import { NETWORKS, SUI_NETWORK, SUI_NETWORKS, isDeployed, selectNetwork, type SuiNetwork } from '../config/sui'
+
+/** Developer tool: reload the app on another network */
+export default function NetworkSwitcher() {
+  return (
+    <select
+      className="network-switcher"
+      value={SUI_NETWORK}
+      onChange={(e) => selectNetwork(e.target.value as SuiNetwork)}
+      title="Switch network"
+    >
+      {SUI_NETWORKS.map((network) => (
+        <option key={network} value={network}>
+          {NETWORKS[network].label}{isDeployed(network) ? '' : ' (no package)'}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,138 @@
+import { screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it } from 'vitest'
+import PlayerLand from './PlayerLand'
+import { renderWithProviders } from '../test/render'
+import { connectFakeWallet, type FakeWallet } from '../test/fakes/wallet'
+import { createLand, createPlayer, editObject, inventoryFruit, plantedFruit } from '../test/fixtures'
+import type { PlayerInventoryData, PlayerLandData } from '../simulator/objects'
+
+const SEED = 1_000_000_000n
+// Long past a common fruit's 15s grow time
+const LONG_AGO = () => Date.now() - 60_000
+
+let wallet: FakeWallet
+let landId: string
+let inventoryId: string
+
+function readObject<T>(id: string): T {
+  return wallet.simulator.chain.objects.get(id)!.data as T
+}
+
+const slotClasses = (container: HTMLElement) =>
+  [...container.querySelectorAll('.slots-grid .slot')].map((slot) => slot.className.split(' ')[1])
+
+async function renderLand(playerSeeds: number) {
+  const view = renderWithProviders(<PlayerLand landId={landId} inventoryId={inventoryId} playerSeeds={playerSeeds} />)
+  const { maxSlots } = readObject<PlayerLandData>(landId)
+  await waitFor(() => expect(slotClasses(view.container)).toHaveLength(maxSlots))
+  return view
+}
+
+// Replace the seed count; clearing the field first would snap it back to 1
+async function typeSeeds(user: ReturnType<typeof userEvent.setup>, value: string) {
+  const input = screen.getByRole<HTMLInputElement>('spinbutton')
+  await user.type(input, value, { initialSelectionStart: 0, initialSelectionEnd: input.value.length })
+}
+
+beforeEach(async () => {
+  wallet = connectFakeWallet()
+  ;({ inventoryId } = await createPlayer())
+  landId = await createLand()
+})
+
+describe('PlayerLand planting', () => {
+  it('plants the chosen number of seeds in the clicked slot', async () => {
+    const user = userEvent.setup()
+    await wallet.simulator.mintSeeds(wallet.account.address, 100n * SEED)
+    const { container } = await renderLand(100)
+    expect(slotClasses(container).every((slot) => slot === 'empty')).toBe(true)
+
+    await user.click(container.querySelectorAll<HTMLElement>('.slots-grid .slot')[2])
+    expect(screen.getByRole('heading', { name: '🌱 Plant in Slot 3' })).toBeInTheDocument()
+    await typeSeeds(user, '3')
+    await user.click(screen.getByRole('button', { name: 'Plant' }))
+
+    await screen.findByText('🌳 Seed planted!')
+    const { slots } = readObject<PlayerLandData>(landId)
+    expect(slots.map((slot) => slot?.seedsUsed ?? null)).toEqual(slots.map((_, i) => i === 2 ? 3n * SEED : null))
+    await waitFor(() => expect(slotClasses(container)[2]).toBe('growing'))
+  })
+
+  it('does not let the player plant more seeds than they have', async () => {
+    const user = userEvent.setup()
+    const { container } = await renderLand(2)
+
+    await user.click(container.querySelector<HTMLElement>('.slots-grid .slot')!)
+    await typeSeeds(user, '5')
+
+    expect(screen.getByRole('button', { name: 'Plant' })).toBeDisabled()
+    expect(wallet.sponsoredTransactions).toHaveLength(0)
+  })
+
+  it('shows the time left when a growing slot is clicked', async () => {
+    const user = userEvent.setup()
+    editObject(landId, 'playerLand', (land) => { land.slots[0] = plantedFruit(1, Date.now()) })
+    const { container } = await renderLand(0)
+
+    await user.click(container.querySelector<HTMLElement>('.slots-grid .slot')!)
+
+    expect(screen.getByText(/⏱️ Growing\.\.\. \d+s left/)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /Harvest All/ })).not.toBeInTheDocument()
+  })
+})
+
+describe('PlayerLand harvest warning', () => {
+  const fillInventory = (count: number) => editObject(inventoryId, 'playerInventory', (inventory) => {
+    inventory.fruits = Array.from({ length: count }, () => inventoryFruit(1, 1, 10))
+  })
+  const ripenSlots = (count: number) => editObject(landId, 'playerLand', (land) => {
+    for (let i = 0; i < count; i++) land.slots[i] = plantedFruit(1, LONG_AGO())
+  })
+
+  it('harvests right away when the inventory has room', async () => {
+    const user = userEvent.setup()
+    fillInventory(18)
+    ripenSlots(2)
+    await renderLand(0)
+
+    await user.click(await screen.findByRole('button', { name: '🌾 Harvest All (2 ready)' }))
+
+    await screen.findByText('🍎 Fruits harvested!')
+    expect(screen.queryByText('⚠️ Inventory Almost Full!')).not.toBeInTheDocument()
+    expect(readObject<PlayerInventoryData>(inventoryId).fruits).toHaveLength(20)
+  })
+
+  it('warns before harvesting more fruits than the inventory can hold', async () => {
+    const user = userEvent.setup()
+    fillInventory(19)
+    ripenSlots(3)
+    await renderLand(0)
+
+    await user.click(await screen.findByRole('button', { name: '🌾 Harvest All (3 ready)' }))
+
+    const warning = screen.getByRole('heading', { name: '⚠️ Inventory Almost Full!' }).closest('.modal')
+    expect(warning).toHaveTextContent('You have 3 fruits ready to harvest, but only 1 inventory slots available.')
+    expect(warning).toHaveTextContent('📦 Inventory: 19 / 20')
+
+    await user.click(screen.getByRole('button', { name: 'Cancel' }))
+    expect(screen.queryByText('⚠️ Inventory Almost Full!')).not.toBeInTheDocument()
+    expect(wallet.sponsoredTransactions).toHaveLength(0)
+  })
+
+  it('undoes the harvest when the contract rejects fruits that do not fit', async () => {
+    const user = userEvent.setup()
+    fillInventory(19)
+    ripenSlots(3)
+    const { container } = await renderLand(0)
+
+    await user.click(await screen.findByRole('button', { name: '🌾 Harvest All (3 ready)' }))
+    await user.click(screen.getByRole('button', { name: 'Harvest Anyway' }))
+
+    // harvest_ready aborts on a full inventory instead of stopping, so nothing is harvested
+    await screen.findByText(/^↩️ Harvest undone: /)
+    expect(wallet.sponsoredTransactions).toHaveLength(1)
+    expect(readObject<PlayerInventoryData>(inventoryId).fruits).toHaveLength(19)
+    expect(slotClasses(container).slice(0, 4)).toEqual(['ready', 'ready', 'ready', 'empty'])
+  })
+})
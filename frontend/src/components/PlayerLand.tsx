@@ -1,8 +1,20 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useSuiClient, useCurrentAccount } from '@mysten/dapp-kit'
-import { Transaction } from '@mysten/sui/transactions'
-import { useSponsoredTransaction, mintSeedsToUser, sponsorClient } from '../hooks/useSponsoredTransaction'
-import { PACKAGE_ID, RANDOM_OBJECT, CLOCK_OBJECT, SEED_ADMIN_CAP } from '../config/sui'
+import { Transaction, type TransactionObjectArgument } from '@mysten/sui/transactions'
+import { mintSeedsToUser } from '../hooks/useSponsoredTransaction'
+import { useTransactionQueue, seedCoinsKey, type QueuedTransactionInput, type UseTransactionQueueReturn } from '../hooks/useTransactionQueue'
+import { useFarmSession, sessionFor, sessionObjects, type SessionAction, type SignedFarmSession } from '../hooks/useFarmSession'
+import { useOptimisticState } from '../hooks/useOptimisticState'
+import { useInventory, useLand, usePlayerLands } from '../hooks/useGameQueries'
+import { useSyncTransaction } from '../hooks/useSyncTransaction'
+import TransactionPreviewModal from './TransactionPreviewModal'
+import TransactionQueueStatus from './TransactionQueueStatus'
+import FarmSessionPanel from './FarmSessionPanel'
+import { describeTransactionError } from '../utils/moveErrors'
+import { addSeedPayment } from '../utils/seedWallet'
+import { isStatusUnknown } from '../utils/resilientExecution'
+import { OFFLINE_MODE, PACKAGE_ID, SEED_ADMIN_CAP } from '../config/sui'
+import { land, session as sessionCalls } from '../bindings'
 
 // Soil Assets
 import chauDat from '../assets/Chậu đất.svg'
@@ -43,7 +55,6 @@ const formatTimeLeft = (seconds: number): string => {
   return `${seconds}s`
 }
 
-const SEED_COIN_TYPE = `${PACKAGE_ID}::seed::SEED`
 const SEED_DECIMALS_FALLBACK = 1_000_000_000n
 const NEW_LAND_COST = 500n
 const LAND_UPGRADE_BASE_COST = 100n
@@ -76,13 +87,8 @@ interface PlantedFruit {
 interface Slot {
   index: number
   fruit: PlantedFruit | null
-}
-
-interface LandInfo {
-  id: string
-  index: number
-  level: number
-  maxSlots: number
+  /** Planted optimistically; the real fruit is rolled on chain */
+  pending?: boolean
 }
 
 type ShopItemKey = 'wateringCan' | 'fertilizer' | 'shovel'
@@ -92,31 +98,50 @@ interface PlayerLandProps {
   inventoryId: string | null
   playerSeeds: number
   seedScale?: bigint
-  onDataChanged?: () => void
 }
 
 export default function PlayerLand({ 
   landId: initialLandId, 
   inventoryId,
-  playerSeeds,
+  playerSeeds: walletSeeds,
   seedScale = SEED_DECIMALS_FALLBACK,
-  onDataChanged
 }: PlayerLandProps) {
   const account = useCurrentAccount()
   const suiClient = useSuiClient()
-  const { mutate: signAndExecute, isPending } = useSponsoredTransaction()
+  const { enqueue, items: queueItems, isPending, lastExecutionPath, confirmation } = useTransactionQueue()
+  const syncTransaction = useSyncTransaction()
   
-  const [allLands, setAllLands] = useState<LandInfo[]>([])
-  const [activeLandId, setActiveLandId] = useState<string | null>(initialLandId)
+  const { data: ownedLands = [] } = usePlayerLands()
+  const activeLandId = initialLandId ?? ownedLands[0]?.id ?? null
+  const { session: farmSession, refreshAllowance } = useFarmSession()
+  // While a session holds this land, farm actions spend its allowance instead of the wallet
+  const sessionHoldsLand = !!farmSession && farmSession.landId === activeLandId
+  const playerSeeds = sessionHoldsLand && farmSession.signer ? Number(farmSession.allowance / seedScale) : walletSeeds
   
-  const [slots, setSlots] = useState<Slot[]>([])
-  const [landLevel, setLandLevel] = useState(1)
-  const [maxSlots, setMaxSlots] = useState(4)
+  const { data: activeLand } = useLand(activeLandId)
+  const landLevel = activeLand?.level ?? 1
+  const maxSlots = activeLand?.maxSlots ?? 4
+  const landSlots = useMemo<Slot[]>(() => activeLand?.slots.map((fruit, index) => ({
+    index,
+    fruit: fruit && {
+      fruitType: fruit.fruitType,
+      rarity: fruit.rarity,
+      weight: fruit.weight,
+      seedsUsed: Math.floor(fruit.seedsUsed / Number(seedScale)),
+      plantedAt: fruit.plantedAt,
+      speedBoostMs: fruit.speedBoostMs,
+    },
+  })) ?? [], [activeLand, seedScale])
   const [txStatus, setTxStatus] = useState('')
   const [currentTime, setCurrentTime] = useState(Date.now())
   
-  const [inventoryUsed, setInventoryUsed] = useState(0)
-  const [inventoryMax, setInventoryMax] = useState(20)
+  const { data: inventory } = useInventory(inventoryId)
+  const confirmedInventoryUsed = inventory?.fruits.length ?? 0
+  const inventoryMax = inventory?.maxSlots ?? 20
+
+  // Slots and inventory as they will be once queued transactions land
+  const [slots, applyToSlots] = useOptimisticState(landSlots)
+  const [inventoryUsed, applyToInventoryUsed] = useOptimisticState(confirmedInventoryUsed)
   
   const [showPlantModal, setShowPlantModal] = useState(false)
   const [plantSlotIndex, setPlantSlotIndex] = useState<number | null>(null)
@@ -128,152 +153,122 @@ export default function PlayerLand({
   const [selectedTool, setSelectedTool] = useState<ShopItemKey | null>(null)
   const [slotSpeedBoosts, setSlotSpeedBoosts] = useState<Record<number, number>>({})
 
-  useEffect(() => {
-    if (initialLandId && !activeLandId) {
-      setActiveLandId(initialLandId)
-    }
-  }, [initialLandId, activeLandId])
-
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(Date.now()), 1000)
     return () => clearInterval(timer)
   }, [])
 
-  const fetchAllLands = useCallback(async () => {
-    if (!account?.address) return
-    try {
-      const objects = await suiClient.getOwnedObjects({
-        owner: account.address,
-        options: { showType: true, showContent: true },
-        filter: { StructType: `${PACKAGE_ID}::land::PlayerLand` }
-      })
-      const lands: LandInfo[] = []
-      for (const obj of objects.data) {
-        if (obj.data?.content?.dataType === 'moveObject') {
-          const fields = obj.data.content.fields as any
-          lands.push({
-            id: obj.data.objectId,
-            index: Number(fields.land_index || 0),
-            level: Number(fields.level || 1),
-            maxSlots: Number(fields.max_slots || 6),
-          })
-        }
-      }
-      lands.sort((a, b) => a.index - b.index)
-      setAllLands(lands)
-      if (!activeLandId && lands.length > 0) setActiveLandId(lands[0].id)
-    } catch (error) { console.error(error) }
-  }, [account?.address, suiClient, activeLandId])
-
-  const fetchLandData = useCallback(async () => {
-    if (!activeLandId) return
-    try {
-      const landObj = await suiClient.getObject({ id: activeLandId, options: { showContent: true } })
-      if (landObj.data?.content && 'fields' in landObj.data.content) {
-        const fields = landObj.data.content.fields as Record<string, any>
-        setLandLevel(Number(fields.level || 1))
-        setMaxSlots(Number(fields.max_slots || 4))
-        const slotsData = fields.slots || []
-        const parsedSlots: Slot[] = []
-        for (let i = 0; i < slotsData.length; i++) {
-          const slotOption = slotsData[i]
-          if (slotOption?.fields) {
-            const slotData = slotOption.fields
-            parsedSlots.push({
-              index: i,
-              fruit: {
-                fruitType: Number(slotData.fruit_type || 1),
-                rarity: Number(slotData.rarity || 1),
-                weight: Number(slotData.weight || 100),
-                seedsUsed: Math.floor(Number(slotData.seeds_used || 1) / Number(seedScale)),
-                plantedAt: Number(slotData.planted_at || 0),
-                speedBoostMs: Number(slotData.speed_boost_ms || 0),
-              }
-            })
-          } else { parsedSlots.push({ index: i, fruit: null }) }
-        }
-        setSlots(parsedSlots)
-      }
-    } catch (error) { console.error(error) }
-  }, [activeLandId, suiClient, seedScale])
+  // Built when the queued transaction's turn comes, so it spends the current SEED coins
+  const buildWithSeedPayment = async (
+    amount: bigint,
+    addCall: (tx: Transaction, payment: TransactionObjectArgument) => void
+  ): Promise<Transaction> => {
+    if (!account?.address) throw new Error('Wallet not connected')
+    const tx = new Transaction()
+    addCall(tx, await addSeedPayment(tx, suiClient, account.address, amount))
+    return tx
+  }
 
-  const fetchInventoryData = useCallback(async () => {
-    if (!inventoryId) return
+  // Seedling shown in a slot until the planted fruit is read back from chain
+  const pendingSlot = (slot: Slot, seedsUsed: number): Slot => ({
+    ...slot,
+    pending: true,
+    fruit: { fruitType: 1, rarity: 1, weight: 0, seedsUsed, plantedAt: Date.now(), speedBoostMs: 0 },
+  })
+
+  // Routine farm actions are signed by the session key when a session holds this land
+  const enqueueFarmAction = (
+    action: SessionAction,
+    input: QueuedTransactionInput & { buildForSession: (session: SignedFarmSession) => Transaction },
+    callbacks: NonNullable<Parameters<UseTransactionQueueReturn['enqueue']>[1]>
+  ) => {
+    const { buildForSession, ...walletInput } = input
+    let session: SignedFarmSession | null
     try {
-      const obj = await suiClient.getObject({ id: inventoryId, options: { showContent: true } })
-      if (obj.data?.content?.dataType === 'moveObject') {
-        const fields = obj.data.content.fields as any
-        setInventoryUsed((fields.fruits || []).length)
-        setInventoryMax(Number(fields.max_slots || 20))
-      }
-    } catch (error) { console.error(error) }
-  }, [inventoryId, suiClient])
-
-  useEffect(() => { fetchAllLands() }, [fetchAllLands])
-  useEffect(() => { fetchLandData(); fetchInventoryData() }, [fetchLandData, fetchInventoryData])
+      session = sessionFor(farmSession, activeLandId, action)
+    } catch (e) {
+      callbacks.onError?.(e as Error)
+      return
+    }
+    if (!session) {
+      enqueue(walletInput, callbacks)
+      return
+    }
+    const signed = session
+    enqueue({
+      label: walletInput.label,
+      confirm: walletInput.confirm,
+      objectKeys: [signed.sessionId],
+      signer: signed.signer.keypair,
+      build: async () => buildForSession(signed),
+    }, {
+      ...callbacks,
+      onSuccess: async (result) => {
+        await callbacks.onSuccess?.(result)
+        void refreshAllowance()
+      },
+    })
+  }
 
   const createFirstLand = async () => {
     setTxStatus('🏡 Creating your first land...')
-    const tx = new Transaction()
-    tx.moveCall({ target: `${PACKAGE_ID}::land::create_first_land`, arguments: [tx.object(CLOCK_OBJECT)] })
-    signAndExecute({ transaction: tx }, {
-      onSuccess: async (result) => {
-        await suiClient.waitForTransaction({ digest: result.digest })
+    enqueue({
+      label: '🏡 Create land',
+      objectKeys: [],
+      build: async () => {
+        const tx = new Transaction()
+        land.createFirstLand(tx)
+        return tx
+      },
+    }, {
+      onSuccess: () => {
         setTxStatus('🎉 Land created!')
-        onDataChanged?.()
         setTimeout(() => setTxStatus(''), 2000)
       },
-      onError: (e) => setTxStatus('Error: ' + e.message),
+      onError: (e) => setTxStatus('Error: ' + describeTransactionError(e)),
     })
   }
 
   const buyNewLand = async () => {
     if (!account?.address) return
     const cost = Number(NEW_LAND_COST)
-    if (playerSeeds < cost) { setTxStatus(`❌ Not enough seeds! Need ${cost} SEED`); return }
+    if (walletSeeds < cost) { setTxStatus(`❌ Not enough seeds! Need ${cost} SEED`); return }
     setTxStatus('🏡 Buying new land...')
-    const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })
-    if (seedCoins.data.length === 0) return
-    const tx = new Transaction()
-    if (seedCoins.data.length > 1) {
-      const ids = seedCoins.data.map(c => tx.object(c.coinObjectId))
-      tx.mergeCoins(ids[0], ids.slice(1))
-    }
-    const [payment] = tx.splitCoins(tx.object(seedCoins.data[0].coinObjectId), [tx.pure.u64(NEW_LAND_COST * seedScale)])
-    tx.moveCall({ target: `${PACKAGE_ID}::land::buy_new_land`, arguments: [payment, tx.object(SEED_ADMIN_CAP), tx.object(CLOCK_OBJECT)] })
-    signAndExecute({ transaction: tx }, {
-      onSuccess: async (result) => {
-        await suiClient.waitForTransaction({ digest: result.digest })
+    enqueue({
+      label: '🏡 Buy land',
+      objectKeys: [seedCoinsKey(account.address)],
+      build: () => buildWithSeedPayment(NEW_LAND_COST * seedScale, (tx, payment) => {
+        land.buyNewLand(tx, { payment })
+      }),
+    }, {
+      onSuccess: () => {
         setTxStatus('🎉 New land purchased!')
-        fetchAllLands(); onDataChanged?.()
         setTimeout(() => setTxStatus(''), 2000)
       },
-      onError: (e) => setTxStatus('Error: ' + e.message),
+      onError: (e) => setTxStatus('Error: ' + describeTransactionError(e)),
     })
   }
 
   const upgradeLand = async () => {
     if (!activeLandId || !account?.address) return
+    if (sessionHoldsLand) { setTxStatus('🔒 End your farm session to upgrade this land'); return }
     const cost = Number(LAND_UPGRADE_BASE_COST) * (1 << landLevel)
     if (playerSeeds < cost) { setTxStatus(`❌ Not enough seeds! Need ${cost} SEED`); return }
     setTxStatus('⬆️ Upgrading land...')
-    const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })
-    if (seedCoins.data.length === 0) return
-    const tx = new Transaction()
-    if (seedCoins.data.length > 1) {
-      const ids = seedCoins.data.map(c => tx.object(c.coinObjectId))
-      tx.mergeCoins(ids[0], ids.slice(1))
-    }
-    const [payment] = tx.splitCoins(tx.object(seedCoins.data[0].coinObjectId), [tx.pure.u64(LAND_UPGRADE_BASE_COST * BigInt(1 << landLevel) * seedScale)])
-    tx.moveCall({ target: `${PACKAGE_ID}::land::upgrade_land`, arguments: [tx.object(activeLandId), payment, tx.object(SEED_ADMIN_CAP)] })
-    signAndExecute({ transaction: tx }, {
-      onSuccess: async (result) => {
-        await suiClient.waitForTransaction({ digest: result.digest })
+    const landId = activeLandId
+    enqueue({
+      label: '⬆️ Upgrade land',
+      objectKeys: [seedCoinsKey(account.address), landId],
+      confirm: true,
+      build: () => buildWithSeedPayment(LAND_UPGRADE_BASE_COST * BigInt(1 << landLevel) * seedScale, (tx, payment) => {
+        land.upgradeLand(tx, { land: landId, payment })
+      }),
+    }, {
+      onSuccess: () => {
         setTxStatus('🎉 Land upgraded!')
-        fetchLandData(); onDataChanged?.()
         setTimeout(() => setTxStatus(''), 2000)
       },
-      onError: (e) => setTxStatus('Error: ' + e.message),
+      onError: (e) => setTxStatus('Error: ' + describeTransactionError(e)),
     })
   }
 
@@ -284,19 +279,24 @@ export default function PlayerLand({
     try {
       const amountWithDecimals = 1000n * seedScale
       const result = await mintSeedsToUser(account.address, amountWithDecimals, PACKAGE_ID, SEED_ADMIN_CAP)
-      await sponsorClient.waitForTransaction({ digest: result.digest })
+      await syncTransaction(result.digest)
       setTxStatus('🎉 Got 1000 seeds!')
-      if (onDataChanged) onDataChanged()
       setTimeout(() => setTxStatus(''), 2000)
     } catch (e: any) {
       console.error(e)
-      setTxStatus('Error: ' + (e.message || String(e)))
+      setTxStatus((isStatusUnknown(e) ? '⏳ ' : 'Error: ') + describeTransactionError(e))
     }
   }
 
   // --- SLOT CLICK HANDLER ---
   const handleSlotClick = (slot: Slot) => {
     console.log('Clicked slot:', slot.index, 'Tool:', selectedTool);
+
+    if (slot.pending) {
+      setTxStatus('⏳ Waiting for the planting to confirm...')
+      setTimeout(() => setTxStatus(''), 2000)
+      return
+    }
     
     // 1. Tool Logic
     if (selectedTool) {
@@ -339,146 +339,75 @@ export default function PlayerLand({
   }
 
   // --- TOOLS ---
-  const useWateringCan = async (slotIndex: number) => {
+  // Queue a shop tool on a slot; tools on the same land run one after another
+  const applyTool = (
+    label: string,
+    tool: 'useWateringCan' | 'useFertilizer' | 'useShovel',
+    cost: bigint,
+    slotIndex: number,
+    onSuccess: () => void,
+    optimistic?: (slots: Slot[]) => Slot[]
+  ) => {
     if (!activeLandId || !account?.address) return
-    setTxStatus('🚿 Watering...')
-    try {
-      const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })
-      if (seedCoins.data.length === 0) { 
-        setTxStatus('❌ Need 50 SEED'); 
-        setSelectedTool(null);
-        return 
-      }
-      
-      const tx = new Transaction()
-      const primaryCoin = seedCoins.data[0]
-      if (seedCoins.data.length > 1) {
-        const coinsToMerge = seedCoins.data.slice(1).map(c => tx.object(c.coinObjectId))
-        tx.mergeCoins(tx.object(primaryCoin.coinObjectId), coinsToMerge)
+    const landId = activeLandId
+    setSelectedTool(null)
+    const update = optimistic ? applyToSlots(optimistic) : null
+    enqueueFarmAction('tools', {
+      label: `${label} slot ${slotIndex + 1}`,
+      objectKeys: [seedCoinsKey(account.address), landId],
+      build: () => buildWithSeedPayment(cost * seedScale, (tx, payment) => {
+        land[tool](tx, { land: landId, slotIndex, payment })
+      }),
+      buildForSession: (session) => {
+        const tx = new Transaction()
+        sessionCalls[tool](tx, { ...sessionObjects(session), slotIndex })
+        return tx
+      },
+    }, {
+      onSuccess: async () => {
+        onSuccess()
+        update?.commit()
+        setTimeout(() => setTxStatus(''), 2000)
+      },
+      onError: (e) => {
+        console.error(e)
+        update?.rollback()
+        setTxStatus((update ? '↩️ Undone: ' : 'Error: ') + describeTransactionError(e))
       }
-      
-      const [payment] = tx.splitCoins(tx.object(primaryCoin.coinObjectId), [tx.pure.u64(50n * seedScale)])
-      
-      tx.moveCall({
-        target: `${PACKAGE_ID}::land::use_watering_can`,
-        arguments: [tx.object(activeLandId), tx.pure.u64(slotIndex), payment, tx.object(SEED_ADMIN_CAP)]
-      })
-      
-      signAndExecute({ transaction: tx }, {
-        onSuccess: async (result) => {
-          await suiClient.waitForTransaction({ digest: result.digest })
-          setTxStatus('🚿 Watered! (-25% time)')
-          setSlotSpeedBoosts(prev => {
-            const slot = slots.find(s => s.index === slotIndex)
-            if (!slot?.fruit) return prev
-            const base = getGrowTime(slot.fruit.rarity)
-            return { ...prev, [slotIndex]: (prev[slotIndex] || 0) + (base * 0.25) }
-          })
-          fetchLandData()
-          if (onDataChanged) onDataChanged()
-          setSelectedTool(null)
-          setTimeout(() => setTxStatus(''), 2000)
-        },
-        onError: (e) => {
-          console.error(e)
-          setTxStatus('Error: ' + e.message)
-          setSelectedTool(null)
-        }
+    })
+  }
+
+  const useWateringCan = (slotIndex: number) => {
+    setTxStatus('🚿 Watering...')
+    applyTool('🚿 Water', 'useWateringCan', 50n, slotIndex, () => {
+      setTxStatus('🚿 Watered! (-25% time)')
+      setSlotSpeedBoosts(prev => {
+        const slot = slots.find(s => s.index === slotIndex)
+        if (!slot?.fruit) return prev
+        const base = getGrowTime(slot.fruit.rarity)
+        return { ...prev, [slotIndex]: (prev[slotIndex] || 0) + (base * 0.25) }
       })
-    } catch (e: any) { 
-      console.error(e)
-      setTxStatus('Error: ' + e.message) 
-      setSelectedTool(null)
-    }
+    })
   }
 
-  const useFertilizer = async (slotIndex: number) => {
-    if (!activeLandId || !account?.address) return
+  const useFertilizer = (slotIndex: number) => {
     setTxStatus('🧪 Fertilizing...')
-    try {
-      const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })
-      if (seedCoins.data.length === 0) { 
-        setTxStatus('❌ Need 100 SEED'); 
-        setSelectedTool(null);
-        return 
-      }
-      const tx = new Transaction()
-      const primaryCoin = seedCoins.data[0]
-      if (seedCoins.data.length > 1) {
-        const coinsToMerge = seedCoins.data.slice(1).map(c => tx.object(c.coinObjectId))
-        tx.mergeCoins(tx.object(primaryCoin.coinObjectId), coinsToMerge)
-      }
-      const [payment] = tx.splitCoins(tx.object(primaryCoin.coinObjectId), [tx.pure.u64(100n * seedScale)])
-      tx.moveCall({
-        target: `${PACKAGE_ID}::land::use_fertilizer`,
-        arguments: [tx.object(activeLandId), tx.pure.u64(slotIndex), payment, tx.object(SEED_ADMIN_CAP)]
+    applyTool('🧪 Fertilize', 'useFertilizer', 100n, slotIndex, () => {
+      setTxStatus('🧪 Fertilized! (-50% time)')
+      setSlotSpeedBoosts(prev => {
+        const slot = slots.find(s => s.index === slotIndex)
+        if (!slot?.fruit) return prev
+        const base = getGrowTime(slot.fruit.rarity)
+        return { ...prev, [slotIndex]: (prev[slotIndex] || 0) + (base * 0.5) }
       })
-      signAndExecute({ transaction: tx }, {
-        onSuccess: async (result) => {
-          await suiClient.waitForTransaction({ digest: result.digest })
-          setTxStatus('🧪 Fertilized! (-50% time)')
-          setSlotSpeedBoosts(prev => {
-            const slot = slots.find(s => s.index === slotIndex)
-            if (!slot?.fruit) return prev
-            const base = getGrowTime(slot.fruit.rarity)
-            return { ...prev, [slotIndex]: (prev[slotIndex] || 0) + (base * 0.5) }
-          })
-          fetchLandData()
-          if (onDataChanged) onDataChanged()
-          setSelectedTool(null)
-          setTimeout(() => setTxStatus(''), 2000)
-        },
-        onError: (e) => {
-          setTxStatus('Error: ' + e.message)
-          setSelectedTool(null)
-        }
-      })
-    } catch (e: any) { 
-      setTxStatus('Error: ' + e.message) 
-      setSelectedTool(null)
-    }
+    })
   }
 
-  const useShovel = async (slotIndex: number) => {
-    if (!activeLandId || !account?.address) return
+  const useShovel = (slotIndex: number) => {
     setTxStatus('🪓 Digging...')
-    try {
-      const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })
-      if (seedCoins.data.length === 0) { 
-        setTxStatus('❌ Need 25 SEED'); 
-        setSelectedTool(null);
-        return 
-      }
-      const tx = new Transaction()
-      const primaryCoin = seedCoins.data[0]
-      if (seedCoins.data.length > 1) {
-        const coinsToMerge = seedCoins.data.slice(1).map(c => tx.object(c.coinObjectId))
-        tx.mergeCoins(tx.object(primaryCoin.coinObjectId), coinsToMerge)
-      }
-      const [payment] = tx.splitCoins(tx.object(primaryCoin.coinObjectId), [tx.pure.u64(25n * seedScale)])
-      tx.moveCall({
-        target: `${PACKAGE_ID}::land::use_shovel`,
-        arguments: [tx.object(activeLandId), tx.pure.u64(slotIndex), payment, tx.object(SEED_ADMIN_CAP)]
-      })
-      signAndExecute({ transaction: tx }, {
-        onSuccess: async (result) => {
-          await suiClient.waitForTransaction({ digest: result.digest })
-          setTxStatus('🪓 Plant removed!')
-          setSlots(prev => prev.map(s => s.index === slotIndex ? { ...s, fruit: null } : s))
-          fetchLandData()
-          if (onDataChanged) onDataChanged()
-          setSelectedTool(null)
-          setTimeout(() => setTxStatus(''), 2000)
-        },
-        onError: (e) => {
-          setTxStatus('Error: ' + e.message)
-          setSelectedTool(null)
-        }
-      })
-    } catch (e: any) { 
-      setTxStatus('Error: ' + e.message) 
-      setSelectedTool(null)
-    }
+    applyTool('🪓 Dig up', 'useShovel', 25n, slotIndex, () => {
+      setTxStatus('🪓 Plant removed!')
+    }, prev => prev.map(s => s.index === slotIndex ? { ...s, fruit: null, pending: false } : s))
   }
 
   const plantInSlot = async () => {
@@ -486,26 +415,30 @@ export default function PlayerLand({
     if (playerSeeds < seedsToPlant) { setTxStatus(`❌ Not enough seeds!`); return }
     setTxStatus(`🌱 Planting ${seedsToPlant} seeds...`)
     setShowPlantModal(false)
-    const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })
-    if (seedCoins.data.length === 0) return
-    const tx = new Transaction()
-    if (seedCoins.data.length > 1) {
-      const ids = seedCoins.data.map(c => tx.object(c.coinObjectId))
-      tx.mergeCoins(ids[0], ids.slice(1))
-    }
-    const [payment] = tx.splitCoins(tx.object(seedCoins.data[0].coinObjectId), [tx.pure.u64(BigInt(seedsToPlant) * seedScale)])
-    tx.moveCall({
-      target: `${PACKAGE_ID}::land::plant_in_slot`,
-      arguments: [tx.object(activeLandId), tx.pure.u64(plantSlotIndex), payment, tx.object(SEED_ADMIN_CAP), tx.object(CLOCK_OBJECT), tx.object(RANDOM_OBJECT)]
-    })
-    signAndExecute({ transaction: tx }, {
-      onSuccess: async (result) => {
-        await suiClient.waitForTransaction({ digest: result.digest })
+    const landId = activeLandId
+    const slotIndex = plantSlotIndex
+    const update = applyToSlots(prev => prev.map(s => s.index === slotIndex && !s.fruit ? pendingSlot(s, seedsToPlant) : s))
+    enqueueFarmAction('plant', {
+      label: `🌱 Plant slot ${slotIndex + 1}`,
+      objectKeys: [seedCoinsKey(account.address), landId],
+      build: () => buildWithSeedPayment(BigInt(seedsToPlant) * seedScale, (tx, payment) => {
+        land.plantInSlot(tx, { land: landId, slotIndex, payment })
+      }),
+      buildForSession: (session) => {
+        const tx = new Transaction()
+        sessionCalls.plantInSlot(tx, { ...sessionObjects(session), slotIndex, seeds: BigInt(seedsToPlant) * seedScale })
+        return tx
+      },
+    }, {
+      onSuccess: async () => {
         setTxStatus('🌳 Seed planted!')
-        fetchLandData(); onDataChanged?.()
+        update.commit()
         setTimeout(() => setTxStatus(''), 3000)
       },
-      onError: (e) => setTxStatus('Error: ' + e.message),
+      onError: (e) => {
+        update.rollback()
+        setTxStatus('↩️ Planting undone: ' + describeTransactionError(e))
+      },
     })
   }
 
@@ -524,54 +457,35 @@ export default function PlayerLand({
     setTxStatus(`🌱 Planting ${batchSeeds} seeds in ${emptyCount} slots...`)
     setShowBatchModal(false)
 
-    try {
-      const seedCoins = await suiClient.getCoins({ owner: account.address, coinType: SEED_COIN_TYPE })
-      if (seedCoins.data.length === 0) {
-        setTxStatus('❌ No SEED coins found')
-        return
-      }
-
-      const tx = new Transaction()
-      const primaryCoin = seedCoins.data[0]
-      if (seedCoins.data.length > 1) {
-        const coinsToMerge = seedCoins.data.slice(1).map(c => tx.object(c.coinObjectId))
-        tx.mergeCoins(tx.object(primaryCoin.coinObjectId), coinsToMerge)
-      }
-      
-      const [payment] = tx.splitCoins(
-        tx.object(primaryCoin.coinObjectId), 
-        [tx.pure.u64(BigInt(totalCost) * seedScale)]
-      )
-
-      tx.moveCall({
-        target: `${PACKAGE_ID}::land::plant_all`,
-        arguments: [
-          tx.object(activeLandId),
-          payment,
-          tx.pure.u64(BigInt(batchSeeds) * seedScale),
-          tx.object(SEED_ADMIN_CAP),
-          tx.object(CLOCK_OBJECT),
-          tx.object(RANDOM_OBJECT)
-        ]
-      })
-
-      signAndExecute(
-        { transaction: tx },
-        {
-          onSuccess: async (result) => {
-            await suiClient.waitForTransaction({ digest: result.digest })
-            setTxStatus('🌳 Planted All Successfully!')
-            fetchLandData()
-            if (onDataChanged) onDataChanged()
-            setTimeout(() => setTxStatus(''), 3000)
-          },
-          onError: (e) => setTxStatus('Error: ' + e.message)
+    const landId = activeLandId
+    const update = applyToSlots(prev => prev.map(s => (s.fruit ? s : pendingSlot(s, batchSeeds))))
+    enqueueFarmAction(
+      'plant',
+      {
+        label: `🌱 Plant ${emptyCount} slots`,
+        objectKeys: [seedCoinsKey(account.address), landId],
+        confirm: true,
+        build: () => buildWithSeedPayment(BigInt(totalCost) * seedScale, (tx, payment) => {
+          land.plantAll(tx, { land: landId, payment, seedsPerSlot: BigInt(batchSeeds) * seedScale })
+        }),
+        buildForSession: (session) => {
+          const tx = new Transaction()
+          sessionCalls.plantAll(tx, { ...sessionObjects(session), seedsPerSlot: BigInt(batchSeeds) * seedScale })
+          return tx
+        },
+      },
+      {
+        onSuccess: async () => {
+          setTxStatus('🌳 Planted All Successfully!')
+          update.commit()
+          setTimeout(() => setTxStatus(''), 3000)
+        },
+        onError: (e) => {
+          update.rollback()
+          setTxStatus('↩️ Planting undone: ' + describeTransactionError(e))
         }
-      )
-    } catch (e: any) {
-      console.error(e)
-      setTxStatus('Error: ' + e.message)
-    }
+      }
+    )
   }
 
   const forceHarvest = async (skipWarning = false) => {
@@ -583,7 +497,7 @@ export default function PlayerLand({
 
     // Calculate available slots accurately
     const availableSlots = inventoryMax - inventoryUsed
-    const readyCount = slots.filter(s => s.fruit && currentTime >= s.fruit.plantedAt + getEffectiveGrowTime(s)).length
+    const readyCount = slots.filter(s => s.fruit && !s.pending && currentTime >= s.fruit.plantedAt + getEffectiveGrowTime(s)).length
     
     console.log('Harvest Check:', { readyCount, availableSlots, skipWarning, inventoryMax, inventoryUsed });
 
@@ -595,17 +509,40 @@ export default function PlayerLand({
     }
 
     setTxStatus('🌾 Harvesting...')
-    // ... (transaction logic - keep as is)
-    const tx = new Transaction()
-    tx.moveCall({ target: `${PACKAGE_ID}::land::harvest_ready`, arguments: [tx.object(activeLandId), tx.object(inventoryId), tx.object(CLOCK_OBJECT)] })
-    signAndExecute({ transaction: tx }, {
-      onSuccess: async (result) => {
-        await suiClient.waitForTransaction({ digest: result.digest })
+    const landId = activeLandId
+    const isReadySlot = (s: Slot) => !!s.fruit && !s.pending && Date.now() >= s.fruit.plantedAt + getEffectiveGrowTime(s)
+    // Harvest takes fruits in slot order until the inventory is full
+    const harvested = slots.filter(isReadySlot).slice(0, Math.max(0, availableSlots)).map(s => s.index)
+    const slotsUpdate = applyToSlots(prev => prev.map(s => harvested.includes(s.index) ? { ...s, fruit: null } : s))
+    const inventoryUpdate = applyToInventoryUsed(used => Math.min(inventoryMax, used + harvested.length))
+    enqueueFarmAction('harvest', {
+      label: '🌾 Harvest',
+      objectKeys: [landId, inventoryId],
+      build: async () => {
+        const tx = new Transaction()
+        land.harvestReady(tx, { land: landId, inventory: inventoryId })
+        return tx
+      },
+      buildForSession: (session) => {
+        const tx = new Transaction()
+        sessionCalls.harvestReady(tx, sessionObjects(session))
+        return tx
+      },
+    }, {
+      onSuccess: async () => {
         setTxStatus('🍎 Fruits harvested!')
-        fetchLandData(); fetchInventoryData(); onDataChanged?.()
+        slotsUpdate.commit(); inventoryUpdate.commit()
         setTimeout(() => setTxStatus(''), 3000)
       },
-      onError: (e) => setTxStatus('Error: ' + e.message),
+      onError: (e) => {
+        if (isStatusUnknown(e)) {
+          // It may still land; keep showing the harvest until we know
+          setTxStatus('⏳ ' + describeTransactionError(e))
+          return
+        }
+        slotsUpdate.rollback(); inventoryUpdate.rollback()
+        setTxStatus('↩️ Harvest undone: ' + describeTransactionError(e))
+      },
     })
   }
 
@@ -616,16 +553,17 @@ export default function PlayerLand({
     return Math.max(base - boost, 1000)
   }
 
-  const readySlots = slots.filter(s => s.fruit && currentTime >= s.fruit.plantedAt + getEffectiveGrowTime(s)).length
+  const readySlots = slots.filter(s => s.fruit && !s.pending && currentTime >= s.fruit.plantedAt + getEffectiveGrowTime(s)).length
 
   return (
     <div className="player-land">
       <h2>🌍 Your Farm</h2>
       
-      {txStatus && <div className="tx-status">{isPending && <span className="spinner">⏳</span>}{txStatus}</div>}
+      <TransactionQueueStatus items={queueItems} />
+      {txStatus && <div className="tx-status">{isPending && <span className="spinner">⏳</span>}{txStatus}{lastExecutionPath === 'self-paid' && <span className="gas-path-note">⛽ Paid with your gas</span>}</div>}
 
       {/* First-time user: No land exists yet */}
-      {!activeLandId && allLands.length === 0 && (
+      {!activeLandId && ownedLands.length === 0 && (
         <div className="no-land-container">
           <div className="no-land-content">
             <div className="no-land-icon">🏝️</div>
@@ -663,6 +601,11 @@ export default function PlayerLand({
         <>
           <div className="land-info"><span>Level {landLevel}</span><span>{maxSlots} slots</span></div>
 
+          {/* The simulator has no session module */}
+          {!OFFLINE_MODE && (
+            <FarmSessionPanel landId={activeLandId} inventoryId={inventoryId} walletSeeds={walletSeeds} seedScale={seedScale} />
+          )}
+
           <div className="land-actions">
             {slots.filter(s => !s.fruit).length > 0 && (
               <button 
@@ -676,10 +619,10 @@ export default function PlayerLand({
               </button>
             )}
             {readySlots > 0 && <button onClick={() => forceHarvest()} disabled={isPending}>🌾 Harvest All ({readySlots} ready)</button>}
-            <button onClick={upgradeLand} disabled={isPending || playerSeeds < (Number(LAND_UPGRADE_BASE_COST) * (1 << landLevel))}>
+            <button onClick={upgradeLand} disabled={isPending || sessionHoldsLand || playerSeeds < (Number(LAND_UPGRADE_BASE_COST) * (1 << landLevel))}>
               ⬆️ Upgrade Land — {Number(LAND_UPGRADE_BASE_COST) * (1 << landLevel)} SEED
             </button>
-            <button onClick={buyNewLand} disabled={isPending || playerSeeds < Number(NEW_LAND_COST)}>
+            <button onClick={buyNewLand} disabled={isPending || walletSeeds < Number(NEW_LAND_COST)}>
               🏡 Buy New Land — {Number(NEW_LAND_COST)} SEED
             </button>
             {/* Nút Mint Test Seeds */}
@@ -706,13 +649,13 @@ export default function PlayerLand({
           <div className={`slots-grid ${selectedTool ? 'tool-mode' : ''}`}>
             {slots.map((slot) => {
               const effectiveTime = getEffectiveGrowTime(slot)
-              const isReady = slot.fruit && currentTime >= slot.fruit.plantedAt + effectiveTime
+              const isReady = slot.fruit && !slot.pending && currentTime >= slot.fruit.plantedAt + effectiveTime
               const timeLeft = slot.fruit ? Math.max(0, Math.ceil((slot.fruit.plantedAt + effectiveTime - currentTime) / 1000)) : 0
               const fruitData = slot.fruit ? FRUITS[slot.fruit.fruitType - 1] : null
               const hasBoosted = (slot.fruit?.speedBoostMs || 0) > 0 || (slotSpeedBoosts[slot.index] || 0) > 0
               
               return (
-                <div key={slot.index} className={`slot ${!slot.fruit ? 'empty' : isReady ? 'ready' : 'growing'} ${selectedTool && slot.fruit ? 'tool-target' : ''}`} 
+                <div key={slot.index} className={`slot ${!slot.fruit ? 'empty' : isReady ? 'ready' : 'growing'} ${slot.pending ? 'pending' : ''} ${selectedTool && slot.fruit ? 'tool-target' : ''}`} 
                   onClick={() => handleSlotClick(slot)}
                 >
                   {!slot.fruit ? (
@@ -795,13 +738,17 @@ export default function PlayerLand({
         </div>
       )}
       
+      {confirmation && (
+        <TransactionPreviewModal title="Review Transaction" confirmation={confirmation} seedScale={seedScale} />
+      )}
+
       {/* Harvest Warning Modal */}
       {showHarvestWarning && (
         <div className="modal-overlay" onClick={() => setShowHarvestWarning(false)}>
           <div className="modal warning-modal" onClick={e => e.stopPropagation()}>
             <h3>⚠️ Inventory Almost Full!</h3>
             <p>
-              You have <strong>{slots.filter(s => s.fruit && currentTime >= s.fruit.plantedAt + getEffectiveGrowTime(s)).length}</strong> fruits ready to harvest, 
+              You have <strong>{slots.filter(s => s.fruit && !s.pending && currentTime >= s.fruit.plantedAt + getEffectiveGrowTime(s)).length}</strong> fruits ready to harvest, 
               but only <strong>{inventoryMax - inventoryUsed}</strong> inventory slots available.
             </p>
             <p>Some fruits may not be harvested. Consider upgrading your inventory first.</p>
@@ -988,6 +935,9 @@ export default function PlayerLand({
           cursor: pointer;
           font-size: 0.8rem;
         }
+        .slot.pending {
+          opacity: 0.6;
+        }
         .slots-grid.tool-mode .slot.growing {
           cursor: crosshair;
         }
@@ -0,0 +1,94 @@
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import type { PendingConfirmation } from '../hooks/useSponsoredTransaction'
+import { describeTransactionError } from '../utils/moveErrors'
+
+const SUI_COIN_TYPE = '0x2::sui::SUI'
+const SUI_DECIMALS = 1_000_000_000n
+
+interface TransactionPreviewModalProps {
+  title: string
+  confirmation: PendingConfirmation
+  /** Base units per whole SEED */
+  seedScale: bigint
+}
+
+// `0xabc::land::PlayerLand<...>` -> `land::PlayerLand`
+const shortType = (type: string) => type.replace(/<.*>$/, '').split('::').slice(-2).join('::')
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+function formatAmount(amount: bigint, scale: bigint): string {
+  const sign = amount < 0n ? '-' : '+'
+  const abs = amount < 0n ? -amount : amount
+  const whole = abs / scale
+  const fraction = (abs % scale).toString().padStart(scale.toString().length - 1, '0').replace(/0+$/, '')
+  return `${sign}${whole}${fraction ? '.' + fraction.slice(0, 4) : ''}`
+}
+
+export default function TransactionPreviewModal({ title, confirmation, seedScale }: TransactionPreviewModalProps) {
+  const account = useCurrentAccount()
+  const { preview, confirm, cancel } = confirmation
+  const willFail = preview.status === 'failure'
+
+  // SUI changes are gas, shown separately since the sponsor usually pays it
+  const balanceChanges = preview.balanceChanges.filter((c) => c.coinType !== SUI_COIN_TYPE && c.amount !== 0n)
+
+  return (
+    <div className="modal-overlay" onClick={cancel}>
+      <div className="modal tx-preview-modal" onClick={e => e.stopPropagation()}>
+        <h3>🔍 {title}</h3>
+
+        {willFail ? (
+          <p className="tx-preview-error">❌ This transaction would fail: {preview.error ? describeTransactionError(preview.error) : 'unknown error'}</p>
+        ) : (
+          <>
+            <div className="tx-preview-section">
+              <h4>Balance changes</h4>
+              {balanceChanges.length === 0 && <p>No token changes</p>}
+              {balanceChanges.map((change, i) => (
+                <div key={i} className={`tx-preview-row ${change.amount < 0n ? 'debit' : 'credit'}`}>
+                  <span>{change.owner === account?.address ? 'You' : shortAddress(change.owner)}</span>
+                  <span>{formatAmount(change.amount, seedScale)} {change.coinType.split('::').pop()}</span>
+                </div>
+              ))}
+            </div>
+
+            {(preview.created.length > 0 || preview.deleted.length > 0) && (
+              <div className="tx-preview-section">
+                <h4>Objects</h4>
+                {preview.created.map((obj) => (
+                  <div key={obj.objectId} className="tx-preview-row credit">
+                    <span>Created</span><span>{shortType(obj.objectType)}</span>
+                  </div>
+                ))}
+                {preview.deleted.map((obj) => (
+                  <div key={obj.objectId} className="tx-preview-row debit">
+                    <span>Removed</span><span>{shortType(obj.objectType)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {preview.events.length > 0 && (
+              <div className="tx-preview-section">
+                <h4>Events</h4>
+                {preview.events.map((event, i) => (
+                  <div key={i} className="tx-preview-row"><span>{shortType(event.type)}</span></div>
+                ))}
+              </div>
+            )}
+
+            <p className="tx-preview-gas">
+              ⛽ Estimated gas: {formatAmount(-preview.gasUsed, SUI_DECIMALS).slice(1)} SUI
+            </p>
+          </>
+        )}
+
+        <div className="modal-actions">
+          <button onClick={cancel}>Cancel</button>
+          <button onClick={confirm} disabled={willFail}>Confirm</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import type { QueueItem, QueueItemStatus } from '../hooks/useTransactionQueue'
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: '🕒 Waiting',
+  building: '🔧 Preparing',
+  executing: '✍️ Signing',
+  confirming: '⏳ Confirming',
+  success: '✅ Done',
+  failed: '❌ Failed',
+  unknown: '⏳ Still checking',
+}
+
+interface TransactionQueueStatusProps {
+  items: readonly QueueItem[]
+}
+
+export default function TransactionQueueStatus({ items }: TransactionQueueStatusProps) {
+  // A single running transaction is already covered by the tx-status toast
+  if (items.length < 2) return null
+
+  return (
+    <div className="tx-queue">
+      {items.map((item) => (
+        <div key={item.id} className={`tx-queue-item ${item.status}`} title={item.error}>
+          <span className="tx-queue-label">{item.label}</span>
+          <span className="tx-queue-status">{STATUS_LABELS[item.status]}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import type { SuiClient } from '@mysten/sui/client'
+
+// Deployment manifests are the JSON output of `sui client publish --json`, saved as
+// src/config/deployments/<network>.json. The IDs the app needs are picked out by type.
+
+export interface DeploymentIds {
+  packageId: string
+  seedAdminCap: string
+  leaderboardConfigId: string
+}
+
+/** A deployment manifest that can't be used */
+export class ManifestError extends Error {
+  constructor(source: string, message: string) {
+    super(`${source}: ${message}`)
+    this.name = 'ManifestError'
+  }
+}
+
+interface PublishedChange {
+  type: 'published'
+  packageId: string
+}
+
+interface CreatedChange {
+  type: 'created'
+  objectType: string
+  objectId: string
+  owner: unknown
+}
+
+const isShared = (owner: unknown) => typeof owner === 'object' && owner !== null && 'Shared' in owner
+
+/**
+ * Read the package ID, the SeedAdminCap and the shared LeaderboardConfig from the output of
+ * `sui client publish --json`. Throws ManifestError when the output isn't a successful publish
+ * of this package.
+ */
+export function parsePublishOutput(output: unknown, source: string): DeploymentIds {
+  const result = output as { effects?: { status?: { status?: string; error?: string } }; objectChanges?: unknown }
+  const status = result?.effects?.status
+  if (status && status.status !== 'success') {
+    throw new ManifestError(source, `the publish transaction failed (${status.error ?? status.status})`)
+  }
+  if (!Array.isArray(result?.objectChanges)) {
+    throw new ManifestError(source, 'no objectChanges; save the output of `sui client publish --json`')
+  }
+  const changes = result.objectChanges as Array<PublishedChange | CreatedChange | { type: string }>
+
+  const published = changes.find((change): change is PublishedChange => change.type === 'published')
+  if (!published) throw new ManifestError(source, 'no published package')
+  const { packageId } = published
+
+  const created = (typeName: string) => changes.find(
+    (change): change is CreatedChange => change.type === 'created' && (change as CreatedChange).objectType === `${packageId}::${typeName}`
+  )
+  const adminCap = created('seed::SeedAdminCap')
+  if (!adminCap) throw new ManifestError(source, 'no seed::SeedAdminCap was created')
+  const leaderboardConfig = created('leaderboard::LeaderboardConfig')
+  if (!leaderboardConfig) throw new ManifestError(source, 'no leaderboard::LeaderboardConfig was created')
+  if (!isShared(leaderboardConfig.owner)) throw new ManifestError(source, 'the LeaderboardConfig is not shared')
+
+  return { packageId, seedAdminCap: adminCap.objectId, leaderboardConfigId: leaderboardConfig.objectId }
+}
+
+/**
+ * Check that the configured package and objects exist on the network the client talks to.
+ * @returns readable problems; empty when the deployment is usable
+ */
+export async function validateDeployment(client: SuiClient, ids: DeploymentIds): Promise<string[]> {
+  if (!ids.packageId) return ['No package ID is configured for this network.']
+
+  const expected: Array<{ label: string; id: string; type: string }> = [
+    { label: 'Package', id: ids.packageId, type: 'package' },
+    { label: 'SeedAdminCap', id: ids.seedAdminCap, type: `${ids.packageId}::seed::SeedAdminCap` },
+    { label: 'LeaderboardConfig', id: ids.leaderboardConfigId, type: `${ids.packageId}::leaderboard::LeaderboardConfig` },
+  ]
+  const missingIds = expected.filter(({ id }) => !id).map(({ label }) => `No ${label} ID is configured for this network.`)
+  const toCheck = expected.filter(({ id }) => id)
+
+  const objects = await client.multiGetObjects({ ids: toCheck.map(({ id }) => id), options: { showType: true, showContent: true } })
+  const problems = toCheck.flatMap(({ label, id, type }, i): string[] => {
+    const object = objects[i]
+    if (!object?.data) return [`${label} ${id} was not found on this network.`]
+    if (object.data.type !== type) return [`${label} ${id} is a ${object.data.type ?? 'unknown object'}, expected ${type}.`]
+    // Packages published before the SeedAdminCap had a minter have the old game and seed
+    // functions too, which the bindings no longer match; they can't be upgraded in place
+    const content = object.data.content
+    if (label === 'SeedAdminCap' && content?.dataType === 'moveObject' && !('minter' in content.fields)) {
+      return [`Package ${ids.packageId} predates the current contract; publish contract/ again.`]
+    }
+    return []
+  })
+  return [...missingIds, ...problems]
+}
@@ -1,30 +1,121 @@
 import { getFullnodeUrl } from '@mysten/sui/client'
+import { SIMULATOR_DEPLOYMENT } from '../simulator/deployment'
+import { parsePublishOutput, type DeploymentIds } from './deployment'
 
-type SuiNetwork = 'mainnet' | 'testnet' | 'devnet' | 'localnet'
-
-// Centralized Sui environment configuration with sensible defaults for local development.
-const defaults = {
-  PACKAGE_ID: '0x599868f3b4e190173c1ec1d3bd2738239461d617f74fe136a1a2f021fdf02503',
-  CLOCK_OBJECT: '0x6',
-  RANDOM_OBJECT: '0x8',
-  SEED_ADMIN_CAP: '0x4d1847752f9470d9cd83a6c76b71801c32623b1c095c8d1f666500223cbfd5ac',
-  LEADERBOARD_CONFIG_ID: '0xba8c7f6735c3f7d221c056a102be5afa413d444b4c296fb7db4a9f001397943c',
-  SPONSOR_PRIVATE_KEY: 'suiprivkey1qzkejytknake27tl58q5ymnvdz63e6zq8cp69x0a3ng89rsvdamuz9kwvqn',
-  SUI_NETWORK: 'testnet' as SuiNetwork,
+export type SuiNetwork = 'localnet' | 'devnet' | 'testnet' | 'mainnet'
+
+/** Where the game runs on one network */
+export interface NetworkConfig {
+  label: string
+  fullnodeUrl: string
+  packageId: string
+  seedAdminCap: string
+  leaderboardConfigId: string
+  sponsorRelayUrl: string
+  /** Why the network's deployment manifest couldn't be read, if it couldn't */
+  manifestError?: string
 }
 
+export const SUI_NETWORKS: SuiNetwork[] = ['localnet', 'devnet', 'testnet', 'mainnet']
+
 type EnvValue = string | undefined
 const env = import.meta.env as Record<string, EnvValue>
 
-const getEnv = (key: string, fallback: string): string => env[key] ?? fallback
+// Last network picked with the in-app switcher
+const NETWORK_STORAGE_KEY = 'fruit-game:network'
+
+const isSuiNetwork = (value: string | null | undefined): value is SuiNetwork =>
+  !!value && (SUI_NETWORKS as string[]).includes(value)
+
+const envNetwork = isSuiNetwork(env.VITE_SUI_NETWORK) ? env.VITE_SUI_NETWORK : 'testnet'
+
+// `sui client publish --json` output per network, see config/deployment.ts
+const manifests = import.meta.glob<unknown>('./deployments/*.json', { eager: true, import: 'default' })
+
+const readManifest = (network: SuiNetwork): { ids?: DeploymentIds; error?: string } => {
+  const source = `./deployments/${network}.json`
+  if (!(source in manifests)) return {}
+  try {
+    return { ids: parsePublishOutput(manifests[source], source) }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+// `VITE_PACKAGE_ID_LOCALNET` etc. set one network; the unsuffixed `VITE_PACKAGE_ID` sets the
+// network named by VITE_SUI_NETWORK, as before there was more than one
+const getNetworkEnv = (network: SuiNetwork, key: string, fallback: string): string =>
+  env[`${key}_${network.toUpperCase()}`] ?? (network === envNetwork ? env[key] : undefined) ?? fallback
+
+const networkConfig = (network: SuiNetwork): NetworkConfig => {
+  const manifest = readManifest(network)
+  const deployment = manifest.error ? undefined : manifest.ids
+  return {
+    label: network.toUpperCase(),
+    fullnodeUrl: getNetworkEnv(network, 'VITE_SUI_FULLNODE_URL', getFullnodeUrl(network)),
+    packageId: getNetworkEnv(network, 'VITE_PACKAGE_ID', deployment?.packageId ?? ''),
+    seedAdminCap: getNetworkEnv(network, 'VITE_SEED_ADMIN_CAP', deployment?.seedAdminCap ?? ''),
+    leaderboardConfigId: getNetworkEnv(network, 'VITE_LEADERBOARD_CONFIG_ID', deployment?.leaderboardConfigId ?? ''),
+    // Gas sponsorship goes through the relay in /relay, which holds the sponsor key server-side.
+    sponsorRelayUrl: getNetworkEnv(network, 'VITE_SPONSOR_RELAY_URL', 'http://localhost:8787'),
+    manifestError: manifest.error,
+  }
+}
+
+/** Every network the app knows about */
+export const NETWORKS = Object.fromEntries(
+  SUI_NETWORKS.map((network) => [network, networkConfig(network)])
+) as Record<SuiNetwork, NetworkConfig>
+
+/** Whether the game's package is known on a network */
+export const isDeployed = (network: SuiNetwork): boolean => NETWORKS[network].packageId !== ''
+
+// `?network=` wins, then the switcher's choice, then VITE_SUI_NETWORK
+const selectedNetwork = (): SuiNetwork => {
+  if (typeof window === 'undefined') return envNetwork
+  const fromUrl = new URLSearchParams(window.location.search).get('network')
+  if (isSuiNetwork(fromUrl)) return fromUrl
+  const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY)
+  return isSuiNetwork(stored) ? stored : envNetwork
+}
+
+/**
+ * Switch the whole app to another network.
+ * The IDs below are read once at startup, so the page reloads on the new network.
+ */
+export function selectNetwork(network: SuiNetwork) {
+  window.localStorage.setItem(NETWORK_STORAGE_KEY, network)
+  const url = new URL(window.location.href)
+  url.searchParams.delete('network')
+  window.location.replace(url)
+}
+
+export const SUI_NETWORK = selectedNetwork()
+
+// VITE_OFFLINE=true runs the game against the in-memory simulator (src/simulator) instead of a network
+export const OFFLINE_MODE = env.VITE_OFFLINE === 'true'
+/** Seed of the offline simulator's randomness; the same seed and actions give the same fruit */
+export const SIMULATOR_SEED = Number(env.VITE_SIMULATOR_SEED ?? '1')
+
+const offlineNetwork: NetworkConfig = {
+  label: 'OFFLINE',
+  fullnodeUrl: '',
+  ...SIMULATOR_DEPLOYMENT,
+  sponsorRelayUrl: '',
+}
+
+/** The network the app talks to: the selected one, or the simulator offline */
+export const CURRENT_NETWORK = OFFLINE_MODE ? offlineNetwork : NETWORKS[SUI_NETWORK]
 
-const network = (env.VITE_SUI_NETWORK as SuiNetwork | undefined) ?? defaults.SUI_NETWORK
+export const PACKAGE_ID = CURRENT_NETWORK.packageId
+export const SEED_ADMIN_CAP = CURRENT_NETWORK.seedAdminCap
+export const LEADERBOARD_CONFIG_ID = CURRENT_NETWORK.leaderboardConfigId
+export const SPONSOR_RELAY_URL = CURRENT_NETWORK.sponsorRelayUrl
+export const SUI_FULLNODE_URL = CURRENT_NETWORK.fullnodeUrl
+// System objects have the same address on every network
+export const CLOCK_OBJECT = env.VITE_CLOCK_OBJECT_ID ?? '0x6'
+export const RANDOM_OBJECT = env.VITE_RANDOM_OBJECT_ID ?? '0x8'
 
-export const PACKAGE_ID = getEnv('VITE_PACKAGE_ID', defaults.PACKAGE_ID)
-export const CLOCK_OBJECT = getEnv('VITE_CLOCK_OBJECT_ID', defaults.CLOCK_OBJECT)
-export const RANDOM_OBJECT = getEnv('VITE_RANDOM_OBJECT_ID', defaults.RANDOM_OBJECT)
-export const SEED_ADMIN_CAP = getEnv('VITE_SEED_ADMIN_CAP', defaults.SEED_ADMIN_CAP)
-export const LEADERBOARD_CONFIG_ID = getEnv('VITE_LEADERBOARD_CONFIG_ID', defaults.LEADERBOARD_CONFIG_ID)
-export const SPONSOR_PRIVATE_KEY = getEnv('VITE_SPONSOR_PRIVATE_KEY', defaults.SPONSOR_PRIVATE_KEY)
-export const SUI_NETWORK = network
-export const SUI_FULLNODE_URL = getEnv('VITE_SUI_FULLNODE_URL', getFullnodeUrl(network))
+// The in-app network switcher is for developers: on in `vite dev`, or with VITE_NETWORK_SWITCHER=true.
+// There is nothing to switch to offline
+export const SHOW_NETWORK_SWITCHER = !OFFLINE_MODE && (import.meta.env.DEV || env.VITE_NETWORK_SWITCHER === 'true')
@@ -0,0 +1,44 @@
+import { isValidBoard, type DropLog } from 'fruit-merge-shared/mergeGame'
+
+// The game in progress is kept in localStorage, so switching tabs or reloading the page
+// doesn't lose it. There's one saved game per package and player. Only the seed and drop log
+// are saved; the game is put back by replaying them (MergeGame.replay), as the relay does.
+
+const STORAGE_PREFIX = 'fruit-game:merge-game'
+// Bump when SavedGame changes shape; older saves are dropped
+const SAVE_VERSION = 2
+
+export interface SavedGame {
+  seed: number
+  log: DropLog
+  /** The relay's session to claim the game's seeds with, if it has one */
+  sessionId: string | null
+  /** The game.move GameSession, for games played on chain */
+  chainSessionId: string | null
+}
+
+export const savedGameKey = (packageId: string, player: string | undefined) =>
+  `${STORAGE_PREFIX}:${packageId}:${player ?? 'guest'}`
+
+export function loadSavedGame(key: string): SavedGame | null {
+  try {
+    const raw = window.localStorage.getItem(key)
+    if (!raw) return null
+    const { version, game } = JSON.parse(raw) as { version?: number; game?: SavedGame }
+    const log = game?.log
+    if (version === SAVE_VERSION && Number.isInteger(game?.seed) && log && Array.isArray(log.drops) && isValidBoard(log.board)) return game
+  } catch (err) {
+    console.warn('Discarding unreadable saved game:', err)
+  }
+  window.localStorage.removeItem(key)
+  return null
+}
+
+export function saveGame(key: string, game: SavedGame) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify({ version: SAVE_VERSION, game }))
+  } catch (err) {
+    // Storage full or disabled; the game just won't survive a reload
+    console.warn('Could not save the game:', err)
+  }
+}
@@ -0,0 +1,173 @@
+import { useCallback, useRef, useState } from 'react'
+import { useSuiClient } from '@mysten/dapp-kit'
+import type { SuiObjectChange } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { fromBase64 } from '@mysten/sui/utils'
+import { game as gameCalls } from '../bindings'
+import { PACKAGE_ID } from '../config/sui'
+import { ChainFruits, chainLevel, gameEvent, sizeIndexOf } from 'fruit-merge-shared/chainGame'
+import type { DropLog } from 'fruit-merge-shared/mergeGame'
+import { decodeGameSession, decodeObject, type GameSession } from 'fruit-merge-shared/objectDecoders'
+import { approveChainHarvest } from '../utils/sponsorTransaction'
+import { useGameSessions, usePlayerAccounts } from './useGameQueries'
+import type { SponsoredTransactionResult } from './useSponsoredTransaction'
+import { useTransactionQueue, type QueuedTransactionInput } from './useTransactionQueue'
+
+export interface UseChainGameReturn {
+  /** The player's game session as last read from chain, if they have one */
+  session: GameSession | null
+  /** Sessions are started from the PlayerAccount; null until it has loaded or if there is none */
+  playerAccountId: string | null
+
+  /** Begin a game: creates the session the first time, resets it after that */
+  start: () => Promise<void>
+
+  /** Carry on with a session after a reload, from what the chain holds; resolves with it */
+  resume: (sessionId: string) => Promise<GameSession>
+
+  /** drop_fruit; resolves with the size index of the fruit the contract picked */
+  drop: () => Promise<number>
+
+  /**
+   * Report that two fruits of `sizeIndex` merged. Queued behind the drops and merges before
+   * it; merges the contract's board can't match are skipped.
+   */
+  merge: (sizeIndex: number) => void
+
+  /** start_claim: the harvest then needs five more drops (utils::drops_required) */
+  startClaim: () => Promise<void>
+
+  /**
+   * complete_harvest; resolves with the whole SEED minted. The relay first replays `log`, the
+   * game's drops so far, and the contract mints no more than the replay earned.
+   */
+  harvest: (log: DropLog) => Promise<number>
+
+  /** trigger_game_over; the pending seeds are lost */
+  gameOver: () => Promise<void>
+}
+
+/**
+ * The merge game played against `game.move`. The page runs the physics; the contract picks each
+ * fruit, counts merges and seeds, and mints the harvest. Every call is a transaction on the
+ * session object, so they go through the transaction queue in order.
+ */
+export function useChainGame(): UseChainGameReturn {
+  const suiClient = useSuiClient()
+  const { enqueue } = useTransactionQueue()
+  const { data: accounts } = usePlayerAccounts()
+  const { data: sessions } = useGameSessions()
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  // The session the calls go to, set before the query has caught up with a new one
+  const sessionIdRef = useRef<string | null>(null)
+  const fruitsRef = useRef(new ChainFruits())
+
+  const session = sessions?.find((s) => s.id === sessionId) ?? sessions?.[0] ?? null
+  const playerAccountId = accounts?.[0]?.id ?? null
+
+  const run = useCallback((input: Omit<QueuedTransactionInput, 'build'> & { build: (tx: Transaction) => void }) =>
+    new Promise<SponsoredTransactionResult>((resolve, reject) => {
+      enqueue(
+        {
+          ...input,
+          build: async () => {
+            const tx = new Transaction()
+            input.build(tx)
+            return tx
+          },
+        },
+        { onSuccess: resolve, onError: reject }
+      )
+    }), [enqueue])
+
+  const requireSession = useCallback(() => {
+    if (!sessionIdRef.current) throw new Error('Start an on-chain game first')
+    return sessionIdRef.current
+  }, [])
+
+  const start = useCallback(async () => {
+    if (session) {
+      await run({ label: 'Reset game', objectKeys: [session.id], build: (tx) => gameCalls.resetGame(tx, { session: session.id }) })
+      sessionIdRef.current = session.id
+    } else {
+      if (!playerAccountId) throw new Error('Create your player account on the farm first')
+      const result = await run({
+        label: 'Start game',
+        objectKeys: [playerAccountId],
+        build: (tx) => gameCalls.startGameEntry(tx, { playerAccount: playerAccountId }),
+      })
+      const created = (result.objectChanges as SuiObjectChange[] | undefined)?.find(
+        (change) => change.type === 'created' && change.objectType === `${PACKAGE_ID}::game::GameSession`
+      )
+      if (created?.type !== 'created') throw new Error('Game session missing from the transaction result')
+      sessionIdRef.current = created.objectId
+    }
+    setSessionId(sessionIdRef.current)
+    fruitsRef.current = new ChainFruits()
+  }, [playerAccountId, run, session])
+
+  const resume = useCallback(async (id: string) => {
+    const current = decodeObject(await suiClient.getObject({ id, options: { showContent: true } }), decodeGameSession)
+    sessionIdRef.current = id
+    setSessionId(id)
+    fruitsRef.current = new ChainFruits(current.currentFruits)
+    return current
+  }, [suiClient])
+
+  const drop = useCallback(async () => {
+    const id = requireSession()
+    const result = await run({ label: 'Drop fruit', objectKeys: [id], build: (tx) => gameCalls.dropFruit(tx, { session: id }) })
+    const dropped = gameEvent(result.events, PACKAGE_ID, 'FruitDropped')
+    if (!dropped) throw new Error('FruitDropped missing from the transaction result')
+    const level = Number(dropped.fruit_type)
+    fruitsRef.current.add(level)
+    return sizeIndexOf(level)
+  }, [requireSession, run])
+
+  const merge = useCallback((sizeIndex: number) => {
+    const id = sessionIdRef.current
+    if (!id) return
+    const indices = fruitsRef.current.merge(chainLevel(sizeIndex))
+    if (!indices) return
+    run({
+      label: 'Merge fruits',
+      objectKeys: [id],
+      build: (tx) => gameCalls.mergeFruits(tx, { session: id, fruitIndex1: indices[0], fruitIndex2: indices[1] }),
+    }).catch(async (err) => {
+      // The mirror no longer matches the chain; start again from what the chain holds
+      console.warn('Merge not recorded on chain:', err)
+      const fresh = await suiClient.getObject({ id, options: { showContent: true } })
+      fruitsRef.current = new ChainFruits(decodeObject(fresh, decodeGameSession).currentFruits)
+    }).catch((err) => console.error('Could not re-read the game session:', err))
+  }, [run, suiClient])
+
+  const startClaim = useCallback(async () => {
+    const id = requireSession()
+    await run({ label: 'Start claim', objectKeys: [id], build: (tx) => gameCalls.startClaim(tx, { session: id }) })
+  }, [requireSession, run])
+
+  const harvest = useCallback(async (log: DropLog) => {
+    const id = requireSession()
+    if (!playerAccountId) throw new Error('Player account not found')
+    const approval = await approveChainHarvest(id, log)
+    const result = await run({
+      label: 'Harvest seeds',
+      objectKeys: [id, playerAccountId],
+      build: (tx) => gameCalls.completeHarvest(tx, {
+        session: id,
+        playerAccount: playerAccountId,
+        verifiedSeeds: approval.verifiedSeeds,
+        publicKey: Array.from(fromBase64(approval.publicKey)),
+        signature: Array.from(fromBase64(approval.signature)),
+      }),
+    })
+    return Number(gameEvent(result.events, PACKAGE_ID, 'HarvestCompleted')?.seeds_harvested ?? 0)
+  }, [playerAccountId, requireSession, run])
+
+  const gameOver = useCallback(async () => {
+    const id = requireSession()
+    await run({ label: 'Game over', objectKeys: [id], build: (tx) => gameCalls.triggerGameOver(tx, { session: id }) })
+  }, [requireSession, run])
+
+  return { session, playerAccountId, start, resume, drop, merge, startClaim, harvest, gameOver }
+}
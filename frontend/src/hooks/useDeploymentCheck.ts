@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react'
+import { useSuiClient } from '@mysten/dapp-kit'
+import { validateDeployment } from '../config/deployment'
+import { CURRENT_NETWORK, LEADERBOARD_CONFIG_ID, PACKAGE_ID, SEED_ADMIN_CAP } from '../config/sui'
+
+export type DeploymentCheck =
+  | { status: 'checking' }
+  | { status: 'ok' }
+  | { status: 'invalid'; problems: string[] }
+
+/** Check once at startup that the selected network has the game's package and objects */
+export function useDeploymentCheck(): DeploymentCheck {
+  const suiClient = useSuiClient()
+  const manifestError = CURRENT_NETWORK.manifestError
+  const [check, setCheck] = useState<DeploymentCheck>(
+    manifestError ? { status: 'invalid', problems: [manifestError] } : { status: 'checking' }
+  )
+
+  useEffect(() => {
+    if (manifestError) return
+    let cancelled = false
+    validateDeployment(suiClient, { packageId: PACKAGE_ID, seedAdminCap: SEED_ADMIN_CAP, leaderboardConfigId: LEADERBOARD_CONFIG_ID })
+      .then((problems): DeploymentCheck => (problems.length > 0 ? { status: 'invalid', problems } : { status: 'ok' }))
+      .catch((err): DeploymentCheck => {
+        // An unreachable node isn't a broken deployment; let the app show its own errors
+        console.warn('Could not check the deployment:', err)
+        return { status: 'ok' }
+      })
+      .then((result) => { if (!cancelled) setCheck(result) })
+    return () => { cancelled = true }
+  }, [manifestError, suiClient])
+
+  return check
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { eventFeed, notificationFor, type GameEvent } from '../utils/eventFeed'
+import { invalidateTransactions } from '../utils/gameQueries'
+
+export type { GameEvent } from '../utils/eventFeed'
+
+// How long a notification stays up unless dismissed
+const NOTIFICATION_TTL_MS = 8000
+
+export interface EventNotification {
+  id: number
+  message: string
+}
+
+/** Call `onEvents` with each batch of new contract events while the component is mounted */
+export function useEventFeed(onEvents: (events: GameEvent[]) => void) {
+  const suiClient = useSuiClient()
+  const latest = useRef(onEvents)
+
+  useEffect(() => {
+    latest.current = onEvents
+  }, [onEvents])
+
+  useEffect(() => eventFeed.subscribe(suiClient, (events) => latest.current(events)), [suiClient])
+}
+
+/**
+ * Keep cached chain data in step with other players' transactions and collect notifications
+ * for events that concern the connected wallet.
+ */
+export function useEventNotifications() {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const queryClient = useQueryClient()
+  const [notifications, setNotifications] = useState<EventNotification[]>([])
+  const nextId = useRef(0)
+
+  const dismiss = useCallback((id: number) => {
+    setNotifications((prev) => prev.filter((notification) => notification.id !== id))
+  }, [])
+
+  useEventFeed((events) => {
+    // The player's own transactions were refetched when they confirmed
+    const others = events.filter((event) => event.sender !== account?.address)
+    invalidateTransactions(suiClient, queryClient, others.map((event) => event.txDigest))
+      .catch((err) => console.warn('Could not refresh after contract events:', err))
+
+    if (!account?.address) return
+    const messages = events.flatMap((event) => notificationFor(event, account.address) ?? [])
+    const added = messages.map((message) => ({ id: nextId.current++, message }))
+    if (added.length === 0) return
+    setNotifications((prev) => [...prev, ...added])
+    for (const { id } of added) setTimeout(() => dismiss(id), NOTIFICATION_TTL_MS)
+  })
+
+  return { notifications, dismiss }
+}
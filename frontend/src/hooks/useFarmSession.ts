@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import type { SuiObjectChange } from '@mysten/sui/client'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { Transaction } from '@mysten/sui/transactions'
+import { session as sessionCalls } from '../bindings'
+import {
+  farmSessionStore,
+  fetchSessionFields,
+  SESSION_SCOPE_ALL,
+  type FarmSession,
+} from '../utils/farmSession'
+import { addSeedPayment } from '../utils/seedWallet'
+import { useSponsoredTransaction, type UseSponsoredTransactionReturn } from './useSponsoredTransaction'
+import { useSyncTransaction } from './useSyncTransaction'
+
+export { sessionAllows, sessionFor, sessionObjects, SESSION_SCOPE } from '../utils/farmSession'
+export type { FarmSession, SessionAction, SignedFarmSession } from '../utils/farmSession'
+
+export interface StartSessionInput {
+  landId: string
+  inventoryId: string
+  /** SEED the session key may spend, in base units; the rest is refunded when the session ends */
+  allowance: bigint
+  durationMs: number
+  /** SESSION_SCOPE bits; defaults to every farm action */
+  scope?: number
+}
+
+export interface UseFarmSessionReturn extends Pick<UseSponsoredTransactionReturn, 'isPending' | 'confirmation'> {
+  /** The connected player's open session, if any */
+  session: FarmSession | null
+
+  /**
+   * Create a session key and hand it the land, inventory and allowance.
+   * This is the one wallet approval; the transaction is previewed first.
+   */
+  startSession: (input: StartSessionInput) => Promise<void>
+
+  /** Return land, inventory and the unspent allowance to the player (wallet approval) */
+  endSession: () => Promise<void>
+
+  /** Re-read the session's remaining allowance */
+  refreshAllowance: () => Promise<void>
+}
+
+function createdObjectId(changes: unknown, typeSuffix: string): string | undefined {
+  const created = (changes as SuiObjectChange[] | undefined)?.find(
+    (change) => change.type === 'created' && change.objectType.endsWith(typeSuffix)
+  )
+  return created?.type === 'created' ? created.objectId : undefined
+}
+
+/**
+ * Farm session for the connected player (see utils/farmSession).
+ * While a session is open, PlayerLand and Market sign routine actions with the session key.
+ */
+export function useFarmSession(): UseFarmSessionReturn {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const { mutateAsync, isPending, confirmation } = useSponsoredTransaction()
+  const syncTransaction = useSyncTransaction()
+  const stored = useSyncExternalStore(farmSessionStore.subscribe, farmSessionStore.getSession)
+  const address = account?.address
+  const session = stored && stored.owner === address ? stored : null
+
+  // Pick up a session that is still open from an earlier visit
+  useEffect(() => {
+    if (address) void farmSessionStore.discover(suiClient, address)
+  }, [address, suiClient])
+
+  const startSession = useCallback(async (input: StartSessionInput) => {
+    if (!address) throw new Error('Wallet not connected')
+    const keypair = new Ed25519Keypair()
+
+    const tx = new Transaction()
+    const allowance = await addSeedPayment(tx, suiClient, address, input.allowance)
+    sessionCalls.startSession(tx, {
+      land: input.landId,
+      inventory: input.inventoryId,
+      allowance,
+      delegate: keypair.toSuiAddress(),
+      durationMs: input.durationMs,
+      scope: input.scope ?? SESSION_SCOPE_ALL,
+    })
+
+    const result = await mutateAsync({ transaction: tx, confirm: true })
+    await syncTransaction(result.digest)
+
+    const sessionId = createdObjectId(result.objectChanges, '::session::FarmSession')
+    const capId = createdObjectId(result.objectChanges, '::session::SessionCap')
+    const receiptId = createdObjectId(result.objectChanges, '::session::SessionReceipt')
+    if (!sessionId || !capId || !receiptId) throw new Error('Session objects missing from the transaction result')
+    const fields = await fetchSessionFields(suiClient, sessionId)
+    if (!fields) throw new Error('Session not found')
+
+    farmSessionStore.set({ sessionId, receiptId, ...fields, signer: { keypair, capId } })
+  }, [address, mutateAsync, suiClient, syncTransaction])
+
+  const endSession = useCallback(async () => {
+    if (!session) return
+    const tx = new Transaction()
+    sessionCalls.endSession(tx, { session: session.sessionId, receipt: session.receiptId })
+    const result = await mutateAsync({ transaction: tx })
+    await syncTransaction(result.digest)
+    farmSessionStore.set(null)
+
+    // The cap is useless now; let the session key delete it for the storage rebate
+    if (session.signer) {
+      const cleanup = new Transaction()
+      sessionCalls.destroyCap(cleanup, { cap: session.signer.capId })
+      mutateAsync({ transaction: cleanup, signer: session.signer.keypair }).catch(err => console.warn('Could not delete session cap:', err))
+    }
+  }, [mutateAsync, session, syncTransaction])
+
+  const refreshAllowance = useCallback(async () => {
+    if (!session) return
+    const fields = await fetchSessionFields(suiClient, session.sessionId)
+    if (fields) farmSessionStore.update({ allowance: fields.allowance })
+  }, [session, suiClient])
+
+  return { session, startSession, endSession, refreshAllowance, isPending, confirmation }
+}
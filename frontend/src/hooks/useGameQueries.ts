@@ -0,0 +1,207 @@
+import { useQuery } from '@tanstack/react-query'
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import type { SuiClient } from '@mysten/sui/client'
+import { PACKAGE_ID } from '../config/sui'
+import { queryKeys } from '../utils/gameQueries'
+import { findOwnedObjects } from '../utils/ownedObjects'
+import { SEED_COIN_TYPE, seedWallet } from '../utils/seedWallet'
+import {
+  decodeFruitNFT,
+  decodeGameSession,
+  decodeLeaderboardEntry,
+  decodeLeaderboardRound,
+  decodeObject,
+  decodePlayerAccount,
+  decodePlayerInventory,
+  decodePlayerLand,
+  decodeTableValue,
+  type Decoder,
+  type LeaderboardEntry,
+} from 'fruit-merge-shared/objectDecoders'
+import { useOwnedObjectPages } from './useOwnedObjectPages'
+
+// Game data shared by every component through React Query. Transactions refetch what they
+// changed (see useSyncTransaction), so nothing here needs to be reloaded by hand.
+
+const LAND_TYPE = `${PACKAGE_ID}::land::PlayerLand`
+const INVENTORY_TYPE = `${PACKAGE_ID}::player::PlayerInventory`
+const ACCOUNT_TYPE = `${PACKAGE_ID}::player::PlayerAccount`
+const GAME_SESSION_TYPE = `${PACKAGE_ID}::game::GameSession`
+const NFT_TYPE = `${PACKAGE_ID}::fruit_nft::FruitNFT`
+const ROUND_TYPE = `${PACKAGE_ID}::leaderboard::LeaderboardRound`
+
+// Used until the coin metadata is read
+const DEFAULT_SEED_SCALE = 1_000_000_000n
+
+async function fetchOwned<T>(client: SuiClient, owner: string, type: string, decode: Decoder<T>): Promise<T[]> {
+  const objects = await findOwnedObjects(client, owner, { type })
+  return objects.flatMap((obj) => {
+    try {
+      return [decodeObject(obj, decode)]
+    } catch (err) {
+      console.error(`Skipping unreadable ${type}:`, err)
+      return []
+    }
+  })
+}
+
+async function fetchDecoded<T>(client: SuiClient, id: string, decode: Decoder<T>): Promise<T> {
+  return decodeObject(await client.getObject({ id, options: { showContent: true } }), decode)
+}
+
+// The newest round is the one created by the latest RoundCreated event
+async function findLatestRoundId(client: SuiClient): Promise<string | null> {
+  const events = await client.queryEvents({
+    query: { MoveEventType: `${PACKAGE_ID}::leaderboard::RoundCreated` },
+    limit: 1,
+    order: 'descending',
+  })
+  if (events.data.length === 0) return null
+  const tx = await client.getTransactionBlock({ digest: events.data[0].id.txDigest, options: { showObjectChanges: true } })
+  const created = tx.objectChanges?.find((c) => c.type === 'created' && c.objectType === ROUND_TYPE)
+  return created && 'objectId' in created ? created.objectId : null
+}
+
+// One entry per player, best weight first
+async function fetchRoundEntries(client: SuiClient, tableId: string): Promise<LeaderboardEntry[]> {
+  const fields = await client.getDynamicFields({ parentId: tableId, limit: 50 })
+  const best = new Map<string, LeaderboardEntry>()
+  for (const f of fields.data) {
+    try {
+      const entry = decodeTableValue(await client.getDynamicFieldObject({ parentId: tableId, name: f.name }), decodeLeaderboardEntry)
+      const existing = best.get(entry.player)
+      if (!existing || entry.bestWeight > existing.bestWeight) best.set(entry.player, entry)
+    } catch (err) { console.error('Skipping unreadable entry:', err) }
+  }
+  return [...best.values()].sort((a, b) => b.bestWeight - a.bestWeight)
+}
+
+/** The connected wallet's SEED balance in base units */
+export function useSeedBalance() {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const owner = account?.address ?? ''
+  return useQuery({
+    queryKey: queryKeys.balance(SEED_COIN_TYPE, owner),
+    // The query decides when to refetch; keep the wallet's cache in step with it
+    queryFn: () => seedWallet.getBalance(suiClient, owner, 0),
+    enabled: !!owner,
+  })
+}
+
+/** Base units per whole SEED, from the coin metadata */
+export function useSeedScale(): bigint {
+  const suiClient = useSuiClient()
+  const { data } = useQuery({
+    queryKey: queryKeys.coinMetadata(SEED_COIN_TYPE),
+    queryFn: async () => {
+      const meta = await suiClient.getCoinMetadata({ coinType: SEED_COIN_TYPE })
+      return meta ? 10n ** BigInt(meta.decimals) : DEFAULT_SEED_SCALE
+    },
+    staleTime: Infinity,
+  })
+  return data ?? DEFAULT_SEED_SCALE
+}
+
+/** The connected wallet's lands, by land index */
+export function usePlayerLands() {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const owner = account?.address ?? ''
+  return useQuery({
+    queryKey: queryKeys.objects(LAND_TYPE, 'owner', owner),
+    queryFn: async () => {
+      const lands = await fetchOwned(suiClient, owner, LAND_TYPE, decodePlayerLand)
+      return lands.sort((a, b) => a.landIndex - b.landIndex)
+    },
+    enabled: !!owner,
+  })
+}
+
+/** The connected wallet's inventories; players have one */
+export function usePlayerInventories() {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const owner = account?.address ?? ''
+  return useQuery({
+    queryKey: queryKeys.objects(INVENTORY_TYPE, 'owner', owner),
+    queryFn: () => fetchOwned(suiClient, owner, INVENTORY_TYPE, decodePlayerInventory),
+    enabled: !!owner,
+  })
+}
+
+/** The connected wallet's player accounts; players have one */
+export function usePlayerAccounts() {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const owner = account?.address ?? ''
+  return useQuery({
+    queryKey: queryKeys.objects(ACCOUNT_TYPE, 'owner', owner),
+    queryFn: () => fetchOwned(suiClient, owner, ACCOUNT_TYPE, decodePlayerAccount),
+    enabled: !!owner,
+  })
+}
+
+/** The connected wallet's on-chain merge-game sessions (game.move) */
+export function useGameSessions() {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const owner = account?.address ?? ''
+  return useQuery({
+    queryKey: queryKeys.objects(GAME_SESSION_TYPE, 'owner', owner),
+    queryFn: () => fetchOwned(suiClient, owner, GAME_SESSION_TYPE, decodeGameSession),
+    enabled: !!owner,
+  })
+}
+
+/** One land, also while a farm session holds it */
+export function useLand(id: string | null) {
+  const suiClient = useSuiClient()
+  return useQuery({
+    queryKey: queryKeys.object(id ?? '', 'PlayerLand'),
+    queryFn: () => fetchDecoded(suiClient, id!, decodePlayerLand),
+    enabled: !!id,
+  })
+}
+
+/** One inventory, also while a farm session holds it */
+export function useInventory(id: string | null) {
+  const suiClient = useSuiClient()
+  return useQuery({
+    queryKey: queryKeys.object(id ?? '', 'PlayerInventory'),
+    queryFn: () => fetchDecoded(suiClient, id!, decodePlayerInventory),
+    enabled: !!id,
+  })
+}
+
+/** The connected wallet's fruit NFTs, a page at a time */
+export function useFruitNFTs(pageSize?: number) {
+  return useOwnedObjectPages(NFT_TYPE, decodeFruitNFT, pageSize)
+}
+
+/** The newest leaderboard round and its entries */
+export function useCurrentRound() {
+  const suiClient = useSuiClient()
+  const latest = useQuery({
+    queryKey: queryKeys.objects(ROUND_TYPE, 'latest'),
+    queryFn: () => findLatestRoundId(suiClient),
+  })
+  const roundId = latest.data ?? null
+  const round = useQuery({
+    queryKey: queryKeys.object(roundId ?? '', 'LeaderboardRound'),
+    queryFn: () => fetchDecoded(suiClient, roundId!, decodeLeaderboardRound),
+    enabled: !!roundId,
+  })
+  const tableId = round.data?.entriesTableId ?? null
+  // Under the round's key: joining or updating an entry mutates the round too
+  const entries = useQuery({
+    queryKey: queryKeys.object(roundId ?? '', 'LeaderboardRound', 'entries', tableId ?? ''),
+    queryFn: () => fetchRoundEntries(suiClient, tableId!),
+    enabled: !!tableId,
+  })
+  return {
+    round: round.data ?? null,
+    entries: entries.data ?? [],
+    isLoading: latest.isPending || (!!roundId && round.isPending),
+  }
+}
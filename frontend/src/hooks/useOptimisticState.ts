@@ -0,0 +1,42 @@
+import { useCallback, useMemo, useRef, useState } from 'react'
+
+/** Handle for one optimistic change */
+export interface OptimisticUpdate {
+  /** The real state now includes the change (e.g. it was refetched); drop the guess */
+  commit: () => void
+  /** The transaction failed; undo the guess */
+  rollback: () => void
+}
+
+interface Patch<T> {
+  id: number
+  apply: (state: T) => T
+}
+
+/**
+ * Layer expected changes over state read from chain.
+ * Each pending change is a patch replayed on top of the confirmed value, so refetching the
+ * confirmed value while transactions are in flight keeps the other guesses visible.
+ *
+ * @returns the displayed state, a function to apply a patch, and whether any patch is pending
+ */
+export function useOptimisticState<T>(
+  confirmed: T
+): [T, (apply: (state: T) => T) => OptimisticUpdate, boolean] {
+  const [patches, setPatches] = useState<Patch<T>[]>([])
+  const nextId = useRef(0)
+
+  const state = useMemo(
+    () => patches.reduce((current, patch) => patch.apply(current), confirmed),
+    [patches, confirmed]
+  )
+
+  const applyOptimistic = useCallback((apply: (state: T) => T): OptimisticUpdate => {
+    const id = nextId.current++
+    setPatches(prev => [...prev, { id, apply }])
+    const remove = () => setPatches(prev => prev.filter(patch => patch.id !== id))
+    return { commit: remove, rollback: remove }
+  }, [])
+
+  return [state, applyOptimistic, patches.length > 0]
+}
@@ -0,0 +1,58 @@
+import { useCallback, useMemo } from 'react'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { decodeObject, type Decoder } from 'fruit-merge-shared/objectDecoders'
+import { fetchOwnedObjectsPage } from '../utils/ownedObjects'
+import { queryKeys } from '../utils/gameQueries'
+
+export interface UseOwnedObjectPagesReturn<T> {
+  /** Decoded objects loaded so far, in the fullnode's order */
+  items: T[]
+  hasMore: boolean
+  isLoading: boolean
+  /** Load the next page; ignored while a page is loading or after the last one */
+  loadMore: () => void
+}
+
+/**
+ * The connected wallet's objects of one type, a page at a time (see utils/ownedObjects).
+ * Objects that fail to decode are logged and left out. Cached under the type, so a
+ * transaction that creates, changes or moves one reloads the pages (see useSyncTransaction).
+ */
+export function useOwnedObjectPages<T>(type: string, decode: Decoder<T>, pageSize = 24): UseOwnedObjectPagesReturn<T> {
+  const account = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const owner = account?.address ?? null
+
+  const { data, hasNextPage, isPending, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: queryKeys.objects(type, 'owner', owner ?? '', 'pages', String(pageSize)),
+    queryFn: async ({ pageParam }) => {
+      const page = await fetchOwnedObjectsPage(suiClient, owner!, { type, pageSize }, pageParam)
+      const items = page.objects.flatMap((obj) => {
+        try {
+          return [decodeObject(obj, decode)]
+        } catch (err) {
+          console.error(`Skipping unreadable ${type}:`, err)
+          return []
+        }
+      })
+      return { items, nextCursor: page.nextCursor }
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (page) => page.nextCursor,
+    enabled: !!owner,
+  })
+
+  const items = useMemo(() => data?.pages.flatMap((page) => page.items) ?? [], [data])
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) void fetchNextPage()
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage])
+
+  return {
+    items,
+    hasMore: hasNextPage,
+    isLoading: (!!owner && isPending) || isFetchingNextPage,
+    loadMore,
+  }
+}
@@ -1,43 +1,51 @@
 import { useCallback, useState } from 'react'
-import { useCurrentAccount, useSignTransaction, useSuiClient } from '@mysten/dapp-kit'
-import { SuiClient, type SuiObjectRef } from '@mysten/sui/client'
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignTransaction, useSuiClient } from '@mysten/dapp-kit'
+import { SuiClient, type SuiTransactionBlockResponse } from '@mysten/sui/client'
+import type { Signer } from '@mysten/sui/cryptography'
 import { Transaction } from '@mysten/sui/transactions'
-import { decodeSuiPrivateKey } from '@mysten/sui/cryptography'
 import { fromBase64 } from '@mysten/sui/utils'
-import { SUI_FULLNODE_URL, SPONSOR_PRIVATE_KEY } from '../config/sui'
+import { OFFLINE_MODE, SUI_FULLNODE_URL } from '../config/sui'
+import { getOfflineSimulator } from '../simulator/offline'
+import {
+  completeSponsoredTransaction,
+  executeSponsoredTransaction,
+  isSponsorUnavailable,
+  sponsorTransaction,
+} from '../utils/sponsorTransaction'
+import { previewTransaction, type TransactionPreview } from '../utils/transactionPreview'
+import {
+  isTransientRpcError,
+  TransactionFailedError,
+  transactionOutcome,
+  waitForTransactionResult,
+} from '../utils/resilientExecution'
 
-// Create the sponsor keypair from the private key
-function getSponsorKeypair(): Ed25519Keypair {
-  const { secretKey } = decodeSuiPrivateKey(SPONSOR_PRIVATE_KEY)
-  return Ed25519Keypair.fromSecretKey(secretKey)
-}
+export { SponsorRelayError } from '../utils/sponsorTransaction'
+export type { SponsorLimitDetails, SponsorPolicyRejection } from '../utils/sponsorTransaction'
+export type { TransactionPreview } from '../utils/transactionPreview'
 
 // Create a standalone SUI client for sponsor operations
-const sponsorClient = new SuiClient({ url: SUI_FULLNODE_URL })
+const sponsorClient = OFFLINE_MODE ? getOfflineSimulator().client : new SuiClient({ url: SUI_FULLNODE_URL })
 
-// Get sponsor address
-export function getSponsorAddress(): string {
-  const keypair = getSponsorKeypair()
-  return keypair.getPublicKey().toSuiAddress()
-}
+/** Who paid the gas: the sponsor relay, or the user's own wallet */
+export type ExecutionPath = 'sponsored' | 'self-paid'
 
-// Get gas payment from sponsor wallet
-async function getSponsorGasPayment(): Promise<SuiObjectRef[]> {
-  const sponsorKeypair = getSponsorKeypair()
-  const sponsorAddress = sponsorKeypair.getPublicKey().toSuiAddress()
+// Try the sponsor first, fall back to the user's gas if it cannot pay
+const DEFAULT_STRATEGIES: ExecutionPath[] = ['sponsored', 'self-paid']
+// A session key has no gas of its own
+const SESSION_STRATEGIES: ExecutionPath[] = ['sponsored']
 
-  const coins = await sponsorClient.getCoins({ owner: sponsorAddress, limit: 1 })
-  
-  if (coins.data.length === 0) {
-    throw new Error('Sponsor wallet has no gas coins. Please fund the sponsor wallet.')
-  }
+const EXECUTE_OPTIONS = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+}
 
-  return coins.data.map((coin) => ({
-    objectId: coin.coinObjectId,
-    version: coin.version,
-    digest: coin.digest,
-  }))
+// executeTransactionBlock resolves for transactions that failed on chain; surface those as errors
+function assertExecuted<T extends SuiTransactionBlockResponse>(response: T): T {
+  const outcome = transactionOutcome(response)
+  if (outcome.status === 'failure') throw new TransactionFailedError(response, outcome.error)
+  return response
 }
 
 export interface SponsoredTransactionResult {
@@ -45,15 +53,49 @@ export interface SponsoredTransactionResult {
   effects?: unknown
   events?: unknown
   objectChanges?: unknown
+  executionPath: ExecutionPath
+}
+
+export interface SponsoredTransactionInput {
+  transaction: Transaction
+  /**
+   * Dry-run the transaction first and wait until the user confirms the preview
+   * (see `confirmation`). Cancelling rejects with "Transaction cancelled".
+   */
+  confirm?: boolean
+  /**
+   * Sign with this key instead of the wallet, e.g. a farm session key (see useFarmSession).
+   * The key's address is the sender and only the sponsored path is tried, since it holds no gas.
+   */
+  signer?: Signer
+}
+
+/** A previewed transaction waiting for the user's decision */
+export interface PendingConfirmation {
+  preview: TransactionPreview
+  confirm: () => void
+  cancel: () => void
+}
+
+export interface UseSponsoredTransactionOptions {
+  /**
+   * Execution strategies tried in order. A strategy only hands over to the next one when the
+   * sponsor is unavailable, unfunded or over budget. Defaults to ['sponsored', 'self-paid'].
+   * Pass a stable array (module constant) to avoid re-creating the callbacks.
+   */
+  strategies?: ExecutionPath[]
 }
 
 export interface UseSponsoredTransactionReturn {
   /**
    * Execute a sponsored transaction. The sponsor pays for gas.
    * User wallet popup will appear for signature (required for user-owned objects).
+   * If the sponsor cannot pay, the next strategy runs (by default the user pays gas).
+   * When no strategy is left, onError receives the SponsorRelayError; its `sponsorLimit`
+   * says which budget ran out.
    */
   mutate: (
-    input: { transaction: Transaction },
+    input: SponsoredTransactionInput,
     callbacks?: {
       onSuccess?: (result: SponsoredTransactionResult) => void | Promise<void>
       onError?: (error: Error) => void
@@ -63,8 +105,20 @@ export interface UseSponsoredTransactionReturn {
   /**
    * Async version of mutate
    */
-  mutateAsync: (input: { transaction: Transaction }) => Promise<SponsoredTransactionResult>
-  
+  mutateAsync: (input: SponsoredTransactionInput) => Promise<SponsoredTransactionResult>
+
+  /**
+   * Dry-run a transaction for the connected wallet without signing it.
+   * Returns balance changes, created/mutated/deleted objects and emitted events.
+   */
+  preview: (input: { transaction: Transaction }) => Promise<TransactionPreview>
+
+  /**
+   * Set while a `confirm: true` transaction waits for the user; render it with
+   * TransactionPreviewModal
+   */
+  confirmation: PendingConfirmation | null
+
   /**
    * Whether a transaction is currently pending
    */
@@ -74,23 +128,111 @@ export interface UseSponsoredTransactionReturn {
    * The error from the last transaction, if any
    */
   error: Error | null
+
+  /**
+   * Who paid gas for the last successful transaction, if any
+   */
+  lastExecutionPath: ExecutionPath | null
 }
 
 /**
  * Custom hook for sponsored transactions.
- * The sponsor wallet pays for gas fees, but user still signs for authentication.
+ * The sponsor relay pays for gas fees, but user still signs for authentication.
  * 
  * This provides a similar API to useSignAndExecuteTransaction but with gas sponsorship.
  */
-export function useSponsoredTransaction(): UseSponsoredTransactionReturn {
+export function useSponsoredTransaction(
+  options: UseSponsoredTransactionOptions = {}
+): UseSponsoredTransactionReturn {
+  const strategies = options.strategies ?? DEFAULT_STRATEGIES
   const account = useCurrentAccount()
   const suiClient = useSuiClient()
   const { mutateAsync: signTransaction } = useSignTransaction()
+  const { mutateAsync: signAndExecuteSelfPaid } = useSignAndExecuteTransaction({
+    // Ask for the same effects the sponsored path returns; raw effects are required by dapp-kit
+    execute: ({ bytes, signature }) => suiClient.executeTransactionBlock({
+      transactionBlock: bytes,
+      signature,
+      options: { ...EXECUTE_OPTIONS, showRawEffects: true },
+    }),
+  })
   const [isPending, setIsPending] = useState(false)
   const [error, setError] = useState<Error | null>(null)
+  const [lastExecutionPath, setLastExecutionPath] = useState<ExecutionPath | null>(null)
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null)
 
-  const mutateAsync = useCallback(async (
+  const executeSponsored = useCallback(async (
+    tx: Transaction,
+    sender: string,
+    signer?: Signer
+  ): Promise<SponsoredTransactionResult> => {
+    // Only the transaction kind goes to the relay; it adds sponsor gas and signs
+    const kindBytes = await tx.build({ client: suiClient, onlyTransactionKind: true })
+    const sponsored = await sponsorTransaction(sender, kindBytes)
+
+    try {
+      // User signs the sponsored bytes (this triggers wallet popup, unless a session key signs)
+      const userSigned = signer
+        ? await signer.signTransaction(fromBase64(sponsored.bytes))
+        : await signTransaction({ transaction: sponsored.bytes })
+
+      // Execute with both signatures
+      let result: SuiTransactionBlockResponse
+      try {
+        result = await suiClient.executeTransactionBlock({
+          transactionBlock: sponsored.bytes,
+          signature: [userSigned.signature, sponsored.signature],
+          options: EXECUTE_OPTIONS,
+        })
+      } catch (err) {
+        // The transaction may have been submitted before the connection dropped; look it up
+        if (!isTransientRpcError(err)) throw err
+        result = await waitForTransactionResult(suiClient, sponsored.digest, { responseOptions: EXECUTE_OPTIONS })
+      }
+      return { ...assertExecuted(result), executionPath: 'sponsored' }
+    } finally {
+      // Hand the sponsor gas coin back, whether executed or rejected in the wallet
+      void completeSponsoredTransaction(sponsored.digest)
+    }
+  }, [signTransaction, suiClient])
+
+  const executeSelfPaid = useCallback(async (
+    tx: Transaction
+  ): Promise<SponsoredTransactionResult> => {
+    // The wallet picks the user's own gas coins
+    const result = await signAndExecuteSelfPaid({ transaction: tx })
+    return { ...assertExecuted(result), executionPath: 'self-paid' }
+  }, [signAndExecuteSelfPaid])
+
+  const preview = useCallback(async (
     input: { transaction: Transaction }
+  ): Promise<TransactionPreview> => {
+    if (!account?.address) {
+      throw new Error('Wallet not connected')
+    }
+    return previewTransaction(suiClient, input.transaction, account.address)
+  }, [account?.address, suiClient])
+
+  // Show the preview and resolve once the user confirms, reject if they cancel
+  const awaitConfirmation = useCallback(async (tx: Transaction, sender: string): Promise<void> => {
+    const result = await previewTransaction(suiClient, tx, sender)
+    await new Promise<void>((resolve, reject) => {
+      setConfirmation({
+        preview: result,
+        confirm: () => {
+          setConfirmation(null)
+          resolve()
+        },
+        cancel: () => {
+          setConfirmation(null)
+          reject(new Error('Transaction cancelled'))
+        },
+      })
+    })
+  }, [suiClient])
+
+  const mutateAsync = useCallback(async (
+    input: SponsoredTransactionInput
   ): Promise<SponsoredTransactionResult> => {
     if (!account?.address) {
       throw new Error('Wallet not connected')
@@ -99,58 +241,54 @@ export function useSponsoredTransaction(): UseSponsoredTransactionReturn {
     setIsPending(true)
     setError(null)
 
-    try {
-      const sponsorKeypair = getSponsorKeypair()
-      const sponsorAddress = sponsorKeypair.getPublicKey().toSuiAddress()
-
-      // Get gas payment from sponsor
-      const gasPayment = await getSponsorGasPayment()
+    const tx = input.transaction
+    const sender = input.signer?.toSuiAddress() ?? account.address
+    tx.setSender(sender)
 
-      // Configure the transaction
-      const tx = input.transaction
-      tx.setSender(account.address)
-      tx.setGasOwner(sponsorAddress)
-      tx.setGasPayment(gasPayment)
-
-      // User signs the transaction (this triggers wallet popup)
-      const userSigned = await signTransaction({ transaction: tx })
-
-      // Sponsor signs the same transaction bytes
-      const sponsorSigned = await sponsorKeypair.signTransaction(
-        fromBase64(userSigned.bytes)
-      )
-
-      // Execute with both signatures
-      const result = await suiClient.executeTransactionBlock({
-        transactionBlock: userSigned.bytes,
-        signature: [userSigned.signature, sponsorSigned.signature],
-        options: {
-          showEffects: true,
-          showEvents: true,
-          showObjectChanges: true,
-        },
-      })
+    if (input.confirm) {
+      try {
+        await awaitConfirmation(tx, sender)
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err))
+        setError(error)
+        setIsPending(false)
+        throw error
+      }
+    }
 
-      setIsPending(false)
-      return result
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err))
-      setError(error)
-      setIsPending(false)
-      throw error
+    let lastError: unknown = new Error('No execution strategy configured')
+    for (const path of input.signer ? SESSION_STRATEGIES : strategies) {
+      try {
+        const result = path === 'sponsored'
+          ? await executeSponsored(tx, sender, input.signer)
+          : await executeSelfPaid(tx)
+        setLastExecutionPath(path)
+        setIsPending(false)
+        return result
+      } catch (err) {
+        lastError = err
+        // Wallet rejections and on-chain failures are final; only a sponsor that can't pay falls through
+        if (!isSponsorUnavailable(err)) break
+      }
     }
-  }, [account?.address, signTransaction, suiClient])
+
+    const error = lastError instanceof Error ? lastError : new Error(String(lastError))
+    setError(error)
+    setIsPending(false)
+    throw error
+  }, [account?.address, strategies, awaitConfirmation, executeSponsored, executeSelfPaid])
 
   const mutate = useCallback((
-    input: { transaction: Transaction },
+    input: SponsoredTransactionInput,
     callbacks?: {
       onSuccess?: (result: SponsoredTransactionResult) => void | Promise<void>
       onError?: (error: Error) => void
     }
   ) => {
+    // Errors thrown by onSuccess (e.g. while confirming the transaction) also reach onError
     mutateAsync(input)
-      .then(result => {
-        callbacks?.onSuccess?.(result)
+      .then(async result => {
+        await callbacks?.onSuccess?.(result)
       })
       .catch(err => {
         const error = err instanceof Error ? err : new Error(String(err))
@@ -163,6 +301,9 @@ export function useSponsoredTransaction(): UseSponsoredTransactionReturn {
     mutateAsync,
     isPending,
     error,
+    lastExecutionPath,
+    preview,
+    confirmation,
   }
 }
 
@@ -176,33 +317,10 @@ export function useSponsoredTransaction(): UseSponsoredTransactionReturn {
 export async function executeFullySponsoredTransaction(
   tx: Transaction
 ): Promise<SponsoredTransactionResult> {
-  const sponsorKeypair = getSponsorKeypair()
-  const sponsorAddress = sponsorKeypair.getPublicKey().toSuiAddress()
-
-  // Get gas payment
-  const gasPayment = await getSponsorGasPayment()
-
-  // Configure transaction - sponsor is both sender and gas owner
-  tx.setSender(sponsorAddress)
-  tx.setGasOwner(sponsorAddress)
-  tx.setGasPayment(gasPayment)
-
-  // Build and sign
-  const builtTx = await tx.build({ client: sponsorClient })
-  const signedTx = await sponsorKeypair.signTransaction(builtTx)
-
-  // Execute
-  const result = await sponsorClient.executeTransactionBlock({
-    transactionBlock: signedTx.bytes,
-    signature: signedTx.signature,
-    options: {
-      showEffects: true,
-      showEvents: true,
-      showObjectChanges: true,
-    },
-  })
-
-  return result
+  // The relay sets itself as sender and gas owner, signs and executes
+  const kindBytes = await tx.build({ client: sponsorClient, onlyTransactionKind: true })
+  const result = await executeSponsoredTransaction(kindBytes)
+  return { ...assertExecuted(result), executionPath: 'sponsored' }
 }
 
 /**
@@ -0,0 +1,22 @@
+import { useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useSuiClient } from '@mysten/dapp-kit'
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { EFFECTS_RESPONSE_OPTIONS, invalidateTransactionEffects } from '../utils/gameQueries'
+import { waitForTransactionResult } from '../utils/resilientExecution'
+
+/**
+ * Wait until a transaction is final, then refetch the cached queries its effects touched
+ * (see utils/gameQueries). Throws like waitForTransactionResult when it failed on chain or
+ * its outcome is still unknown.
+ */
+export function useSyncTransaction(): (digest: string) => Promise<SuiTransactionBlockResponse> {
+  const suiClient = useSuiClient()
+  const queryClient = useQueryClient()
+
+  return useCallback(async (digest: string) => {
+    const response = await waitForTransactionResult(suiClient, digest, { responseOptions: EFFECTS_RESPONSE_OPTIONS })
+    await invalidateTransactionEffects(queryClient, response)
+    return response
+  }, [queryClient, suiClient])
+}
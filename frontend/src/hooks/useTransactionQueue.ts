@@ -0,0 +1,75 @@
+import { useCallback, useSyncExternalStore } from 'react'
+import type { Signer } from '@mysten/sui/cryptography'
+import type { Transaction } from '@mysten/sui/transactions'
+import { transactionQueue, type QueueItem } from '../utils/transactionQueue'
+import {
+  useSponsoredTransaction,
+  type SponsoredTransactionResult,
+  type UseSponsoredTransactionOptions,
+  type UseSponsoredTransactionReturn,
+} from './useSponsoredTransaction'
+import { useSyncTransaction } from './useSyncTransaction'
+
+export { seedCoinsKey } from '../utils/transactionQueue'
+export type { QueueItem, QueueItemStatus } from '../utils/transactionQueue'
+
+export interface QueuedTransactionInput {
+  label: string
+  /** Owned objects the transaction touches; see TransactionQueue */
+  objectKeys: string[]
+  /** Called when the job's turn comes; fetch coins and object refs inside it */
+  build: () => Promise<Transaction>
+  /** Dry-run and ask the user before signing, as with useSponsoredTransaction */
+  confirm?: boolean
+  /** Sign with this key instead of the wallet, as with useSponsoredTransaction */
+  signer?: Signer
+}
+
+export interface UseTransactionQueueReturn
+  extends Pick<UseSponsoredTransactionReturn, 'isPending' | 'lastExecutionPath' | 'confirmation'> {
+  /**
+   * Queue a sponsored transaction. onSuccess runs once the transaction is final and the
+   * queries it touched have been refetched (see useSyncTransaction).
+   */
+  enqueue: (
+    input: QueuedTransactionInput,
+    callbacks?: {
+      onSuccess?: (result: SponsoredTransactionResult) => void | Promise<void>
+      onError?: (error: Error) => void
+    }
+  ) => void
+
+  /** Every queued or recently finished transaction in the app */
+  items: readonly QueueItem[]
+}
+
+/**
+ * Sponsored transactions through the app-wide transaction queue.
+ * Use it for actions that spend SEED or mutate the same objects and can be triggered in
+ * quick succession.
+ */
+export function useTransactionQueue(options: UseSponsoredTransactionOptions = {}): UseTransactionQueueReturn {
+  const syncTransaction = useSyncTransaction()
+  const { mutateAsync, isPending, lastExecutionPath, confirmation } = useSponsoredTransaction(options)
+  const items = useSyncExternalStore(transactionQueue.subscribe, transactionQueue.getItems)
+
+  const enqueue = useCallback<UseTransactionQueueReturn['enqueue']>((input, callbacks) => {
+    transactionQueue
+      .enqueue({
+        label: input.label,
+        objectKeys: input.objectKeys,
+        build: input.build,
+        execute: (transaction) => mutateAsync({ transaction, confirm: input.confirm, signer: input.signer }),
+        waitForFinality: syncTransaction,
+      })
+      .then(async result => {
+        await callbacks?.onSuccess?.(result)
+      })
+      .catch(err => {
+        const error = err instanceof Error ? err : new Error(String(err))
+        callbacks?.onError?.(error)
+      })
+  }, [mutateAsync, syncTransaction])
+
+  return { enqueue, items, isPending, lastExecutionPath, confirmation }
+}
@@ -3,25 +3,29 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import { SuiClientProvider, WalletProvider } from '@mysten/dapp-kit'
-import { getFullnodeUrl } from '@mysten/sui/client'
+import { SuiClient } from '@mysten/sui/client'
+import { NETWORKS, OFFLINE_MODE, SUI_NETWORK, SUI_NETWORKS } from './config/sui'
+import { getOfflineSimulator } from './simulator/offline'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import '@mysten/dapp-kit/dist/index.css'
 
-// Create a query client
-const queryClient = new QueryClient()
+// Create a query client. Transactions refetch the queries they touch (see useSyncTransaction),
+// so cached chain data only goes stale on its own for changes made elsewhere
+const queryClient = new QueryClient({ defaultOptions: { queries: { staleTime: 10_000 } } })
 
-// Configure the network (testnet, mainnet, devnet, or localnet)
-const networks = {
-  devnet: { url: getFullnodeUrl('devnet') },
-  testnet: { url: getFullnodeUrl('testnet') },
-  mainnet: { url: getFullnodeUrl('mainnet') },
-}
+// Every network from config/sui.ts; the selected one is fixed for the page's lifetime
+const networks = Object.fromEntries(SUI_NETWORKS.map((network) => [network, { url: NETWORKS[network].fullnodeUrl }]))
+
+// Offline every network is the in-memory simulator
+const createClient = (_network: unknown, config: { url: string }) =>
+  OFFLINE_MODE ? getOfflineSimulator().client : new SuiClient(config)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networks} defaultNetwork="testnet">
-        <WalletProvider autoConnect>
+      <SuiClientProvider networks={networks} defaultNetwork={SUI_NETWORK} createClient={createClient}>
+        {/* Offline there is no wallet extension to sign with; dapp-kit's burner wallet stands in */}
+        <WalletProvider autoConnect enableUnsafeBurner={OFFLINE_MODE}>
           <App />
         </WalletProvider>
       </SuiClientProvider>
@@ -0,0 +1,147 @@
+import type { SuiEvent, SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import type { DeploymentIds } from '../config/deployment'
+import type { SimulatorClock } from './clock'
+import { SUI_COIN_TYPE, seedCoinType, type ObjectData, type SimObject } from './objects'
+import { SeededRandom } from 'fruit-merge-shared/random'
+
+// Everything the simulated network knows: live objects, deleted ones, executed transactions and
+// their events. The executor is the only writer; the transport reads.
+
+export interface ChainOptions {
+  seed: number
+  clock: SimulatorClock
+  deployment: DeploymentIds
+  /** Publisher of the package, who owns the LeaderboardConfig's fees */
+  publisher: string
+  /** Gas coins the publisher starts with, e.g. for the sponsor relay */
+  publisherGasCoins: number
+  /** MIST given to an address the first time the chain sees it; 0 turns the faucet off */
+  faucetMist: bigint
+}
+
+// Every coin handed out at genesis or by the faucet holds this much
+const GAS_COIN_MIST = 10_000_000_000n
+
+export class ChainState {
+  readonly packageId: string
+  readonly clock: SimulatorClock
+  readonly faucetMist: bigint
+  /** Live objects by ID, including ones owned by other objects (Table entries) */
+  readonly objects = new Map<string, SimObject>()
+  /** The version each deleted object was deleted at */
+  readonly deleted = new Map<string, number>()
+  /** Executed transactions by digest, with every response field filled in */
+  readonly transactions = new Map<string, SuiTransactionBlockResponse>()
+  /** Every event in execution order */
+  readonly events: SuiEvent[] = []
+  /** Game randomness; a transaction draws from a fork and only keeps it if it commits */
+  readonly random: SeededRandom
+  /** Object IDs and digests */
+  readonly ids: SeededRandom
+  /** Where genesis objects and faucet coins come from */
+  readonly genesisDigest: string
+  private readonly funded = new Set<string>()
+  private checkpoint = 0
+
+  constructor(options: ChainOptions) {
+    const { deployment } = options
+    this.packageId = normalizeSuiAddress(deployment.packageId)
+    this.clock = options.clock
+    this.faucetMist = options.faucetMist
+    this.random = new SeededRandom(options.seed)
+    this.ids = new SeededRandom(options.seed ^ 0x5eed5eed)
+    this.genesisDigest = this.ids.digest()
+
+    const shared = { Shared: { initial_shared_version: '1' } }
+    this.put({ id: this.packageId, owner: 'Immutable', data: { kind: 'package' } })
+    this.put({ id: normalizeSuiAddress('0x6'), owner: shared, data: { kind: 'clock' } })
+    this.put({ id: normalizeSuiAddress('0x8'), owner: shared, data: { kind: 'random' } })
+    this.put({
+      id: normalizeSuiAddress(deployment.seedAdminCap),
+      owner: shared,
+      data: { kind: 'seedAdminCap', treasuryCapId: this.ids.address(), totalSupply: 0n, minter: normalizeSuiAddress(options.publisher) },
+    })
+    this.put({
+      id: this.ids.address(),
+      owner: 'Immutable',
+      data: {
+        kind: 'coinMetadata',
+        coinType: seedCoinType(this.packageId),
+        decimals: 9,
+        name: 'Seed',
+        symbol: 'SEED',
+        description: 'The currency of Fruit Merge Game. Earn seeds by merging fruits!',
+        iconUrl: 'https://fruit-merge.game/seed.png',
+      },
+    })
+    this.put({
+      id: normalizeSuiAddress(deployment.leaderboardConfigId),
+      owner: shared,
+      data: {
+        kind: 'leaderboardConfig',
+        currentRoundId: 0,
+        treasury: 0n,
+        owner: options.publisher,
+        totalRoundsCompleted: 0,
+        totalPrizesDistributed: 0n,
+      },
+    })
+    for (let i = 0; i < options.publisherGasCoins; i++) this.mintSui(options.publisher, GAS_COIN_MIST)
+    this.funded.add(options.publisher)
+  }
+
+  /** A genesis object at version 1 */
+  private put(object: Omit<SimObject, 'version' | 'digest' | 'previousTransaction'>) {
+    const full = { ...object, version: 1, digest: this.ids.digest(), previousTransaction: this.genesisDigest }
+    if (object.owner && typeof object.owner === 'object' && 'Shared' in object.owner) full.initialSharedVersion = 1
+    this.objects.set(object.id, full)
+  }
+
+  /** A new SUI coin for `owner`, outside of any transaction */
+  mintSui(owner: string, mist: bigint): SimObject {
+    const id = this.ids.address()
+    this.put({ id, owner: { AddressOwner: owner }, data: { kind: 'coin', coinType: SUI_COIN_TYPE, balance: mist } })
+    return this.objects.get(id)!
+  }
+
+  /** Give `address` its faucet coin the first time it shows up, so new wallets can pay gas */
+  fund(address: string) {
+    const owner = normalizeSuiAddress(address)
+    if (this.funded.has(owner) || this.faucetMist <= 0n) return
+    this.funded.add(owner)
+    let remaining = this.faucetMist
+    while (remaining > 0n) {
+      const amount = remaining < GAS_COIN_MIST ? remaining : GAS_COIN_MIST
+      this.mintSui(owner, amount)
+      remaining -= amount
+    }
+  }
+
+  /** Objects an address owns, oldest first */
+  ownedBy(address: string): SimObject[] {
+    const owner = normalizeSuiAddress(address)
+    return [...this.objects.values()].filter(
+      (object) => typeof object.owner === 'object' && object.owner !== null && 'AddressOwner' in object.owner && object.owner.AddressOwner === owner
+    )
+  }
+
+  /** Dynamic fields of `parentId`, e.g. a Table's entries */
+  childrenOf(parentId: string): SimObject[] {
+    const parent = normalizeSuiAddress(parentId)
+    return [...this.objects.values()].filter(
+      (object) => typeof object.owner === 'object' && object.owner !== null && 'ObjectOwner' in object.owner && object.owner.ObjectOwner === parent
+    )
+  }
+
+  nextCheckpoint(): string {
+    this.checkpoint += 1
+    return String(this.checkpoint)
+  }
+
+  /** The data of an object of `kind`, or null */
+  find<K extends ObjectData['kind']>(id: string, kind: K): Extract<ObjectData, { kind: K }> | null {
+    const object = this.objects.get(normalizeSuiAddress(id))
+    return object?.data.kind === kind ? (object.data as Extract<ObjectData, { kind: K }>) : null
+  }
+}
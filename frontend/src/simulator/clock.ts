@@ -0,0 +1,35 @@
+export interface SimulatorClockOptions {
+  /** Chain time at creation, in ms since epoch; defaults to the wall clock */
+  startMs?: number
+  /** Only move on `advance` and `set` instead of following the wall clock */
+  frozen?: boolean
+}
+
+/**
+ * The simulated 0x6 Clock. It follows the wall clock by default; `advance` skips ahead, e.g. to
+ * finish growing a legendary fruit or to end a leaderboard round without waiting a week.
+ */
+export class SimulatorClock {
+  readonly frozen: boolean
+  // Frozen: the time itself. Otherwise: the offset from Date.now()
+  private base: number
+
+  constructor(options: SimulatorClockOptions = {}) {
+    this.frozen = options.frozen ?? false
+    const start = options.startMs ?? Date.now()
+    this.base = this.frozen ? start : start - Date.now()
+  }
+
+  now(): number {
+    return this.frozen ? this.base : Date.now() + this.base
+  }
+
+  advance(ms: number) {
+    if (ms < 0) throw new RangeError('The clock only moves forward')
+    this.base += ms
+  }
+
+  set(timestampMs: number) {
+    this.base = this.frozen ? timestampMs : timestampMs - Date.now()
+  }
+}
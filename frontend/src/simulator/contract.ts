@@ -0,0 +1,629 @@
+import type { SeededRandom } from 'fruit-merge-shared/random'
+import {
+  SUI_COIN_TYPE,
+  seedCoinType,
+  type CoinData,
+  type FruitNftData,
+  type LeaderboardConfigData,
+  type LeaderboardEntryData,
+  type LeaderboardRoundData,
+  type ObjectData,
+  type PlayerAccountData,
+  type PlayerInventoryData,
+  type PlayerLandData,
+  type SeedAdminCapData,
+  type SimObject,
+  type TableEntryData,
+} from './objects'
+import * as rules from './rules'
+
+// The entry functions of the land, player, seed, market, fruit_nft and leaderboard modules,
+// ported from contract/sources. Each one is written against CallContext, the executor's view of
+// the running transaction, and keeps the Move code's order of checks, aborts and events.
+
+/** Where a Move abort happened; the address defaults to the game's package */
+export interface AbortLocation {
+  address?: string
+  module: string
+  function: string
+}
+
+/** What an entry function can see and do inside the transaction that calls it */
+export interface CallContext {
+  readonly sender: string
+  readonly packageId: string
+  /** Clock::timestamp_ms */
+  readonly now: number
+  /** The RandomGenerator every `&Random` call draws from */
+  readonly random: SeededRandom
+  /** object::new for a UID that isn't an object of its own, e.g. a Table's */
+  newId(): string
+  /** A new object; it has to be transferred, shared or destroyed before the transaction ends */
+  create<T extends ObjectData>(data: T): SimObject<T>
+  transfer(object: SimObject, recipient: string): void
+  share(object: SimObject): void
+  destroy(object: SimObject): void
+  /** Emit `${module}::${name}` from the game's package with fields in Move JSON */
+  emit(type: string, fields: Record<string, unknown>): void
+  /** Abort in the called function, or at `location` for one it calls */
+  abort(code: number, location?: AbortLocation): never
+  tableBorrow(tableId: string, key: string): SimObject<TableEntryData> | null
+  tableBorrowMut(tableId: string, key: string): SimObject<TableEntryData> | null
+  tableAdd(tableId: string, key: string, entry: LeaderboardEntryData): void
+}
+
+// ---- Signatures ----
+
+export type PureType = 'u8' | 'u64' | 'address'
+export type ObjectRef = '&' | '&mut' | 'value'
+
+export type Param =
+  | { kind: 'pure'; type: PureType }
+  | { kind: 'object'; type: (packageId: string) => string; ref: ObjectRef }
+
+export interface EntryFunction {
+  params: Param[]
+  /** Called with u8 as number, u64 as bigint, address as string and objects as SimObject */
+  run: (ctx: CallContext, args: unknown[]) => void
+}
+
+const u8: Param = { kind: 'pure', type: 'u8' }
+const u64: Param = { kind: 'pure', type: 'u64' }
+const address: Param = { kind: 'pure', type: 'address' }
+const ref = (type: (packageId: string) => string): Param => ({ kind: 'object', type, ref: '&' })
+const mut = (type: (packageId: string) => string): Param => ({ kind: 'object', type, ref: '&mut' })
+const byValue = (type: (packageId: string) => string): Param => ({ kind: 'object', type, ref: 'value' })
+
+const CLOCK = () => '0x2::clock::Clock'
+const RANDOM = () => '0x2::random::Random'
+const SUI_COIN = () => `0x2::coin::Coin<${SUI_COIN_TYPE}>`
+const SEED_COIN = (pkg: string) => `0x2::coin::Coin<${seedCoinType(pkg)}>`
+const ADMIN_CAP = (pkg: string) => `${pkg}::seed::SeedAdminCap`
+const LAND = (pkg: string) => `${pkg}::land::PlayerLand`
+const ACCOUNT = (pkg: string) => `${pkg}::player::PlayerAccount`
+const INVENTORY = (pkg: string) => `${pkg}::player::PlayerInventory`
+const NFT = (pkg: string) => `${pkg}::fruit_nft::FruitNFT`
+const CONFIG = (pkg: string) => `${pkg}::leaderboard::LeaderboardConfig`
+const ROUND = (pkg: string) => `${pkg}::leaderboard::LeaderboardRound`
+
+function entry<A extends unknown[]>(params: Param[], run: (ctx: CallContext, args: A) => void): EntryFunction {
+  return { params, run: run as unknown as EntryFunction['run'] }
+}
+
+type Coin = SimObject<CoinData>
+type AdminCap = SimObject<SeedAdminCapData>
+type Land = SimObject<PlayerLandData>
+type Account = SimObject<PlayerAccountData>
+type Inventory = SimObject<PlayerInventoryData>
+type Nft = SimObject<FruitNftData>
+type Config = SimObject<LeaderboardConfigData>
+type Round = SimObject<LeaderboardRoundData>
+
+// ---- Framework ----
+
+const ZERO_ADDRESS = `0x${'0'.repeat(64)}`
+const BALANCE_SPLIT: AbortLocation = { address: '0x2', module: 'balance', function: 'split' }
+// balance::ENotEnough
+const E_NOT_ENOUGH = 2
+
+/** coin::split */
+function splitCoin(ctx: CallContext, coin: Coin, amount: bigint): Coin {
+  if (amount > coin.data.balance) ctx.abort(E_NOT_ENOUGH, BALANCE_SPLIT)
+  coin.data.balance -= amount
+  return ctx.create<CoinData>({ kind: 'coin', coinType: coin.data.coinType, balance: amount })
+}
+
+/** seed::burn */
+function burnSeeds(ctx: CallContext, cap: AdminCap, coin: Coin) {
+  cap.data.totalSupply -= coin.data.balance
+  ctx.destroy(coin)
+}
+
+/** seed::mint_to */
+function mintSeeds(ctx: CallContext, cap: AdminCap, amount: bigint, recipient: string) {
+  cap.data.totalSupply += amount
+  ctx.transfer(ctx.create<CoinData>({ kind: 'coin', coinType: seedCoinType(ctx.packageId), balance: amount }), recipient)
+}
+
+/** A new Coin<SUI> taken out of a Balance<SUI> held by an object */
+function suiCoin(ctx: CallContext, amount: bigint): Coin {
+  return ctx.create<CoinData>({ kind: 'coin', coinType: SUI_COIN_TYPE, balance: amount })
+}
+
+// ---- Game ----
+
+/**
+ * Keep `cost` out of `payment`, return the rest to `changeTo` and burn what was kept.
+ * Aborts with E_INSUFFICIENT_SEEDS at `location` when the payment is short.
+ */
+function paySeeds(ctx: CallContext, cap: AdminCap, payment: Coin, cost: bigint, changeTo: string, location?: AbortLocation) {
+  const value = payment.data.balance
+  if (value < cost) ctx.abort(rules.E_INSUFFICIENT_SEEDS, location)
+  if (value > cost) ctx.transfer(splitCoin(ctx, payment, value - cost), changeTo)
+  burnSeeds(ctx, cap, payment)
+}
+
+function emptySlots(count: number) {
+  return Array.from({ length: count }, () => null)
+}
+
+function createLand(ctx: CallContext) {
+  const land = ctx.create<PlayerLandData>({
+    kind: 'playerLand',
+    owner: ctx.sender,
+    landIndex: 0,
+    level: 1,
+    maxSlots: rules.INITIAL_LAND_SLOTS,
+    slots: emptySlots(rules.INITIAL_LAND_SLOTS),
+    createdAt: ctx.now,
+  })
+  ctx.emit('events::LandCreated', { land_id: land.id, owner: ctx.sender, slots: String(rules.INITIAL_LAND_SLOTS) })
+  ctx.transfer(land, ctx.sender)
+}
+
+function plant(ctx: CallContext, land: Land, slotIndex: number, seeds: bigint) {
+  const fruitType = ctx.random.intInRange(1, 10)
+  const randomValue = ctx.random.intInRange(0, 10_000)
+  const weight = rules.generateFruitWeight(fruitType, seeds, randomValue)
+  const rarity = rules.weightBasedRarity(fruitType, weight)
+  land.data.slots[slotIndex] = {
+    fruitType,
+    rarity,
+    weight,
+    imageUrl: rules.fruitImageUrl(fruitType),
+    seedsUsed: seeds,
+    plantedAt: ctx.now,
+    speedBoostMs: 0,
+  }
+  ctx.emit('events::FruitPlanted', {
+    land_id: land.id,
+    slot_index: String(slotIndex),
+    fruit_type: fruitType,
+    rarity,
+    weight: String(weight),
+    seeds_used: seeds.toString(),
+  })
+}
+
+/** The slot a tool is used on; aborts unless it holds a fruit */
+function occupiedSlot(ctx: CallContext, land: Land, slotIndex: bigint): number {
+  if (slotIndex >= BigInt(land.data.maxSlots)) ctx.abort(rules.E_INVALID_SLOT)
+  const index = Number(slotIndex)
+  if (!land.data.slots[index]) ctx.abort(rules.E_SLOT_EMPTY)
+  return index
+}
+
+/** use_watering_can and use_fertilizer: pay, then take `share` of the grow time off the fruit */
+function boostSlot(ctx: CallContext, [land, slotIndex, payment, cap]: [Land, bigint, Coin, AdminCap], cost: bigint, share: number) {
+  const index = occupiedSlot(ctx, land, slotIndex)
+  paySeeds(ctx, cap, payment, cost, land.data.owner)
+  const fruit = land.data.slots[index]!
+  fruit.speedBoostMs += Math.floor(rules.growTimeMs(fruit.rarity) / share)
+}
+
+/** player::add_fruit_to_inventory */
+function addFruit(ctx: CallContext, inventory: Inventory, fruitType: number, rarity: number, weight: number, imageUrl: string) {
+  if (inventory.data.fruits.length >= inventory.data.maxSlots) {
+    ctx.abort(rules.E_INVENTORY_FULL, { module: 'player', function: 'add_fruit_to_inventory' })
+  }
+  inventory.data.fruits.push({ fruitType, rarity, weight, imageUrl, harvestedAt: ctx.now })
+  ctx.emit('events::FruitAddedToInventory', {
+    player: inventory.data.owner,
+    fruit_type: fruitType,
+    rarity,
+    weight: String(weight),
+  })
+}
+
+/** player::remove_fruit_from_inventory */
+function removeFruit(ctx: CallContext, inventory: Inventory, index: number) {
+  if (index >= inventory.data.fruits.length) {
+    ctx.abort(rules.E_INVENTORY_EMPTY, { module: 'player', function: 'remove_fruit_from_inventory' })
+  }
+  const [fruit] = inventory.data.fruits.splice(index, 1)
+  ctx.emit('events::FruitRemovedFromInventory', {
+    player: inventory.data.owner,
+    fruit_type: fruit.fruitType,
+    inventory_index: String(index),
+  })
+  return fruit
+}
+
+function mintNft(ctx: CallContext, fruitType: number, rarity: number, weight: number) {
+  const nft = ctx.create<FruitNftData>({
+    kind: 'fruitNft',
+    name: rules.fruitNftName(fruitType, rarity),
+    description: rules.fruitNftDescription(fruitType, rarity),
+    fruitType,
+    rarity,
+    weight,
+    createdBy: ctx.sender,
+    createdAt: 0,
+  })
+  ctx.emit('events::FruitNFTMinted', {
+    nft_id: nft.id,
+    fruit_type: fruitType,
+    rarity,
+    weight: String(weight),
+    creator: ctx.sender,
+  })
+  ctx.transfer(nft, ctx.sender)
+}
+
+// ---- Leaderboard ----
+
+const EPOCH_DURATION_MS = 7 * 24 * 60 * 60 * 1000
+const JOIN_FEE = 10_000_000n
+// Basis points of the pool
+const PRIZE_SHARES = [5000n, 2500n, 1000n]
+const PRIZE_OWNER = 1000n
+
+const E_ROUND_NOT_ACTIVE = 1001
+const E_ALREADY_JOINED = 1002
+const E_NOT_JOINED = 1003
+const E_INSUFFICIENT_FEE = 1004
+const E_ROUND_STILL_ACTIVE = 1005
+const E_PRIZES_ALREADY_DISTRIBUTED = 1007
+
+function heaviestFruit(inventory: Inventory, fruitType: number): number {
+  return inventory.data.fruits.reduce((heaviest, fruit) => (fruit.fruitType === fruitType && fruit.weight > heaviest ? fruit.weight : heaviest), 0)
+}
+
+/**
+ * leaderboard::update_rankings, branch for branch. The Move code's "existing first place improved"
+ * branch is left out: the first branch already takes every weight above first place.
+ */
+function updateRankings(round: Round, player: string, weight: number) {
+  const { data } = round
+  const [first, second, third] = [data.first, data.second, data.third]
+  const placing = { player, weight }
+  if (weight > first.weight) {
+    [data.first, data.second, data.third] = [placing, first, second]
+  } else if (weight > second.weight && player !== first.player) {
+    [data.second, data.third] = [placing, second]
+  } else if (weight > third.weight && player !== first.player && player !== second.player) {
+    data.third = placing
+  } else if (player === second.player && weight > second.weight) {
+    if (weight > first.weight) [data.first, data.second] = [placing, first]
+    else data.second = placing
+  } else if (player === third.player && weight > third.weight) {
+    if (weight > first.weight) [data.first, data.second, data.third] = [placing, first, second]
+    else if (weight > second.weight) [data.second, data.third] = [placing, second]
+    else data.third = placing
+  }
+}
+
+const isRoundOpen = (ctx: CallContext, round: Round) => round.data.isActive && ctx.now < round.data.endTime
+
+// ---- Entry functions ----
+
+/** Every entry function the simulator implements, by `module::function` */
+export const ENTRY_FUNCTIONS: Record<string, EntryFunction> = {
+  'land::create_first_land': entry([ref(CLOCK)], (ctx) => createLand(ctx)),
+
+  'land::buy_new_land': entry(
+    [byValue(SEED_COIN), mut(ADMIN_CAP), ref(CLOCK)],
+    (ctx, [payment, cap]: [Coin, AdminCap]) => {
+      paySeeds(ctx, cap, payment, rules.NEW_LAND_COST, ctx.sender)
+      createLand(ctx)
+    }
+  ),
+
+  'land::upgrade_land': entry(
+    [mut(LAND), byValue(SEED_COIN), mut(ADMIN_CAP)],
+    (ctx, [land, payment, cap]: [Land, Coin, AdminCap]) => {
+      if (land.data.maxSlots >= rules.MAX_LAND_SLOTS) ctx.abort(rules.E_LAND_MAX_LEVEL)
+      const cost = rules.landUpgradeCost(land.data.level)
+      paySeeds(ctx, cap, payment, cost, land.data.owner)
+      land.data.level += 1
+      land.data.maxSlots += rules.SLOTS_PER_LAND_UPGRADE
+      while (land.data.slots.length < land.data.maxSlots) land.data.slots.push(null)
+      ctx.emit('events::LandUpgraded', {
+        land_id: land.id,
+        new_level: String(land.data.level),
+        new_slots: String(land.data.maxSlots),
+        cost: cost.toString(),
+      })
+    }
+  ),
+
+  'land::plant_in_slot': entry(
+    [mut(LAND), u64, byValue(SEED_COIN), mut(ADMIN_CAP), ref(CLOCK), ref(RANDOM)],
+    (ctx, [land, slotIndex, payment, cap]: [Land, bigint, Coin, AdminCap]) => {
+      if (slotIndex >= BigInt(land.data.maxSlots)) ctx.abort(rules.E_INVALID_SLOT)
+      const index = Number(slotIndex)
+      if (land.data.slots[index]) ctx.abort(rules.E_SLOT_OCCUPIED)
+      const seeds = payment.data.balance
+      if (seeds === 0n) ctx.abort(rules.E_INVALID_SEED_COUNT)
+      burnSeeds(ctx, cap, payment)
+      plant(ctx, land, index, seeds)
+    }
+  ),
+
+  'land::plant_all': entry(
+    [mut(LAND), byValue(SEED_COIN), u64, mut(ADMIN_CAP), ref(CLOCK), ref(RANDOM)],
+    (ctx, [land, payment, seedsPerSlot, cap]: [Land, Coin, bigint, AdminCap]) => {
+      if (seedsPerSlot === 0n) ctx.abort(rules.E_INVALID_SEED_COUNT)
+      const empty = land.data.slots.slice(0, land.data.maxSlots).flatMap((slot, index) => (slot ? [] : [index]))
+      paySeeds(ctx, cap, payment, BigInt(empty.length) * seedsPerSlot, land.data.owner)
+      for (const index of empty) plant(ctx, land, index, seedsPerSlot)
+    }
+  ),
+
+  'land::harvest_ready': entry(
+    [mut(LAND), mut(INVENTORY), ref(CLOCK)],
+    (ctx, [land, inventory]: [Land, Inventory]) => {
+      for (let index = 0; index < land.data.maxSlots; index++) {
+        const fruit = land.data.slots[index]
+        if (!fruit || !rules.isFruitReady(fruit.plantedAt, ctx.now, fruit.rarity, fruit.speedBoostMs)) continue
+        addFruit(ctx, inventory, fruit.fruitType, fruit.rarity, fruit.weight, fruit.imageUrl)
+        land.data.slots[index] = null
+        ctx.emit('events::FruitHarvested', {
+          land_id: land.id,
+          slot_index: String(index),
+          fruit_type: fruit.fruitType,
+          rarity: fruit.rarity,
+          weight: String(fruit.weight),
+          auto_harvested: true,
+        })
+      }
+    }
+  ),
+
+  'land::use_watering_can': entry(
+    [mut(LAND), u64, byValue(SEED_COIN), mut(ADMIN_CAP)],
+    (ctx, args: [Land, bigint, Coin, AdminCap]) => boostSlot(ctx, args, rules.WATERING_CAN_COST, 4)
+  ),
+
+  'land::use_fertilizer': entry(
+    [mut(LAND), u64, byValue(SEED_COIN), mut(ADMIN_CAP)],
+    (ctx, args: [Land, bigint, Coin, AdminCap]) => boostSlot(ctx, args, rules.FERTILIZER_COST, 2)
+  ),
+
+  'land::use_shovel': entry(
+    [mut(LAND), u64, byValue(SEED_COIN), mut(ADMIN_CAP)],
+    (ctx, [land, slotIndex, payment, cap]: [Land, bigint, Coin, AdminCap]) => {
+      const index = occupiedSlot(ctx, land, slotIndex)
+      paySeeds(ctx, cap, payment, rules.SHOVEL_COST, land.data.owner)
+      land.data.slots[index] = null
+    }
+  ),
+
+  'player::create_player': entry([ref(CLOCK)], (ctx) => {
+    const account = ctx.create<PlayerAccountData>({
+      kind: 'playerAccount',
+      owner: ctx.sender,
+      totalSeedsEarned: 0n,
+      totalGamesPlayed: 0,
+      inventorySlots: rules.INITIAL_INVENTORY_SLOTS,
+      landCount: 1,
+      activeLandIndex: 0,
+      createdAt: ctx.now,
+    })
+    const inventory = ctx.create<PlayerInventoryData>({
+      kind: 'playerInventory',
+      owner: ctx.sender,
+      fruits: [],
+      maxSlots: rules.INITIAL_INVENTORY_SLOTS,
+    })
+    ctx.emit('events::PlayerCreated', { player: ctx.sender, player_id: account.id, land_id: inventory.id })
+    ctx.transfer(account, ctx.sender)
+    ctx.transfer(inventory, ctx.sender)
+  }),
+
+  'player::upgrade_inventory': entry(
+    [mut(ACCOUNT), mut(INVENTORY), byValue(SEED_COIN), mut(ADMIN_CAP)],
+    (ctx, [account, inventory, payment, cap]: [Account, Inventory, Coin, AdminCap]) => {
+      if (inventory.data.maxSlots >= rules.MAX_INVENTORY_SLOTS) ctx.abort(rules.E_INVENTORY_FULL)
+      const cost = rules.inventoryUpgradeCost(inventory.data.maxSlots)
+      const owner = account.data.owner
+      paySeeds(ctx, cap, payment, cost, owner, { module: 'player', function: 'spend_seeds' })
+      ctx.emit('events::SeedsSpent', {
+        player: owner,
+        amount: cost.toString(),
+        purpose: [...new TextEncoder().encode('inventory_upgrade')],
+      })
+      inventory.data.maxSlots += rules.INVENTORY_SLOTS_PER_UPGRADE
+      account.data.inventorySlots = inventory.data.maxSlots
+      ctx.emit('events::InventoryUpgraded', { player: owner, new_slots: String(inventory.data.maxSlots), cost: cost.toString() })
+    }
+  ),
+
+  'seed::mint_seeds': entry(
+    [mut(ADMIN_CAP), u64, address],
+    (ctx, [cap, amount, recipient]: [AdminCap, bigint, string]) => {
+      if (ctx.sender !== cap.data.minter) ctx.abort(rules.E_NOT_MINTER)
+      mintSeeds(ctx, cap, amount, recipient)
+    }
+  ),
+
+  'seed::set_minter': entry(
+    [mut(ADMIN_CAP), address],
+    (ctx, [cap, minter]: [AdminCap, string]) => {
+      if (ctx.sender !== cap.data.minter) ctx.abort(rules.E_NOT_MINTER)
+      cap.data.minter = minter
+    }
+  ),
+
+  'market::merge_fruits': entry(
+    [mut(INVENTORY), u8, u64, ref(CLOCK)],
+    (ctx, [inventory, fruitType, count]: [Inventory, number, bigint]) => {
+      if (!rules.isValidFruitType(fruitType)) ctx.abort(rules.E_INVALID_FRUIT_TYPE)
+      for (let merge = 0n; merge < count; merge++) {
+        // The last ten of the type, removed back to front
+        const indices: number[] = []
+        for (let i = inventory.data.fruits.length - 1; i >= 0 && indices.length < rules.FRUITS_PER_MERGE; i--) {
+          if (inventory.data.fruits[i].fruitType === fruitType) indices.push(i)
+        }
+        if (indices.length < rules.FRUITS_PER_MERGE) ctx.abort(rules.E_INSUFFICIENT_FRUITS)
+        const totalWeight = indices.reduce((total, index) => total + removeFruit(ctx, inventory, index).weight, 0)
+        const weight = Math.floor(totalWeight / 2)
+        addFruit(ctx, inventory, fruitType, rules.weightBasedRarity(fruitType, weight), weight, rules.fruitImageUrl(fruitType))
+      }
+    }
+  ),
+
+  'fruit_nft::mint_from_inventory': entry(
+    [mut(INVENTORY), u64],
+    (ctx, [inventory, fruitIndex]: [Inventory, bigint]) => {
+      const fruit = removeFruit(ctx, inventory, Number(fruitIndex))
+      mintNft(ctx, fruit.fruitType, fruit.rarity, fruit.weight)
+    }
+  ),
+
+  'fruit_nft::mint_direct': entry(
+    [u8, u8, u64],
+    (ctx, [fruitType, rarity, weight]: [number, number, bigint]) => mintNft(ctx, fruitType, rarity, Number(weight))
+  ),
+
+  'fruit_nft::burn': entry([byValue(NFT)], (ctx, [nft]: [Nft]) => {
+    ctx.emit('events::FruitNFTBurned', { nft_id: nft.id, owner: nft.data.createdBy })
+    ctx.destroy(nft)
+  }),
+
+  'fruit_nft::transfer_nft': entry(
+    [byValue(NFT), address],
+    (ctx, [nft, recipient]: [Nft, string]) => {
+      ctx.emit('events::FruitNFTTransferred', { nft_id: nft.id, from: ctx.sender, to: recipient })
+      ctx.transfer(nft, recipient)
+    }
+  ),
+
+  'leaderboard::create_new_round': entry(
+    [mut(CONFIG), ref(CLOCK), ref(RANDOM)],
+    (ctx, [config]: [Config]) => {
+      const roundId = config.data.currentRoundId + 1
+      config.data.currentRoundId = roundId
+      const fruitType = ctx.random.intInRange(1, 10)
+      const nobody = { player: ZERO_ADDRESS, weight: 0 }
+      const round = ctx.create<LeaderboardRoundData>({
+        kind: 'leaderboardRound',
+        roundId,
+        fruitType,
+        startTime: ctx.now,
+        endTime: ctx.now + EPOCH_DURATION_MS,
+        prizePool: 0n,
+        entriesId: ctx.newId(),
+        participantCount: 0,
+        isActive: true,
+        prizesDistributed: false,
+        first: nobody,
+        second: nobody,
+        third: nobody,
+      })
+      ctx.emit('leaderboard::RoundCreated', {
+        round_id: String(roundId),
+        fruit_type: fruitType,
+        start_time: String(round.data.startTime),
+        end_time: String(round.data.endTime),
+      })
+      ctx.share(round)
+    }
+  ),
+
+  'leaderboard::join_leaderboard': entry(
+    [mut(ROUND), ref(INVENTORY), byValue(SUI_COIN), ref(CLOCK)],
+    (ctx, [round, inventory, payment]: [Round, Inventory, Coin]) => {
+      const player = ctx.sender
+      if (!isRoundOpen(ctx, round)) ctx.abort(E_ROUND_NOT_ACTIVE)
+      if (ctx.tableBorrow(round.data.entriesId, player)) ctx.abort(E_ALREADY_JOINED)
+      if (payment.data.balance < JOIN_FEE) ctx.abort(E_INSUFFICIENT_FEE)
+      const excess = payment.data.balance - JOIN_FEE
+      ctx.destroy(payment)
+      round.data.prizePool += JOIN_FEE
+      if (excess > 0n) ctx.transfer(suiCoin(ctx, excess), player)
+
+      const bestWeight = heaviestFruit(inventory, round.data.fruitType)
+      ctx.tableAdd(round.data.entriesId, player, { player, bestWeight, lastUpdated: ctx.now, joinedAt: ctx.now })
+      round.data.participantCount += 1
+      updateRankings(round, player, bestWeight)
+      ctx.emit('leaderboard::PlayerJoined', {
+        round_id: String(round.data.roundId),
+        player,
+        fee_paid: JOIN_FEE.toString(),
+        current_pool: round.data.prizePool.toString(),
+      })
+    }
+  ),
+
+  'leaderboard::update_entry': entry(
+    [mut(ROUND), ref(INVENTORY), ref(CLOCK)],
+    (ctx, [round, inventory]: [Round, Inventory]) => {
+      const player = ctx.sender
+      if (!isRoundOpen(ctx, round)) ctx.abort(E_ROUND_NOT_ACTIVE)
+      const entryObject = ctx.tableBorrowMut(round.data.entriesId, player)
+      if (!entryObject) return ctx.abort(E_NOT_JOINED)
+      const bestWeight = heaviestFruit(inventory, round.data.fruitType)
+      const { entry: tableEntry } = entryObject.data
+      if (bestWeight <= tableEntry.bestWeight) return
+      tableEntry.bestWeight = bestWeight
+      tableEntry.lastUpdated = ctx.now
+      updateRankings(round, player, bestWeight)
+      ctx.emit('leaderboard::EntryUpdated', {
+        round_id: String(round.data.roundId),
+        player,
+        new_best_weight: String(bestWeight),
+      })
+    }
+  ),
+
+  'leaderboard::close_round_and_distribute': entry(
+    [mut(CONFIG), mut(ROUND), ref(CLOCK)],
+    (ctx, [config, round]: [Config, Round]) => {
+      const { data } = round
+      if (ctx.now < data.endTime) ctx.abort(E_ROUND_STILL_ACTIVE)
+      if (!data.isActive) ctx.abort(E_ROUND_NOT_ACTIVE)
+      if (data.prizesDistributed) ctx.abort(E_PRIZES_ALREADY_DISTRIBUTED)
+      data.isActive = false
+      data.prizesDistributed = true
+      config.data.totalRoundsCompleted += 1
+
+      const totalPool = data.prizePool
+      const placings = [data.first, data.second, data.third]
+      ctx.emit('leaderboard::RoundClosed', {
+        round_id: String(data.roundId),
+        total_pool: totalPool.toString(),
+        total_participants: String(data.participantCount),
+        first_place: data.first.player,
+        first_weight: String(data.first.weight),
+        second_place: data.second.player,
+        second_weight: String(data.second.weight),
+        third_place: data.third.player,
+        third_weight: String(data.third.weight),
+      })
+      if (data.participantCount === 0 || totalPool === 0n) return
+
+      placings.forEach((placing, rank) => {
+        const prize = (totalPool * PRIZE_SHARES[rank]) / 10_000n
+        if (placing.player === ZERO_ADDRESS || prize === 0n) return
+        data.prizePool -= prize
+        ctx.transfer(suiCoin(ctx, prize), placing.player)
+        config.data.totalPrizesDistributed += prize
+        ctx.emit('leaderboard::PrizeDistributed', {
+          round_id: String(data.roundId),
+          rank: String(rank + 1),
+          winner: placing.player,
+          weight: String(placing.weight),
+          prize_amount: prize.toString(),
+        })
+      })
+      const ownerFee = (totalPool * PRIZE_OWNER) / 10_000n
+      if (ownerFee > 0n) {
+        data.prizePool -= ownerFee
+        ctx.transfer(suiCoin(ctx, ownerFee), config.data.owner)
+      }
+      config.data.treasury += data.prizePool
+      data.prizePool = 0n
+    }
+  ),
+
+  'leaderboard::reset_inventory_for_new_round': entry(
+    [ref(ROUND), mut(INVENTORY), ref(CLOCK)],
+    (ctx, [round, inventory]: [Round, Inventory]) => {
+      if (isRoundOpen(ctx, round)) ctx.abort(E_ROUND_STILL_ACTIVE)
+      if (!ctx.tableBorrow(round.data.entriesId, ctx.sender)) ctx.abort(E_NOT_JOINED)
+      inventory.data.fruits = []
+      ctx.emit('events::InventoryCleared', { player: inventory.data.owner })
+    }
+  ),
+}
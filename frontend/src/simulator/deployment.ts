@@ -0,0 +1,9 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import type { DeploymentIds } from '../config/deployment'
+
+/** Where the simulator publishes the game; fixed, so offline builds can configure it like a real network */
+export const SIMULATOR_DEPLOYMENT: DeploymentIds = {
+  packageId: normalizeSuiAddress('0xf00d'),
+  seedAdminCap: normalizeSuiAddress('0x5eed'),
+  leaderboardConfigId: normalizeSuiAddress('0xb0a4d'),
+}
@@ -0,0 +1,733 @@
+import { bcs } from '@mysten/sui/bcs'
+import type {
+  BalanceChange,
+  ObjectOwner,
+  OwnedObjectRef,
+  SuiArgument,
+  SuiCallArg,
+  SuiEvent,
+  SuiObjectChange,
+  SuiObjectRef,
+  SuiTransaction,
+  SuiTransactionBlockResponse,
+  TransactionBlockData,
+  TransactionEffects,
+} from '@mysten/sui/client'
+import { TransactionDataBuilder, type Argument, type CallArg, type Command } from '@mysten/sui/transactions'
+import { fromBase64, normalizeSuiAddress, toBase58, toBase64 } from '@mysten/sui/utils'
+import type { ChainState } from './chain'
+import { ENTRY_FUNCTIONS, type AbortLocation, type CallContext, type Param } from './contract'
+import { SUI_COIN_TYPE, hasPublicTransfer, typeOf, type CoinData, type LeaderboardEntryData, type ObjectData, type SimObject, type TableEntryData } from './objects'
+import type { SeededRandom } from 'fruit-merge-shared/random'
+
+// Runs transaction bytes against the ChainState the way a validator would: inputs and gas are
+// checked up front, commands run on copies of the objects they touch, and only a successful
+// transaction's changes are kept. A failed one still bumps its inputs and pays for gas.
+
+/** The network refused a transaction before running it, so nothing changed and no gas was paid */
+export class TransactionRejectedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TransactionRejectedError'
+  }
+}
+
+// A failure while running a command; the transaction fails with this status
+class ExecutionError extends Error {
+  command?: number
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExecutionError'
+  }
+}
+
+/** A transaction response with every optional part filled in */
+export type ExecutedTransaction = SuiTransactionBlockResponse & {
+  effects: TransactionEffects
+  events: SuiEvent[]
+  objectChanges: SuiObjectChange[]
+  balanceChanges: BalanceChange[]
+  input: TransactionBlockData
+}
+
+export interface ExecuteOptions {
+  signatures?: string[]
+  /** Run without keeping any of it, like sui_dryRunTransactionBlock */
+  dryRun?: boolean
+}
+
+// Flat gas schedule: a fixed computation charge plus storage for every object written
+const COMPUTATION_UNITS = 1000n
+const STORAGE_COST_PER_OBJECT = 988_000n
+// What a dry run without gas coins can spend, like the fullnode's dummy gas object
+const DRY_RUN_GAS_MIST = 1_000_000_000_000_000_000n
+// ObjectDigest::OBJECT_DIGEST_DELETED
+const DELETED_DIGEST = toBase58(new Uint8Array(32).fill(99))
+
+const isShared = (owner: ObjectOwner | null) => typeof owner === 'object' && owner !== null && 'Shared' in owner
+const addressOwner = (owner: ObjectOwner | null) =>
+  typeof owner === 'object' && owner !== null && 'AddressOwner' in owner ? owner.AddressOwner : null
+
+function moveAbort(code: number, location: Required<AbortLocation>): string {
+  const address = normalizeSuiAddress(location.address).slice(2)
+  return `MoveAbort(MoveLocation { module: ModuleId { address: ${address}, name: Identifier("${location.module}") }, ` +
+    `function: 0, instruction: 0, function_name: Some("${location.function}") }, ${code})`
+}
+
+type Value = { kind: 'object'; id: string } | { kind: 'pure'; bytes: Uint8Array }
+
+/** How a transaction may use an input object */
+type InputMode = 'owned' | 'immutable' | 'shared' | 'shared-mut'
+
+interface Touched {
+  /** The committed object; null when the transaction created it */
+  before: SimObject | null
+  /** The transaction's working copy */
+  object: SimObject
+}
+
+// One attempt at running a transaction's commands
+class Execution implements CallContext {
+  readonly packageId: string
+  readonly now: number
+  readonly random: SeededRandom
+  readonly ids: SeededRandom
+  readonly touched = new Map<string, Touched>()
+  readonly written = new Set<string>()
+  readonly deleted = new Set<string>()
+  readonly events: Array<{ type: string; module: string; fields: Record<string, unknown> }> = []
+  readonly inputModes = new Map<string, InputMode>()
+  // Coins made by SplitCoins, for UnusedValueWithoutDrop
+  readonly results = new Map<string, [number, number]>()
+  private readonly values: Value[] = []
+  private readonly chain: ChainState
+  private readonly data: TransactionDataBuilder
+  private readonly digest: string
+  private call: { module: string; function: string } = { module: '', function: '' }
+  gasCoinId = ''
+  // The dry run's stand-in gas coin, left out of the reported changes
+  mockGasId: string | null = null
+
+  constructor(chain: ChainState, data: TransactionDataBuilder, digest: string) {
+    this.chain = chain
+    this.data = data
+    this.digest = digest
+    this.packageId = chain.packageId
+    this.now = chain.clock.now()
+    this.random = chain.random.fork()
+    this.ids = chain.ids.fork()
+  }
+
+  get sender() {
+    return normalizeSuiAddress(this.data.sender!)
+  }
+
+  get gasOwner() {
+    return normalizeSuiAddress(this.data.gasData.owner ?? this.data.sender!)
+  }
+
+  // ---- Inputs and gas, checked before anything runs ----
+
+  private committed(id: string): SimObject {
+    const object = this.chain.objects.get(id)
+    if (object) return object
+    if (this.chain.deleted.has(id)) throw new TransactionRejectedError(`Object ${id} has been deleted`)
+    throw new TransactionRejectedError(`Could not find the referenced object ${id}`)
+  }
+
+  private checkVersion(object: SimObject, version: string | number) {
+    if (String(object.version) !== String(version)) {
+      throw new TransactionRejectedError(
+        `Object ID ${object.id} Version ${version} is not available for consumption, current version: ${object.version}`
+      )
+    }
+  }
+
+  loadInputs() {
+    for (const input of this.data.inputs as CallArg[]) {
+      if (input.Pure) {
+        this.values.push({ kind: 'pure', bytes: fromBase64(input.Pure.bytes) })
+        continue
+      }
+      const arg = input.Object
+      if (!arg) throw new TransactionRejectedError(`Unresolved transaction input: ${JSON.stringify(input)}`)
+      if (arg.ImmOrOwnedObject) {
+        const id = normalizeSuiAddress(arg.ImmOrOwnedObject.objectId)
+        const object = this.committed(id)
+        this.checkVersion(object, arg.ImmOrOwnedObject.version)
+        if (object.owner === 'Immutable') {
+          this.inputModes.set(id, 'immutable')
+        } else if (addressOwner(object.owner) === this.sender) {
+          this.inputModes.set(id, 'owned')
+          this.markWritten(this.load(id))
+        } else {
+          throw new TransactionRejectedError(
+            `Transaction was not signed by the correct sender: Object ${id} is owned by ${JSON.stringify(object.owner)}, but given owner/signer address is ${this.sender}`
+          )
+        }
+        this.values.push({ kind: 'object', id })
+      } else if (arg.SharedObject) {
+        const id = normalizeSuiAddress(arg.SharedObject.objectId)
+        const object = this.committed(id)
+        if (!isShared(object.owner)) throw new TransactionRejectedError(`Object ${id} is not shared`)
+        this.inputModes.set(id, arg.SharedObject.mutable ? 'shared-mut' : 'shared')
+        if (arg.SharedObject.mutable) this.markWritten(this.load(id))
+        this.values.push({ kind: 'object', id })
+      } else {
+        throw new TransactionRejectedError('Receiving inputs are not supported by the simulator')
+      }
+    }
+  }
+
+  /** Check the gas payment and set aside the budget; dry runs without payment get a stand-in coin */
+  loadGas(dryRun: boolean) {
+    const { gasData } = this.data
+    const budget = BigInt(gasData.budget ?? 0)
+    const payment = gasData.payment ?? []
+    if (payment.length === 0) {
+      if (!dryRun) throw new TransactionRejectedError('No gas payment')
+      const id = normalizeSuiAddress('0x0')
+      const coin: SimObject<CoinData> = {
+        id,
+        version: 0,
+        digest: this.ids.digest(),
+        owner: { AddressOwner: this.gasOwner },
+        previousTransaction: this.chain.genesisDigest,
+        data: { kind: 'coin', coinType: SUI_COIN_TYPE, balance: DRY_RUN_GAS_MIST },
+      }
+      this.touched.set(id, { before: structuredClone(coin), object: coin })
+      this.written.add(id)
+      this.mockGasId = id
+      this.gasCoinId = id
+    } else {
+      let total = 0n
+      for (const ref of payment) {
+        const id = normalizeSuiAddress(ref.objectId)
+        const object = this.committed(id)
+        this.checkVersion(object, ref.version)
+        if (object.data.kind !== 'coin' || object.data.coinType !== SUI_COIN_TYPE) {
+          throw new TransactionRejectedError(`Gas object ${id} is not a SUI coin`)
+        }
+        if (addressOwner(object.owner) !== this.gasOwner) {
+          throw new TransactionRejectedError(`Gas object ${id} is not owned by the gas owner ${this.gasOwner}`)
+        }
+        total += object.data.balance
+      }
+      if (total < budget) {
+        throw new TransactionRejectedError(`Balance of gas object ${total} is lower than the needed amount: ${budget}`)
+      }
+      // The other payment coins are merged into the first
+      const [primary, ...rest] = payment.map((ref) => this.load(normalizeSuiAddress(ref.objectId)) as SimObject<CoinData>)
+      for (const coin of rest) {
+        primary.data.balance += coin.data.balance
+        this.destroy(coin)
+      }
+      this.markWritten(primary)
+      this.gasCoinId = primary.id
+    }
+    ;(this.load(this.gasCoinId) as SimObject<CoinData>).data.balance -= budget
+  }
+
+  /** Pay `charge` out of the budget set aside in loadGas; false when the budget doesn't cover it */
+  chargeGas(charge: bigint): boolean {
+    const budget = BigInt(this.data.gasData.budget ?? 0)
+    const gas = this.load(this.gasCoinId) as SimObject<CoinData>
+    gas.data.balance += budget - (charge > budget ? budget : charge)
+    return charge <= budget
+  }
+
+  // ---- Objects ----
+
+  load(id: string): SimObject {
+    if (this.deleted.has(id)) throw new ExecutionError(`Object ${id} was already used by value`)
+    const touched = this.touched.get(id)
+    if (touched) return touched.object
+    const before = this.committed(id)
+    const object = structuredClone(before)
+    this.touched.set(id, { before, object })
+    return object
+  }
+
+  private markWritten(object: SimObject) {
+    this.written.add(object.id)
+  }
+
+  newId(): string {
+    return this.ids.address()
+  }
+
+  create<T extends ObjectData>(data: T): SimObject<T> {
+    const object: SimObject<T> = { id: this.newId(), version: 0, digest: '', owner: null, previousTransaction: this.digest, data }
+    this.touched.set(object.id, { before: null, object })
+    return object
+  }
+
+  transfer(object: SimObject, recipient: string) {
+    object.owner = { AddressOwner: normalizeSuiAddress(recipient) }
+    this.markWritten(object)
+  }
+
+  share(object: SimObject) {
+    // The version is only known at commit
+    object.owner = { Shared: { initial_shared_version: '0' } }
+    this.markWritten(object)
+  }
+
+  destroy(object: SimObject) {
+    this.deleted.add(object.id)
+  }
+
+  emit(type: string, fields: Record<string, unknown>) {
+    this.events.push({ type: `${this.packageId}::${type}`, module: this.call.module, fields })
+  }
+
+  abort(code: number, location?: AbortLocation): never {
+    throw new ExecutionError(moveAbort(code, { address: this.packageId, ...(location ?? this.call) }))
+  }
+
+  private tableEntryId(tableId: string, key: string): string | null {
+    const parent = normalizeSuiAddress(tableId)
+    const matches = (object: SimObject) =>
+      object.data.kind === 'tableEntry' && object.data.tableId === parent && object.data.key === normalizeSuiAddress(key)
+    for (const [id, { object }] of this.touched) if (matches(object) && !this.deleted.has(id)) return id
+    return this.chain.childrenOf(parent).find(matches)?.id ?? null
+  }
+
+  tableBorrow(tableId: string, key: string): SimObject<TableEntryData> | null {
+    const id = this.tableEntryId(tableId, key)
+    return id ? (this.load(id) as SimObject<TableEntryData>) : null
+  }
+
+  tableBorrowMut(tableId: string, key: string): SimObject<TableEntryData> | null {
+    const entry = this.tableBorrow(tableId, key)
+    if (entry) this.markWritten(entry)
+    return entry
+  }
+
+  tableAdd(tableId: string, key: string, entry: LeaderboardEntryData) {
+    // dynamic_field::EFieldAlreadyExists
+    if (this.tableEntryId(tableId, key)) this.abort(0, { address: '0x2', module: 'dynamic_field', function: 'add' })
+    const parent = normalizeSuiAddress(tableId)
+    const object = this.create<TableEntryData>({ kind: 'tableEntry', tableId: parent, key: normalizeSuiAddress(key), entry })
+    object.owner = { ObjectOwner: parent }
+    this.markWritten(object)
+  }
+
+  // ---- Commands ----
+
+  run(commands: Command[]) {
+    const results: Value[][] = []
+    commands.forEach((command, index) => {
+      try {
+        results.push(this.command(command, results, index))
+      } catch (err) {
+        if (err instanceof ExecutionError && err.command === undefined) err.command = index
+        throw err
+      }
+    })
+    for (const [id, { before, object }] of this.touched) {
+      if (before || object.owner || this.deleted.has(id)) continue
+      const [result, secondary] = this.results.get(id) ?? [commands.length - 1, 0]
+      throw new ExecutionError(`UnusedValueWithoutDrop { result_idx: ${result}, secondary_idx: ${secondary} }`)
+    }
+  }
+
+  private value(arg: Argument, results: Value[][]): Value {
+    if (arg.$kind === 'GasCoin') return { kind: 'object', id: this.gasCoinId }
+    if (arg.$kind === 'Input') return this.values[arg.Input]
+    if (arg.$kind === 'Result') {
+      const result = results[arg.Result]
+      if (result?.length !== 1) throw new ExecutionError(`InvalidResultArity { result_idx: ${arg.Result} }`)
+      return result[0]
+    }
+    if (arg.$kind === 'NestedResult') {
+      const [command, index] = arg.NestedResult
+      const value = results[command]?.[index]
+      if (!value) throw new ExecutionError(`IndexOutOfBounds { result_idx: ${command}, secondary_idx: ${index} }`)
+      return value
+    }
+    throw new ExecutionError(`Unsupported argument ${JSON.stringify(arg)}`)
+  }
+
+  private object(arg: Argument, results: Value[][], argIndex: number): SimObject {
+    const value = this.value(arg, results)
+    if (value.kind !== 'object') throw new ExecutionError(`CommandArgumentError { arg_idx: ${argIndex}, kind: TypeMismatch }`)
+    return this.load(value.id)
+  }
+
+  private pure<T>(arg: Argument, results: Value[][], argIndex: number, parse: (bytes: Uint8Array) => T): T {
+    const value = this.value(arg, results)
+    if (value.kind !== 'pure') throw new ExecutionError(`CommandArgumentError { arg_idx: ${argIndex}, kind: TypeMismatch }`)
+    try {
+      return parse(value.bytes)
+    } catch {
+      throw new ExecutionError(`CommandArgumentError { arg_idx: ${argIndex}, kind: InvalidBCSBytes }`)
+    }
+  }
+
+  private coin(arg: Argument, results: Value[][], argIndex: number): SimObject<CoinData> {
+    const object = this.object(arg, results, argIndex)
+    if (object.data.kind !== 'coin') throw new ExecutionError(`CommandArgumentError { arg_idx: ${argIndex}, kind: TypeMismatch }`)
+    return object as SimObject<CoinData>
+  }
+
+  // Whether the transaction may change or take `object`, as opposed to only reading it
+  private checkWritable(object: SimObject, argIndex: number, byValue: boolean) {
+    const mode = this.inputModes.get(object.id)
+    if (mode === 'immutable' || mode === 'shared' || (byValue && mode === 'shared-mut')) {
+      const kind = byValue ? 'InvalidObjectByValue' : 'InvalidObjectByMutRef'
+      throw new ExecutionError(`CommandArgumentError { arg_idx: ${argIndex}, kind: ${kind} }`)
+    }
+  }
+
+  private command(command: Command, results: Value[][], index: number): Value[] {
+    switch (command.$kind) {
+      case 'MoveCall':
+        return this.moveCall(command.MoveCall!, results)
+      case 'SplitCoins': {
+        const { coin: coinArg, amounts } = command.SplitCoins!
+        const coin = this.coin(coinArg, results, 0)
+        this.checkWritable(coin, 0, false)
+        const values = amounts.map((amount, i) => BigInt(this.pure(amount, results, i + 1, (bytes) => bcs.u64().parse(bytes))))
+        const total = values.reduce((sum, value) => sum + value, 0n)
+        if (total > coin.data.balance) throw new ExecutionError('InsufficientCoinBalance')
+        coin.data.balance -= total
+        this.markWritten(coin)
+        return values.map((balance, secondary) => {
+          const split = this.create<CoinData>({ kind: 'coin', coinType: coin.data.coinType, balance })
+          this.results.set(split.id, [index, secondary])
+          return { kind: 'object', id: split.id }
+        })
+      }
+      case 'MergeCoins': {
+        const { destination, sources } = command.MergeCoins!
+        const target = this.coin(destination, results, 0)
+        this.checkWritable(target, 0, false)
+        sources.forEach((source, i) => {
+          const coin = this.coin(source, results, i + 1)
+          this.checkWritable(coin, i + 1, true)
+          if (coin.data.coinType !== target.data.coinType) {
+            throw new ExecutionError(`CommandArgumentError { arg_idx: ${i + 1}, kind: TypeMismatch }`)
+          }
+          target.data.balance += coin.data.balance
+          this.destroy(coin)
+        })
+        this.markWritten(target)
+        return []
+      }
+      case 'TransferObjects': {
+        const { objects, address } = command.TransferObjects!
+        const recipient = this.pure(address, results, objects.length, (bytes) => bcs.Address.parse(bytes))
+        objects.forEach((arg, i) => {
+          const object = this.object(arg, results, i)
+          this.checkWritable(object, i, true)
+          if (!hasPublicTransfer(object.data)) throw new ExecutionError(`CommandArgumentError { arg_idx: ${i}, kind: InvalidTransferObject }`)
+          this.transfer(object, recipient)
+        })
+        return []
+      }
+      default:
+        throw new TransactionRejectedError(`${command.$kind} commands are not supported by the simulator`)
+    }
+  }
+
+  private moveCall(call: NonNullable<Command['MoveCall']>, results: Value[][]): Value[] {
+    const fn = ENTRY_FUNCTIONS[`${call.module}::${call.function}`]!
+    if (call.arguments.length !== fn.params.length) throw new ExecutionError('ArityMismatch')
+    const args = fn.params.map((param, i) => this.argument(param, call.arguments[i], results, i))
+    this.call = { module: call.module, function: call.function }
+    fn.run(this, args)
+    return []
+  }
+
+  private argument(param: Param, arg: Argument, results: Value[][], argIndex: number): unknown {
+    if (param.kind === 'pure') {
+      switch (param.type) {
+        case 'u8': return this.pure(arg, results, argIndex, (bytes) => bcs.u8().parse(bytes))
+        case 'u64': return BigInt(this.pure(arg, results, argIndex, (bytes) => bcs.u64().parse(bytes)))
+        case 'address': return normalizeSuiAddress(this.pure(arg, results, argIndex, (bytes) => bcs.Address.parse(bytes)))
+      }
+    }
+    const object = this.object(arg, results, argIndex)
+    if (typeOf(object.data, this.packageId) !== param.type(this.packageId)) {
+      throw new ExecutionError(`CommandArgumentError { arg_idx: ${argIndex}, kind: TypeMismatch }`)
+    }
+    if (param.ref !== '&') this.checkWritable(object, argIndex, param.ref === 'value')
+    return object
+  }
+}
+
+/** Refuse calls the simulator can't run before anything executes */
+function checkSupported(chain: ChainState, commands: Command[]) {
+  for (const command of commands) {
+    if (command.$kind !== 'MoveCall') continue
+    const { package: pkg, module, function: fn, typeArguments } = command.MoveCall!
+    const target = `${module}::${fn}`
+    if (normalizeSuiAddress(pkg) !== chain.packageId || !(target in ENTRY_FUNCTIONS) || typeArguments.length > 0) {
+      throw new TransactionRejectedError(`${pkg}::${target} is not implemented by the simulator`)
+    }
+  }
+}
+
+// ---- Response rendering ----
+
+function renderArgument(arg: Argument): SuiArgument {
+  if (arg.$kind === 'GasCoin') return 'GasCoin'
+  if (arg.$kind === 'Input') return { Input: arg.Input }
+  if (arg.$kind === 'Result') return { Result: arg.Result }
+  if (arg.$kind === 'NestedResult') return { NestedResult: arg.NestedResult }
+  throw new Error(`Unsupported argument ${JSON.stringify(arg)}`)
+}
+
+function renderCommand(command: Command): SuiTransaction {
+  switch (command.$kind) {
+    case 'MoveCall': {
+      const call = command.MoveCall!
+      return {
+        MoveCall: {
+          package: call.package,
+          module: call.module,
+          function: call.function,
+          type_arguments: call.typeArguments,
+          arguments: call.arguments.map(renderArgument),
+        },
+      }
+    }
+    case 'SplitCoins':
+      return { SplitCoins: [renderArgument(command.SplitCoins!.coin), command.SplitCoins!.amounts.map(renderArgument)] }
+    case 'MergeCoins':
+      return { MergeCoins: [renderArgument(command.MergeCoins!.destination), command.MergeCoins!.sources.map(renderArgument)] }
+    case 'TransferObjects':
+      return { TransferObjects: [command.TransferObjects!.objects.map(renderArgument), renderArgument(command.TransferObjects!.address)] }
+    default:
+      throw new Error(`Unsupported command ${command.$kind}`)
+  }
+}
+
+function renderInput(input: CallArg): SuiCallArg {
+  if (input.Pure) return { type: 'pure', value: input.Pure.bytes }
+  const arg = input.Object!
+  if (arg.ImmOrOwnedObject) {
+    const { objectId, version, digest } = arg.ImmOrOwnedObject
+    return { type: 'object', objectType: 'immOrOwnedObject', objectId, version: String(version), digest }
+  }
+  const shared = arg.SharedObject!
+  return {
+    type: 'object',
+    objectType: 'sharedObject',
+    objectId: shared.objectId,
+    initialSharedVersion: String(shared.initialSharedVersion),
+    mutable: shared.mutable,
+  }
+}
+
+function renderInputData(data: TransactionDataBuilder, gasPayment: SuiObjectRef[]): TransactionBlockData {
+  return {
+    messageVersion: 'v1',
+    sender: normalizeSuiAddress(data.sender!),
+    gasData: {
+      owner: normalizeSuiAddress(data.gasData.owner ?? data.sender!),
+      price: String(data.gasData.price ?? 0),
+      budget: String(data.gasData.budget ?? 0),
+      payment: gasPayment,
+    },
+    transaction: {
+      kind: 'ProgrammableTransaction',
+      inputs: (data.inputs as CallArg[]).map(renderInput),
+      transactions: data.commands.map(renderCommand),
+    },
+  }
+}
+
+const reference = (object: SimObject): SuiObjectRef => ({ objectId: object.id, version: String(object.version), digest: object.digest })
+
+/** Net coin balance changes by owner and coin type */
+function balanceChanges(execution: Execution): BalanceChange[] {
+  const totals = new Map<string, { owner: string; coinType: string; amount: bigint }>()
+  const add = (object: SimObject | null, sign: bigint) => {
+    const owner = object && addressOwner(object.owner)
+    if (!object || !owner || object.data.kind !== 'coin') return
+    const key = `${owner}:${object.data.coinType}`
+    const total = totals.get(key) ?? { owner, coinType: object.data.coinType, amount: 0n }
+    total.amount += sign * object.data.balance
+    totals.set(key, total)
+  }
+  for (const [id, { before, object }] of execution.touched) {
+    add(before, -1n)
+    if (!execution.deleted.has(id)) add(object, 1n)
+  }
+  return [...totals.values()]
+    .filter(({ amount }) => amount !== 0n)
+    .map(({ owner, coinType, amount }) => ({ owner: { AddressOwner: owner }, coinType, amount: amount.toString() }))
+}
+
+/**
+ * Execute (or dry-run) BCS transaction bytes against `chain`. Resolves with the full response
+ * even when the transaction fails on chain; throws TransactionRejectedError when it can't run.
+ */
+export function executeTransaction(chain: ChainState, bytes: Uint8Array, options: ExecuteOptions = {}): ExecutedTransaction {
+  const data = TransactionDataBuilder.fromBytes(bytes)
+  const digest = TransactionDataBuilder.getDigestFromBytes(bytes)
+  const dryRun = options.dryRun ?? false
+  const executed = chain.transactions.get(digest)
+  if (executed && !dryRun) return executed as ExecutedTransaction
+  if (!data.sender) throw new TransactionRejectedError('The transaction has no sender')
+
+  checkSupported(chain, data.commands)
+  chain.fund(data.sender)
+
+  const attempt = () => {
+    const execution = new Execution(chain, data, digest)
+    execution.loadInputs()
+    execution.loadGas(dryRun)
+    return execution
+  }
+  let execution = attempt()
+  const gasPayment = (data.gasData.payment ?? []).map((ref) => ({ ...ref, version: String(ref.version) }))
+  let error: string | null = null
+  try {
+    execution.run(data.commands)
+  } catch (err) {
+    if (!(err instanceof ExecutionError)) throw err
+    error = err.command === undefined ? err.message : `${err.message} in command ${err.command}`
+    // Start over: a failed transaction only pays gas and bumps its inputs
+    execution = attempt()
+  }
+
+  const price = BigInt(data.gasData.price ?? 0)
+  const isNew = (id: string) => execution.touched.get(id)!.before === null
+  const writes = [...execution.written].filter((id) => !execution.deleted.has(id) && id !== execution.mockGasId)
+  const computationCost = price * COMPUTATION_UNITS
+  const storageCost = STORAGE_COST_PER_OBJECT * BigInt(writes.length)
+  if (!execution.chargeGas(computationCost + storageCost) && !error) {
+    error = 'InsufficientGas'
+    execution = attempt()
+    execution.chargeGas(computationCost + storageCost)
+  }
+
+  // Everything written gets the transaction's lamport version
+  const inputVersions = [...execution.touched.values()].flatMap(({ before }) => (before ? [before.version] : []))
+  const lamport = Math.max(0, ...inputVersions) + 1
+  const created: SimObject[] = []
+  const mutated: Array<{ object: SimObject; before: SimObject }> = []
+  const deleted: Array<{ id: string; before: SimObject }> = []
+  for (const [id, { before, object }] of execution.touched) {
+    if (execution.deleted.has(id)) {
+      if (before) deleted.push({ id, before })
+      continue
+    }
+    if (!execution.written.has(id)) continue
+    object.version = lamport
+    object.digest = execution.ids.digest()
+    object.previousTransaction = digest
+    if (object.owner && typeof object.owner === 'object' && 'Shared' in object.owner && isNew(id)) {
+      object.owner = { Shared: { initial_shared_version: String(lamport) } }
+      object.initialSharedVersion = lamport
+    }
+    if (before) mutated.push({ object, before })
+    else created.push(object)
+  }
+
+  const sender = normalizeSuiAddress(data.sender)
+  const gasObject = execution.touched.get(execution.gasCoinId)!.object
+  const visible = <T extends { id: string } | { object: SimObject }>(items: T[]) =>
+    items.filter((item) => ('id' in item ? item.id : item.object.id) !== execution.mockGasId)
+  const owned = (object: SimObject): OwnedObjectRef => ({ owner: object.owner!, reference: reference(object) })
+
+  const sharedInputs = [...execution.inputModes].filter(([, mode]) => mode === 'shared' || mode === 'shared-mut')
+  const effects: TransactionEffects = {
+    messageVersion: 'v1',
+    status: error ? { status: 'failure', error } : { status: 'success' },
+    executedEpoch: '0',
+    gasUsed: {
+      computationCost: computationCost.toString(),
+      storageCost: storageCost.toString(),
+      storageRebate: '0',
+      nonRefundableStorageFee: '0',
+    },
+    transactionDigest: digest,
+    gasObject: owned(gasObject),
+    created: created.map(owned),
+    mutated: visible(mutated).map(({ object }) => owned(object)),
+    deleted: visible(deleted).map(({ id }) => ({ objectId: id, version: String(lamport), digest: DELETED_DIGEST })),
+    modifiedAtVersions: [...visible(mutated), ...visible(deleted)].map(({ before }) => ({
+      objectId: before.id,
+      sequenceNumber: String(before.version),
+    })),
+    sharedObjects: sharedInputs.map(([id]) => reference(execution.touched.get(id)?.before ?? chain.objects.get(id)!)),
+    dependencies: [...new Set([...execution.touched.values()].flatMap(({ before }) => (before ? [before.previousTransaction] : [])))],
+    eventsDigest: !error && execution.events.length > 0 ? execution.ids.digest() : null,
+  }
+
+  const timestampMs = String(execution.now)
+  const events: SuiEvent[] = error ? [] : execution.events.map((event, eventSeq) => ({
+    id: { txDigest: digest, eventSeq: String(eventSeq) },
+    packageId: chain.packageId,
+    transactionModule: event.module,
+    sender,
+    type: event.type,
+    parsedJson: event.fields,
+    bcs: '',
+    bcsEncoding: 'base64',
+    timestampMs,
+  }))
+
+  const objectType = (object: SimObject) => typeOf(object.data, chain.packageId)
+  const objectChanges: SuiObjectChange[] = [
+    ...visible(mutated).map(({ object, before }): SuiObjectChange => ({
+      type: 'mutated',
+      sender,
+      owner: object.owner!,
+      objectType: objectType(object),
+      objectId: object.id,
+      version: String(object.version),
+      previousVersion: String(before.version),
+      digest: object.digest,
+    })),
+    ...created.map((object): SuiObjectChange => ({
+      type: 'created',
+      sender,
+      owner: object.owner!,
+      objectType: objectType(object),
+      objectId: object.id,
+      version: String(object.version),
+      digest: object.digest,
+    })),
+    ...visible(deleted).map(({ before }): SuiObjectChange => ({
+      type: 'deleted',
+      sender,
+      objectType: objectType(before),
+      objectId: before.id,
+      version: String(lamport),
+    })),
+  ]
+
+  const input = renderInputData(data, gasPayment)
+  const response: ExecutedTransaction = {
+    digest,
+    input,
+    transaction: { data: input, txSignatures: options.signatures ?? [] },
+    rawTransaction: toBase64(bytes),
+    effects,
+    events,
+    objectChanges,
+    balanceChanges: balanceChanges(execution),
+    rawEffects: [],
+    timestampMs,
+    checkpoint: null,
+  }
+  if (dryRun) return response
+
+  for (const object of [...created, ...mutated.map(({ object }) => object)]) chain.objects.set(object.id, object)
+  for (const { id } of deleted) {
+    chain.objects.delete(id)
+    chain.deleted.set(id, lamport)
+  }
+  chain.ids.adopt(execution.ids)
+  if (!error) chain.random.adopt(execution.random)
+  response.checkpoint = chain.nextCheckpoint()
+  chain.transactions.set(digest, response)
+  chain.events.push(...events)
+  return response
+}
@@ -0,0 +1,86 @@
+import { SuiClient } from '@mysten/sui/client'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { Transaction } from '@mysten/sui/transactions'
+import type { DeploymentIds } from '../config/deployment'
+import { ChainState } from './chain'
+import { SimulatorClock, type SimulatorClockOptions } from './clock'
+import { SIMULATOR_DEPLOYMENT } from './deployment'
+import { SeededRandom } from 'fruit-merge-shared/random'
+import { SimulatedRelay } from './relay'
+import { SimulatorTransport } from './transport'
+
+export { SimulatorClock } from './clock'
+export { SIMULATOR_DEPLOYMENT } from './deployment'
+export { TransactionRejectedError } from './executor'
+export { SimulatedRelay } from './relay'
+export { SimulatorTransport } from './transport'
+
+export interface SimulatorOptions {
+  /** Seeds fruit randomness, object IDs and the sponsor key; the same seed replays the same game */
+  seed?: number
+  clock?: SimulatorClockOptions
+  deployment?: DeploymentIds
+  /** MIST every new address gets for gas; defaults to 10 SUI, 0 turns the faucet off */
+  faucetMist?: bigint
+  /** Delay before every RPC response */
+  latencyMs?: number
+  /** SUI coins (10 SUI each) the sponsor starts with */
+  sponsorGasCoins?: number
+}
+
+export interface Simulator {
+  /** A regular SuiClient on top of the simulated chain */
+  client: SuiClient
+  transport: SimulatorTransport
+  chain: ChainState
+  clock: SimulatorClock
+  /** Stand-in for the sponsor relay, paying gas from the sponsor's coins */
+  relay: SimulatedRelay
+  /** Publisher of the package and sponsor of the relay */
+  sponsorAddress: string
+  /** Mint SEED to `recipient` with seed::mint_seeds, as the sponsor */
+  mintSeeds: (recipient: string, amount: bigint) => Promise<void>
+}
+
+/**
+ * An in-memory Sui network running the game's contracts. Nothing leaves the page: the client,
+ * the relay and the clock all act on the same ChainState.
+ */
+export function createSimulator(options: SimulatorOptions = {}): Simulator {
+  const seed = options.seed ?? 1
+  const deployment = options.deployment ?? SIMULATOR_DEPLOYMENT
+  const keypair = Ed25519Keypair.fromSecretKey(new SeededRandom(seed ^ 0x5905).bytes(32))
+  const sponsorAddress = keypair.getPublicKey().toSuiAddress()
+  const clock = new SimulatorClock(options.clock)
+  const chain = new ChainState({
+    seed,
+    clock,
+    deployment,
+    publisher: sponsorAddress,
+    publisherGasCoins: options.sponsorGasCoins ?? 20,
+    faucetMist: options.faucetMist ?? 10_000_000_000n,
+  })
+  const transport = new SimulatorTransport({ chain, latencyMs: options.latencyMs })
+  const client = new SuiClient({ transport })
+  const relay = new SimulatedRelay({
+    chain,
+    client,
+    keypair,
+    seedAdminCap: deployment.seedAdminCap,
+    random: new SeededRandom(seed ^ 0x6a3e),
+    // The farm's "Mint Test Seeds" button is the only way to SEED without playing
+    allowDirectMints: true,
+  })
+
+  const mintSeeds = async (recipient: string, amount: bigint) => {
+    const tx = new Transaction()
+    tx.moveCall({
+      target: `${chain.packageId}::seed::mint_seeds`,
+      arguments: [tx.object(deployment.seedAdminCap), tx.pure.u64(amount), tx.pure.address(recipient)],
+    })
+    const result = await client.signAndExecuteTransaction({ signer: keypair, transaction: tx, options: { showEffects: true } })
+    if (result.effects?.status.status !== 'success') throw new Error(`Minting SEED failed: ${result.effects?.status.error}`)
+  }
+
+  return { client, transport, chain, clock, relay, sponsorAddress, mintSeeds }
+}
@@ -0,0 +1,292 @@
+import type { ObjectOwner } from '@mysten/sui/client'
+
+// The simulator's objects, and how a fullnode would render them: type strings and Move JSON
+// content with u64 as decimal strings, structs as { type, fields } and options as value-or-null.
+
+export const SUI_COIN_TYPE = '0x2::sui::SUI'
+const FRAMEWORK = '0x2'
+
+export interface PlantedFruitData {
+  fruitType: number
+  rarity: number
+  weight: number
+  imageUrl: string
+  seedsUsed: bigint
+  plantedAt: number
+  speedBoostMs: number
+}
+
+export interface InventoryFruitData {
+  fruitType: number
+  rarity: number
+  weight: number
+  imageUrl: string
+  harvestedAt: number
+}
+
+export interface LeaderboardEntryData {
+  player: string
+  bestWeight: number
+  lastUpdated: number
+  joinedAt: number
+}
+
+export interface CoinData { kind: 'coin'; coinType: string; balance: bigint }
+export interface CoinMetadataData {
+  kind: 'coinMetadata'
+  coinType: string
+  decimals: number
+  name: string
+  symbol: string
+  description: string
+  iconUrl: string | null
+}
+export interface SeedAdminCapData { kind: 'seedAdminCap'; treasuryCapId: string; totalSupply: bigint; minter: string }
+export interface LeaderboardConfigData {
+  kind: 'leaderboardConfig'
+  currentRoundId: number
+  treasury: bigint
+  owner: string
+  totalRoundsCompleted: number
+  totalPrizesDistributed: bigint
+}
+export interface Placing { player: string; weight: number }
+export interface LeaderboardRoundData {
+  kind: 'leaderboardRound'
+  roundId: number
+  fruitType: number
+  startTime: number
+  endTime: number
+  prizePool: bigint
+  entriesId: string
+  participantCount: number
+  isActive: boolean
+  prizesDistributed: boolean
+  first: Placing
+  second: Placing
+  third: Placing
+}
+/** A Table entry: a dynamic field object owned by the table's ID */
+export interface TableEntryData { kind: 'tableEntry'; tableId: string; key: string; entry: LeaderboardEntryData }
+export interface PlayerAccountData {
+  kind: 'playerAccount'
+  owner: string
+  totalSeedsEarned: bigint
+  totalGamesPlayed: number
+  inventorySlots: number
+  landCount: number
+  activeLandIndex: number
+  createdAt: number
+}
+export interface PlayerInventoryData { kind: 'playerInventory'; owner: string; fruits: InventoryFruitData[]; maxSlots: number }
+export interface PlayerLandData {
+  kind: 'playerLand'
+  owner: string
+  landIndex: number
+  level: number
+  maxSlots: number
+  slots: Array<PlantedFruitData | null>
+  createdAt: number
+}
+export interface FruitNftData {
+  kind: 'fruitNft'
+  name: string
+  description: string
+  fruitType: number
+  rarity: number
+  weight: number
+  createdBy: string
+  createdAt: number
+}
+
+export type ObjectData =
+  | { kind: 'package' }
+  | { kind: 'clock' }
+  | { kind: 'random' }
+  | CoinData
+  | CoinMetadataData
+  | SeedAdminCapData
+  | LeaderboardConfigData
+  | LeaderboardRoundData
+  | TableEntryData
+  | PlayerAccountData
+  | PlayerInventoryData
+  | PlayerLandData
+  | FruitNftData
+
+export interface SimObject<T extends ObjectData = ObjectData> {
+  id: string
+  version: number
+  digest: string
+  /** null while the object only exists inside a running transaction, not yet transferred or shared */
+  owner: ObjectOwner | null
+  previousTransaction: string
+  /** When the object became shared, for SharedObject inputs */
+  initialSharedVersion?: number
+  data: T
+}
+
+export const isKind = <K extends ObjectData['kind']>(object: SimObject, kind: K): object is SimObject<Extract<ObjectData, { kind: K }>> =>
+  object.data.kind === kind
+
+export const seedCoinType = (packageId: string) => `${packageId}::seed::SEED`
+
+const leaderboardEntryType = (packageId: string) => `${packageId}::leaderboard::LeaderboardEntry`
+
+/** The object's Move type as a fullnode reports it, or 'package' */
+export function typeOf(data: ObjectData, packageId: string): string {
+  switch (data.kind) {
+    case 'package': return 'package'
+    case 'clock': return `${FRAMEWORK}::clock::Clock`
+    case 'random': return `${FRAMEWORK}::random::Random`
+    case 'coin': return `${FRAMEWORK}::coin::Coin<${data.coinType}>`
+    case 'coinMetadata': return `${FRAMEWORK}::coin::CoinMetadata<${data.coinType}>`
+    case 'seedAdminCap': return `${packageId}::seed::SeedAdminCap`
+    case 'leaderboardConfig': return `${packageId}::leaderboard::LeaderboardConfig`
+    case 'leaderboardRound': return `${packageId}::leaderboard::LeaderboardRound`
+    case 'tableEntry': return `${FRAMEWORK}::dynamic_field::Field<address, ${leaderboardEntryType(packageId)}>`
+    case 'playerAccount': return `${packageId}::player::PlayerAccount`
+    case 'playerInventory': return `${packageId}::player::PlayerInventory`
+    case 'playerLand': return `${packageId}::land::PlayerLand`
+    case 'fruitNft': return `${packageId}::fruit_nft::FruitNFT`
+  }
+}
+
+/** Whether the type has `store`, so anyone may transfer it */
+export function hasPublicTransfer(data: ObjectData): boolean {
+  return !['package', 'clock', 'random', 'leaderboardConfig', 'leaderboardRound', 'tableEntry'].includes(data.kind)
+}
+
+const uid = (id: string) => ({ id })
+const struct = (type: string, fields: Record<string, unknown>) => ({ type, fields })
+
+function entryFields(entry: LeaderboardEntryData) {
+  return {
+    player: entry.player,
+    best_weight: String(entry.bestWeight),
+    last_updated: String(entry.lastUpdated),
+    joined_at: String(entry.joinedAt),
+  }
+}
+
+/** The object's fields as Move JSON, as in `content.fields`; null for packages */
+export function contentFields(object: SimObject, packageId: string, nowMs: number): Record<string, unknown> | null {
+  const { data } = object
+  const id = uid(object.id)
+  switch (data.kind) {
+    case 'package':
+      return null
+    case 'clock':
+      return { id, timestamp_ms: String(nowMs) }
+    case 'random':
+      return { id }
+    case 'coin':
+      return { id, balance: data.balance.toString() }
+    case 'coinMetadata':
+      return {
+        id,
+        decimals: data.decimals,
+        name: data.name,
+        symbol: data.symbol,
+        description: data.description,
+        icon_url: data.iconUrl,
+      }
+    case 'seedAdminCap': {
+      const seed = seedCoinType(packageId)
+      return {
+        id,
+        treasury_cap: struct(`${FRAMEWORK}::coin::TreasuryCap<${seed}>`, {
+          id: uid(data.treasuryCapId),
+          total_supply: struct(`${FRAMEWORK}::balance::Supply<${seed}>`, { value: data.totalSupply.toString() }),
+        }),
+        minter: data.minter,
+      }
+    }
+    case 'leaderboardConfig':
+      return {
+        id,
+        current_round_id: String(data.currentRoundId),
+        treasury: data.treasury.toString(),
+        owner: data.owner,
+        total_rounds_completed: String(data.totalRoundsCompleted),
+        total_prizes_distributed: data.totalPrizesDistributed.toString(),
+      }
+    case 'leaderboardRound':
+      return {
+        id,
+        round_id: String(data.roundId),
+        fruit_type: data.fruitType,
+        start_time: String(data.startTime),
+        end_time: String(data.endTime),
+        prize_pool: data.prizePool.toString(),
+        entries: struct(`${FRAMEWORK}::table::Table<address, ${leaderboardEntryType(packageId)}>`, {
+          id: uid(data.entriesId),
+          size: String(data.participantCount),
+        }),
+        participant_count: String(data.participantCount),
+        is_active: data.isActive,
+        prizes_distributed: data.prizesDistributed,
+        first_place: data.first.player,
+        first_weight: String(data.first.weight),
+        second_place: data.second.player,
+        second_weight: String(data.second.weight),
+        third_place: data.third.player,
+        third_weight: String(data.third.weight),
+      }
+    case 'tableEntry':
+      return { id, name: data.key, value: struct(leaderboardEntryType(packageId), entryFields(data.entry)) }
+    case 'playerAccount':
+      return {
+        id,
+        owner: data.owner,
+        total_seeds_earned: data.totalSeedsEarned.toString(),
+        total_games_played: String(data.totalGamesPlayed),
+        inventory_slots: String(data.inventorySlots),
+        land_count: String(data.landCount),
+        active_land_index: String(data.activeLandIndex),
+        created_at: String(data.createdAt),
+      }
+    case 'playerInventory':
+      return {
+        id,
+        owner: data.owner,
+        fruits: data.fruits.map((fruit) => struct(`${packageId}::player::InventoryFruit`, {
+          fruit_type: fruit.fruitType,
+          rarity: fruit.rarity,
+          weight: String(fruit.weight),
+          image_url: fruit.imageUrl,
+          harvested_at: String(fruit.harvestedAt),
+        })),
+        max_slots: String(data.maxSlots),
+      }
+    case 'playerLand':
+      return {
+        id,
+        owner: data.owner,
+        land_index: String(data.landIndex),
+        level: String(data.level),
+        max_slots: String(data.maxSlots),
+        slots: data.slots.map((slot) => slot && struct(`${packageId}::land::PlantedFruit`, {
+          fruit_type: slot.fruitType,
+          rarity: slot.rarity,
+          weight: String(slot.weight),
+          image_url: slot.imageUrl,
+          seeds_used: slot.seedsUsed.toString(),
+          planted_at: String(slot.plantedAt),
+          speed_boost_ms: String(slot.speedBoostMs),
+        })),
+        created_at: String(data.createdAt),
+      }
+    case 'fruitNft':
+      return {
+        id,
+        name: data.name,
+        description: data.description,
+        fruit_type: data.fruitType,
+        rarity: data.rarity,
+        weight: String(data.weight),
+        created_by: data.createdBy,
+        created_at: String(data.createdAt),
+      }
+  }
+}
@@ -0,0 +1,20 @@
+import { SIMULATOR_SEED } from '../config/sui'
+import { createSimulator, type Simulator } from './index'
+
+declare global {
+  interface Window {
+    /** The offline simulator, for moving its clock or minting SEED from the devtools console */
+    fruitSimulator?: Simulator
+  }
+}
+
+let simulator: Simulator | null = null
+
+/** The simulator the app runs against in offline mode (VITE_OFFLINE=true), created on first use */
+export function getOfflineSimulator(): Simulator {
+  if (!simulator) {
+    simulator = createSimulator({ seed: SIMULATOR_SEED })
+    if (typeof window !== 'undefined') window.fruitSimulator = simulator
+  }
+  return simulator
+}
@@ -0,0 +1,220 @@
+import type { SuiClient, SuiObjectRef } from '@mysten/sui/client'
+import type { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { Transaction } from '@mysten/sui/transactions'
+import { fromBase64, isValidSuiAddress } from '@mysten/sui/utils'
+import { GameLogError, replayGame, type DropLog } from 'fruit-merge-shared/mergeGame'
+import { evaluateSponsorPolicy, type SponsorMode } from 'fruit-merge-shared/policy'
+import type { ChainState } from './chain'
+import { SUI_COIN_TYPE, isKind } from './objects'
+import type { SeededRandom } from 'fruit-merge-shared/random'
+
+// The sponsor relay (see /relay) in the browser: same routes, bodies and error codes, paying gas
+// from the simulated publisher's coins. Transactions go through the relay's sponsorship policy;
+// budgets are not simulated.
+
+export interface SimulatedRelayOptions {
+  chain: ChainState
+  client: SuiClient
+  keypair: Ed25519Keypair
+  /** Held by the sponsor; verified merge games mint SEED with it */
+  seedAdminCap: string
+  /** Picks merge-game seeds */
+  random: SeededRandom
+  /** Lets `/execute` mint SEED directly, like the relay's ALLOW_DIRECT_MINTS */
+  allowDirectMints: boolean
+}
+
+const SEED_DECIMALS = 1_000_000_000n
+
+// Same shape as the relay's HttpError, turned into a JSON error response
+class RelayError extends Error {
+  readonly status: number
+  readonly code: string
+  readonly details?: unknown
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message)
+    this.name = 'RelayError'
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+interface RelayRequest {
+  sender?: string
+  transactionKindBytes?: string
+  digest?: string
+  player?: string
+  sessionId?: string
+  log?: DropLog
+}
+
+interface GameSession {
+  player: string
+  seed: number
+  /** SEED (whole units) already minted for this game */
+  minted: number
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+function decodeKindBytes(value: string | undefined): Uint8Array {
+  if (!value) throw new RelayError(400, 'MISSING_TRANSACTION', 'transactionKindBytes is required')
+  try {
+    return fromBase64(value)
+  } catch {
+    throw new RelayError(400, 'INVALID_TRANSACTION', 'transactionKindBytes must be base64')
+  }
+}
+
+/** Answers relay requests in memory; pass `handle` where the app would `fetch` the relay */
+export class SimulatedRelay {
+  readonly address: string
+  private readonly chain: ChainState
+  private readonly client: SuiClient
+  private readonly keypair: Ed25519Keypair
+  private readonly seedAdminCap: string
+  private readonly random: SeededRandom
+  private readonly allowDirectMints: boolean
+  // Gas coin ID by the digest of the sponsored transaction it was leased to
+  private readonly leases = new Map<string, string>()
+  private readonly games = new Map<string, GameSession>()
+
+  constructor(options: SimulatedRelayOptions) {
+    this.chain = options.chain
+    this.client = options.client
+    this.keypair = options.keypair
+    this.seedAdminCap = options.seedAdminCap
+    this.random = options.random
+    this.allowDirectMints = options.allowDirectMints
+    this.address = options.keypair.getPublicKey().toSuiAddress()
+  }
+
+  /** Handle a POST to `path` with a JSON `body`, like the relay's HTTP server */
+  async handle(path: string, body: unknown): Promise<Response> {
+    const request = (body ?? {}) as RelayRequest
+    try {
+      switch (path) {
+        case '/sponsor':
+          if (!request.sender || !isValidSuiAddress(request.sender)) {
+            throw new RelayError(400, 'INVALID_SENDER', 'sender must be a valid Sui address')
+          }
+          return json(200, await this.sponsor(request.sender, decodeKindBytes(request.transactionKindBytes)))
+        case '/execute':
+          return json(200, await this.executeRequested(decodeKindBytes(request.transactionKindBytes)))
+        case '/complete':
+          if (!request.digest) throw new RelayError(400, 'MISSING_DIGEST', 'digest is required')
+          return json(200, { released: this.leases.delete(request.digest) })
+        case '/game/start':
+          if (!request.player || !isValidSuiAddress(request.player)) {
+            throw new RelayError(400, 'INVALID_PLAYER', 'player must be a valid Sui address')
+          }
+          return json(200, this.startGame(request.player))
+        case '/game/claim':
+          if (!request.sessionId || !request.log) {
+            throw new RelayError(400, 'MISSING_GAME_LOG', 'sessionId and log are required')
+          }
+          return json(200, await this.claimGame(request.sessionId, request.log))
+        default:
+          throw new RelayError(404, 'NOT_FOUND', `No route for POST ${path}`)
+      }
+    } catch (err) {
+      if (err instanceof RelayError) return json(err.status, { code: err.code, error: err.message, details: err.details })
+      return json(500, { code: 'SPONSOR_FAILED', error: err instanceof Error ? err.message : String(err) })
+    }
+  }
+
+  // A sponsor coin no in-flight sponsored transaction is using
+  private freeCoin(): SuiObjectRef {
+    const leased = new Set(this.leases.values())
+    const coin = this.chain.ownedBy(this.address).find(
+      (object) => isKind(object, 'coin') && object.data.coinType === SUI_COIN_TYPE && !leased.has(object.id)
+    )
+    if (!coin) throw new RelayError(503, 'SPONSOR_UNFUNDED', 'Sponsor wallet has no gas coins. Please fund the sponsor wallet.')
+    return { objectId: coin.id, version: String(coin.version), digest: coin.digest }
+  }
+
+  // Refuse what the relay's sponsorship policy refuses
+  private assertSponsorable(tx: Transaction, mode: SponsorMode) {
+    const decision = evaluateSponsorPolicy(tx.getData(), mode, {
+      packageId: this.chain.packageId,
+      adminCapId: this.seedAdminCap,
+      allowDirectMints: this.allowDirectMints,
+    })
+    if (!decision.approved) {
+      throw new RelayError(403, 'POLICY_REJECTED', decision.rejection.message, decision.rejection)
+    }
+  }
+
+  private async sponsor(sender: string, kindBytes: Uint8Array) {
+    const tx = Transaction.fromKind(kindBytes)
+    this.assertSponsorable(tx, 'user')
+    const coin = this.freeCoin()
+    tx.setSender(sender)
+    tx.setGasOwner(this.address)
+    tx.setGasPayment([coin])
+    const built = await tx.build({ client: this.client })
+    const signed = await this.keypair.signTransaction(built)
+    const digest = await tx.getDigest()
+    this.leases.set(digest, coin.objectId)
+    return { ...signed, digest }
+  }
+
+  private async executeRequested(kindBytes: Uint8Array) {
+    this.assertSponsorable(Transaction.fromKind(kindBytes), 'sponsor')
+    return this.execute(kindBytes)
+  }
+
+  private async execute(kindBytes: Uint8Array) {
+    const tx = Transaction.fromKind(kindBytes)
+    tx.setSender(this.address)
+    tx.setGasOwner(this.address)
+    tx.setGasPayment([this.freeCoin()])
+    return this.client.signAndExecuteTransaction({
+      signer: this.keypair,
+      transaction: tx,
+      options: { showEffects: true, showEvents: true, showObjectChanges: true },
+    })
+  }
+
+  private startGame(player: string) {
+    const sessionId = this.random.address()
+    const seed = this.random.nextU32()
+    this.games.set(sessionId, { player, seed, minted: 0 })
+    return { sessionId, seed }
+  }
+
+  // Replays the log like the relay does and mints what it earned beyond earlier claims
+  private async claimGame(sessionId: string, log: DropLog) {
+    const session = this.games.get(sessionId)
+    if (!session) throw new RelayError(404, 'GAME_NOT_FOUND', 'No such game session; start a new game')
+
+    let verifiedSeeds: number
+    try {
+      verifiedSeeds = replayGame(session.seed, log).seedsEarned
+    } catch (err) {
+      if (err instanceof GameLogError) throw new RelayError(400, 'INVALID_GAME_LOG', err.message)
+      throw err
+    }
+    const mintedSeeds = verifiedSeeds - session.minted
+    if (mintedSeeds <= 0) return { digest: null, verifiedSeeds, mintedSeeds: 0 }
+
+    const tx = new Transaction()
+    tx.moveCall({
+      target: `${this.chain.packageId}::seed::mint_seeds`,
+      arguments: [
+        tx.object(this.seedAdminCap),
+        tx.pure.u64(BigInt(mintedSeeds) * SEED_DECIMALS),
+        tx.pure.address(session.player),
+      ],
+    })
+    const result = await this.execute(await tx.build({ client: this.client, onlyTransactionKind: true }))
+    if (result.effects?.status.status !== 'success') {
+      throw new RelayError(500, 'MINT_FAILED', `Minting SEED failed: ${result.effects?.status.error}`)
+    }
+    session.minted = verifiedSeeds
+    return { digest: result.digest, verifiedSeeds, mintedSeeds }
+  }
+}
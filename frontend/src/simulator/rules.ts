@@ -0,0 +1,167 @@
+// The game rules from contract/sources/utils.move, in the same integer arithmetic.
+
+export const SEED_DECIMALS = 1_000_000_000n
+
+export const RARITY_COMMON = 1
+export const RARITY_UNCOMMON = 2
+export const RARITY_RARE = 3
+export const RARITY_EPIC = 4
+export const RARITY_LEGENDARY = 5
+
+export const INITIAL_LAND_SLOTS = 6
+export const MAX_LAND_SLOTS = 12
+export const SLOTS_PER_LAND_UPGRADE = 2
+export const NEW_LAND_COST = 500n * SEED_DECIMALS
+export const WATERING_CAN_COST = 50n * SEED_DECIMALS
+export const FERTILIZER_COST = 100n * SEED_DECIMALS
+export const SHOVEL_COST = 25n * SEED_DECIMALS
+
+export const INITIAL_INVENTORY_SLOTS = 20
+export const MAX_INVENTORY_SLOTS = 200
+export const INVENTORY_SLOTS_PER_UPGRADE = 10
+const INVENTORY_UPGRADE_COST = 200n * SEED_DECIMALS
+const LAND_UPGRADE_COST_BASE = 100n * SEED_DECIMALS
+
+/** How many fruits of one type market::merge_fruits turns into one */
+export const FRUITS_PER_MERGE = 10
+
+// utils.move error codes
+export const E_INVALID_FRUIT_TYPE = 105
+export const E_INSUFFICIENT_FRUITS = 107
+export const E_INSUFFICIENT_SEEDS = 200
+export const E_INVALID_SEED_COUNT = 202
+export const E_NOT_MINTER = 203
+export const E_SLOT_OCCUPIED = 300
+export const E_SLOT_EMPTY = 301
+export const E_INVALID_SLOT = 303
+export const E_LAND_MAX_LEVEL = 306
+export const E_INVENTORY_FULL = 402
+export const E_INVENTORY_EMPTY = 403
+
+const GROW_TIME_MS: Record<number, number> = {
+  [RARITY_COMMON]: 15_000,
+  [RARITY_UNCOMMON]: 30_000,
+  [RARITY_RARE]: 60_000,
+  [RARITY_EPIC]: 180_000,
+  [RARITY_LEGENDARY]: 480_000,
+}
+
+// [min, max] grams per fruit type; unknown types fall back to apple, as in the contract
+const WEIGHT_RANGES: Record<number, [number, number]> = {
+  1: [5, 15],
+  2: [2, 5],
+  3: [130, 200],
+  4: [60, 100],
+  5: [150, 250],
+  6: [180, 280],
+  7: [120, 180],
+  8: [900, 1500],
+  9: [1000, 2000],
+  10: [3000, 6000],
+}
+
+const FRUIT_NAMES: Record<number, string> = {
+  1: 'Cherry',
+  2: 'Grape',
+  3: 'Orange',
+  4: 'Lemon',
+  5: 'Apple',
+  6: 'Pear',
+  7: 'Peach',
+  8: 'Pineapple',
+  9: 'Melon',
+  10: 'Watermelon',
+}
+
+const RARITY_NAMES: Record<number, string> = {
+  [RARITY_COMMON]: 'common',
+  [RARITY_UNCOMMON]: 'uncommon',
+  [RARITY_RARE]: 'rare',
+  [RARITY_EPIC]: 'epic',
+  [RARITY_LEGENDARY]: 'legendary',
+}
+
+const WALRUS_AGGREGATOR_URL = 'https://aggregator.walrus.site/v1/'
+const APPLE_BLOB_ID = 'readcJ34aWQRKUkiJlJVfF52d7LOGeR2OQFdl_QPmvA'
+const WATERMELON_BLOB_ID = 'rgvQ9a9dPyUdqflKQ9amcUUS89Nun-ZxhmFIjcOKw3s'
+const BLOB_IDS: Record<number, string> = {
+  1: APPLE_BLOB_ID,
+  2: 'S_Mi3AcsnZztZw9bo1u7UrJATDu58KYivFUGCscw_Z0',
+  3: 'ECZwwwylg04TKBKeNy8KRy0PAAmLRJUNaUdZDAlbYX8',
+  4: 'KU9S7eN56I7BJ89ALkafb5ac2SzP5iSIds9znUvm2k0',
+  5: APPLE_BLOB_ID,
+  6: 'yL5YIDTDeIdJrJo657xxQDRfAXk4hZIhCOYwfsWdYas',
+  7: 'vQpwrGHC-MwoeyqjA2H4rNEYlgv9WEsX-EBzH5QURM8',
+  8: 'gL3dn3XOe73xfBXXGZTLd5o0CKq8LrmNqCdnBlLkXuY',
+  9: WATERMELON_BLOB_ID,
+  10: WATERMELON_BLOB_ID,
+}
+
+const div = (a: number, b: number) => Math.floor(a / b)
+
+export const isValidFruitType = (fruitType: number) => fruitType >= 1 && fruitType <= 10
+
+export function fruitWeightRange(fruitType: number): [number, number] {
+  return WEIGHT_RANGES[fruitType] ?? WEIGHT_RANGES[5]
+}
+
+/** utils::generate_fruit_weight: a random base weight plus a bonus for every seed, capped below Legendary */
+export function generateFruitWeight(fruitType: number, seedsPlanted: bigint, randomValue: number): number {
+  const [min, max] = fruitWeightRange(fruitType)
+  const range = max - min
+  const baseWeight = min + (randomValue % (div(range * 3, 10) + 1))
+
+  let remaining = Number(seedsPlanted / SEED_DECIMALS)
+  let bonus = 0
+  // [seeds in the tier, % of the range each adds]
+  for (const [seeds, percent] of [[2, 15], [3, 12], [5, 8], [10, 5], [20, 2]]) {
+    const tier = Math.min(remaining, seeds)
+    bonus += div(tier * range * percent, 100)
+    remaining -= tier
+  }
+  return baseWeight + Math.min(bonus, div(range * 195, 100))
+}
+
+/** utils::calculate_weight_based_rarity */
+export function weightBasedRarity(fruitType: number, weight: number): number {
+  const [min, max] = fruitWeightRange(fruitType)
+  if (weight <= max) return RARITY_COMMON
+  const excessPercent = div((weight - max) * 100, max - min)
+  if (excessPercent >= 200) return RARITY_LEGENDARY
+  if (excessPercent >= 100) return RARITY_EPIC
+  if (excessPercent >= 50) return RARITY_RARE
+  if (excessPercent >= 20) return RARITY_UNCOMMON
+  return RARITY_COMMON
+}
+
+export const growTimeMs = (rarity: number) => GROW_TIME_MS[rarity] ?? GROW_TIME_MS[RARITY_COMMON]
+
+/** utils::is_fruit_ready_with_boost */
+export function isFruitReady(plantedAt: number, now: number, rarity: number, speedBoostMs: number): boolean {
+  const growTime = growTimeMs(rarity)
+  const effective = speedBoostMs >= growTime ? 1000 : growTime - speedBoostMs
+  return now >= plantedAt + effective
+}
+
+export const landUpgradeCost = (level: number) => LAND_UPGRADE_COST_BASE * (1n << BigInt(level))
+
+export function inventoryUpgradeCost(slots: number): bigint {
+  const upgrades = div(slots - INITIAL_INVENTORY_SLOTS, INVENTORY_SLOTS_PER_UPGRADE)
+  return INVENTORY_UPGRADE_COST * BigInt(upgrades + 1)
+}
+
+export const fruitImageUrl = (fruitType: number) => `${WALRUS_AGGREGATOR_URL}${BLOB_IDS[fruitType] ?? APPLE_BLOB_ID}`
+
+// fruit_nft names anything that isn't 1-9 a Watermelon
+const fruitName = (fruitType: number) => FRUIT_NAMES[fruitType] ?? FRUIT_NAMES[10]
+const rarityName = (rarity: number) => RARITY_NAMES[rarity] ?? RARITY_NAMES[RARITY_COMMON]
+
+/** fruit_nft's name, e.g. 'Epic Melon' */
+export function fruitNftName(fruitType: number, rarity: number): string {
+  if (!(rarity in RARITY_NAMES) || rarity === RARITY_COMMON) return fruitName(fruitType)
+  const prefix = rarityName(rarity)
+  return `${prefix.charAt(0).toUpperCase()}${prefix.slice(1)} ${fruitName(fruitType)}`
+}
+
+export const fruitNftDescription = (fruitType: number, rarity: number) =>
+  `A ${rarityName(rarity)} ${fruitName(fruitType)} from Fruit Game`
@@ -0,0 +1,347 @@
+import { bcs } from '@mysten/sui/bcs'
+import {
+  JsonRpcError,
+  type CoinBalance,
+  type CoinMetadata,
+  type CoinStruct,
+  type DryRunTransactionBlockResponse,
+  type DynamicFieldInfo,
+  type DynamicFieldName,
+  type EventId,
+  type MoveStruct,
+  type PaginatedCoins,
+  type PaginatedEvents,
+  type PaginatedObjectsResponse,
+  type SuiEventFilter,
+  type SuiMoveNormalizedFunction,
+  type SuiMoveNormalizedType,
+  type SuiObjectData,
+  type SuiObjectDataFilter,
+  type SuiObjectDataOptions,
+  type SuiObjectResponse,
+  type SuiObjectResponseQuery,
+  type SuiTransactionBlockResponse,
+  type SuiTransactionBlockResponseOptions,
+  type SuiTransport,
+  type SuiTransportRequestOptions,
+  type SuiTransportSubscribeOptions,
+} from '@mysten/sui/client'
+import { fromBase64, normalizeStructTag, normalizeSuiAddress, parseStructTag } from '@mysten/sui/utils'
+import type { ChainState } from './chain'
+import { ENTRY_FUNCTIONS, type Param } from './contract'
+import { executeTransaction, TransactionRejectedError } from './executor'
+import { SUI_COIN_TYPE, contentFields, hasPublicTransfer, isKind, typeOf, type SimObject } from './objects'
+
+// Answers the JSON-RPC methods the app and the SDK's transaction builder call, from a ChainState
+// instead of a fullnode. Responses have the fullnode's shapes, so a SuiClient on top of this
+// transport behaves like one talking to a real network.
+
+export interface SimulatorTransportOptions {
+  chain: ChainState
+  /** Delay before every response, to surface loading states; 0 by default */
+  latencyMs?: number
+}
+
+// Error codes a fullnode answers with
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+const TRANSACTION_REJECTED = -32002
+
+const DEFAULT_PAGE_SIZE = 50
+const REFERENCE_GAS_PRICE = '1000'
+
+const TX_CONTEXT: SuiMoveNormalizedType = {
+  MutableReference: { Struct: { address: normalizeSuiAddress('0x2'), module: 'tx_context', name: 'TxContext', typeArguments: [] } },
+}
+
+type Handler = (params: unknown[]) => unknown
+
+const invalidParams = (message: string) => new JsonRpcError(message, INVALID_PARAMS)
+
+// Page through `items` after the one `cursor` points at
+function paginate<T, C>(items: T[], cursor: C | null | undefined, limit: number | null | undefined, cursorOf: (item: T) => C, same: (a: C, b: C) => boolean) {
+  const start = cursor == null ? 0 : items.findIndex((item) => same(cursorOf(item), cursor)) + 1
+  const page = items.slice(start, start + (limit ?? DEFAULT_PAGE_SIZE))
+  const hasNextPage = start + page.length < items.length
+  return { data: page, hasNextPage, nextCursor: page.length > 0 ? cursorOf(page[page.length - 1]) : cursor ?? null }
+}
+
+// A type filter without type arguments matches every instantiation, like the fullnode's
+function matchesType(type: string, filter: string): boolean {
+  const wanted = normalizeStructTag(filter)
+  const actual = normalizeStructTag(type)
+  return wanted.includes('<') ? actual === wanted : actual.split('<')[0] === wanted
+}
+
+type StructTag = ReturnType<typeof parseStructTag>
+
+function toNormalizedType(tag: StructTag): SuiMoveNormalizedType {
+  return {
+    Struct: {
+      address: normalizeSuiAddress(tag.address),
+      module: tag.module,
+      name: tag.name,
+      typeArguments: tag.typeParams.map((param: string | StructTag) => toNormalizedType(typeof param === 'string' ? parseStructTag(param) : param)),
+    },
+  }
+}
+
+function normalizedParam(param: Param, packageId: string): SuiMoveNormalizedType {
+  if (param.kind === 'pure') return ({ u8: 'U8', u64: 'U64', address: 'Address' } as const)[param.type]
+  const struct = toNormalizedType(parseStructTag(param.type(packageId)))
+  if (param.ref === '&') return { Reference: struct }
+  if (param.ref === '&mut') return { MutableReference: struct }
+  return struct
+}
+
+// Keep only the parts of a transaction response the caller asked for
+function selectResponse(response: SuiTransactionBlockResponse, options: SuiTransactionBlockResponseOptions | null | undefined): SuiTransactionBlockResponse {
+  const selected: SuiTransactionBlockResponse = {
+    digest: response.digest,
+    timestampMs: response.timestampMs,
+    checkpoint: response.checkpoint,
+  }
+  if (options?.showInput) selected.transaction = response.transaction
+  if (options?.showRawInput) selected.rawTransaction = response.rawTransaction
+  if (options?.showEffects) selected.effects = response.effects
+  if (options?.showRawEffects) selected.rawEffects = response.rawEffects
+  if (options?.showEvents) selected.events = response.events
+  if (options?.showObjectChanges) selected.objectChanges = response.objectChanges
+  if (options?.showBalanceChanges) selected.balanceChanges = response.balanceChanges
+  return selected
+}
+
+/**
+ * A SuiTransport backed by the simulator: `new SuiClient({ transport })` reads and executes
+ * against the in-memory chain. Results are copies, so callers can't change chain state.
+ */
+export class SimulatorTransport implements SuiTransport {
+  readonly chain: ChainState
+  private readonly latencyMs: number
+  private readonly handlers: Record<string, Handler>
+
+  constructor(options: SimulatorTransportOptions) {
+    this.chain = options.chain
+    this.latencyMs = options.latencyMs ?? 0
+    this.handlers = {
+      sui_getObject: ([id, options]) => this.getObject(id as string, options as SuiObjectDataOptions | undefined),
+      sui_multiGetObjects: ([ids, options]) =>
+        (ids as string[]).map((id) => this.getObject(id, options as SuiObjectDataOptions | undefined)),
+      suix_getOwnedObjects: ([owner, query, cursor, limit]) =>
+        this.getOwnedObjects(owner as string, query as SuiObjectResponseQuery | undefined, cursor as string | null, limit as number | null),
+      suix_getDynamicFields: ([parentId, cursor, limit]) => this.getDynamicFields(parentId as string, cursor as string | null, limit as number | null),
+      suix_getDynamicFieldObject: ([parentId, name]) => this.getDynamicFieldObject(parentId as string, name as DynamicFieldName),
+      suix_getCoins: ([owner, coinType, cursor, limit]) =>
+        this.getCoins(owner as string, (coinType as string | null) ?? SUI_COIN_TYPE, cursor as string | null, limit as number | null),
+      suix_getAllCoins: ([owner, cursor, limit]) => this.getCoins(owner as string, null, cursor as string | null, limit as number | null),
+      suix_getBalance: ([owner, coinType]) => this.getBalance(owner as string, (coinType as string | null) ?? SUI_COIN_TYPE),
+      suix_getAllBalances: ([owner]) => this.getAllBalances(owner as string),
+      suix_getCoinMetadata: ([coinType]) => this.getCoinMetadata(coinType as string),
+      suix_queryEvents: ([query, cursor, limit, descending]) =>
+        this.queryEvents(query as SuiEventFilter, cursor as EventId | null, limit as number | null, descending === true),
+      sui_getTransactionBlock: ([digest, options]) =>
+        selectResponse(this.transaction(digest as string), options as SuiTransactionBlockResponseOptions | undefined),
+      sui_multiGetTransactionBlocks: ([digests, options]) =>
+        (digests as string[]).map((digest) => selectResponse(this.transaction(digest), options as SuiTransactionBlockResponseOptions | undefined)),
+      sui_executeTransactionBlock: ([bytes, signatures, options]) =>
+        this.execute(bytes as string, signatures as string[], options as SuiTransactionBlockResponseOptions | undefined),
+      sui_dryRunTransactionBlock: ([bytes]) => this.dryRun(bytes as string),
+      sui_getNormalizedMoveFunction: ([pkg, module, name]) => this.getMoveFunction(pkg as string, module as string, name as string),
+      suix_getReferenceGasPrice: () => REFERENCE_GAS_PRICE,
+      sui_getLatestCheckpointSequenceNumber: () => String(this.chain.transactions.size),
+    }
+  }
+
+  async request<T = unknown>(input: SuiTransportRequestOptions): Promise<T> {
+    const handler = this.handlers[input.method]
+    if (!handler) throw new JsonRpcError(`Method not found: ${input.method} is not implemented by the simulator`, METHOD_NOT_FOUND)
+    if (this.latencyMs > 0) await new Promise((resolve) => setTimeout(resolve, this.latencyMs))
+    input.signal?.throwIfAborted()
+    try {
+      return structuredClone(handler(input.params)) as T
+    } catch (err) {
+      if (err instanceof TransactionRejectedError) throw new JsonRpcError(err.message, TRANSACTION_REJECTED)
+      throw err
+    }
+  }
+
+  async subscribe<T = unknown>(input: SuiTransportSubscribeOptions<T>): Promise<() => Promise<boolean>> {
+    throw new JsonRpcError(`Method not found: ${input.method} is not implemented by the simulator`, METHOD_NOT_FOUND)
+  }
+
+  private renderObject(object: SimObject, options: SuiObjectDataOptions | null | undefined): SuiObjectData {
+    const { packageId } = this.chain
+    const type = typeOf(object.data, packageId)
+    const data: SuiObjectData = { objectId: object.id, version: String(object.version), digest: object.digest }
+    if (options?.showType) data.type = type
+    if (options?.showOwner) data.owner = object.owner
+    if (options?.showPreviousTransaction) data.previousTransaction = object.previousTransaction
+    if (options?.showStorageRebate) data.storageRebate = '0'
+    if (options?.showContent) {
+      data.content = object.data.kind === 'package'
+        ? { dataType: 'package', disassembled: {} }
+        : {
+            dataType: 'moveObject',
+            type,
+            hasPublicTransfer: hasPublicTransfer(object.data),
+            fields: contentFields(object, packageId, this.chain.clock.now()) as MoveStruct,
+          }
+    }
+    return data
+  }
+
+  private getObject(id: string, options: SuiObjectDataOptions | null | undefined): SuiObjectResponse {
+    const objectId = normalizeSuiAddress(id)
+    const object = this.chain.objects.get(objectId)
+    if (object) return { data: this.renderObject(object, options) }
+    const version = this.chain.deleted.get(objectId)
+    if (version !== undefined) {
+      return { error: { code: 'deleted', object_id: objectId, version: String(version), digest: '11111111111111111111111111111111' } }
+    }
+    return { error: { code: 'notExists', object_id: objectId } }
+  }
+
+  private matchesFilter(object: SimObject, filter: SuiObjectDataFilter): boolean {
+    const type = typeOf(object.data, this.chain.packageId)
+    if ('MatchAll' in filter) return filter.MatchAll.every((inner) => this.matchesFilter(object, inner))
+    if ('MatchAny' in filter) return filter.MatchAny.some((inner) => this.matchesFilter(object, inner))
+    if ('MatchNone' in filter) return !filter.MatchNone.some((inner) => this.matchesFilter(object, inner))
+    if ('StructType' in filter) return matchesType(type, filter.StructType)
+    if ('Package' in filter) return type.startsWith(`${normalizeSuiAddress(filter.Package)}::`)
+    if ('MoveModule' in filter) return type.startsWith(`${normalizeSuiAddress(filter.MoveModule.package)}::${filter.MoveModule.module}::`)
+    if ('ObjectId' in filter) return object.id === normalizeSuiAddress(filter.ObjectId)
+    if ('ObjectIds' in filter) return filter.ObjectIds.map((id) => normalizeSuiAddress(id)).includes(object.id)
+    throw invalidParams(`Object filter ${Object.keys(filter)[0]} is not implemented by the simulator`)
+  }
+
+  private getOwnedObjects(owner: string, query: SuiObjectResponseQuery | null | undefined, cursor: string | null, limit: number | null): PaginatedObjectsResponse {
+    this.chain.fund(owner)
+    const filter = query?.filter
+    const owned = this.chain.ownedBy(owner).filter((object) => !filter || this.matchesFilter(object, filter))
+    const page = paginate(owned, cursor, limit, (object) => object.id, (a, b) => a === b)
+    return { ...page, data: page.data.map((object) => ({ data: this.renderObject(object, query?.options) })) }
+  }
+
+  private dynamicFields(parentId: string): SimObject[] {
+    return this.chain.childrenOf(parentId).filter((object) => isKind(object, 'tableEntry'))
+  }
+
+  private getDynamicFields(parentId: string, cursor: string | null, limit: number | null) {
+    const page = paginate(this.dynamicFields(parentId), cursor, limit, (object) => object.id, (a, b) => a === b)
+    const fields: DynamicFieldInfo[] = page.data.map((object) => {
+      const key = isKind(object, 'tableEntry') ? object.data.key : object.id
+      return {
+        name: { type: 'address', value: key },
+        bcsName: bcs.Address.serialize(key).toBase64(),
+        bcsEncoding: 'base64',
+        type: 'DynamicField',
+        objectType: `${this.chain.packageId}::leaderboard::LeaderboardEntry`,
+        objectId: object.id,
+        version: String(object.version),
+        digest: object.digest,
+      }
+    })
+    return { ...page, data: fields }
+  }
+
+  private getDynamicFieldObject(parentId: string, name: DynamicFieldName): SuiObjectResponse {
+    const key = normalizeSuiAddress(String(name.value))
+    const field = this.dynamicFields(parentId).find((object) => isKind(object, 'tableEntry') && object.data.key === key)
+    if (!field) return { error: { code: 'dynamicFieldNotFound', parent_object_id: normalizeSuiAddress(parentId) } }
+    return { data: this.renderObject(field, { showType: true, showOwner: true, showContent: true, showPreviousTransaction: true }) }
+  }
+
+  private coins(owner: string, coinType: string | null): SimObject[] {
+    this.chain.fund(owner)
+    const wanted = coinType && normalizeStructTag(coinType)
+    return this.chain.ownedBy(owner).filter(
+      (object) => isKind(object, 'coin') && (!wanted || normalizeStructTag(object.data.coinType) === wanted)
+    )
+  }
+
+  private getCoins(owner: string, coinType: string | null, cursor: string | null, limit: number | null): PaginatedCoins {
+    const page = paginate(this.coins(owner, coinType), cursor, limit, (object) => object.id, (a, b) => a === b)
+    const data: CoinStruct[] = page.data.flatMap((object) => isKind(object, 'coin')
+      ? [{
+          coinObjectId: object.id,
+          coinType: object.data.coinType,
+          balance: object.data.balance.toString(),
+          version: String(object.version),
+          digest: object.digest,
+          previousTransaction: object.previousTransaction,
+        }]
+      : [])
+    return { ...page, data }
+  }
+
+  private getBalance(owner: string, coinType: string): CoinBalance {
+    const coins = this.coins(owner, coinType)
+    const total = coins.reduce((sum, object) => sum + (isKind(object, 'coin') ? object.data.balance : 0n), 0n)
+    return { coinType, coinObjectCount: coins.length, totalBalance: total.toString(), lockedBalance: {} }
+  }
+
+  private getAllBalances(owner: string): CoinBalance[] {
+    const types = new Set(this.coins(owner, null).flatMap((object) => (isKind(object, 'coin') ? [object.data.coinType] : [])))
+    return [...types].map((coinType) => this.getBalance(owner, coinType))
+  }
+
+  private getCoinMetadata(coinType: string): CoinMetadata | null {
+    const wanted = normalizeStructTag(coinType)
+    for (const object of this.chain.objects.values()) {
+      if (isKind(object, 'coinMetadata') && normalizeStructTag(object.data.coinType) === wanted) {
+        const { decimals, name, symbol, description, iconUrl } = object.data
+        return { id: object.id, decimals, name, symbol, description, iconUrl }
+      }
+    }
+    return null
+  }
+
+  private matchesEvent(event: PaginatedEvents['data'][number], filter: SuiEventFilter): boolean {
+    if ('All' in filter) return true
+    if ('MoveEventType' in filter) return normalizeStructTag(event.type) === normalizeStructTag(filter.MoveEventType)
+    if ('MoveEventModule' in filter) {
+      const { address, module } = parseStructTag(event.type)
+      return address === normalizeSuiAddress(filter.MoveEventModule.package) && module === filter.MoveEventModule.module
+    }
+    if ('MoveModule' in filter) {
+      return event.packageId === normalizeSuiAddress(filter.MoveModule.package) && event.transactionModule === filter.MoveModule.module
+    }
+    if ('Sender' in filter) return event.sender === normalizeSuiAddress(filter.Sender)
+    if ('Transaction' in filter) return event.id.txDigest === filter.Transaction
+    throw invalidParams(`Event filter ${Object.keys(filter)[0]} is not implemented by the simulator`)
+  }
+
+  private queryEvents(query: SuiEventFilter, cursor: EventId | null, limit: number | null, descending: boolean): PaginatedEvents {
+    const matching = this.chain.events.filter((event) => this.matchesEvent(event, query))
+    if (descending) matching.reverse()
+    return paginate(matching, cursor, limit, (event) => event.id, (a, b) => a.txDigest === b.txDigest && a.eventSeq === b.eventSeq)
+  }
+
+  private transaction(digest: string): SuiTransactionBlockResponse {
+    const response = this.chain.transactions.get(digest)
+    if (!response) throw invalidParams(`Could not find the referenced transaction [TransactionDigest(${digest})]`)
+    return response
+  }
+
+  private execute(bytes: string, signatures: string[], options: SuiTransactionBlockResponseOptions | null | undefined) {
+    const response = executeTransaction(this.chain, fromBase64(bytes), { signatures })
+    return selectResponse(response, options)
+  }
+
+  private dryRun(bytes: string): DryRunTransactionBlockResponse {
+    const { effects, events, objectChanges, balanceChanges, input } = executeTransaction(this.chain, fromBase64(bytes), { dryRun: true })
+    return { effects, events, objectChanges, balanceChanges, input }
+  }
+
+  private getMoveFunction(pkg: string, module: string, name: string): SuiMoveNormalizedFunction {
+    const fn = normalizeSuiAddress(pkg) === this.chain.packageId ? ENTRY_FUNCTIONS[`${module}::${name}`] : undefined
+    if (!fn) throw invalidParams(`No function was found with function name ${name} in ${pkg}::${module}`)
+    return {
+      isEntry: true,
+      visibility: 'Private',
+      typeParameters: [],
+      parameters: [...fn.params.map((param) => normalizedParam(param, this.chain.packageId)), TX_CONTEXT],
+      return: [],
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { currentFakeWallet, executeAs, requireFakeWallet, type FakeWallet } from './wallet'
+
+// Stand-ins for the @mysten/dapp-kit hooks the components use; see src/test/setup.ts
+
+interface SignAndExecuteCallbacks {
+  onSuccess?: (result: SuiTransactionBlockResponse) => void | Promise<void>
+  onError?: (error: Error) => void
+}
+
+interface FakeSignAndExecute {
+  mutate: (input: { transaction: Transaction | string }, callbacks?: SignAndExecuteCallbacks) => void
+  mutateAsync: (input: { transaction: Transaction | string }) => Promise<SuiTransactionBlockResponse>
+  isPending: boolean
+}
+
+// One instance per wallet, so callbacks depending on it stay stable across renders
+const signAndExecuteByWallet = new WeakMap<FakeWallet, FakeSignAndExecute>()
+
+export function useCurrentAccount() {
+  return currentFakeWallet()?.account ?? null
+}
+
+export function useSuiClient() {
+  return requireFakeWallet().simulator.client
+}
+
+/** Signs with the wallet key and pays gas from the wallet's own coins, without a popup */
+export function useSignAndExecuteTransaction(): FakeSignAndExecute {
+  const wallet = requireFakeWallet()
+  let fake = signAndExecuteByWallet.get(wallet)
+  if (!fake) {
+    const mutateAsync = async ({ transaction }: { transaction: Transaction | string }) =>
+      executeAs(wallet, typeof transaction === 'string' ? Transaction.from(transaction) : transaction)
+    fake = {
+      mutateAsync,
+      mutate: (input, callbacks) => {
+        mutateAsync(input)
+          .then(async (result) => { await callbacks?.onSuccess?.(result) })
+          .catch((err) => callbacks?.onError?.(err instanceof Error ? err : new Error(String(err))))
+      },
+      isPending: false,
+    }
+    signAndExecuteByWallet.set(wallet, fake)
+  }
+  return fake
+}
@@ -0,0 +1,2 @@
+// Stands in for image imports whose files are missing from the repo
+export default 'missing-image.png'
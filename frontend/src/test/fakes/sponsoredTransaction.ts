@@ -0,0 +1,88 @@
+import type { Signer } from '@mysten/sui/cryptography'
+import { Transaction } from '@mysten/sui/transactions'
+import { fromBase64 } from '@mysten/sui/utils'
+import type {
+  SponsoredTransactionInput,
+  SponsoredTransactionResult,
+  UseSponsoredTransactionReturn,
+} from '../../hooks/useSponsoredTransaction'
+import {
+  completeSponsoredTransaction,
+  executeSponsoredTransaction,
+  sponsorTransaction,
+} from '../../utils/sponsorTransaction'
+import { previewTransaction } from '../../utils/transactionPreview'
+import { assertExecuted, EXECUTE_OPTIONS, requireFakeWallet, type FakeWallet } from './wallet'
+
+// Stand-in for hooks/useSponsoredTransaction; see src/test/setup.ts.
+// Transactions go through the simulator's relay like the real sponsored path, but the wallet
+// signs without a popup, `confirm: true` previews are accepted at once and there is no
+// self-paid fallback.
+
+export { SponsorRelayError } from '../../utils/sponsorTransaction'
+
+async function executeSponsored(wallet: FakeWallet, tx: Transaction, signer: Signer): Promise<SponsoredTransactionResult> {
+  const client = wallet.simulator.client
+  const kindBytes = await tx.build({ client, onlyTransactionKind: true })
+  const sponsored = await sponsorTransaction(signer.toSuiAddress(), kindBytes)
+  try {
+    const userSigned = await signer.signTransaction(fromBase64(sponsored.bytes))
+    const response = await client.executeTransactionBlock({
+      transactionBlock: sponsored.bytes,
+      signature: [userSigned.signature, sponsored.signature],
+      options: EXECUTE_OPTIONS,
+    })
+    return { ...assertExecuted(response), executionPath: 'sponsored' }
+  } finally {
+    void completeSponsoredTransaction(sponsored.digest)
+  }
+}
+
+// One instance per wallet, so callbacks depending on it stay stable across renders
+const hookByWallet = new WeakMap<FakeWallet, UseSponsoredTransactionReturn>()
+
+export function useSponsoredTransaction(): UseSponsoredTransactionReturn {
+  const wallet = requireFakeWallet()
+  let hook = hookByWallet.get(wallet)
+  if (!hook) {
+    const mutateAsync = async (input: SponsoredTransactionInput) => {
+      wallet.sponsoredTransactions.push(input.transaction)
+      return executeSponsored(wallet, input.transaction, input.signer ?? wallet.keypair)
+    }
+    hook = {
+      mutateAsync,
+      mutate: (input, callbacks) => {
+        mutateAsync(input)
+          .then(async (result) => { await callbacks?.onSuccess?.(result) })
+          .catch((err) => callbacks?.onError?.(err instanceof Error ? err : new Error(String(err))))
+      },
+      preview: ({ transaction }) => previewTransaction(wallet.simulator.client, transaction, wallet.account.address),
+      confirmation: null,
+      isPending: false,
+      error: null,
+      lastExecutionPath: null,
+    }
+    hookByWallet.set(wallet, hook)
+  }
+  return hook
+}
+
+export async function executeFullySponsoredTransaction(tx: Transaction): Promise<SponsoredTransactionResult> {
+  const kindBytes = await tx.build({ client: requireFakeWallet().simulator.client, onlyTransactionKind: true })
+  const response = await executeSponsoredTransaction(kindBytes)
+  return { ...assertExecuted(response), executionPath: 'sponsored' }
+}
+
+export async function mintSeedsToUser(
+  recipientAddress: string,
+  amount: bigint,
+  packageId: string,
+  seedAdminCapId: string
+): Promise<SponsoredTransactionResult> {
+  const tx = new Transaction()
+  tx.moveCall({
+    target: `${packageId}::seed::mint_seeds`,
+    arguments: [tx.object(seedAdminCapId), tx.pure.u64(amount), tx.pure.address(recipientAddress)],
+  })
+  return executeFullySponsoredTransaction(tx)
+}
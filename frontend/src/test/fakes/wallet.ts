@@ -0,0 +1,79 @@
+import type { useCurrentAccount } from '@mysten/dapp-kit'
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import type { Signer } from '@mysten/sui/cryptography'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import type { Transaction } from '@mysten/sui/transactions'
+import { createSimulator, type Simulator, type SimulatorOptions } from '../../simulator'
+import { TransactionFailedError, transactionOutcome } from '../../utils/resilientExecution'
+
+type WalletAccount = NonNullable<ReturnType<typeof useCurrentAccount>>
+
+/** A connected wallet backed by its own simulated chain */
+export interface FakeWallet {
+  simulator: Simulator
+  keypair: Ed25519Keypair
+  /** What the fake useCurrentAccount returns */
+  account: WalletAccount
+  /** Every transaction handed to the fake useSponsoredTransaction, in order */
+  sponsoredTransactions: Transaction[]
+}
+
+export const EXECUTE_OPTIONS = { showEffects: true, showEvents: true, showObjectChanges: true }
+
+let current: FakeWallet | null = null
+
+/**
+ * Connect a fresh wallet on a fresh simulator; the fake dapp-kit and sponsor hooks act for it
+ * until the next call or disconnectFakeWallet.
+ */
+export function connectFakeWallet(options: SimulatorOptions = {}): FakeWallet {
+  const keypair = new Ed25519Keypair()
+  current = {
+    simulator: createSimulator(options),
+    keypair,
+    account: {
+      address: keypair.toSuiAddress(),
+      publicKey: keypair.getPublicKey().toRawBytes(),
+      chains: ['sui:localnet'],
+      features: ['sui:signTransaction', 'sui:signAndExecuteTransaction'],
+      label: 'Test wallet',
+    },
+    sponsoredTransactions: [],
+  }
+  return current
+}
+
+export function disconnectFakeWallet() {
+  current = null
+}
+
+/** The connected fake wallet, or null like useCurrentAccount before connecting */
+export function currentFakeWallet(): FakeWallet | null {
+  return current
+}
+
+export function requireFakeWallet(): FakeWallet {
+  if (!current) throw new Error('No fake wallet connected; call connectFakeWallet() first')
+  return current
+}
+
+/** Fail like the real hooks do when the transaction aborted on chain */
+export function assertExecuted(response: SuiTransactionBlockResponse): SuiTransactionBlockResponse {
+  const outcome = transactionOutcome(response)
+  if (outcome.status === 'failure') throw new TransactionFailedError(response, outcome.error)
+  return response
+}
+
+/** Sign and execute `tx` as the wallet (or `signer`), paying gas from the signer's faucet coins */
+export async function executeAs(
+  wallet: FakeWallet,
+  tx: Transaction,
+  signer: Signer = wallet.keypair
+): Promise<SuiTransactionBlockResponse> {
+  const response = await wallet.simulator.client.signAndExecuteTransaction({
+    signer,
+    transaction: tx,
+    options: EXECUTE_OPTIONS,
+  })
+  return assertExecuted(response)
+}
@@ -0,0 +1,75 @@
+import type { Signer } from '@mysten/sui/cryptography'
+import { Transaction } from '@mysten/sui/transactions'
+import { land, leaderboard, player } from '../bindings'
+import type { InventoryFruitData, ObjectData, PlantedFruitData } from '../simulator/objects'
+import { requireFakeWallet, executeAs, type FakeWallet } from './fakes/wallet'
+
+// Arrange game state on the fake wallet's chain. Objects are created with real transactions;
+// their contents are then edited in place, so a test can set up e.g. a full inventory directly.
+
+/** `owner`'s first object of `kind` */
+function ownedId(wallet: FakeWallet, owner: string, kind: ObjectData['kind']): string {
+  const object = wallet.simulator.chain.ownedBy(owner).find((o) => o.data.kind === kind)
+  if (!object) throw new Error(`${owner} owns no ${kind}`)
+  return object.id
+}
+
+/** Run player::create_player; returns the new account and inventory IDs */
+export async function createPlayer(signer?: Signer): Promise<{ accountId: string; inventoryId: string }> {
+  const wallet = requireFakeWallet()
+  const tx = new Transaction()
+  player.createPlayer(tx)
+  await executeAs(wallet, tx, signer)
+  const owner = signer?.toSuiAddress() ?? wallet.account.address
+  return { accountId: ownedId(wallet, owner, 'playerAccount'), inventoryId: ownedId(wallet, owner, 'playerInventory') }
+}
+
+/** Run land::create_first_land; returns the new land's ID */
+export async function createLand(): Promise<string> {
+  const wallet = requireFakeWallet()
+  const tx = new Transaction()
+  land.createFirstLand(tx)
+  await executeAs(wallet, tx)
+  return ownedId(wallet, wallet.account.address, 'playerLand')
+}
+
+/** Start a leaderboard round from the wallet; returns the round's ID and target fruit */
+export async function createRound(): Promise<{ roundId: string; fruitType: number }> {
+  const wallet = requireFakeWallet()
+  const { simulator } = wallet
+  const tx = new Transaction()
+  leaderboard.createNewRound(tx)
+  await executeAs(wallet, tx)
+  const round = [...simulator.chain.objects.values()].find((o) => o.data.kind === 'leaderboardRound')
+  if (!round || round.data.kind !== 'leaderboardRound') throw new Error('No round was created')
+  return { roundId: round.id, fruitType: round.data.fruitType }
+}
+
+/** Run leaderboard::join_leaderboard for the wallet (or `signer`), paying the fee from gas */
+export async function joinRound(roundId: string, inventoryId: string, signer?: Signer) {
+  const tx = new Transaction()
+  const [fee] = tx.splitCoins(tx.gas, [tx.pure.u64(10_000_000n)])
+  leaderboard.joinLeaderboard(tx, { round: roundId, inventory: inventoryId, payment: fee })
+  await executeAs(requireFakeWallet(), tx, signer)
+}
+
+/** Change an object's contents in place, outside of any transaction */
+export function editObject<K extends ObjectData['kind']>(
+  id: string,
+  kind: K,
+  edit: (data: Extract<ObjectData, { kind: K }>) => void
+) {
+  const object = requireFakeWallet().simulator.chain.objects.get(id)
+  if (!object || object.data.kind !== kind) throw new Error(`${id} is not a ${kind}`)
+  edit(object.data as Extract<ObjectData, { kind: K }>)
+}
+
+/** A harvested fruit for PlayerInventory.fruits */
+export function inventoryFruit(fruitType: number, rarity: number, weight: number): InventoryFruitData {
+  return { fruitType, rarity, weight, imageUrl: '', harvestedAt: Date.now() }
+}
+
+/** A growing fruit for PlayerLand.slots; ready once its rarity's grow time has passed */
+export function plantedFruit(rarity: number, plantedAt: number): PlantedFruitData {
+  return { fruitType: 1, rarity, weight: 10, imageUrl: '', seedsUsed: 1_000_000_000n, plantedAt, speedBoostMs: 0 }
+}
@@ -0,0 +1,26 @@
+import '@testing-library/jest-dom/vitest'
+import { cleanup } from '@testing-library/react'
+import { afterEach, vi } from 'vitest'
+import { disconnectFakeWallet } from './fakes/wallet'
+
+// Every test file talks to the fake wallet's simulator instead of a wallet, relay and fullnode.
+// Tests connect a wallet with connectFakeWallet() and arrange state with ./fixtures.
+
+vi.mock('@mysten/dapp-kit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@mysten/dapp-kit')>()),
+  ...(await import('./fakes/dappKit')),
+}))
+
+vi.mock('../hooks/useSponsoredTransaction', () => import('./fakes/sponsoredTransaction'))
+
+// The relay helpers post to the offline simulator; point them at the current wallet's chain
+vi.mock('../simulator/offline', async () => {
+  const { requireFakeWallet } = await import('./fakes/wallet')
+  return { getOfflineSimulator: () => requireFakeWallet().simulator }
+})
+
+afterEach(() => {
+  cleanup()
+  disconnectFakeWallet()
+  localStorage.clear()
+})
@@ -0,0 +1,140 @@
+import type { EventId, SuiClient, SuiEvent } from '@mysten/sui/client'
+import { PACKAGE_ID } from '../config/sui'
+
+// The contract's events, polled with one cursor per module, so the UI sees what other players
+// (and the leaderboard's prize payouts) changed without a reload.
+
+const POLL_INTERVAL_MS = 5000
+const PAGE_SIZE = 50
+const MIST_PER_SUI = 1_000_000_000
+
+/** events.move holds the game, land, inventory, session and NFT events; rounds emit their own */
+const FEED_MODULES = ['events', 'leaderboard'] as const
+
+export interface GameEvent {
+  /** Struct name, e.g. 'PrizeDistributed' */
+  name: string
+  module: string
+  /** The event's fields as the fullnode renders them (u64 as decimal strings) */
+  fields: Record<string, unknown>
+  sender: string
+  txDigest: string
+  timestampMs: number | null
+}
+
+type Listener = (events: GameEvent[]) => void
+
+interface Run {
+  client: SuiClient
+  /** Last event seen per module; a module is missing until its starting point is known */
+  cursors: Map<string, EventId | null>
+  timer: ReturnType<typeof setTimeout> | null
+  stopped: boolean
+}
+
+function toGameEvent(event: SuiEvent): GameEvent {
+  // `${package}::${module}::${name}`
+  const [, module, name] = event.type.split('<')[0].split('::')
+  return {
+    name,
+    module,
+    fields: (event.parsedJson ?? {}) as Record<string, unknown>,
+    sender: event.sender,
+    txDigest: event.id.txDigest,
+    timestampMs: event.timestampMs ? Number(event.timestampMs) : null,
+  }
+}
+
+/**
+ * Polls queryEvents while anyone is subscribed and hands each batch of new events to every
+ * listener. Starts from the latest event, so a new subscriber only hears about what happens next.
+ */
+class EventFeed {
+  private readonly listeners = new Set<Listener>()
+  private run: Run | null = null
+
+  subscribe = (client: SuiClient, listener: Listener): (() => void) => {
+    this.listeners.add(listener)
+    if (!this.run) this.start(client)
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.stop()
+    }
+  }
+
+  private start(client: SuiClient) {
+    const run: Run = { client, cursors: new Map(), timer: null, stopped: false }
+    this.run = run
+    void this.tick(run)
+  }
+
+  private stop() {
+    if (!this.run) return
+    this.run.stopped = true
+    if (this.run.timer) clearTimeout(this.run.timer)
+    this.run = null
+  }
+
+  private async tick(run: Run) {
+    // Hidden tabs skip a beat instead of polling in the background
+    if (typeof document === 'undefined' || !document.hidden) {
+      try {
+        const events = await this.poll(run)
+        if (!run.stopped && events.length > 0) this.listeners.forEach((listener) => listener(events))
+      } catch (err) {
+        console.warn('Event feed poll failed:', err)
+      }
+    }
+    if (!run.stopped) run.timer = setTimeout(() => void this.tick(run), POLL_INTERVAL_MS)
+  }
+
+  // Everything after each module's cursor, oldest first. Cursors only move once every module
+  // was read, so a failed poll is simply repeated.
+  private async poll(run: Run): Promise<GameEvent[]> {
+    const results = await Promise.all(FEED_MODULES.map(async (module) => {
+      const query = { MoveEventModule: { package: PACKAGE_ID, module } }
+      if (!run.cursors.has(module)) {
+        const latest = await run.client.queryEvents({ query, limit: 1, order: 'descending' })
+        return { module, cursor: latest.data[0]?.id ?? null, events: [] }
+      }
+      const events: SuiEvent[] = []
+      let cursor = run.cursors.get(module) ?? null
+      let hasNextPage = true
+      while (hasNextPage) {
+        const page = await run.client.queryEvents({ query, cursor, limit: PAGE_SIZE, order: 'ascending' })
+        events.push(...page.data)
+        cursor = page.nextCursor ?? cursor
+        hasNextPage = page.hasNextPage
+      }
+      return { module, cursor, events }
+    }))
+    for (const { module, cursor } of results) run.cursors.set(module, cursor)
+    return results
+      .flatMap((result) => result.events)
+      .map(toGameEvent)
+      .sort((a, b) => (a.timestampMs ?? 0) - (b.timestampMs ?? 0))
+  }
+}
+
+export const eventFeed = new EventFeed()
+
+const shortAddress = (value: unknown) => (typeof value === 'string' ? `${value.slice(0, 6)}...${value.slice(-4)}` : 'someone')
+
+/**
+ * What to tell `address` about an event someone else caused, or null when it doesn't concern
+ * them. The player's own actions already report their result where they were made.
+ */
+export function notificationFor(event: GameEvent, address: string): string | null {
+  const isMe = (value: unknown) => typeof value === 'string' && value.toLowerCase() === address.toLowerCase()
+  const { fields } = event
+  switch (event.name) {
+    case 'PrizeDistributed':
+      if (!isMe(fields.winner)) return null
+      return `🏆 You placed #${String(fields.rank)} in round ${String(fields.round_id)} and won ${(Number(fields.prize_amount) / MIST_PER_SUI).toFixed(3)} SUI!`
+    case 'FruitNFTTransferred':
+      if (!isMe(fields.to) || isMe(event.sender)) return null
+      return `💎 ${shortAddress(fields.from)} sent you a Fruit NFT`
+    default:
+      return null
+  }
+}
@@ -0,0 +1,144 @@
+import type { SuiClient } from '@mysten/sui/client'
+import type { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { decodeFarmSession, decodeObject, decodeSessionReceipt } from 'fruit-merge-shared/objectDecoders'
+import { PACKAGE_ID } from '../config/sui'
+
+// Farm sessions (see contract/sources/session.move): the player hands a land, their inventory
+// and a SEED allowance to a shared FarmSession once, and an in-memory session key signs the
+// routine farm actions until the session expires or is ended.
+
+/** Scope bits, mirroring session.move */
+export const SESSION_SCOPE = {
+  plant: 1,
+  tools: 2,
+  harvest: 4,
+  merge: 8,
+} as const
+
+export type SessionAction = keyof typeof SESSION_SCOPE
+
+export const SESSION_SCOPE_ALL = Object.values(SESSION_SCOPE).reduce((all, bit) => all | bit, 0)
+
+// Stop using the key a little before the on-chain expiry, so actions don't abort in flight
+const EXPIRY_MARGIN_MS = 30_000
+
+export interface FarmSession {
+  sessionId: string
+  /** Owned by the player; needed to end the session */
+  receiptId: string
+  owner: string
+  landId: string
+  inventoryId: string
+  expiresAt: number
+  scope: number
+  /** Unspent SEED allowance in base units */
+  allowance: bigint
+  /**
+   * The session key and its SessionCap. Only set in the tab that started the session; a session
+   * found on chain after a reload can only be ended.
+   */
+  signer: { keypair: Ed25519Keypair; capId: string } | null
+}
+
+/** A session this tab holds the key for */
+export type SignedFarmSession = FarmSession & { signer: NonNullable<FarmSession['signer']> }
+
+type Listener = () => void
+
+/** The connected player's farm session, shared by every component */
+class FarmSessionStore {
+  private session: FarmSession | null = null
+  private readonly listeners = new Set<Listener>()
+  private readonly lookups = new Map<string, Promise<void>>()
+
+  getSession = (): FarmSession | null => this.session
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  set(session: FarmSession | null) {
+    this.session = session
+    this.listeners.forEach((listener) => listener())
+  }
+
+  update(patch: Partial<FarmSession>) {
+    if (this.session) this.set({ ...this.session, ...patch })
+  }
+
+  /**
+   * Look up an open session the owner holds a receipt for, e.g. one started before a reload.
+   * Runs once per owner unless `force` is set.
+   */
+  discover(client: SuiClient, owner: string, force = false): Promise<void> {
+    const pending = this.lookups.get(owner)
+    if (pending && !force) return pending
+    const lookup = findOpenSession(client, owner)
+      .then((found) => {
+        // Keep the key of a session started in this tab
+        if (this.session?.owner === owner && this.session.sessionId === found?.sessionId) return
+        if (found || this.session?.owner === owner) this.set(found)
+      })
+      .catch((err) => console.error('Error looking up farm session:', err))
+    this.lookups.set(owner, lookup)
+    return lookup
+  }
+}
+
+export const farmSessionStore = new FarmSessionStore()
+
+/** Read a FarmSession object's fields */
+export async function fetchSessionFields(client: SuiClient, sessionId: string) {
+  const obj = await client.getObject({ id: sessionId, options: { showContent: true } })
+  // Ended sessions are deleted
+  if (!obj.data) return null
+  const { owner, landId, inventoryId, expiresAt, scope, allowance } = decodeObject(obj, decodeFarmSession)
+  return { owner, landId, inventoryId, expiresAt, scope, allowance: BigInt(allowance) }
+}
+
+async function findOpenSession(client: SuiClient, owner: string): Promise<FarmSession | null> {
+  const receipts = await client.getOwnedObjects({
+    owner,
+    options: { showContent: true },
+    filter: { StructType: `${PACKAGE_ID}::session::SessionReceipt` },
+  })
+  const receipt = receipts.data[0]
+  if (!receipt) return null
+  const { id: receiptId, sessionId } = decodeObject(receipt, decodeSessionReceipt)
+  const fields = await fetchSessionFields(client, sessionId)
+  if (!fields) return null
+  return { sessionId, receiptId, ...fields, signer: null }
+}
+
+/** Whether the session key may perform an action right now */
+export function sessionAllows(
+  session: FarmSession | null,
+  action: SessionAction,
+  now = Date.now()
+): session is SignedFarmSession {
+  return !!session?.signer
+    && now < session.expiresAt - EXPIRY_MARGIN_MS
+    && (session.scope & SESSION_SCOPE[action]) !== 0
+}
+
+/**
+ * The session to sign an action on `objectId` with, or null when no session holds the object.
+ * Throws when a session holds it but this tab can't act for it; the player has to end it first.
+ */
+export function sessionFor(
+  session: FarmSession | null,
+  objectId: string | null,
+  action: SessionAction
+): SignedFarmSession | null {
+  if (!session || !objectId || (session.landId !== objectId && session.inventoryId !== objectId)) return null
+  if (sessionAllows(session, action)) return session
+  if (!session.signer) throw new Error('Your farm is in a session started earlier. End it to get your farm back.')
+  if ((session.scope & SESSION_SCOPE[action]) === 0) throw new Error(`Your farm session doesn't allow ${action} actions.`)
+  throw new Error('Your farm session has expired. End it to get your farm back.')
+}
+
+/** The session and cap every delegated `session::` call starts with */
+export function sessionObjects(session: SignedFarmSession) {
+  return { session: session.sessionId, cap: session.signer.capId }
+}
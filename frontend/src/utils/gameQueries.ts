@@ -0,0 +1,63 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query'
+import type { BalanceChange, ObjectOwner, SuiClient, SuiObjectChange, SuiTransactionBlockResponse } from '@mysten/sui/client'
+
+// React Query keys for on-chain data. Keys say what they were read from, so a transaction's
+// effects name exactly the queries to refetch:
+//   ['object', id, ...]         read from one object (and its dynamic fields)
+//   ['objects', type, ...]      depends on which objects of a struct type exist or what they hold
+//   ['balance', coinType, owner]
+
+export const queryKeys = {
+  /** One object decoded as `struct`; anything else read from it goes after */
+  object: (id: string, struct: string, ...rest: string[]) => ['object', id, struct, ...rest] as const,
+  /** A query over every object of `type`, e.g. the ones an address owns */
+  objects: (type: string, ...scope: string[]) => ['objects', type, ...scope] as const,
+  balance: (coinType: string, owner: string) => ['balance', coinType, owner] as const,
+  coinMetadata: (coinType: string) => ['coinMetadata', coinType] as const,
+}
+
+/** What to load with a transaction to invalidate from its effects */
+export const EFFECTS_RESPONSE_OPTIONS = { showObjectChanges: true, showBalanceChanges: true }
+
+// multiGetTransactionBlocks takes at most this many digests
+const MAX_DIGESTS_PER_REQUEST = 50
+
+const addressOf = (owner: ObjectOwner): string | null =>
+  typeof owner === 'object' && 'AddressOwner' in owner ? owner.AddressOwner : null
+
+/** The queries a transaction's object and balance changes make stale */
+export function keysTouchedBy(response: Pick<SuiTransactionBlockResponse, 'objectChanges' | 'balanceChanges'>): QueryKey[] {
+  const keys = new Map<string, QueryKey>()
+  const add = (key: QueryKey) => keys.set(JSON.stringify(key), key)
+
+  for (const change of response.objectChanges ?? ([] as SuiObjectChange[])) {
+    if (change.type === 'published') continue
+    add(['object', change.objectId])
+    add(['objects', change.objectType])
+  }
+  for (const change of response.balanceChanges ?? ([] as BalanceChange[])) {
+    const owner = addressOf(change.owner)
+    if (owner) add(queryKeys.balance(change.coinType, owner))
+  }
+  return [...keys.values()]
+}
+
+/** Refetch what a final transaction changed; resolves once active queries are fresh */
+export async function invalidateTransactionEffects(
+  queryClient: QueryClient,
+  response: Pick<SuiTransactionBlockResponse, 'objectChanges' | 'balanceChanges'>
+): Promise<void> {
+  await Promise.all(keysTouchedBy(response).map((queryKey) => queryClient.invalidateQueries({ queryKey })))
+}
+
+/** Refetch what other transactions changed, e.g. ones seen in the event feed */
+export async function invalidateTransactions(client: SuiClient, queryClient: QueryClient, digests: string[]): Promise<void> {
+  const unique = [...new Set(digests)]
+  for (let i = 0; i < unique.length; i += MAX_DIGESTS_PER_REQUEST) {
+    const responses = await client.multiGetTransactionBlocks({
+      digests: unique.slice(i, i + MAX_DIGESTS_PER_REQUEST),
+      options: EFFECTS_RESPONSE_OPTIONS,
+    })
+    await Promise.all(responses.map((response) => invalidateTransactionEffects(queryClient, response)))
+  }
+}
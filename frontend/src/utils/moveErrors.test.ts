@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { PACKAGE_ID } from '../config/sui'
+import { describeMoveAbort, describeTransactionError, parseMoveAbort } from './moveErrors'
+
+const GAME_PACKAGE = normalizeSuiAddress(PACKAGE_ID)
+const OTHER_PACKAGE = normalizeSuiAddress('0xabc')
+
+// The two ways the RPC reports an abort; `address` is printed without 0x in the debug format
+const debugAbort = (address: string, module: string, functionName: string | null, code: number, command?: number) =>
+  `Error checking transaction input objects: MoveAbort(MoveLocation { module: ModuleId { address: ${address.slice(2)}, ` +
+  `name: Identifier("${module}") }, function: 5, instruction: 31, function_name: ${functionName ? `Some("${functionName}")` : 'None'} }, ${code})` +
+  (command === undefined ? '' : ` in command ${command}`)
+const readableAbort = (address: string, module: string, functionName: string, code: number, command: string) =>
+  `MoveAbort in ${command} command, abort code: ${code}, in '${address}::${module}::${functionName}' (line 195)`
+
+describe('parseMoveAbort', () => {
+  it('reads the debug format', () => {
+    expect(parseMoveAbort(new Error(debugAbort(GAME_PACKAGE, 'land', 'plant_in_slot', 300, 2)))).toEqual({
+      packageId: GAME_PACKAGE,
+      module: 'land',
+      functionName: 'plant_in_slot',
+      code: 300,
+      command: 2,
+    })
+  })
+
+  it('reads the debug format without a function name or command', () => {
+    expect(parseMoveAbort(debugAbort(GAME_PACKAGE, 'market', null, 107))).toEqual({
+      packageId: GAME_PACKAGE,
+      module: 'market',
+      functionName: undefined,
+      code: 107,
+      command: undefined,
+    })
+  })
+
+  it('reads the clever-error format, with commands counted from zero', () => {
+    expect(parseMoveAbort(new Error(readableAbort(GAME_PACKAGE, 'land', 'plant_in_slot', 300, '2nd')))).toEqual({
+      packageId: GAME_PACKAGE,
+      module: 'land',
+      functionName: 'plant_in_slot',
+      code: 300,
+      command: 1,
+    })
+  })
+
+  it('returns null for anything else', () => {
+    expect(parseMoveAbort(new Error('Transaction was rejected'))).toBeNull()
+    expect(parseMoveAbort('MoveAbort in command')).toBeNull()
+  })
+})
+
+describe('describeMoveAbort', () => {
+  const abort = (packageId: string, module: string, code: number, functionName?: string) =>
+    ({ packageId, module, code, functionName })
+
+  it('uses module and function specific messages before the shared codes', () => {
+    expect(describeMoveAbort(abort(GAME_PACKAGE, 'player', 402, 'upgrade_inventory'))).toBe('Your inventory is already at its maximum size.')
+    expect(describeMoveAbort(abort(GAME_PACKAGE, 'player', 402, 'add_fruit'))).toMatch(/inventory is full/)
+    expect(describeMoveAbort(abort(GAME_PACKAGE, 'leaderboard', 1002))).toBe('You already joined this round.')
+  })
+
+  it('only decodes framework aborts it knows', () => {
+    expect(describeMoveAbort(abort(normalizeSuiAddress('0x2'), 'balance', 2))).toBe('Not enough coins for this payment.')
+    expect(describeMoveAbort(abort(normalizeSuiAddress('0x2'), 'land', 300))).toBeNull()
+  })
+
+  it("ignores other packages' modules named like the game's", () => {
+    expect(describeMoveAbort(abort(OTHER_PACKAGE, 'land', 300))).toBeNull()
+    expect(describeTransactionError(new Error(debugAbort(OTHER_PACKAGE, 'market', 'merge', 107))))
+      .toBe('market::merge failed with error code 107.')
+  })
+})
@@ -0,0 +1,160 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { PACKAGE_ID } from '../config/sui'
+import { SponsorRelayError } from './sponsorTransaction'
+
+// Friendly messages for Move aborts raised by the game contracts (contract/sources).
+
+/** Where and why a Move call aborted, parsed from an execution error */
+export interface MoveAbort {
+  packageId: string
+  module: string
+  functionName?: string
+  code: number
+  /** Index of the PTB command that aborted, when reported */
+  command?: number
+}
+
+// Codes from utils.move; any game module can abort with them
+const GAME_ABORTS: Record<number, string> = {
+  // Game (100-199)
+  100: 'This game is already over.',
+  101: 'You are not claiming seeds right now.',
+  102: 'You are already claiming your seeds.',
+  103: 'Finish your remaining drops first.',
+  104: 'You have no drops left.',
+  105: 'That fruit type is not valid.',
+  106: 'Keep dropping fruits to finish claiming.',
+  107: 'You do not have enough fruits for that.',
+  108: 'The sponsor relay did not approve this harvest.',
+  // Seed/Balance (200-299)
+  200: 'Not enough SEED for this action.',
+  201: 'Your balance is too low.',
+  202: 'Use at least 1 seed.',
+  203: 'Only the sponsor relay can mint SEED.',
+  // Land (300-399)
+  300: 'That slot is already planted.',
+  301: 'That slot is empty.',
+  302: 'That fruit is not ready to harvest yet.',
+  303: 'That slot does not exist on this land.',
+  304: 'Land not found.',
+  305: 'You already own the maximum number of lands.',
+  306: 'This land is already at max level.',
+  // Player (400-499)
+  400: 'You already have a player account.',
+  401: 'You do not own this object.',
+  402: 'Your inventory is full. Upgrade it or mint some fruits as NFTs.',
+  403: 'There is no fruit at that position in your inventory.',
+  404: 'That land index does not exist.',
+  // Session (500-599)
+  500: 'Your farm session has expired. End it to get your farm back.',
+  501: 'That session key belongs to a different session.',
+  502: "Your farm session doesn't allow this action.",
+  503: 'Sessions can last at most 24 hours.',
+  504: 'A farm session needs at least one known action.',
+}
+
+// Messages that depend on the module (or `module::function`) that aborted
+const MODULE_ABORTS: Record<string, Record<number, string>> = {
+  'player::upgrade_inventory': {
+    402: 'Your inventory is already at its maximum size.',
+  },
+  market: {
+    105: 'You can only merge fruits of level 1 to 10.',
+    107: 'You need 10 fruits of that type to merge.',
+  },
+  // leaderboard.move defines its own codes
+  leaderboard: {
+    1001: 'This leaderboard round is not active.',
+    1002: 'You already joined this round.',
+    1003: 'You have not joined this round.',
+    1004: 'The entry fee was not paid in full.',
+    1005: 'This round is still running.',
+    1006: 'You have no fruit of that type to submit.',
+    1007: 'Prizes for this round were already distributed.',
+  },
+}
+
+// Aborts from the Sui framework that players can actually run into
+const FRAMEWORK_ABORTS: Record<string, Record<number, string>> = {
+  balance: { 2: 'Not enough coins for this payment.' },
+  coin: { 2: 'Not enough coins for this payment.' },
+}
+
+const SUI_FRAMEWORK = normalizeSuiAddress('0x2')
+const GAME_PACKAGE = normalizeSuiAddress(PACKAGE_ID)
+
+// Debug format: MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("land") },
+//   function: 5, instruction: 31, function_name: Some("plant_in_slot") }, 300) in command 2
+const MOVE_LOCATION_ABORT =
+  /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (?:0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \}.*?function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)(?: in command (\d+))?/
+// Clever-error format: MoveAbort in 2nd command, abort code: 300, in '0x..::land::plant_in_slot' (line 195)
+const READABLE_ABORT =
+  /MoveAbort in (\d+)\w* command, abort code: (\d+), in '(0x[0-9a-fA-F]+)::(\w+)::(\w+)'/
+
+function errorText(error: unknown): string {
+  if (error instanceof Error) return error.message
+  return typeof error === 'string' ? error : String(error)
+}
+
+/** Pull the abort location and code out of an execution or dry-run error, if it is a Move abort */
+export function parseMoveAbort(error: unknown): MoveAbort | null {
+  const text = errorText(error)
+
+  const location = MOVE_LOCATION_ABORT.exec(text)
+  if (location) {
+    const [, address, module, functionName, code, command] = location
+    return {
+      packageId: normalizeSuiAddress(address),
+      module,
+      functionName,
+      code: Number(code),
+      command: command === undefined ? undefined : Number(command),
+    }
+  }
+
+  const readable = READABLE_ABORT.exec(text)
+  if (readable) {
+    const [, command, code, address, module, functionName] = readable
+    return {
+      packageId: normalizeSuiAddress(address),
+      module,
+      functionName,
+      code: Number(code),
+      command: Number(command) - 1,
+    }
+  }
+
+  return null
+}
+
+/** Friendly message for a Move abort, or null if the code is not one we know */
+export function describeMoveAbort(abort: MoveAbort): string | null {
+  if (abort.packageId === SUI_FRAMEWORK) {
+    return FRAMEWORK_ABORTS[abort.module]?.[abort.code] ?? null
+  }
+  // Other packages can have modules named like ours, with codes that mean something else
+  if (abort.packageId !== GAME_PACKAGE) return null
+  return MODULE_ABORTS[`${abort.module}::${abort.functionName}`]?.[abort.code]
+    ?? MODULE_ABORTS[abort.module]?.[abort.code]
+    ?? GAME_ABORTS[abort.code]
+    ?? null
+}
+
+/**
+ * Turn any transaction error into a message fit for the UI.
+ * Move aborts are decoded, wallet rejections and relay errors keep their own wording.
+ */
+export function describeTransactionError(error: unknown): string {
+  if (error instanceof SponsorRelayError) return error.message
+
+  const abort = parseMoveAbort(error)
+  if (abort) {
+    const where = abort.functionName ? `${abort.module}::${abort.functionName}` : abort.module
+    return describeMoveAbort(abort) ?? `${where} failed with error code ${abort.code}.`
+  }
+
+  const text = errorText(error)
+  if (/rejected/i.test(text)) return 'Transaction was rejected in your wallet.'
+  if (/InsufficientGas|GasBalanceTooLow|insufficient gas/i.test(text)) return 'Not enough SUI to pay for gas.'
+  return text
+}
@@ -0,0 +1,62 @@
+import type { SuiClient, SuiObjectDataOptions, SuiObjectResponse } from '@mysten/sui/client'
+
+// getOwnedObjects returns one page (50 objects at most) per call; everything that needs all of
+// an address's objects of some type goes through here instead.
+
+export interface OwnedObjectsQuery {
+  /** Full struct type to match, e.g. `${PACKAGE_ID}::land::PlayerLand` */
+  type: string
+  options?: SuiObjectDataOptions
+  /** Objects per request; the fullnode caps it at 50 */
+  pageSize?: number
+}
+
+export interface OwnedObjectsPage {
+  objects: SuiObjectResponse[]
+  /** Pass back to get the next page; null on the last page */
+  nextCursor: string | null
+}
+
+const MAX_PAGE_SIZE = 50
+
+/** One page of the owner's objects of `query.type`, starting after `cursor` */
+export async function fetchOwnedObjectsPage(
+  client: SuiClient,
+  owner: string,
+  query: OwnedObjectsQuery,
+  cursor: string | null = null
+): Promise<OwnedObjectsPage> {
+  const page = await client.getOwnedObjects({
+    owner,
+    filter: { StructType: query.type },
+    options: query.options ?? { showType: true, showContent: true },
+    limit: Math.min(query.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+    cursor,
+  })
+  return { objects: page.data, nextCursor: page.hasNextPage ? page.nextCursor ?? null : null }
+}
+
+/** Walk every page of the owner's objects of `query.type`, one page at a time */
+export async function* scanOwnedObjects(
+  client: SuiClient,
+  owner: string,
+  query: OwnedObjectsQuery
+): AsyncGenerator<SuiObjectResponse[]> {
+  let cursor: string | null = null
+  do {
+    const page: OwnedObjectsPage = await fetchOwnedObjectsPage(client, owner, query, cursor)
+    yield page.objects
+    cursor = page.nextCursor
+  } while (cursor)
+}
+
+/** All of the owner's objects of `query.type` */
+export async function findOwnedObjects(
+  client: SuiClient,
+  owner: string,
+  query: OwnedObjectsQuery
+): Promise<SuiObjectResponse[]> {
+  const objects: SuiObjectResponse[] = []
+  for await (const page of scanOwnedObjects(client, owner, query)) objects.push(...page)
+  return objects
+}
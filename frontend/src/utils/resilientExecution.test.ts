@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { confirmTransaction, isTransientRpcError } from './resilientExecution'
+
+const FAST = { initialDelayMs: 1, maxDelayMs: 1 }
+
+describe('isTransientRpcError', () => {
+  it('retries network failures and timeouts', () => {
+    expect(isTransientRpcError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isTransientRpcError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe(true)
+    expect(isTransientRpcError(new DOMException('signal timed out', 'TimeoutError'))).toBe(true)
+  })
+
+  it('treats other TypeErrors as bugs', () => {
+    expect(isTransientRpcError(new TypeError("Cannot read properties of undefined (reading 'digest')"))).toBe(false)
+  })
+})
+
+describe('confirmTransaction', () => {
+  const response = { digest: 'abc', effects: { status: { status: 'success' } } } as SuiTransactionBlockResponse
+
+  it('keeps polling while the transaction has not been seen', async () => {
+    const waitForTransaction = vi.fn()
+      .mockRejectedValueOnce(new DOMException('signal timed out', 'TimeoutError'))
+      .mockResolvedValueOnce(response)
+    const outcome = await confirmTransaction({ waitForTransaction } as unknown as SuiClient, 'abc', FAST)
+    expect(outcome).toEqual({ status: 'success', response })
+    expect(waitForTransaction).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up at once on errors that are not transient', async () => {
+    const bug = new TypeError("Cannot read properties of undefined (reading 'digest')")
+    const waitForTransaction = vi.fn().mockRejectedValue(bug)
+    const outcome = await confirmTransaction({ waitForTransaction } as unknown as SuiClient, 'abc', FAST)
+    expect(outcome).toEqual({ status: 'unknown', digest: 'abc', error: bug })
+    expect(waitForTransaction).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,146 @@
+import {
+  SuiHTTPStatusError,
+  SuiHTTPTransportError,
+  type SuiClient,
+  type SuiTransactionBlockResponse,
+  type SuiTransactionBlockResponseOptions,
+} from '@mysten/sui/client'
+
+export interface RetryOptions {
+  /** Attempts after the first one */
+  retries: number
+  /** Delay before the first retry, doubled after each one */
+  initialDelayMs: number
+  maxDelayMs: number
+  /** Decides whether an error is worth another attempt; defaults to isTransientRpcError */
+  shouldRetry?: (error: unknown) => boolean
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 4,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+}
+
+export interface ConfirmOptions extends Partial<RetryOptions> {
+  /** How long a single waitForTransaction attempt polls before it counts as failed */
+  attemptTimeoutMs?: number
+  /** Extra fields to load with the transaction; effects are always included */
+  responseOptions?: SuiTransactionBlockResponseOptions
+}
+
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 30_000
+
+/** What we know about a submitted transaction */
+export type TransactionOutcome =
+  | { status: 'success'; response: SuiTransactionBlockResponse }
+  | { status: 'failure'; response: SuiTransactionBlockResponse; error: string }
+  /** Not found yet: it may still land, so don't report it as failed */
+  | { status: 'unknown'; digest: string; error: unknown }
+
+/** The transaction executed and failed on chain; `message` carries the execution error */
+export class TransactionFailedError extends Error {
+  readonly digest: string
+  readonly response: SuiTransactionBlockResponse
+
+  constructor(response: SuiTransactionBlockResponse, error: string) {
+    super(error)
+    this.name = 'TransactionFailedError'
+    this.digest = response.digest
+    this.response = response
+  }
+}
+
+/** The transaction was submitted but its outcome could not be confirmed (yet) */
+export class TransactionStatusUnknownError extends Error {
+  readonly digest: string
+
+  constructor(digest: string, cause?: unknown) {
+    super(`Transaction ${digest} is still being confirmed. Check again in a moment.`, { cause })
+    this.name = 'TransactionStatusUnknownError'
+    this.digest = digest
+  }
+}
+
+/** Network failures, timeouts, rate limiting and 5xx answers; anything else is final */
+export function isTransientRpcError(error: unknown): boolean {
+  if (error instanceof SuiHTTPStatusError) return error.status === 429 || error.status >= 500
+  if (error instanceof SuiHTTPTransportError) return false
+  if (error instanceof DOMException) return error.name === 'TimeoutError' || error.name === 'AbortError'
+  // fetch() rejects with a TypeError when the request never got an answer; other TypeErrors are bugs
+  if (error instanceof TypeError) return /Failed to fetch|NetworkError|Load failed|fetch failed/i.test(error.message)
+  return error instanceof Error && /timed? ?out|network|ECONNRESET|fetch failed/i.test(error.message)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/** Run an RPC call, retrying transient failures with exponential backoff and jitter */
+export async function withRetry<T>(fn: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> {
+  const { retries, initialDelayMs, maxDelayMs, shouldRetry = isTransientRpcError } = { ...DEFAULT_RETRY, ...options }
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (err) {
+      if (attempt >= retries || !shouldRetry(err)) throw err
+      const delay = Math.min(initialDelayMs * 2 ** attempt, maxDelayMs)
+      await sleep(delay / 2 + Math.random() * (delay / 2))
+    }
+  }
+}
+
+/** Read the outcome of an executed transaction from its effects */
+export function transactionOutcome(response: SuiTransactionBlockResponse): TransactionOutcome {
+  const status = response.effects?.status
+  if (status?.status === 'failure') {
+    return { status: 'failure', response, error: status.error ?? 'Transaction failed' }
+  }
+  return { status: 'success', response }
+}
+
+/**
+ * Find out what happened to a submitted transaction.
+ * Keeps looking it up with backoff; resolves 'unknown' rather than throwing when it can't tell.
+ */
+export async function confirmTransaction(
+  client: SuiClient,
+  digest: string,
+  options: ConfirmOptions = {}
+): Promise<TransactionOutcome> {
+  const { attemptTimeoutMs = DEFAULT_ATTEMPT_TIMEOUT_MS, responseOptions, ...retry } = options
+  try {
+    const response = await withRetry(
+      // waitForTransaction polls on its own and rejects with a TimeoutError when it hasn't seen the
+      // transaction yet, which isTransientRpcError retries like any other transient failure
+      () => client.waitForTransaction({
+        digest,
+        timeout: attemptTimeoutMs,
+        options: { ...responseOptions, showEffects: true },
+      }),
+      retry
+    )
+    return transactionOutcome(response)
+  } catch (error) {
+    return { status: 'unknown', digest, error }
+  }
+}
+
+/**
+ * waitForTransaction that survives RPC hiccups.
+ * Throws TransactionFailedError when the transaction failed on chain and
+ * TransactionStatusUnknownError when its outcome could not be confirmed.
+ */
+export async function waitForTransactionResult(
+  client: SuiClient,
+  digest: string,
+  options?: ConfirmOptions
+): Promise<SuiTransactionBlockResponse> {
+  const outcome = await confirmTransaction(client, digest, options)
+  if (outcome.status === 'failure') throw new TransactionFailedError(outcome.response, outcome.error)
+  if (outcome.status === 'unknown') throw new TransactionStatusUnknownError(digest, outcome.error)
+  return outcome.response
+}
+
+/** Whether an error only means the outcome is not known yet, so the UI should not report a failure */
+export function isStatusUnknown(error: unknown): error is TransactionStatusUnknownError {
+  return error instanceof TransactionStatusUnknownError
+}
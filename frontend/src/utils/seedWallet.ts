@@ -0,0 +1,111 @@
+import type { CoinStruct, SuiClient } from '@mysten/sui/client'
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions'
+import { PACKAGE_ID } from '../config/sui'
+
+export const SEED_COIN_TYPE = `${PACKAGE_ID}::seed::SEED`
+
+// A cached balance younger than this is served without asking the fullnode
+const BALANCE_TTL_MS = 10_000
+
+type Listener = () => void
+
+interface CachedBalance {
+  /** Base units */
+  total: bigint
+  fetchedAt: number
+}
+
+/**
+ * SEED coins and balances per address, shared by every component.
+ * Payments are built from the fewest coins that cover them instead of merging the whole wallet.
+ */
+class SeedWallet {
+  private readonly balances = new Map<string, CachedBalance>()
+  private readonly listeners = new Set<Listener>()
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** Last known balance in base units, without a request */
+  cachedBalance = (owner: string): bigint | undefined => this.balances.get(owner)?.total
+
+  private setBalance(owner: string, total: bigint) {
+    const previous = this.balances.get(owner)?.total
+    this.balances.set(owner, { total, fetchedAt: Date.now() })
+    if (previous !== total) this.listeners.forEach((listener) => listener())
+  }
+
+  /** Forget the cached balance, e.g. after a transaction spent or earned SEED */
+  invalidate(owner: string) {
+    this.balances.delete(owner)
+  }
+
+  /** Balance in base units; served from the cache while it's fresh unless `maxAgeMs` is 0 */
+  async getBalance(client: SuiClient, owner: string, maxAgeMs = BALANCE_TTL_MS): Promise<bigint> {
+    const cached = this.balances.get(owner)
+    if (cached && Date.now() - cached.fetchedAt < maxAgeMs) return cached.total
+    const { totalBalance } = await client.getBalance({ owner, coinType: SEED_COIN_TYPE })
+    this.setBalance(owner, BigInt(totalBalance))
+    return BigInt(totalBalance)
+  }
+
+  /** Every SEED coin the address owns, across all pages */
+  async getCoins(client: SuiClient, owner: string): Promise<CoinStruct[]> {
+    const coins: CoinStruct[] = []
+    let cursor: string | null | undefined
+    do {
+      const page = await client.getCoins({ owner, coinType: SEED_COIN_TYPE, cursor })
+      coins.push(...page.data)
+      cursor = page.hasNextPage ? page.nextCursor : null
+    } while (cursor)
+    this.setBalance(owner, coins.reduce((sum, coin) => sum + BigInt(coin.balance), 0n))
+    return coins
+  }
+
+  /**
+   * The fewest coins that add up to at least `amount`: the smallest single coin that covers it,
+   * otherwise the largest coins first.
+   */
+  async selectCoins(client: SuiClient, owner: string, amount: bigint): Promise<CoinStruct[]> {
+    const coins = (await this.getCoins(client, owner)).sort((a, b) => {
+      const diff = BigInt(a.balance) - BigInt(b.balance)
+      return diff === 0n ? 0 : diff < 0n ? -1 : 1
+    })
+    const single = coins.find((coin) => BigInt(coin.balance) >= amount)
+    if (single) return [single]
+
+    const selected: CoinStruct[] = []
+    let total = 0n
+    for (const coin of [...coins].reverse()) {
+      selected.push(coin)
+      total += BigInt(coin.balance)
+      if (total >= amount) return selected
+    }
+    throw new Error(coins.length === 0 ? 'No SEED coins found' : 'Not enough SEED in your wallet')
+  }
+}
+
+export const seedWallet = new SeedWallet()
+
+/**
+ * Add a Coin<SEED> worth exactly `amount` base units to `tx`, taken from the owner's coins.
+ * Only the selected coins are merged, and an exact coin is passed as is.
+ */
+export async function addSeedPayment(
+  tx: Transaction,
+  client: SuiClient,
+  owner: string,
+  amount: bigint
+): Promise<TransactionObjectArgument> {
+  const coins = await seedWallet.selectCoins(client, owner, amount)
+  const [primary, ...rest] = coins.map((coin) => tx.object(coin.coinObjectId))
+  if (rest.length > 0) tx.mergeCoins(primary, rest)
+  // The payment leaves the wallet; re-read the balance next time
+  seedWallet.invalidate(owner)
+  const selected = coins.reduce((sum, coin) => sum + BigInt(coin.balance), 0n)
+  if (selected === amount) return primary
+  const [payment] = tx.splitCoins(primary, [tx.pure.u64(amount)])
+  return payment
+}
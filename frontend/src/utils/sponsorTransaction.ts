@@ -1,186 +1,182 @@
-import { SuiClient, getFullnodeUrl, type SuiObjectRef } from '@mysten/sui/client'
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
-import { Transaction } from '@mysten/sui/transactions'
-import { decodeSuiPrivateKey } from '@mysten/sui/cryptography'
-
-// Sponsor wallet configuration
-// Address: 0x438b067c7ad8673897d826d5800621aeba1d9016f5c0db4d0f97550bfd9059da
-const SPONSOR_PRIVATE_KEY = 'suiprivkey1qzkejytknake27tl58q5ymnvdz63e6zq8cp69x0a3ng89rsvdamuz9kwvqn'
-
-// Create the sponsor keypair from the private key
-function getSponsorKeypair(): Ed25519Keypair {
-  const { secretKey } = decodeSuiPrivateKey(SPONSOR_PRIVATE_KEY)
-  return Ed25519Keypair.fromSecretKey(secretKey)
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { toBase64 } from '@mysten/sui/utils'
+import { OFFLINE_MODE, SPONSOR_RELAY_URL } from '../config/sui'
+import type { DropLog } from 'fruit-merge-shared/mergeGame'
+import type { PolicyRejection } from 'fruit-merge-shared/policy'
+import { getOfflineSimulator } from '../simulator/offline'
+
+// Client for the sponsor relay (see /relay). The sponsor key never reaches the browser;
+// the relay adds the gas payment and signs on its side.
+
+/** Why the relay's sponsorship policy refused a transaction */
+export type SponsorPolicyRejection = PolicyRejection
+
+/** Which sponsorship budget ran out (mirrors relay/src/budget.ts) */
+export interface SponsorLimitDetails {
+  action: 'farm' | 'inventory' | 'market' | 'leaderboard' | 'game' | 'mint' | 'any'
+  limit: 'calls' | 'gas' | 'rate'
+  /** When another sponsored call should be accepted, in ms since epoch */
+  retryAt: number
 }
 
-// Create a SUI client for testnet
-const suiClient = new SuiClient({ url: getFullnodeUrl('testnet') })
+/**
+ * Error returned by the sponsor relay.
+ * `code` is the relay's machine-readable reason, e.g. SPONSOR_FAILED, POLICY_REJECTED
+ * or SPONSOR_LIMIT_REACHED (the user can still pay gas themselves).
+ */
+export class SponsorRelayError extends Error {
+  readonly code: string
+  readonly status: number
+  readonly details?: unknown
+
+  constructor(code: string, message: string, status: number, details?: unknown) {
+    super(message)
+    this.name = 'SponsorRelayError'
+    this.code = code
+    this.status = status
+    this.details = details
+  }
 
-// Get sponsor address
-export function getSponsorAddress(): string {
-  const keypair = getSponsorKeypair()
-  return keypair.getPublicKey().toSuiAddress()
+  /** The policy rejection behind this error, if the relay refused to sponsor */
+  get policyRejection(): SponsorPolicyRejection | null {
+    return this.code === 'POLICY_REJECTED' ? (this.details as SponsorPolicyRejection) : null
+  }
+
+  /** The exhausted budget behind this error, if the sender hit a sponsorship limit */
+  get sponsorLimit(): SponsorLimitDetails | null {
+    return this.code === 'SPONSOR_LIMIT_REACHED' ? (this.details as SponsorLimitDetails) : null
+  }
 }
 
+// Relay answers that mean "the sponsor can't pay right now", as opposed to "won't pay for this"
+const SPONSOR_UNAVAILABLE_CODES = new Set(['RELAY_UNREACHABLE', 'SPONSOR_UNFUNDED', 'SPONSOR_BUSY', 'SPONSOR_LIMIT_REACHED'])
+
 /**
- * Sponsor a transaction for seamless UX (no wallet popup)
- * The sponsor pays for gas, and the user doesn't need to confirm anything.
- * 
+ * Whether an error means the sponsor is unavailable, unfunded or over budget,
+ * so the transaction can still go through with the user paying gas.
+ */
+export function isSponsorUnavailable(err: unknown): boolean {
+  if (!(err instanceof SponsorRelayError)) return false
+  return SPONSOR_UNAVAILABLE_CODES.has(err.code)
+}
+
+async function postToRelay<T>(path: string, body: unknown): Promise<T> {
+  let response: Response
+  try {
+    // Offline the simulator answers for the relay
+    response = OFFLINE_MODE
+      ? await getOfflineSimulator().relay.handle(path, body)
+      : await fetch(`${SPONSOR_RELAY_URL}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+  } catch (err) {
+    throw new SponsorRelayError(
+      'RELAY_UNREACHABLE',
+      `Sponsor relay unreachable at ${SPONSOR_RELAY_URL}: ${err instanceof Error ? err.message : String(err)}`,
+      0
+    )
+  }
+
+  const payload = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new SponsorRelayError(
+      payload?.code ?? 'SPONSOR_FAILED',
+      payload?.error ?? `Sponsor relay responded with ${response.status}`,
+      response.status,
+      payload?.details
+    )
+  }
+  return payload as T
+}
+
+/**
+ * Ask the relay to sponsor a transaction sent by the user.
+ *
  * @param sender - The user's address (transaction sender)
  * @param transactionKindBytes - The transaction bytes built with onlyTransactionKind: true
- * @returns The signed transaction bytes and sponsor signature
+ * @returns The full transaction bytes (to be signed by the user), the sponsor signature and the digest
  */
 export async function sponsorTransaction(
   sender: string,
   transactionKindBytes: Uint8Array
-): Promise<{ bytes: string; signature: string }> {
-  const sponsorKeypair = getSponsorKeypair()
-  const sponsorAddress = sponsorKeypair.getPublicKey().toSuiAddress()
-
-  // Get gas coins from sponsor wallet
-  const coins = await suiClient.getCoins({ owner: sponsorAddress, limit: 1 })
-  
-  if (coins.data.length === 0) {
-    throw new Error('Sponsor wallet has no gas coins. Please fund the sponsor wallet.')
-  }
-
-  const payment: SuiObjectRef[] = coins.data.map((coin) => ({
-    objectId: coin.coinObjectId,
-    version: coin.version,
-    digest: coin.digest,
-  }))
-
-  // Reconstruct the transaction from the kind bytes
-  const tx = Transaction.fromKind(transactionKindBytes)
-  tx.setSender(sender)
-  tx.setGasOwner(sponsorAddress)
-  tx.setGasPayment(payment)
-
-  // Build and sign the transaction with sponsor's keypair
-  const builtTx = await tx.build({ client: suiClient })
-  const signedTx = await sponsorKeypair.signTransaction(builtTx)
-
-  return signedTx
+): Promise<{ bytes: string; signature: string; digest: string }> {
+  return postToRelay('/sponsor', {
+    sender,
+    transactionKindBytes: toBase64(transactionKindBytes),
+  })
 }
 
 /**
- * Execute a fully sponsored transaction.
- * This is used when the sponsor also acts as the sender (full sponsorship).
- * 
- * @param tx - The Transaction object to execute
- * @returns The transaction result
+ * Tell the relay a sponsored transaction was executed or abandoned so its gas coin
+ * goes back to the pool right away instead of after the lease timeout.
+ * Best effort: failures are ignored.
  */
-export async function executeSponsoredTransaction(
-  tx: Transaction
-): Promise<{
-  digest: string
-  effects?: unknown
-  events?: unknown
-  objectChanges?: unknown
-}> {
-  const sponsorKeypair = getSponsorKeypair()
-  const sponsorAddress = sponsorKeypair.getPublicKey().toSuiAddress()
-
-  // Get gas coins from sponsor wallet
-  const coins = await suiClient.getCoins({ owner: sponsorAddress, limit: 1 })
-  
-  if (coins.data.length === 0) {
-    throw new Error('Sponsor wallet has no gas coins. Please fund the sponsor wallet.')
+export async function completeSponsoredTransaction(digest: string): Promise<void> {
+  try {
+    await postToRelay('/complete', { digest })
+  } catch (err) {
+    console.warn('Could not release sponsor gas coin:', err)
   }
+}
 
-  const payment: SuiObjectRef[] = coins.data.map((coin) => ({
-    objectId: coin.coinObjectId,
-    version: coin.version,
-    digest: coin.digest,
-  }))
-
-  // Set gas payment
-  tx.setGasOwner(sponsorAddress)
-  tx.setGasPayment(payment)
-
-  // Build the transaction
-  const builtTx = await tx.build({ client: suiClient })
-  
-  // Sign with sponsor
-  const signedTx = await sponsorKeypair.signTransaction(builtTx)
-
-  // Execute the transaction
-  const result = await suiClient.executeTransactionBlock({
-    transactionBlock: signedTx.bytes,
-    signature: signedTx.signature,
-    options: {
-      showEffects: true,
-      showEvents: true,
-      showObjectChanges: true,
-    },
+/**
+ * Have the relay execute a transaction where the sponsor is both sender and payer.
+ * No wallet popup - only for transactions that don't use user-owned objects.
+ *
+ * @param transactionKindBytes - The transaction bytes built with onlyTransactionKind: true
+ */
+export async function executeSponsoredTransaction(
+  transactionKindBytes: Uint8Array
+): Promise<SuiTransactionBlockResponse> {
+  return postToRelay('/execute', {
+    transactionKindBytes: toBase64(transactionKindBytes),
   })
+}
+
+/** A merge game the relay knows about; its seed decides the fruits */
+export interface GameSessionStart {
+  sessionId: string
+  seed: number
+}
 
-  return result
+/** Result of claiming a game's SEED (mirrors relay/src/games.ts) */
+export interface GameClaim {
+  /** Digest of the mint, or null when nothing was earned beyond earlier claims */
+  digest: string | null
+  /** What the whole game earned, as replayed by the relay */
+  verifiedSeeds: number
+  /** What this claim minted */
+  mintedSeeds: number
+}
+
+/** Start a merge game whose SEED `player` can claim; the relay picks the seed */
+export async function startGameSession(player: string): Promise<GameSessionStart> {
+  return postToRelay('/game/start', { player })
 }
 
 /**
- * Sponsor and execute a transaction where the user is the sender but sponsor pays gas.
- * User needs to sign, but we handle everything else.
- * 
- * For fully seamless UX (no signing at all), the sponsor must be the sender.
- * This function is for cases where user authentication is needed via signature.
- * 
- * @param sender - User's address
- * @param tx - The Transaction object
- * @param userSignTransaction - Function to get user's signature
- * @returns The transaction result
+ * Have the relay replay a game's drop log and mint the SEED it earned.
+ * Claiming again later in the same game mints only what was earned since.
  */
-export async function sponsorAndExecuteTransaction(
-  sender: string,
-  tx: Transaction,
-  userSignTransaction: (tx: { transaction: Transaction }) => Promise<{ bytes: string; signature: string }>
-): Promise<{
-  digest: string
-  effects?: unknown
-  events?: unknown
-  objectChanges?: unknown
-}> {
-  const sponsorKeypair = getSponsorKeypair()
-  const sponsorAddress = sponsorKeypair.getPublicKey().toSuiAddress()
-
-  // Get gas coins from sponsor wallet
-  const coins = await suiClient.getCoins({ owner: sponsorAddress, limit: 1 })
-  
-  if (coins.data.length === 0) {
-    throw new Error('Sponsor wallet has no gas coins. Please fund the sponsor wallet.')
-  }
-
-  const payment: SuiObjectRef[] = coins.data.map((coin) => ({
-    objectId: coin.coinObjectId,
-    version: coin.version,
-    digest: coin.digest,
-  }))
-
-  // Configure the transaction
-  tx.setSender(sender)
-  tx.setGasOwner(sponsorAddress)
-  tx.setGasPayment(payment)
-
-  // Get user signature first (this triggers wallet popup)
-  const userSigned = await userSignTransaction({ transaction: tx })
-
-  // Now sponsor signs the same transaction
-  const builtTx = await tx.build({ client: suiClient })
-  const sponsorSigned = await sponsorKeypair.signTransaction(builtTx)
-
-  // Execute with both signatures
-  const result = await suiClient.executeTransactionBlock({
-    transactionBlock: userSigned.bytes,
-    signature: [userSigned.signature, sponsorSigned.signature],
-    options: {
-      showEffects: true,
-      showEvents: true,
-      showObjectChanges: true,
-    },
-  })
+export async function claimGameSeeds(sessionId: string, log: DropLog): Promise<GameClaim> {
+  return postToRelay('/game/claim', { sessionId, log })
+}
 
-  return result
+/** The relay's signed count of what an on-chain game earned (mirrors relay/src/games.ts) */
+export interface ChainHarvestApproval {
+  verifiedSeeds: number
+  /** The minter's raw Ed25519 public key, base64 */
+  publicKey: string
+  /** Its signature over the harvest message, base64 */
+  signature: string
 }
 
-// Export the client for use in components
-export { suiClient as sponsorSuiClient }
+/**
+ * Have the relay replay an on-chain game's drop log with the fruits game.move dropped, and sign
+ * the seeds it earned for game::complete_harvest. The session must be waiting for its harvest.
+ */
+export async function approveChainHarvest(sessionId: string, log: DropLog): Promise<ChainHarvestApproval> {
+  return postToRelay('/game/chain-harvest', { sessionId, log })
+}
@@ -0,0 +1,95 @@
+import type { DryRunTransactionBlockResponse, ObjectOwner, SuiClient } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+
+// Budget for the simulated run only; the real transaction is budgeted when it is signed
+const PREVIEW_GAS_BUDGET = 500_000_000n
+
+export interface PreviewBalanceChange {
+  owner: string
+  coinType: string
+  /** Negative when the owner pays */
+  amount: bigint
+}
+
+export interface PreviewObjectChange {
+  objectId: string
+  objectType: string
+}
+
+export interface PreviewEvent {
+  type: string
+  parsedJson: unknown
+}
+
+/** What a transaction would do if it were executed now */
+export interface TransactionPreview {
+  /** 'failure' means the transaction would abort; `error` says why */
+  status: 'success' | 'failure'
+  error?: string
+  balanceChanges: PreviewBalanceChange[]
+  created: PreviewObjectChange[]
+  mutated: PreviewObjectChange[]
+  deleted: PreviewObjectChange[]
+  events: PreviewEvent[]
+  /** Net gas the run would cost, in MIST */
+  gasUsed: bigint
+}
+
+function ownerAddress(owner: ObjectOwner): string {
+  if (typeof owner === 'string') return owner
+  if ('AddressOwner' in owner) return owner.AddressOwner
+  if ('ObjectOwner' in owner) return owner.ObjectOwner
+  return 'shared'
+}
+
+function toPreview(response: DryRunTransactionBlockResponse): TransactionPreview {
+  const { status, gasUsed } = response.effects
+  const created: PreviewObjectChange[] = []
+  const mutated: PreviewObjectChange[] = []
+  const deleted: PreviewObjectChange[] = []
+
+  for (const change of response.objectChanges) {
+    if (change.type === 'created') created.push({ objectId: change.objectId, objectType: change.objectType })
+    if (change.type === 'mutated') mutated.push({ objectId: change.objectId, objectType: change.objectType })
+    if (change.type === 'deleted' || change.type === 'wrapped') {
+      deleted.push({ objectId: change.objectId, objectType: change.objectType })
+    }
+  }
+
+  return {
+    status: status.status,
+    error: status.error,
+    balanceChanges: response.balanceChanges.map((change) => ({
+      owner: ownerAddress(change.owner),
+      coinType: change.coinType,
+      amount: BigInt(change.amount),
+    })),
+    created,
+    mutated,
+    deleted,
+    events: response.events.map((event) => ({ type: event.type, parsedJson: event.parsedJson })),
+    gasUsed: BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate),
+  }
+}
+
+/**
+ * Dry-run a transaction for a sender without signing anything.
+ * Works on a copy, so the original transaction can still be sponsored or executed afterwards.
+ * The run uses an empty gas payment, for which the node substitutes a mock gas coin, so the
+ * preview works whether the sponsor or the player will end up paying.
+ */
+export async function previewTransaction(
+  client: SuiClient,
+  transaction: Transaction,
+  sender: string
+): Promise<TransactionPreview> {
+  const tx = Transaction.from(transaction)
+  tx.setSender(sender)
+  tx.setGasPayment([])
+  tx.setGasBudget(PREVIEW_GAS_BUDGET)
+
+  const response = await client.dryRunTransactionBlock({
+    transactionBlock: await tx.build({ client }),
+  })
+  return toPreview(response)
+}
@@ -0,0 +1,124 @@
+import type { Transaction } from '@mysten/sui/transactions'
+import { describeTransactionError } from './moveErrors'
+import { isStatusUnknown } from './resilientExecution'
+
+// How long finished items stay visible in the queue
+const FINISHED_ITEM_TTL_MS = 4000
+
+/** 'unknown': submitted, but not confirmed yet; it may still succeed */
+export type QueueItemStatus =
+  | 'queued'
+  | 'building'
+  | 'executing'
+  | 'confirming'
+  | 'success'
+  | 'failed'
+  | 'unknown'
+
+export interface QueueItem {
+  id: number
+  label: string
+  status: QueueItemStatus
+  digest?: string
+  /** Readable reason when status is 'failed' or 'unknown' */
+  error?: string
+}
+
+export interface QueueJob<T extends { digest: string }> {
+  /** Shown to the player while the item is queued or running */
+  label: string
+  /**
+   * Owned objects the transaction reads or writes (see seedCoinsKey for SEED payments).
+   * Jobs sharing a key run one after another; jobs with disjoint keys run side by side.
+   */
+  objectKeys: string[]
+  /** Builds the transaction when the job's turn comes, so it sees the latest object versions */
+  build: () => Promise<Transaction>
+  execute: (tx: Transaction) => Promise<T>
+  /** Resolves once the transaction is final and its object changes are readable */
+  waitForFinality: (digest: string) => Promise<unknown>
+}
+
+/** Queue key for transactions that merge or split an address's SEED coins */
+export const seedCoinsKey = (address: string) => `seed-coins:${address}`
+
+type Listener = () => void
+
+/**
+ * Serializes transactions that touch the same owned objects.
+ * A job is only built after every earlier job sharing one of its keys has finished and been
+ * confirmed, so it never races them for coin or object versions.
+ */
+export class TransactionQueue {
+  private items: readonly QueueItem[] = []
+  private readonly tails = new Map<string, Promise<void>>()
+  private readonly listeners = new Set<Listener>()
+  private nextId = 1
+
+  enqueue<T extends { digest: string }>(job: QueueJob<T>): Promise<T> {
+    const id = this.nextId++
+    this.addItem({ id, label: job.label, status: 'queued' })
+
+    const keys = [...new Set(job.objectKeys)]
+    const previous = Promise.all(keys.map((key) => this.tails.get(key)))
+    const run = previous.then(() => this.run(id, job))
+
+    const tail = run.then(() => undefined, () => undefined)
+    for (const key of keys) this.tails.set(key, tail)
+    void tail.then(() => {
+      for (const key of keys) {
+        if (this.tails.get(key) === tail) this.tails.delete(key)
+      }
+    })
+
+    return run
+  }
+
+  /** Current items, oldest first; a new array whenever anything changes */
+  getItems = (): readonly QueueItem[] => this.items
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private async run<T extends { digest: string }>(id: number, job: QueueJob<T>): Promise<T> {
+    try {
+      this.updateItem(id, { status: 'building' })
+      const tx = await job.build()
+
+      this.updateItem(id, { status: 'executing' })
+      const result = await job.execute(tx)
+
+      this.updateItem(id, { status: 'confirming', digest: result.digest })
+      await job.waitForFinality(result.digest)
+
+      this.finish(id, { status: 'success' })
+      return result
+    } catch (err) {
+      this.finish(id, { status: isStatusUnknown(err) ? 'unknown' : 'failed', error: describeTransactionError(err) })
+      throw err
+    }
+  }
+
+  private finish(id: number, update: Partial<QueueItem>): void {
+    this.updateItem(id, update)
+    setTimeout(() => this.setItems(this.items.filter((item) => item.id !== id)), FINISHED_ITEM_TTL_MS)
+  }
+
+  private addItem(item: QueueItem): void {
+    this.setItems([...this.items, item])
+  }
+
+  private updateItem(id: number, update: Partial<QueueItem>): void {
+    this.setItems(this.items.map((item) => (item.id === id ? { ...item, ...update } : item)))
+  }
+
+  private setItems(items: readonly QueueItem[]): void {
+    this.items = items
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+/** App-wide queue; every component enqueues here so conflicts across components are caught too */
+export const transactionQueue = new TransactionQueue()
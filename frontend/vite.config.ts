@@ -1,7 +1,21 @@
+/// <reference types="vitest/config" />
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The game model and decoders come from ../shared, linked in as fruit-merge-shared. Its
+  // imports resolve to this app's copies, and the dev server may serve its sources.
+  resolve: { dedupe: ['@mysten/sui', 'matter-js'] },
+  server: { fs: { allow: ['.', '../shared'] } },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+    // Bindings and config resolve to the simulator's deployment (see src/test/fakes)
+    env: { VITE_OFFLINE: 'true' },
+    // Market.tsx imports artwork that isn't checked in; tests don't need the pixels
+    alias: [{ find: /^.*\/assets\/MERGE-MAN\.png$/, replacement: fileURLToPath(new URL('./src/test/fakes/image.ts', import.meta.url)) }],
+  },
 })
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { SponsorBudget, type ActionBudget } from './budget.ts'
+
+const UNLIMITED: ActionBudget = { callsPerDay: 100, gasPerDay: 10n ** 12n }
+
+function newBudget(callsPerMinute: number, farm: ActionBudget = UNLIMITED): SponsorBudget {
+  return new SponsorBudget({
+    callsPerMinute,
+    daily: { farm, inventory: UNLIMITED, market: UNLIMITED, leaderboard: UNLIMITED, game: UNLIMITED, mint: UNLIMITED },
+  })
+}
+
+function limitOf(reserve: () => unknown) {
+  try {
+    reserve()
+  } catch (err) {
+    return err
+  }
+  throw new Error('expected the reservation to be refused')
+}
+
+describe('SponsorBudget', () => {
+  it('counts a call when it is reserved, before it is charged', () => {
+    const budget = newBudget(2)
+    budget.reserve('0xa', ['farm'])
+    budget.reserve('0xa', ['farm'])
+    expect(limitOf(() => budget.reserve('0xa', ['farm']))).toMatchObject({ code: 'SPONSOR_LIMIT_REACHED', details: { limit: 'rate' } })
+    // Other addresses have their own budgets
+    expect(() => budget.reserve('0xb', ['farm'])).not.toThrow()
+  })
+
+  it('gives a refunded reservation back', () => {
+    const budget = newBudget(1)
+    const reservation = budget.reserve('0xa', ['farm'])
+    budget.refund(reservation)
+    expect(() => budget.reserve('0xa', ['farm'])).not.toThrow()
+  })
+
+  it('stops an action once its charged gas reaches the daily budget, until settled lower', () => {
+    const budget = newBudget(10, { callsPerDay: 10, gasPerDay: 1000n })
+    budget.charge(budget.reserve('0xa', ['farm']), 1000n, '0xd1')
+    expect(limitOf(() => budget.reserve('0xa', ['farm']))).toMatchObject({ details: { action: 'farm', limit: 'gas' } })
+    expect(() => budget.reserve('0xa', ['market'])).not.toThrow()
+
+    budget.settle('0xd1', 400n)
+    expect(() => budget.reserve('0xa', ['farm'])).not.toThrow()
+  })
+})
@@ -0,0 +1,138 @@
+import type { SponsorAction } from 'fruit-merge-shared/policy'
+import { HttpError } from './http.ts'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+export interface ActionBudget {
+  /** Sponsored transactions per address per rolling 24h */
+  callsPerDay: number
+  /** Gas (MIST) per address per rolling 24h */
+  gasPerDay: bigint
+}
+
+export interface SponsorBudgetOptions {
+  daily: Record<SponsorAction, ActionBudget>
+  /** Sponsored transactions per address per rolling minute, across all actions */
+  callsPerMinute: number
+}
+
+/** Sent to the frontend with SPONSOR_LIMIT_REACHED */
+export interface SponsorLimitDetails {
+  action: SponsorAction | 'any'
+  limit: 'calls' | 'gas' | 'rate'
+  /** When enough of the window has rolled off for another call, in ms since epoch */
+  retryAt: number
+}
+
+interface SpendRecord {
+  at: number
+  actions: SponsorAction[]
+  /** Gas budget until settled, then the gas actually used */
+  gas: bigint
+  digest?: string
+}
+
+/** A sponsored call counted against an address's budgets before its gas is known; see reserve() */
+export interface SpendReservation {
+  readonly address: string
+  readonly record: SpendRecord
+}
+
+/**
+ * Per-address accounting of sponsored calls and gas over rolling windows.
+ * A call is reserved before the relay starts on it, so concurrent calls can't all pass the
+ * same check, then charged its gas budget and settled to the real cost once its effects
+ * are known.
+ *
+ * The address is the sender the client claims; nothing proves the client holds its key. Anyone
+ * can use up another address's budgets, which then has to pay its own gas. The budgets bound
+ * what the sponsor spends, not what each player is guaranteed.
+ */
+export class SponsorBudget {
+  private readonly options: SponsorBudgetOptions
+  private readonly records = new Map<string, SpendRecord[]>()
+
+  constructor(options: SponsorBudgetOptions) {
+    this.options = options
+  }
+
+  /**
+   * Count a transaction with these actions against `address`'s budgets, or throw
+   * SPONSOR_LIMIT_REACHED if it would exceed one. Charge or refund the reservation once the
+   * transaction is signed or has failed.
+   */
+  reserve(address: string, actions: SponsorAction[]): SpendReservation {
+    const now = Date.now()
+    const records = this.prune(address, now)
+
+    const lastMinute = records.filter((r) => r.at > now - MINUTE_MS)
+    if (lastMinute.length >= this.options.callsPerMinute) {
+      this.limitReached({ action: 'any', limit: 'rate', retryAt: lastMinute[0].at + MINUTE_MS })
+    }
+
+    for (const action of actions) {
+      const budget = this.options.daily[action]
+      const forAction = records.filter((r) => r.actions.includes(action))
+      if (forAction.length >= budget.callsPerDay) {
+        this.limitReached({ action, limit: 'calls', retryAt: forAction[0].at + DAY_MS })
+      }
+      const gasSpent = forAction.reduce((total, r) => total + r.gas, 0n)
+      if (gasSpent >= budget.gasPerDay) {
+        this.limitReached({ action, limit: 'gas', retryAt: forAction[0].at + DAY_MS })
+      }
+    }
+
+    const record: SpendRecord = { at: now, actions, gas: 0n }
+    records.push(record)
+    this.records.set(address, records)
+    return { address, record }
+  }
+
+  /** Charge a reserved transaction its gas budget until it is settled, or its final gas */
+  charge(reservation: SpendReservation, gas: bigint, digest?: string): void {
+    reservation.record.gas = gas
+    reservation.record.digest = digest
+  }
+
+  /** Drop a reservation for a transaction the relay gave up on before signing it */
+  refund(reservation: SpendReservation): void {
+    const records = (this.records.get(reservation.address) ?? []).filter((r) => r !== reservation.record)
+    if (records.length > 0) {
+      this.records.set(reservation.address, records)
+    } else {
+      this.records.delete(reservation.address)
+    }
+  }
+
+  /**
+   * Replace the up-front charge of a transaction with the gas it really used.
+   * Pass null when the transaction never executed; the call still counts, the gas is refunded.
+   */
+  settle(digest: string, gasUsed: bigint | null): void {
+    for (const records of this.records.values()) {
+      const record = records.find((r) => r.digest === digest)
+      if (record) {
+        record.gas = gasUsed ?? 0n
+        return
+      }
+    }
+  }
+
+  private prune(address: string, now: number): SpendRecord[] {
+    const records = (this.records.get(address) ?? []).filter((r) => r.at > now - DAY_MS)
+    if (records.length > 0) {
+      this.records.set(address, records)
+    } else {
+      this.records.delete(address)
+    }
+    return records
+  }
+
+  private limitReached(details: SponsorLimitDetails): never {
+    const what = details.limit === 'rate'
+      ? 'Too many sponsored transactions in the last minute'
+      : `Daily sponsorship ${details.limit === 'gas' ? 'gas budget' : 'limit'} reached for ${details.action} actions`
+    throw new HttpError(429, 'SPONSOR_LIMIT_REACHED', `${what}. You can still pay gas yourself.`, details)
+  }
+}
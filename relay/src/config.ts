@@ -0,0 +1,77 @@
+import { getFullnodeUrl } from '@mysten/sui/client'
+import type { SponsorAction } from 'fruit-merge-shared/policy'
+import type { ActionBudget } from './budget.ts'
+
+type SuiNetwork = 'mainnet' | 'testnet' | 'devnet' | 'localnet'
+
+// Pick up a local .env when present; real deployments pass plain environment variables.
+try {
+  process.loadEnvFile()
+} catch {
+  // No .env file, rely on the process environment
+}
+
+const getEnv = (key: string, fallback: string): string => process.env[key] ?? fallback
+
+const requireEnv = (key: string): string => {
+  const value = process.env[key]
+  if (!value) {
+    throw new Error(`Missing required environment variable ${key}`)
+  }
+  return value
+}
+
+const network = (process.env.SUI_NETWORK as SuiNetwork | undefined) ?? 'testnet'
+
+// The sponsor key only ever lives here, never in the frontend bundle.
+export const SPONSOR_PRIVATE_KEY = requireEnv('SPONSOR_PRIVATE_KEY')
+export const PACKAGE_ID = requireEnv('PACKAGE_ID')
+export const SEED_ADMIN_CAP = requireEnv('SEED_ADMIN_CAP')
+export const SUI_NETWORK = network
+export const SUI_FULLNODE_URL = getEnv('SUI_FULLNODE_URL', getFullnodeUrl(network))
+export const RELAY_PORT = Number(getEnv('RELAY_PORT', '8787'))
+export const RELAY_ALLOWED_ORIGIN = getEnv('RELAY_ALLOWED_ORIGIN', '*')
+
+// Sponsor-sent seed::mint_seeds through /execute, e.g. the farm's test-seed button. Development
+// only, as it lets anyone mint: game SEED is minted through /game/claim, for the amount a
+// replay verifies.
+export const ALLOW_DIRECT_MINTS = getEnv('ALLOW_DIRECT_MINTS', 'false') === 'true'
+
+// Gas coin pool: how many coins to keep ready, their size in MIST, how long a lease may live
+// before and after the transaction it pays for is signed, and how many may wait at once per
+// sender and in all
+export const GAS_POOL_SIZE = Number(getEnv('GAS_POOL_SIZE', '5'))
+export const GAS_COIN_BALANCE = BigInt(getEnv('GAS_COIN_BALANCE', '200000000'))
+export const GAS_LEASE_TIMEOUT_MS = Number(getEnv('GAS_LEASE_TIMEOUT_MS', '60000'))
+export const GAS_SIGNED_LEASE_TIMEOUT_MS = Number(getEnv('GAS_SIGNED_LEASE_TIMEOUT_MS', '120000'))
+export const GAS_MAX_LEASES_PER_SENDER = Number(getEnv('GAS_MAX_LEASES_PER_SENDER', '3'))
+export const GAS_MAX_SIGNED_LEASES = Number(getEnv('GAS_MAX_SIGNED_LEASES', '20'))
+
+// Daily sponsorship budgets per address and action type. Override any of them with
+// SPONSOR_DAILY_BUDGETS, e.g. {"farm":{"callsPerDay":50,"gasPerDay":"500000000"}}
+const defaultDailyBudgets: Record<SponsorAction, ActionBudget> = {
+  farm: { callsPerDay: 200, gasPerDay: 2_000_000_000n },
+  inventory: { callsPerDay: 100, gasPerDay: 1_000_000_000n },
+  market: { callsPerDay: 50, gasPerDay: 500_000_000n },
+  leaderboard: { callsPerDay: 50, gasPerDay: 500_000_000n },
+  // Every drop and merge of an on-chain game is a call
+  game: { callsPerDay: 2000, gasPerDay: 5_000_000_000n },
+  mint: { callsPerDay: 20, gasPerDay: 200_000_000n },
+}
+
+const parseDailyBudgets = (raw: string | undefined): Record<SponsorAction, ActionBudget> => {
+  if (!raw) return defaultDailyBudgets
+  const overrides = JSON.parse(raw) as Partial<Record<SponsorAction, { callsPerDay?: number; gasPerDay?: string | number }>>
+  const budgets = { ...defaultDailyBudgets }
+  for (const [action, override] of Object.entries(overrides) as [SponsorAction, typeof overrides[SponsorAction]][]) {
+    if (!budgets[action] || !override) continue
+    budgets[action] = {
+      callsPerDay: override.callsPerDay ?? budgets[action].callsPerDay,
+      gasPerDay: override.gasPerDay !== undefined ? BigInt(override.gasPerDay) : budgets[action].gasPerDay,
+    }
+  }
+  return budgets
+}
+
+export const SPONSOR_DAILY_BUDGETS = parseDailyBudgets(process.env.SPONSOR_DAILY_BUDGETS)
+export const SPONSOR_CALLS_PER_MINUTE = Number(getEnv('SPONSOR_CALLS_PER_MINUTE', '20'))
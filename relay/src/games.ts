@@ -0,0 +1,176 @@
+import { randomInt, randomUUID } from 'node:crypto'
+import { bcs } from '@mysten/sui/bcs'
+import type { SuiClient } from '@mysten/sui/client'
+import { isValidSuiObjectId, normalizeStructTag, toBase64 } from '@mysten/sui/utils'
+import { sizeIndexOf } from 'fruit-merge-shared/chainGame'
+import { GameLogError, replayGame, type DropLog } from 'fruit-merge-shared/mergeGame'
+import { DecodeError, decodeGameSession, decodeObject, type GameSession as ChainGameSession } from 'fruit-merge-shared/objectDecoders'
+import { HttpError } from './http.ts'
+
+// Merge-game sessions. The relay picks each game's seed, so the fruits can't be chosen by the
+// player, and mints SEED only for what a replay of the game's drop log earns. Games played
+// against game.move are replayed with the fruits the contract dropped, and the relay signs
+// what they earned for the contract's harvest to check.
+
+interface GameSession {
+  player: string
+  seed: number
+  startedAt: number
+  /** SEED (whole units) already minted for this game */
+  minted: number
+  claiming: boolean
+}
+
+export interface GameClaim {
+  /** Digest of the mint, or null when the log earned nothing beyond earlier claims */
+  digest: string | null
+  /** What the whole game earned, as replayed */
+  verifiedSeeds: number
+  /** What this claim minted */
+  mintedSeeds: number
+}
+
+// A game log covers at most an hour; give the last claim some slack after that
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000
+
+// Prefix of the message game::complete_harvest checks the signature on
+const HARVEST_DOMAIN = new TextEncoder().encode('fruit_merge::harvest')
+
+export interface ChainHarvestApproval {
+  /** What the whole game earned, as replayed */
+  verifiedSeeds: number
+  /** The minter's raw Ed25519 public key, base64 */
+  publicKey: string
+  /** Its signature over the harvest message, base64 */
+  signature: string
+}
+
+/** What game::harvest_message builds: the domain, then the session ID and counts in BCS */
+function harvestMessage(sessionId: string, harvests: number, drops: number, verifiedSeeds: number): Uint8Array {
+  const parts = [
+    HARVEST_DOMAIN,
+    bcs.Address.serialize(sessionId).toBytes(),
+    bcs.u64().serialize(harvests).toBytes(),
+    bcs.u64().serialize(drops).toBytes(),
+    bcs.u64().serialize(verifiedSeeds).toBytes(),
+  ]
+  return Uint8Array.from(parts.flatMap((part) => [...part]))
+}
+
+export class GameSessions {
+  private readonly sessions = new Map<string, GameSession>()
+  private readonly mint: (recipient: string, seeds: number) => Promise<string>
+
+  /** @param mint - mints `seeds` SEED to `recipient` and returns the digest */
+  constructor(mint: (recipient: string, seeds: number) => Promise<string>) {
+    this.mint = mint
+  }
+
+  start(player: string): { sessionId: string; seed: number } {
+    this.prune()
+    const sessionId = randomUUID()
+    const seed = randomInt(0, 2 ** 32)
+    this.sessions.set(sessionId, { player, seed, startedAt: Date.now(), minted: 0, claiming: false })
+    return { sessionId, seed }
+  }
+
+  /**
+   * Replay `log` with the session's seed and mint what it earned beyond earlier claims.
+   * A game can be claimed several times as it goes on; each claim only mints the difference.
+   */
+  async claim(sessionId: string, log: DropLog): Promise<GameClaim> {
+    const session = this.sessions.get(sessionId)
+    if (!session || Date.now() - session.startedAt > SESSION_TTL_MS) {
+      throw new HttpError(404, 'GAME_NOT_FOUND', 'No such game session; start a new game')
+    }
+    if (session.claiming) {
+      throw new HttpError(409, 'CLAIM_IN_PROGRESS', 'Seeds for this game are already being minted')
+    }
+
+    let verifiedSeeds: number
+    try {
+      verifiedSeeds = replayGame(session.seed, log).seedsEarned
+    } catch (err) {
+      if (err instanceof GameLogError) throw new HttpError(400, 'INVALID_GAME_LOG', err.message)
+      throw err
+    }
+
+    const mintedSeeds = verifiedSeeds - session.minted
+    if (mintedSeeds <= 0) return { digest: null, verifiedSeeds, mintedSeeds: 0 }
+
+    session.claiming = true
+    try {
+      const digest = await this.mint(session.player, mintedSeeds)
+      session.minted = verifiedSeeds
+      return { digest, verifiedSeeds, mintedSeeds }
+    } finally {
+      session.claiming = false
+    }
+  }
+
+  private prune() {
+    const cutoff = Date.now() - SESSION_TTL_MS
+    for (const [id, session] of this.sessions) {
+      if (session.startedAt < cutoff) this.sessions.delete(id)
+    }
+  }
+}
+
+/**
+ * Approves harvests of games played against game.move. Merges there are reported by the
+ * player, so the contract only mints what the relay, as minter, signs that a replay earned.
+ */
+export class ChainHarvests {
+  private readonly client: SuiClient
+  private readonly sessionType: string
+  private readonly sign: (message: Uint8Array) => Promise<{ publicKey: Uint8Array; signature: Uint8Array }>
+
+  /**
+   * @param sessionType - The package's `game::GameSession` type
+   * @param sign - signs with the SeedAdminCap's minter key
+   */
+  constructor(
+    client: SuiClient,
+    sessionType: string,
+    sign: (message: Uint8Array) => Promise<{ publicKey: Uint8Array; signature: Uint8Array }>
+  ) {
+    this.client = client
+    this.sessionType = normalizeStructTag(sessionType)
+    this.sign = sign
+  }
+
+  /**
+   * Replay `log` with the fruits the session dropped and sign the seeds it earned. The session
+   * has to be waiting for its harvest, so it can't move on before the signature is used.
+   */
+  async approve(sessionId: string, log: DropLog): Promise<ChainHarvestApproval> {
+    if (!isValidSuiObjectId(sessionId)) throw new HttpError(404, 'GAME_NOT_FOUND', 'No such on-chain game session')
+    const response = await this.client.getObject({ id: sessionId, options: { showContent: true, showType: true } })
+    if (!response.data?.type || normalizeStructTag(response.data.type) !== this.sessionType) {
+      throw new HttpError(404, 'GAME_NOT_FOUND', 'No such on-chain game session')
+    }
+    let session: ChainGameSession
+    try {
+      session = decodeObject(response, decodeGameSession)
+    } catch (err) {
+      if (err instanceof DecodeError) throw new HttpError(404, 'GAME_NOT_FOUND', err.message)
+      throw err
+    }
+    if (!session.claimCompleted || session.gameOver) {
+      throw new HttpError(409, 'HARVEST_NOT_READY', 'The game is not waiting for its harvest')
+    }
+
+    let verifiedSeeds: number
+    try {
+      // The seed only deals fruits, and these came from the contract
+      verifiedSeeds = replayGame(0, log, session.dropped.map(sizeIndexOf)).seedsEarned
+    } catch (err) {
+      if (err instanceof GameLogError) throw new HttpError(400, 'INVALID_GAME_LOG', err.message)
+      throw err
+    }
+
+    const message = harvestMessage(session.id, session.harvests, session.dropped.length, verifiedSeeds)
+    const { publicKey, signature } = await this.sign(message)
+    return { verifiedSeeds, publicKey: toBase64(publicKey), signature: toBase64(signature) }
+  }
+}
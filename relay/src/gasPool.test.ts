@@ -0,0 +1,58 @@
+import type { SuiClient } from '@mysten/sui/client'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { describe, expect, it } from 'vitest'
+import { GasCoinPool, type GasCoinPoolOptions } from './gasPool.ts'
+
+// A sponsor wallet holding `count` coins that are already large enough for the pool
+function fundedClient(count: number): SuiClient {
+  const coins = Array.from({ length: count }, (_, i) => ({
+    coinObjectId: `0x${(i + 1).toString(16)}`,
+    version: '1',
+    digest: '11111111111111111111111111111111',
+    balance: '300000000',
+  }))
+  return { getCoins: async () => ({ data: coins, hasNextPage: false, nextCursor: null }) } as unknown as SuiClient
+}
+
+function newPool(options: Partial<GasCoinPoolOptions> = {}): GasCoinPool {
+  return new GasCoinPool(fundedClient(8), new Ed25519Keypair(), {
+    targetSize: 2,
+    coinBalance: 100_000_000n,
+    leaseTimeoutMs: 60_000,
+    signedLeaseTimeoutMs: 120_000,
+    maxLeasesPerHolder: 2,
+    maxSignedLeases: 3,
+    ...options,
+  })
+}
+
+describe('GasCoinPool', () => {
+  it('hands each lease its own coin', async () => {
+    const pool = newPool()
+    const first = await pool.lease('0xa')
+    const second = await pool.lease('0xb')
+    expect(first.coin.objectId).not.toBe(second.coin.objectId)
+  })
+
+  it('caps the leases one address holds until one is released', async () => {
+    const pool = newPool()
+    const first = await pool.lease('0xa')
+    await pool.lease('0xa')
+    await expect(pool.lease('0xa')).rejects.toMatchObject({ code: 'SPONSOR_BUSY' })
+    await expect(pool.lease('0xb')).resolves.toBeDefined()
+
+    pool.release(first)
+    await expect(pool.lease('0xa')).resolves.toBeDefined()
+  })
+
+  it('caps signed leases across all addresses', async () => {
+    const pool = newPool()
+    for (const [i, holder] of ['0xa', '0xb', '0xc'].entries()) {
+      pool.bindDigest(await pool.lease(holder), `digest-${i}`)
+    }
+    await expect(pool.lease('0xd')).rejects.toMatchObject({ code: 'SPONSOR_BUSY' })
+
+    expect(pool.releaseDigest('digest-1')).toBe(true)
+    await expect(pool.lease('0xd')).resolves.toBeDefined()
+  })
+})
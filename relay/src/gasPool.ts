@@ -0,0 +1,245 @@
+import type { CoinStruct, SuiClient, SuiObjectRef } from '@mysten/sui/client'
+import type { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { Transaction } from '@mysten/sui/transactions'
+import { HttpError } from './http.ts'
+
+// Gas reserved on the source coin for the refill transaction itself
+const REFILL_GAS_RESERVE = 50_000_000n
+// Max coins merged back in one refill; keeps the transaction well under input limits
+const MAX_DUST_MERGE = 100
+
+export interface GasCoinPoolOptions {
+  /** Number of free, funded coins the pool tries to keep ready */
+  targetSize: number
+  /** Balance (MIST) of each coin the pool splits off */
+  coinBalance: bigint
+  /** A lease that is never bound to a signed transaction returns to the pool after this long */
+  leaseTimeoutMs: number
+  /**
+   * A lease bound to a signed transaction waits this long for the client to report it executed
+   * or abandoned. The user may still be looking at their wallet, and a coin handed out again
+   * while that signature can still be submitted would make one of the two transactions fail.
+   * Keep it short: anyone can have transactions signed and never submit them.
+   */
+  signedLeaseTimeoutMs: number
+  /** Leases one address may hold at once */
+  maxLeasesPerHolder: number
+  /** Signed leases, across all addresses, that may wait for their transaction at once */
+  maxSignedLeases: number
+}
+
+/** A gas coin reserved for a single transaction */
+export interface GasLease {
+  coin: SuiObjectRef
+}
+
+interface PoolCoin {
+  ref: SuiObjectRef
+  balance: bigint
+  /** Lease expiry timestamp, null when the coin is free */
+  leasedUntil: number | null
+  /** Digest of the transaction the lease is used for, once known */
+  digest?: string
+  /** Address the lease was taken for */
+  holder?: string
+}
+
+/**
+ * Keeps a set of sponsor gas coins so concurrent sponsored transactions never share one.
+ * Each transaction leases a coin; the lease ends on completion or timeout. When few funded
+ * coins are free, the pool splits new ones off the largest coin and merges dust back into it.
+ */
+export class GasCoinPool {
+  private readonly client: SuiClient
+  private readonly keypair: Ed25519Keypair
+  private readonly owner: string
+  private readonly options: GasCoinPoolOptions
+  private readonly coins = new Map<string, PoolCoin>()
+  // Coin refs are stale once a leased coin was used, so resync before handing coins out
+  private isStale = true
+  private refilling: Promise<void> | null = null
+
+  constructor(client: SuiClient, keypair: Ed25519Keypair, options: GasCoinPoolOptions) {
+    this.client = client
+    this.keypair = keypair
+    this.owner = keypair.getPublicKey().toSuiAddress()
+    this.options = options
+  }
+
+  /**
+   * Reserve a funded gas coin for a transaction of `holder`; refills the pool first when it runs
+   * low. Throws SPONSOR_BUSY when `holder`, or everyone together, already has as many
+   * transactions waiting as the pool allows.
+   */
+  async lease(holder: string): Promise<GasLease> {
+    this.expireLeases()
+    this.assertLeasable(holder)
+    if (this.isStale) await this.sync()
+
+    // Refill before taking a coin: the refill splits off a free coin, and with a freshly funded
+    // wallet the only one is the coin this lease would otherwise take
+    if (this.freeCoins().length < this.options.targetSize / 2) await this.refill()
+    // Again, as other leases may have been taken while this one waited
+    this.assertLeasable(holder)
+    const coin = this.takeFreeCoin(holder)
+    if (!coin) {
+      throw new HttpError(503, 'SPONSOR_UNFUNDED', 'Sponsor wallet has no gas coins. Please fund the sponsor wallet.')
+    }
+    return { coin: coin.ref }
+  }
+
+  /**
+   * Remember which transaction a lease belongs to so it can be released by digest.
+   * The lease is extended until the client reports the transaction executed or abandoned.
+   */
+  bindDigest(lease: GasLease, digest: string): void {
+    const coin = this.coins.get(lease.coin.objectId)
+    if (!coin) return
+    coin.digest = digest
+    coin.leasedUntil = Date.now() + this.options.signedLeaseTimeoutMs
+  }
+
+  /**
+   * Return a leased coin to the pool.
+   * Pass the coin's new ref from the transaction effects when known; otherwise the pool resyncs.
+   */
+  release(lease: GasLease, newRef?: SuiObjectRef): void {
+    const coin = this.coins.get(lease.coin.objectId)
+    if (!coin) return
+    coin.leasedUntil = null
+    coin.digest = undefined
+    coin.holder = undefined
+    if (newRef) {
+      coin.ref = newRef
+    } else {
+      this.isStale = true
+    }
+  }
+
+  /** Release whichever lease was used for the given transaction digest */
+  releaseDigest(digest: string): boolean {
+    for (const coin of this.coins.values()) {
+      if (coin.digest === digest) {
+        this.release({ coin: coin.ref })
+        return true
+      }
+    }
+    return false
+  }
+
+  // Leases are handed out freely, but signing costs nothing to ask for, so cap what is waiting
+  private assertLeasable(holder: string): void {
+    const leased = [...this.coins.values()].filter((c) => c.leasedUntil !== null)
+    if (leased.filter((c) => c.holder === holder).length >= this.options.maxLeasesPerHolder) {
+      throw new HttpError(503, 'SPONSOR_BUSY', 'Too many sponsored transactions are waiting for this address. You can still pay gas yourself.')
+    }
+    if (leased.filter((c) => c.digest !== undefined).length >= this.options.maxSignedLeases) {
+      throw new HttpError(503, 'SPONSOR_BUSY', 'Too many sponsored transactions are waiting. You can still pay gas yourself.')
+    }
+  }
+
+  private freeCoins(): PoolCoin[] {
+    const minBalance = this.options.coinBalance / 4n
+    return [...this.coins.values()].filter((c) => c.leasedUntil === null && c.balance >= minBalance)
+  }
+
+  // Smallest sufficient coin first so big coins stay available as refill sources
+  private takeFreeCoin(holder: string): PoolCoin | null {
+    const coin = this.freeCoins().sort((a, b) => (a.balance < b.balance ? -1 : a.balance > b.balance ? 1 : 0))[0]
+    if (!coin) return null
+    coin.leasedUntil = Date.now() + this.options.leaseTimeoutMs
+    coin.holder = holder
+    return coin
+  }
+
+  private expireLeases(): void {
+    const now = Date.now()
+    for (const coin of this.coins.values()) {
+      if (coin.leasedUntil !== null && coin.leasedUntil <= now) {
+        coin.leasedUntil = null
+        coin.digest = undefined
+        coin.holder = undefined
+        this.isStale = true
+      }
+    }
+  }
+
+  private async listSponsorCoins(): Promise<CoinStruct[]> {
+    const coins: CoinStruct[] = []
+    let cursor: string | null | undefined = null
+    do {
+      const page = await this.client.getCoins({ owner: this.owner, cursor })
+      coins.push(...page.data)
+      cursor = page.hasNextPage ? page.nextCursor : null
+    } while (cursor)
+    return coins
+  }
+
+  // Reload coin refs and balances from chain, keeping leases that are still active
+  private async sync(): Promise<void> {
+    const onChain = await this.listSponsorCoins()
+    const seen = new Set<string>()
+    for (const c of onChain) {
+      seen.add(c.coinObjectId)
+      const existing = this.coins.get(c.coinObjectId)
+      const ref = { objectId: c.coinObjectId, version: c.version, digest: c.digest }
+      if (existing?.leasedUntil != null) continue
+      this.coins.set(c.coinObjectId, { ref, balance: BigInt(c.balance), leasedUntil: null })
+    }
+    for (const [objectId, coin] of this.coins) {
+      if (!seen.has(objectId) && coin.leasedUntil === null) this.coins.delete(objectId)
+    }
+    this.isStale = false
+  }
+
+  // Only one refill at a time; concurrent callers wait for the running one
+  private refill(): Promise<void> {
+    this.refilling ??= this.runRefill().finally(() => {
+      this.refilling = null
+    })
+    return this.refilling
+  }
+
+  private async runRefill(): Promise<void> {
+    await this.sync()
+
+    const missing = this.options.targetSize - this.freeCoins().length
+    if (missing <= 0) return
+
+    const free = [...this.coins.values()].filter((c) => c.leasedUntil === null)
+    const source = free.sort((a, b) => (a.balance > b.balance ? -1 : a.balance < b.balance ? 1 : 0))[0]
+    if (!source) return
+
+    const splittable = (source.balance - REFILL_GAS_RESERVE) / this.options.coinBalance
+    const count = Math.min(missing, Number(splittable > 0n ? splittable : 0n))
+    const minBalance = this.options.coinBalance / 4n
+    const dust = free.filter((c) => c !== source && c.balance < minBalance).slice(0, MAX_DUST_MERGE)
+    if (count === 0 && dust.length === 0) return
+
+    // Dust coins passed as extra gas payment are merged into the source coin
+    source.leasedUntil = Date.now() + this.options.leaseTimeoutMs
+    dust.forEach((c) => { c.leasedUntil = source.leasedUntil })
+    try {
+      const tx = new Transaction()
+      tx.setSender(this.owner)
+      tx.setGasPayment([source.ref, ...dust.map((c) => c.ref)])
+      if (count > 0) {
+        const split = tx.splitCoins(tx.gas, Array.from({ length: count }, () => this.options.coinBalance))
+        tx.transferObjects(Array.from({ length: count }, (_, i) => split[i]), this.owner)
+      }
+
+      const result = await this.client.signAndExecuteTransaction({
+        signer: this.keypair,
+        transaction: tx,
+        options: { showEffects: true },
+      })
+      await this.client.waitForTransaction({ digest: result.digest })
+    } catch (err) {
+      console.error('Gas pool refill failed:', err)
+    } finally {
+      source.leasedUntil = null
+      dust.forEach((c) => { c.leasedUntil = null })
+      await this.sync()
+    }
+  }
+}
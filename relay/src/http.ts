@@ -0,0 +1,51 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { RELAY_ALLOWED_ORIGIN } from './config.ts'
+
+const MAX_BODY_BYTES = 256 * 1024
+
+/**
+ * Error with an HTTP status and a machine-readable code.
+ * The frontend surfaces `code` to decide how to react, `message` to show it.
+ */
+export class HttpError extends Error {
+  readonly status: number
+  readonly code: string
+  /** Extra structured detail sent alongside the message, e.g. a policy rejection */
+  readonly details?: unknown
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': RELAY_ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  })
+  res.end(JSON.stringify(body))
+}
+
+export async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'BODY_TOO_LARGE', 'Request body too large')
+    }
+    chunks.push(chunk as Buffer)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T
+  } catch {
+    throw new HttpError(400, 'INVALID_JSON', 'Request body is not valid JSON')
+  }
+}
@@ -0,0 +1,139 @@
+import { createServer } from 'node:http'
+import { fromBase64, isValidSuiAddress } from '@mysten/sui/utils'
+import type { DropLog } from 'fruit-merge-shared/mergeGame'
+import { PACKAGE_ID, RELAY_PORT, SUI_NETWORK } from './config.ts'
+import { HttpError, readJson, sendJson } from './http.ts'
+import { ChainHarvests, GameSessions } from './games.ts'
+import {
+  completeSponsoredTransaction,
+  executeAsSponsor,
+  mintVerifiedSeeds,
+  signAsMinter,
+  sponsorAddress,
+  sponsorClient,
+  sponsorTransactionKind,
+} from './sponsor.ts'
+
+interface SponsorRequest {
+  sender?: string
+  transactionKindBytes?: string
+}
+
+interface ExecuteRequest {
+  transactionKindBytes?: string
+}
+
+interface CompleteRequest {
+  digest?: string
+}
+
+interface GameStartRequest {
+  player?: string
+}
+
+interface GameClaimRequest {
+  sessionId?: string
+  log?: DropLog
+}
+
+const games = new GameSessions(mintVerifiedSeeds)
+const chainHarvests = new ChainHarvests(sponsorClient, `${PACKAGE_ID}::game::GameSession`, signAsMinter)
+
+function decodeKindBytes(value: string | undefined): Uint8Array {
+  if (!value) {
+    throw new HttpError(400, 'MISSING_TRANSACTION', 'transactionKindBytes is required')
+  }
+  try {
+    return fromBase64(value)
+  } catch {
+    throw new HttpError(400, 'INVALID_TRANSACTION', 'transactionKindBytes must be base64')
+  }
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      sendJson(res, 204, null)
+      return
+    }
+
+    // Health check, also tells the frontend which sponsor it is talking to
+    if (req.method === 'GET' && req.url === '/health') {
+      sendJson(res, 200, { address: sponsorAddress, network: SUI_NETWORK })
+      return
+    }
+
+    // User is the sender, sponsor only pays gas and returns its signature
+    if (req.method === 'POST' && req.url === '/sponsor') {
+      const body = await readJson<SponsorRequest>(req)
+      if (!body.sender || !isValidSuiAddress(body.sender)) {
+        throw new HttpError(400, 'INVALID_SENDER', 'sender must be a valid Sui address')
+      }
+      const kindBytes = decodeKindBytes(body.transactionKindBytes)
+      sendJson(res, 200, await sponsorTransactionKind(body.sender, kindBytes))
+      return
+    }
+
+    // Sponsor is both sender and payer, no user signature involved
+    if (req.method === 'POST' && req.url === '/execute') {
+      const body = await readJson<ExecuteRequest>(req)
+      const kindBytes = decodeKindBytes(body.transactionKindBytes)
+      sendJson(res, 200, await executeAsSponsor(kindBytes))
+      return
+    }
+
+    // Client is done with a sponsored transaction (executed or abandoned), free its gas coin
+    if (req.method === 'POST' && req.url === '/complete') {
+      const body = await readJson<CompleteRequest>(req)
+      if (!body.digest) {
+        throw new HttpError(400, 'MISSING_DIGEST', 'digest is required')
+      }
+      sendJson(res, 200, { released: completeSponsoredTransaction(body.digest) })
+      return
+    }
+
+    // A merge game starts: the relay picks its seed, SEED is later minted to `player`
+    if (req.method === 'POST' && req.url === '/game/start') {
+      const body = await readJson<GameStartRequest>(req)
+      if (!body.player || !isValidSuiAddress(body.player)) {
+        throw new HttpError(400, 'INVALID_PLAYER', 'player must be a valid Sui address')
+      }
+      sendJson(res, 200, games.start(body.player))
+      return
+    }
+
+    // Mint the SEED a game's drop log earns, as verified by replaying it
+    if (req.method === 'POST' && req.url === '/game/claim') {
+      const body = await readJson<GameClaimRequest>(req)
+      if (!body.sessionId || !body.log) {
+        throw new HttpError(400, 'MISSING_GAME_LOG', 'sessionId and log are required')
+      }
+      sendJson(res, 200, await games.claim(body.sessionId, body.log))
+      return
+    }
+
+    // Sign what an on-chain game earned, for game::complete_harvest to mint
+    if (req.method === 'POST' && req.url === '/game/chain-harvest') {
+      const body = await readJson<GameClaimRequest>(req)
+      if (!body.sessionId || !body.log) {
+        throw new HttpError(400, 'MISSING_GAME_LOG', 'sessionId and log are required')
+      }
+      sendJson(res, 200, await chainHarvests.approve(body.sessionId, body.log))
+      return
+    }
+
+    throw new HttpError(404, 'NOT_FOUND', `No route for ${req.method} ${req.url}`)
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { code: err.code, error: err.message, details: err.details })
+      return
+    }
+    console.error('Sponsor relay error:', err)
+    const message = err instanceof Error ? err.message : String(err)
+    sendJson(res, 500, { code: 'SPONSOR_FAILED', error: message })
+  }
+})
+
+server.listen(RELAY_PORT, () => {
+  console.log(`Sponsor relay for ${sponsorAddress} (${SUI_NETWORK}) listening on :${RELAY_PORT}`)
+})
@@ -0,0 +1,217 @@
+import { SuiClient, type SuiTransactionBlockResponse, type TransactionEffects } from '@mysten/sui/client'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { Transaction } from '@mysten/sui/transactions'
+import { decodeSuiPrivateKey } from '@mysten/sui/cryptography'
+import { evaluateSponsorPolicy, type SponsorAction, type SponsorMode } from 'fruit-merge-shared/policy'
+import {
+  ALLOW_DIRECT_MINTS,
+  GAS_COIN_BALANCE,
+  GAS_LEASE_TIMEOUT_MS,
+  GAS_MAX_LEASES_PER_SENDER,
+  GAS_MAX_SIGNED_LEASES,
+  GAS_POOL_SIZE,
+  GAS_SIGNED_LEASE_TIMEOUT_MS,
+  PACKAGE_ID,
+  SEED_ADMIN_CAP,
+  SPONSOR_CALLS_PER_MINUTE,
+  SPONSOR_DAILY_BUDGETS,
+  SPONSOR_PRIVATE_KEY,
+  SUI_FULLNODE_URL,
+} from './config.ts'
+import { SponsorBudget } from './budget.ts'
+import { GasCoinPool, type GasLease } from './gasPool.ts'
+import { HttpError } from './http.ts'
+
+// Decode once at startup so a bad key fails fast instead of on the first request
+const sponsorKeypair = (() => {
+  const { secretKey } = decodeSuiPrivateKey(SPONSOR_PRIVATE_KEY)
+  return Ed25519Keypair.fromSecretKey(secretKey)
+})()
+
+export const sponsorAddress = sponsorKeypair.getPublicKey().toSuiAddress()
+
+export const sponsorClient = new SuiClient({ url: SUI_FULLNODE_URL })
+
+// Each in-flight transaction gets its own gas coin, so concurrent ones don't conflict
+const gasPool = new GasCoinPool(sponsorClient, sponsorKeypair, {
+  targetSize: GAS_POOL_SIZE,
+  coinBalance: GAS_COIN_BALANCE,
+  leaseTimeoutMs: GAS_LEASE_TIMEOUT_MS,
+  signedLeaseTimeoutMs: GAS_SIGNED_LEASE_TIMEOUT_MS,
+  maxLeasesPerHolder: GAS_MAX_LEASES_PER_SENDER,
+  maxSignedLeases: GAS_MAX_SIGNED_LEASES,
+})
+
+const budget = new SponsorBudget({
+  daily: SPONSOR_DAILY_BUDGETS,
+  callsPerMinute: SPONSOR_CALLS_PER_MINUTE,
+})
+
+// How long to wait for a reported transaction before treating it as never executed
+const SETTLE_TIMEOUT_MS = 30_000
+
+const SEED_DECIMALS = 1_000_000_000n
+
+// How gas selection and the build's dry run fail when the sponsor's coins can't cover the budget
+const INSUFFICIENT_GAS = /InsufficientGas|GasBalanceTooLow|InsufficientCoinBalance|lower than the needed amount|gas selection/i
+
+// Report a sponsor that ran short of gas as unfunded, so the client pays its own gas instead
+function asUnfunded(err: unknown): unknown {
+  const message = err instanceof Error ? err.message : String(err)
+  if (err instanceof HttpError || !INSUFFICIENT_GAS.test(message)) return err
+  return new HttpError(503, 'SPONSOR_UNFUNDED', `Sponsor wallet cannot cover the gas: ${message}`)
+}
+
+// Refuse to sign anything the sponsorship policy does not allow
+function assertSponsorable(tx: Transaction, mode: SponsorMode): { actions: SponsorAction[]; beneficiary?: string } {
+  const decision = evaluateSponsorPolicy(tx.getData(), mode, {
+    packageId: PACKAGE_ID,
+    adminCapId: SEED_ADMIN_CAP,
+    allowDirectMints: ALLOW_DIRECT_MINTS,
+  })
+  if (!decision.approved) {
+    throw new HttpError(403, 'POLICY_REJECTED', decision.rejection.message, decision.rejection)
+  }
+  return decision
+}
+
+function gasUsed(effects: TransactionEffects): bigint {
+  const { computationCost, storageCost, storageRebate } = effects.gasUsed
+  const used = BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate)
+  return used > 0n ? used : 0n
+}
+
+/**
+ * Sponsor a transaction sent by a user.
+ * The sponsor pays for gas; the user still has to sign the returned bytes.
+ *
+ * @param sender - The user's address (transaction sender)
+ * @param transactionKindBytes - The transaction bytes built with onlyTransactionKind: true
+ * @returns The full transaction bytes, the sponsor signature over them and the transaction digest
+ */
+export async function sponsorTransactionKind(
+  sender: string,
+  transactionKindBytes: Uint8Array
+): Promise<{ bytes: string; signature: string; digest: string }> {
+  const tx = Transaction.fromKind(transactionKindBytes)
+  const { actions } = assertSponsorable(tx, 'user')
+  const reservation = budget.reserve(sender, actions)
+
+  let lease: GasLease | undefined
+  try {
+    lease = await gasPool.lease(sender)
+    tx.setSender(sender)
+    tx.setGasOwner(sponsorAddress)
+    tx.setGasPayment([lease.coin])
+
+    const builtTx = await tx.build({ client: sponsorClient })
+    const signed = await sponsorKeypair.signTransaction(builtTx)
+    const digest = await tx.getDigest()
+
+    // The lease lives until the client reports completion (or it times out)
+    gasPool.bindDigest(lease, digest)
+    budget.charge(reservation, BigInt(tx.getData().gasData.budget ?? 0), digest)
+    return { ...signed, digest }
+  } catch (err) {
+    if (lease) gasPool.release(lease)
+    budget.refund(reservation)
+    throw asUnfunded(err)
+  }
+}
+
+/**
+ * Return the gas coin of a sponsored transaction to the pool once it was executed or abandoned.
+ *
+ * @returns Whether a lease was found for the digest
+ */
+export function completeSponsoredTransaction(digest: string): boolean {
+  const released = gasPool.releaseDigest(digest)
+  if (released) {
+    // Settle the sender's budget with the real gas cost in the background
+    sponsorClient
+      .waitForTransaction({ digest, timeout: SETTLE_TIMEOUT_MS, options: { showEffects: true } })
+      .then((result) => budget.settle(digest, result.effects ? gasUsed(result.effects) : null))
+      .catch(() => budget.settle(digest, null))
+  }
+  return released
+}
+
+/**
+ * Execute a transaction where the sponsor is both sender AND payer.
+ * Used for operations that don't touch user-owned objects (e.g. minting SEED).
+ *
+ * @param transactionKindBytes - The transaction bytes built with onlyTransactionKind: true
+ */
+export async function executeAsSponsor(
+  transactionKindBytes: Uint8Array
+): Promise<SuiTransactionBlockResponse> {
+  const tx = Transaction.fromKind(transactionKindBytes)
+  const { actions, beneficiary } = assertSponsorable(tx, 'sponsor')
+  // Sponsor-sent calls are charged to the user they benefit
+  return executeSentBySponsor(tx, beneficiary ?? sponsorAddress, actions)
+}
+
+/**
+ * Mint SEED to `recipient` for a verified game claim (see games.ts), charged to their mint budget.
+ *
+ * @param seeds - Whole SEED
+ * @returns The mint's digest
+ */
+export async function mintVerifiedSeeds(recipient: string, seeds: number): Promise<string> {
+  const tx = new Transaction()
+  tx.moveCall({
+    target: `${PACKAGE_ID}::seed::mint_seeds`,
+    arguments: [tx.object(SEED_ADMIN_CAP), tx.pure.u64(BigInt(seeds) * SEED_DECIMALS), tx.pure.address(recipient)],
+  })
+  const result = await executeSentBySponsor(tx, recipient, ['mint'])
+  if (result.effects?.status.status !== 'success') {
+    throw new HttpError(500, 'MINT_FAILED', `Minting SEED failed: ${result.effects?.status.error ?? 'unknown error'}`)
+  }
+  return result.digest
+}
+
+/**
+ * Sign `message` with the sponsor key, as the SeedAdminCap's minter (see seed::set_minter).
+ * game::complete_harvest checks such a signature before it mints.
+ *
+ * @returns The raw Ed25519 public key and signature
+ */
+export async function signAsMinter(message: Uint8Array): Promise<{ publicKey: Uint8Array; signature: Uint8Array }> {
+  return { publicKey: sponsorKeypair.getPublicKey().toRawBytes(), signature: await sponsorKeypair.sign(message) }
+}
+
+async function executeSentBySponsor(
+  tx: Transaction,
+  chargedAddress: string,
+  actions: SponsorAction[]
+): Promise<SuiTransactionBlockResponse> {
+  const reservation = budget.reserve(chargedAddress, actions)
+
+  let lease: GasLease | undefined
+  try {
+    lease = await gasPool.lease(chargedAddress)
+    tx.setSender(sponsorAddress)
+    tx.setGasOwner(sponsorAddress)
+    tx.setGasPayment([lease.coin])
+
+    const builtTx = await tx.build({ client: sponsorClient })
+    const signedTx = await sponsorKeypair.signTransaction(builtTx)
+    const options = { showEffects: true, showEvents: true, showObjectChanges: true }
+
+    const result = await sponsorClient
+      .executeTransactionBlock({ transactionBlock: signedTx.bytes, signature: signedTx.signature, options })
+      // The submission may have failed after the transaction got through; don't report a
+      // failure, and have it retried, for something that happened
+      .catch(async (err) => {
+        const digest = await tx.getDigest()
+        return sponsorClient.waitForTransaction({ digest, timeout: SETTLE_TIMEOUT_MS, options }).catch(() => { throw err })
+      })
+    gasPool.release(lease, result.effects?.gasObject.reference)
+    budget.charge(reservation, result.effects ? gasUsed(result.effects) : 0n)
+    return result
+  } catch (err) {
+    if (lease) gasPool.release(lease)
+    budget.refund(reservation)
+    throw asUnfunded(err)
+  }
+}
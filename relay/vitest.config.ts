@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    // config.ts requires these at import; the tests never reach the network or the key
+    env: { SPONSOR_PRIVATE_KEY: 'unused', PACKAGE_ID: '0x1', SEED_ADMIN_CAP: '0x2' },
+  },
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { ChainFruits, chainLevel, replayChainGame } from './chainGame'
+import { MergeGame, boardForViewport, replayGame } from './mergeGame'
+
+describe('ChainFruits', () => {
+  it('reports the indices merge_fruits takes and applies the merge like the contract', () => {
+    const fruits = new ChainFruits([1, 2, 1, 3, 2])
+    expect(fruits.merge(1)).toEqual([0, 2])
+    expect(fruits.toArray()).toEqual([2, 3, 2, 2])
+    expect(fruits.merge(2)).toEqual([0, 2])
+    expect(fruits.toArray()).toEqual([3, 2, 3])
+  })
+
+  it('keeps two merged watermelons at the top level', () => {
+    const fruits = new ChainFruits([10, 10])
+    fruits.merge(10)
+    expect(fruits.toArray()).toEqual([10])
+  })
+
+  it('has nothing to report when the chain lacks a pair', () => {
+    const fruits = new ChainFruits([1, 2])
+    expect(fruits.merge(1)).toBeNull()
+    expect(fruits.merge(3)).toBeNull()
+    expect(fruits.toArray()).toEqual([1, 2])
+  })
+})
+
+describe('replayChainGame', () => {
+  const BOARD = boardForViewport(1280, 900)
+
+  it('drops the fruits the chain picked after the last save, so the harvest replay lines up', () => {
+    const fruits = Array.from({ length: 12 }, (_, i) => i % 3)
+    const game = new MergeGame(3, BOARD)
+    for (const [i, sizeIndex] of fruits.entries()) {
+      game.drop(BOARD.width / 2 + ((i % 5) - 2) * 60, sizeIndex)
+      for (let t = 0; t < 40; t++) game.step()
+    }
+    const saved = game.log()
+
+    // The page reloaded while drop_fruit was landing: the session holds one more fruit
+    const dropped = [...fruits, 1].map(chainLevel)
+    const restored = replayChainGame(3, saved, dropped)
+    expect(restored.log().drops).toHaveLength(dropped.length)
+    expect(restored.log().drops.slice(0, saved.drops.length)).toEqual(saved.drops)
+
+    // What the relay replays before signing the harvest
+    expect(replayGame(0, restored.log(), [...fruits, 1])).toEqual(restored.result())
+  })
+
+  it('replays a game the chain has nothing newer for as it was', () => {
+    const game = new MergeGame(3, BOARD)
+    game.drop(BOARD.width / 2, 2)
+    for (let t = 0; t < 40; t++) game.step()
+    const restored = replayChainGame(3, game.log(), [3])
+    expect(restored.log()).toEqual(game.log())
+  })
+})
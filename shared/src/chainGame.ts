@@ -0,0 +1,69 @@
+import type { SuiEvent } from '@mysten/sui/client'
+import { DROP_COOLDOWN_TICKS, MergeGame, type DropLog } from './mergeGame'
+
+// game.move keeps its own record of the board: a vector of fruit levels (1-10) that drop_fruit
+// pushes onto and merge_fruits takes two equal levels out of, by index. The page runs the
+// physics and mirrors that vector here to know which indices to report.
+
+const MAX_FRUIT_LEVEL = 10
+
+/** The contract's level for a MergeGame size index */
+export const chainLevel = (sizeIndex: number) => sizeIndex + 1
+
+/** The MergeGame size index for a level from the contract */
+export const sizeIndexOf = (level: number) => level - 1
+
+/** Mirror of GameSession.current_fruits */
+export class ChainFruits {
+  private readonly levels: number[]
+
+  constructor(levels: number[] = []) {
+    this.levels = [...levels]
+  }
+
+  /** A fruit drop_fruit put on the board */
+  add(level: number) {
+    this.levels.push(level)
+  }
+
+  /**
+   * The indices to pass to merge_fruits for two fruits of `level`, applied the way the
+   * contract applies them; null when the chain doesn't hold two fruits of that level.
+   */
+  merge(level: number): [number, number] | null {
+    const first = this.levels.indexOf(level)
+    const second = first < 0 ? -1 : this.levels.indexOf(level, first + 1)
+    if (second < 0) return null
+    this.levels.splice(second, 1)
+    this.levels.splice(first, 1)
+    // Unlike the page, the contract keeps two merged watermelons a watermelon
+    this.levels.push(Math.min(level + 1, MAX_FRUIT_LEVEL))
+    return [first, second]
+  }
+
+  toArray(): number[] {
+    return [...this.levels]
+  }
+}
+
+/** Fields of the first `events::${name}` event the game's package emitted, if any */
+export function gameEvent(events: unknown, packageId: string, name: string): Record<string, unknown> | null {
+  const event = (events as SuiEvent[] | undefined)?.find((e) => e.type === `${packageId}::events::${name}`)
+  return (event?.parsedJson as Record<string, unknown> | undefined) ?? null
+}
+
+/**
+ * Put an on-chain game back after a reload by replaying `log` with the levels the session's
+ * `dropped` lists. A fruit drop_fruit picked after the log was saved never reached the board;
+ * it drops now, in the middle, so the log again has one drop per fruit the session holds and
+ * the relay's replay for the harvest lines up with it.
+ */
+export function replayChainGame(seed: number, log: DropLog, dropped: number[]): MergeGame {
+  const fruits = dropped.map(sizeIndexOf)
+  const game = MergeGame.replay(seed, log, fruits.slice(0, log.drops.length))
+  for (const sizeIndex of fruits.slice(log.drops.length)) {
+    for (let t = 0; t < DROP_COOLDOWN_TICKS && !game.canDrop(); t++) game.step()
+    if (!game.drop(game.board.width / 2, sizeIndex)) break
+  }
+  return game
+}
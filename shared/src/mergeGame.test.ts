@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { DROP_COOLDOWN_TICKS, GameLogError, MergeGame, boardForViewport, replayGame, type DropLog } from './mergeGame'
+
+const BOARD = boardForViewport(1280, 900)
+
+/** Drop a fruit every `every` ticks, sweeping across the board, for `drops` drops */
+function play(seed: number, drops: number, every = 40): MergeGame {
+  const game = new MergeGame(seed, BOARD)
+  for (let i = 0; i < drops && !game.isOver; i++) {
+    game.drop(BOARD.width / 2 + ((i % 5) - 2) * 60)
+    for (let t = 0; t < every; t++) game.step()
+  }
+  return game
+}
+
+describe('MergeGame', () => {
+  it('deals the same fruits for the same seed', () => {
+    const sequence = (seed: number) => {
+      const game = new MergeGame(seed, BOARD)
+      return Array.from({ length: 20 }, () => {
+        const fruit = game.currentFruit
+        game.drop(BOARD.width / 2)
+        for (let t = 0; t < DROP_COOLDOWN_TICKS; t++) game.step()
+        return fruit
+      })
+    }
+    expect(sequence(7)).toEqual(sequence(7))
+    expect(sequence(7)).not.toEqual(sequence(8))
+  })
+
+  it('replays a drop log to the same score and seeds', () => {
+    const game = play(42, 60)
+    expect(game.score).toBeGreaterThan(0)
+
+    // Through JSON, as the log travels to the relay
+    const log = JSON.parse(JSON.stringify(game.log())) as DropLog
+    expect(replayGame(42, log)).toEqual(game.result())
+  })
+
+  it('earns a different result when replayed with another seed', () => {
+    const game = play(42, 60)
+    expect(replayGame(43, game.log())).not.toEqual(game.result())
+  })
+
+  it('replays a game whose fruits came from the contract only with those fruits', () => {
+    const fruits = Array.from({ length: 40 }, (_, i) => i % 3)
+    const game = new MergeGame(9, BOARD)
+    for (const [i, sizeIndex] of fruits.entries()) {
+      game.drop(BOARD.width / 2 + ((i % 5) - 2) * 60, sizeIndex)
+      for (let t = 0; t < 40; t++) game.step()
+    }
+
+    expect(replayGame(9, game.log(), fruits)).toEqual(game.result())
+    expect(replayGame(9, game.log())).not.toEqual(game.result())
+    expect(() => replayGame(9, game.log(), fruits.slice(1))).toThrow(GameLogError)
+  })
+
+  it('restores a saved game mid-play so it goes on as it would have', () => {
+    const game = play(5, 20)
+    // Through JSON, as the seed and log are saved to localStorage
+    const saved = JSON.parse(JSON.stringify({ seed: game.seed, log: game.log() })) as { seed: number; log: DropLog }
+    const restored = MergeGame.replay(saved.seed, saved.log)
+    expect(restored.tick).toBe(game.tick)
+    expect(restored.currentFruit).toBe(game.currentFruit)
+    expect(restored.nextFruit).toBe(game.nextFruit)
+    const positions = (g: MergeGame) => g.fruits().map(({ sizeIndex, position }) => ({ sizeIndex, ...position }))
+    expect(positions(restored)).toEqual(positions(game))
+
+    for (const next of [game, restored]) {
+      for (let i = 0; i < 20 && !next.isOver; i++) {
+        next.drop(BOARD.width / 2 + ((i % 3) - 1) * 90)
+        for (let t = 0; t < 40; t++) next.step()
+      }
+    }
+    expect(restored.log()).toEqual(game.log())
+    expect(restored.result()).toEqual(game.result())
+    // What the relay mints by
+    expect(replayGame(5, restored.log())).toEqual(restored.result())
+  })
+})
+
+describe('replayGame', () => {
+  const validLog = (): DropLog => play(1, 3).log()
+
+  it('rejects drops closer together than the cooldown', () => {
+    const log = validLog()
+    log.drops[1].tick = log.drops[0].tick + DROP_COOLDOWN_TICKS - 1
+    expect(() => replayGame(1, log)).toThrow(GameLogError)
+  })
+
+  it('rejects drops out of order or past the end of the game', () => {
+    const reversed = validLog()
+    reversed.drops.reverse()
+    expect(() => replayGame(1, reversed)).toThrow(/out of order/)
+
+    const late = validLog()
+    late.endTick = late.drops.at(-1)!.tick - 1
+    expect(() => replayGame(1, late)).toThrow(/out of order/)
+  })
+
+  it('rejects a board the game never lays out', () => {
+    const log = validLog()
+    log.board = { width: 2000, height: 300, scale: 3 }
+    expect(() => replayGame(1, log)).toThrow(/board size/)
+  })
+})
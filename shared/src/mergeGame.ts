@@ -0,0 +1,317 @@
+import Matter from 'matter-js'
+import { SeededRandom } from './random'
+
+// The merge game's rules and physics without any drawing. The page plays it live; the relay
+// replays a game's drop log through the same code to work out the seeds it really earned.
+// Nothing here may read the clock or Math.random, or the replay would drift from the game.
+
+/** Length of one physics step. The game only advances in whole steps, so ticks are its clock */
+export const STEP_MS = 1000 / 60
+/** Ticks between two drops (500ms) */
+export const DROP_COOLDOWN_TICKS = 30
+/** A fruit has to be in play this long (2s) before it can end the game */
+const LOSE_GRACE_TICKS = 120
+/** Longest game a log may describe, an hour */
+export const MAX_GAME_TICKS = 60 * 60 * 60
+export const MAX_DROPS = 3000
+
+export const WALL_THICKNESS = 20
+export const PREVIEW_Y = 50
+
+/** Per size index: the fruit's radius at scale 1 and the points a merge of two of them scores */
+export const FRUIT_SIZES = [
+  { radius: 32, scoreValue: 1 },
+  { radius: 44, scoreValue: 3 },
+  { radius: 58, scoreValue: 6 },
+  { radius: 72, scoreValue: 10 },
+  { radius: 88, scoreValue: 15 },
+  { radius: 106, scoreValue: 21 },
+  { radius: 124, scoreValue: 28 },
+  { radius: 144, scoreValue: 36 },
+  { radius: 166, scoreValue: 45 },
+  { radius: 195, scoreValue: 55 },
+]
+
+const FRICTION = {
+  friction: 0.005,
+  frictionStatic: 0.005,
+  frictionAir: 0,
+  restitution: 0.5,
+}
+
+/** The playing field in pixels; fruit radii are multiplied by `scale` */
+export interface Board {
+  width: number
+  height: number
+  scale: number
+}
+
+export interface Drop {
+  /** Where the fruit was let go, in board pixels */
+  x: number
+  /** When, in physics steps since the game started */
+  tick: number
+}
+
+/** Everything besides the seed needed to replay a game */
+export interface DropLog {
+  board: Board
+  drops: Drop[]
+  /** The tick the game had reached when the log was taken */
+  endTick: number
+}
+
+export interface GameResult {
+  score: number
+  seedsEarned: number
+  isOver: boolean
+}
+
+/** A drop log that doesn't describe a game the rules allow */
+export class GameLogError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GameLogError'
+  }
+}
+
+export interface FruitBody extends Matter.Body {
+  sizeIndex: number
+  popped: boolean
+  /** Tick the fruit was dropped or merged into being */
+  droppedAt: number
+}
+
+const isFruit = (body: Matter.Body): body is FruitBody => body.label === 'fruit'
+
+const DESKTOP_BOARD: Board = { width: 900, height: 800, scale: 1 }
+const MOBILE_MIN_WIDTH = 280
+const MOBILE_MAX_WIDTH = 450
+const MOBILE_MAX_HEIGHT = 2000
+
+/** The board the page lays out for a viewport */
+export function boardForViewport(viewportWidth: number, viewportHeight: number): Board {
+  if (viewportWidth >= 768) return DESKTOP_BOARD
+  const width = Math.max(MOBILE_MIN_WIDTH, Math.min(viewportWidth * 0.95, MOBILE_MAX_WIDTH))
+  const height = Math.min(MOBILE_MAX_HEIGHT, Math.max(500, viewportHeight * 0.65))
+  return { width, height, scale: Math.min(1, width / 400) }
+}
+
+/** Whether `boardForViewport` could have produced the board */
+export function isValidBoard({ width, height, scale }: Board): boolean {
+  if (width === DESKTOP_BOARD.width && height === DESKTOP_BOARD.height && scale === DESKTOP_BOARD.scale) return true
+  return width >= MOBILE_MIN_WIDTH && width <= MOBILE_MAX_WIDTH
+    && height >= 500 && height <= MOBILE_MAX_HEIGHT
+    && scale === Math.min(1, width / 400)
+}
+
+/** Size index of the next fruit to drop: only the five smallest, small ones more often */
+function droppableFruitIndex(random: SeededRandom): number {
+  const rand = random.nextU32() / 2 ** 32
+  if (rand < 0.30) return 0
+  if (rand < 0.55) return 1
+  if (rand < 0.75) return 2
+  if (rand < 0.90) return 3
+  return 4
+}
+
+/** SEED earned by merging into a fruit of `level` (size index + 1) */
+export function seedsForLevel(level: number): number {
+  if (level <= 3) return 0
+  if (level <= 5) return level - 3
+  if (level <= 7) return level - 2
+  return level
+}
+
+/**
+ * One game. The same seed, board and drops at the same ticks always play out the same way,
+ * which is what lets a drop log be verified.
+ */
+export class MergeGame {
+  readonly engine: Matter.Engine
+  readonly seed: number
+  readonly board: Board
+  readonly loseHeight: number
+  private readonly random: SeededRandom
+  private readonly drops: Drop[] = []
+  private readonly mergeCounts = FRUIT_SIZES.map(() => 0)
+
+  tick = 0
+  /** Size index of the fruit that drops next, and of the one after it */
+  currentFruit: number
+  nextFruit: number
+  score = 0
+  seedsEarned = 0
+  isOver = false
+  /** Called after a merge and when the game ends */
+  onChange?: () => void
+  /** Called for each merge with the size index of the two fruits that merged */
+  onMerge?: (sizeIndex: number) => void
+
+  constructor(seed: number, board: Board) {
+    this.seed = seed
+    this.board = board
+    this.loseHeight = board.height * 0.2
+    this.random = new SeededRandom(seed)
+    this.currentFruit = droppableFruitIndex(this.random)
+    this.nextFruit = droppableFruitIndex(this.random)
+
+    this.engine = Matter.Engine.create()
+    const { width, height } = board
+    const wall = (x: number, y: number, w: number, h: number) =>
+      Matter.Bodies.rectangle(x, y, w, h, { isStatic: true, label: 'wall', render: { fillStyle: '#FFEEDB' }, ...FRICTION })
+    Matter.Composite.add(this.engine.world, [
+      wall(width / 2, height + WALL_THICKNESS / 2, width + WALL_THICKNESS * 2, WALL_THICKNESS),
+      wall(-WALL_THICKNESS / 2, height / 2, WALL_THICKNESS, height),
+      wall(width + WALL_THICKNESS / 2, height / 2, WALL_THICKNESS, height),
+      Matter.Bodies.rectangle(width / 2, this.loseHeight, width, 2, {
+        isStatic: true,
+        isSensor: true,
+        label: 'gameOverLine',
+        render: { fillStyle: 'rgba(231, 76, 60, 0.5)' },
+      }),
+    ])
+    Matter.Events.on(this.engine, 'collisionStart', (event) => this.mergeColliding(event.pairs))
+  }
+
+  /** Radius of a fruit of `sizeIndex` on this board */
+  fruitRadius(sizeIndex: number): number {
+    return FRUIT_SIZES[sizeIndex].radius * this.board.scale
+  }
+
+  /** `x` moved inside the walls for a fruit of `sizeIndex`, by default the one about to drop */
+  clampX(x: number, sizeIndex = this.currentFruit): number {
+    const radius = this.fruitRadius(sizeIndex)
+    return Math.max(radius + WALL_THICKNESS, Math.min(this.board.width - radius - WALL_THICKNESS, x))
+  }
+
+  canDrop(): boolean {
+    const last = this.drops.at(-1)
+    return !this.isOver && this.drops.length < MAX_DROPS && (!last || this.tick - last.tick >= DROP_COOLDOWN_TICKS)
+  }
+
+  /**
+   * Drop the current fruit at `x` (clamped) and record it; null when a drop isn't allowed yet.
+   * `sizeIndex` drops that fruit instead of the dealt one, for games whose fruits come from
+   * the contract; such a log replays only when given the same fruits.
+   */
+  drop(x: number, sizeIndex?: number): Drop | null {
+    if (!this.canDrop()) return null
+    const size = sizeIndex ?? this.currentFruit
+    const drop = { x: this.clampX(x, size), tick: this.tick }
+    this.drops.push(drop)
+    Matter.Composite.add(this.engine.world, this.createFruit(drop.x, PREVIEW_Y, size))
+    if (sizeIndex === undefined) {
+      this.currentFruit = this.nextFruit
+      this.nextFruit = droppableFruitIndex(this.random)
+    }
+    return drop
+  }
+
+  /** Advance the physics by one step */
+  step() {
+    if (this.isOver || this.tick >= MAX_GAME_TICKS) return
+    Matter.Engine.update(this.engine, STEP_MS)
+    this.tick++
+
+    const settledAboveLine = this.fruits().some((fruit) =>
+      this.tick - fruit.droppedAt >= LOSE_GRACE_TICKS
+      && fruit.position.y < this.loseHeight
+      && Math.abs(fruit.velocity.y) < 0.5
+      && Math.abs(fruit.velocity.x) < 0.5
+    )
+    if (settledAboveLine) {
+      this.isOver = true
+      this.onChange?.()
+    }
+  }
+
+  fruits(): FruitBody[] {
+    return Matter.Composite.allBodies(this.engine.world).filter(isFruit)
+  }
+
+  log(): DropLog {
+    return { board: { ...this.board }, drops: this.drops.map((drop) => ({ ...drop })), endTick: this.tick }
+  }
+
+  result(): GameResult {
+    return { score: this.score, seedsEarned: this.seedsEarned, isOver: this.isOver }
+  }
+
+  /**
+   * Play `log` back from `seed` and return the game as it stood at the log's end, ready to go
+   * on; see replayGame. A saved game is put back this way, so it plays on exactly as it would
+   * have and the relay's replay of its log still agrees.
+   */
+  static replay(seed: number, log: DropLog, fruits?: number[]): MergeGame {
+    if (!log || typeof log !== 'object' || !Array.isArray(log.drops)) throw new GameLogError('The drop log is malformed')
+    if (!log.board || !isValidBoard(log.board)) throw new GameLogError('The board size is not one the game uses')
+    if (log.drops.length > MAX_DROPS) throw new GameLogError(`A game has at most ${MAX_DROPS} drops`)
+    if (!Number.isInteger(log.endTick) || log.endTick < 0 || log.endTick > MAX_GAME_TICKS) {
+      throw new GameLogError('The game length is out of range')
+    }
+    if (fruits && fruits.length !== log.drops.length) {
+      throw new GameLogError(`The log has ${log.drops.length} drops but ${fruits.length} fruits were dropped`)
+    }
+
+    const game = new MergeGame(seed, log.board)
+    for (const [i, { x, tick }] of log.drops.entries()) {
+      if (!Number.isFinite(x) || !Number.isInteger(tick) || tick < game.tick || tick > log.endTick) {
+        throw new GameLogError(`Drop ${i} is out of order or out of range`)
+      }
+      while (game.tick < tick && !game.isOver) game.step()
+      if (game.isOver) throw new GameLogError(`Drop ${i} comes after the game ended`)
+      if (!game.drop(x, fruits?.[i])) throw new GameLogError(`Drop ${i} comes too soon after the previous one`)
+    }
+    while (game.tick < log.endTick && !game.isOver) game.step()
+    return game
+  }
+
+  private createFruit(x: number, y: number, sizeIndex: number): FruitBody {
+    const body = Matter.Bodies.circle(x, y, this.fruitRadius(sizeIndex), {
+      ...FRICTION,
+      label: 'fruit',
+      render: { fillStyle: 'transparent' },
+    }) as FruitBody
+    body.sizeIndex = sizeIndex
+    body.popped = false
+    body.droppedAt = this.tick
+    return body
+  }
+
+  // Two touching fruits of one size become one of the next size; two watermelons start over
+  private mergeColliding(pairs: Matter.Pair[]) {
+    let merged = false
+    for (const { bodyA, bodyB } of pairs) {
+      if (!isFruit(bodyA) || !isFruit(bodyB) || bodyA.isStatic || bodyB.isStatic) continue
+      if (bodyA.sizeIndex !== bodyB.sizeIndex || bodyA.popped || bodyB.popped) continue
+
+      const size = bodyA.sizeIndex
+      const newSize = size >= FRUIT_SIZES.length - 1 ? 0 : size + 1
+      bodyA.popped = true
+      bodyB.popped = true
+      this.mergeCounts[size] += 1
+      this.onMerge?.(size)
+
+      Matter.Composite.remove(this.engine.world, [bodyA, bodyB])
+      const midX = (bodyA.position.x + bodyB.position.x) / 2
+      const midY = (bodyA.position.y + bodyB.position.y) / 2
+      Matter.Composite.add(this.engine.world, this.createFruit(midX, midY, newSize))
+
+      this.score = this.mergeCounts.reduce((total, count, i) => total + FRUIT_SIZES[i].scoreValue * count, 0)
+      this.seedsEarned += seedsForLevel(newSize + 1)
+      merged = true
+    }
+    if (merged) this.onChange?.()
+  }
+}
+
+/**
+ * Play `log` back from `seed` and return what the game earned. Throws GameLogError when the
+ * log breaks the rules: an unknown board, drops out of order, too close together or after
+ * the game ended. `fruits` are the size indices dropped, for games whose fruits came from
+ * the contract instead of the seed; there must be one per drop.
+ */
+export function replayGame(seed: number, log: DropLog, fruits?: number[]): GameResult {
+  return MergeGame.replay(seed, log, fruits).result()
+}
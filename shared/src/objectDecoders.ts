@@ -0,0 +1,403 @@
+import type { SuiObjectResponse } from '@mysten/sui/client'
+
+// Decoders for the JSON the fullnode returns as an object's `content`. Each one checks the
+// shape against the Move struct and throws a DecodeError naming the offending field, instead
+// of letting a schema change turn into silent defaults.
+
+/** On-chain content that doesn't match the Move struct it should be */
+export class DecodeError extends Error {
+  /** Where in the object the mismatch is, e.g. `0x12.slots[3].weight` */
+  readonly path: string
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`)
+    this.name = 'DecodeError'
+    this.path = path
+  }
+}
+
+export type Decoder<T> = (value: unknown, path: string) => T
+
+// ============================================================================
+// PRIMITIVES
+// ============================================================================
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value)
+
+const integer = (bits: number): Decoder<number> => (value, path) => {
+  // u8-u32 come as JSON numbers, u64 and wider as decimal strings
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN
+  if (!Number.isSafeInteger(parsed) || parsed < 0) throw new DecodeError(path, `expected u${bits}, got ${describe(value)} ${String(value)}`)
+  if (bits <= 32 && parsed >= 2 ** bits) throw new DecodeError(path, `${parsed} is out of range for u${bits}`)
+  return parsed
+}
+
+const u8 = integer(8)
+const u64 = integer(64)
+
+const bool: Decoder<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new DecodeError(path, `expected bool, got ${describe(value)}`)
+  return value
+}
+
+const string: Decoder<string> = (value, path) => {
+  if (typeof value !== 'string') throw new DecodeError(path, `expected string, got ${describe(value)}`)
+  return value
+}
+
+const address: Decoder<string> = (value, path) => {
+  if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    throw new DecodeError(path, `expected address, got ${describe(value)} ${String(value)}`)
+  }
+  return value
+}
+
+// ============================================================================
+// COMPOSITES
+// ============================================================================
+
+/**
+ * The fields of a struct value. Nested structs come wrapped as `{ type, fields }`, like the
+ * object content itself; when `typeName` is given, a wrapper's type must end with it.
+ */
+function fieldsOf(value: unknown, path: string, typeName?: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new DecodeError(path, `expected struct, got ${describe(value)}`)
+  }
+  const wrapper = value as { type?: unknown; fields?: unknown }
+  if (typeName && typeof wrapper.type === 'string' && !wrapper.type.split('<')[0].endsWith(`::${typeName}`)) {
+    throw new DecodeError(path, `expected ${typeName}, got ${wrapper.type}`)
+  }
+  if (typeof wrapper.fields === 'object' && wrapper.fields !== null) return wrapper.fields as Record<string, unknown>
+  return value as Record<string, unknown>
+}
+
+const field = <T>(fields: Record<string, unknown>, name: string, decode: Decoder<T>, path: string): T => {
+  if (!(name in fields)) throw new DecodeError(`${path}.${name}`, 'missing')
+  return decode(fields[name], `${path}.${name}`)
+}
+
+const vector = <T>(decode: Decoder<T>): Decoder<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new DecodeError(path, `expected vector, got ${describe(value)}`)
+  return value.map((item, i) => decode(item, `${path}[${i}]`))
+}
+
+const option = <T>(decode: Decoder<T>): Decoder<T | null> => (value, path) => {
+  if (value === null || value === undefined) return null
+  // Older fullnodes render Option as its inner vector
+  const vec = typeof value === 'object' && !Array.isArray(value) ? fieldsOf(value, path).vec : undefined
+  if (Array.isArray(vec)) return vec.length === 0 ? null : decode(vec[0], path)
+  return decode(value, path)
+}
+
+const uid: Decoder<string> = (value, path) => address(fieldsOf(value, path).id, `${path}.id`)
+
+// Balance<T> is rendered as its value; accept the struct form too
+const balance: Decoder<number> = (value, path) =>
+  typeof value === 'object' && value !== null ? field(fieldsOf(value, path), 'value', u64, path) : u64(value, path)
+
+// ============================================================================
+// GAME OBJECTS
+// ============================================================================
+
+/** land::PlantedFruit */
+export interface PlantedFruit {
+  fruitType: number
+  rarity: number
+  weight: number
+  imageUrl: string
+  /** SEED base units */
+  seedsUsed: number
+  plantedAt: number
+  speedBoostMs: number
+}
+
+/** land::PlayerLand */
+export interface PlayerLand {
+  id: string
+  owner: string
+  level: number
+  /** One entry per slot up to maxSlots; null when the slot is empty */
+  slots: Array<PlantedFruit | null>
+  maxSlots: number
+  landIndex: number
+  createdAt: number
+}
+
+/** player::InventoryFruit */
+export interface InventoryFruit {
+  fruitType: number
+  rarity: number
+  weight: number
+  imageUrl: string
+  harvestedAt: number
+}
+
+/** player::PlayerInventory */
+export interface PlayerInventory {
+  id: string
+  owner: string
+  fruits: InventoryFruit[]
+  maxSlots: number
+}
+
+/** player::PlayerAccount */
+export interface PlayerAccount {
+  id: string
+  owner: string
+  totalSeedsEarned: number
+  totalGamesPlayed: number
+  inventorySlots: number
+  landCount: number
+  activeLandIndex: number
+  createdAt: number
+}
+
+/** game::GameSession */
+export interface GameSession {
+  id: string
+  player: string
+  score: number
+  /** Merge rewards not harvested yet */
+  seedsPending: number
+  isClaiming: boolean
+  /** Drops left before a started claim can be harvested */
+  dropsRemaining: number
+  claimCompleted: boolean
+  gameOver: boolean
+  /** Levels (1-10) of the fruits on the board, in the order merge_fruits indexes them */
+  currentFruits: number[]
+  /** Levels of every fruit dropped this game, in order */
+  dropped: number[]
+  /** Verified seeds already minted this game */
+  seedsHarvested: number
+  /** Harvests the session has ever completed; part of the message the relay signs */
+  harvests: number
+}
+
+/** leaderboard::LeaderboardEntry */
+export interface LeaderboardEntry {
+  player: string
+  bestWeight: number
+  lastUpdated: number
+  joinedAt: number
+}
+
+/** leaderboard::LeaderboardRound */
+export interface LeaderboardRound {
+  id: string
+  roundId: number
+  fruitType: number
+  startTime: number
+  endTime: number
+  /** MIST */
+  prizePool: number
+  /** The Table holding the entries, keyed by player address */
+  entriesTableId: string
+  participantCount: number
+  isActive: boolean
+  prizesDistributed: boolean
+  firstPlace: string
+  firstWeight: number
+  secondPlace: string
+  secondWeight: number
+  thirdPlace: string
+  thirdWeight: number
+}
+
+/** fruit_nft::FruitNFT */
+export interface FruitNFT {
+  id: string
+  name: string
+  description: string
+  fruitType: number
+  rarity: number
+  weight: number
+  createdBy: string
+  createdAt: number
+}
+
+/** session::FarmSession */
+export interface FarmSession {
+  id: string
+  owner: string
+  /** Address of the session key */
+  delegate: string
+  expiresAt: number
+  /** session.move scope bits */
+  scope: number
+  landId: string
+  inventoryId: string
+  /** Unspent SEED allowance in base units */
+  allowance: number
+}
+
+/** session::SessionReceipt */
+export interface SessionReceipt {
+  id: string
+  sessionId: string
+}
+
+export const decodePlantedFruit: Decoder<PlantedFruit> = (value, path) => {
+  const fields = fieldsOf(value, path, 'PlantedFruit')
+  return {
+    fruitType: field(fields, 'fruit_type', u8, path),
+    rarity: field(fields, 'rarity', u8, path),
+    weight: field(fields, 'weight', u64, path),
+    imageUrl: field(fields, 'image_url', string, path),
+    seedsUsed: field(fields, 'seeds_used', u64, path),
+    plantedAt: field(fields, 'planted_at', u64, path),
+    speedBoostMs: field(fields, 'speed_boost_ms', u64, path),
+  }
+}
+
+export const decodePlayerLand: Decoder<PlayerLand> = (value, path) => {
+  const fields = fieldsOf(value, path, 'PlayerLand')
+  return {
+    id: field(fields, 'id', uid, path),
+    owner: field(fields, 'owner', address, path),
+    level: field(fields, 'level', u64, path),
+    slots: field(fields, 'slots', vector(option(decodePlantedFruit)), path),
+    maxSlots: field(fields, 'max_slots', u64, path),
+    landIndex: field(fields, 'land_index', u64, path),
+    createdAt: field(fields, 'created_at', u64, path),
+  }
+}
+
+export const decodeInventoryFruit: Decoder<InventoryFruit> = (value, path) => {
+  const fields = fieldsOf(value, path, 'InventoryFruit')
+  return {
+    fruitType: field(fields, 'fruit_type', u8, path),
+    rarity: field(fields, 'rarity', u8, path),
+    weight: field(fields, 'weight', u64, path),
+    imageUrl: field(fields, 'image_url', string, path),
+    harvestedAt: field(fields, 'harvested_at', u64, path),
+  }
+}
+
+export const decodePlayerInventory: Decoder<PlayerInventory> = (value, path) => {
+  const fields = fieldsOf(value, path, 'PlayerInventory')
+  return {
+    id: field(fields, 'id', uid, path),
+    owner: field(fields, 'owner', address, path),
+    fruits: field(fields, 'fruits', vector(decodeInventoryFruit), path),
+    maxSlots: field(fields, 'max_slots', u64, path),
+  }
+}
+
+export const decodePlayerAccount: Decoder<PlayerAccount> = (value, path) => {
+  const fields = fieldsOf(value, path, 'PlayerAccount')
+  return {
+    id: field(fields, 'id', uid, path),
+    owner: field(fields, 'owner', address, path),
+    totalSeedsEarned: field(fields, 'total_seeds_earned', u64, path),
+    totalGamesPlayed: field(fields, 'total_games_played', u64, path),
+    inventorySlots: field(fields, 'inventory_slots', u64, path),
+    landCount: field(fields, 'land_count', u64, path),
+    activeLandIndex: field(fields, 'active_land_index', u64, path),
+    createdAt: field(fields, 'created_at', u64, path),
+  }
+}
+
+export const decodeGameSession: Decoder<GameSession> = (value, path) => {
+  const fields = fieldsOf(value, path, 'GameSession')
+  return {
+    id: field(fields, 'id', uid, path),
+    player: field(fields, 'player', address, path),
+    score: field(fields, 'score', u64, path),
+    seedsPending: field(fields, 'seeds_pending', u64, path),
+    isClaiming: field(fields, 'is_claiming', bool, path),
+    dropsRemaining: field(fields, 'drops_remaining', u64, path),
+    claimCompleted: field(fields, 'claim_completed', bool, path),
+    gameOver: field(fields, 'game_over', bool, path),
+    currentFruits: field(fields, 'current_fruits', vector(u8), path),
+    dropped: field(fields, 'dropped', vector(u8), path),
+    seedsHarvested: field(fields, 'seeds_harvested', u64, path),
+    harvests: field(fields, 'harvests', u64, path),
+  }
+}
+
+export const decodeLeaderboardEntry: Decoder<LeaderboardEntry> = (value, path) => {
+  const fields = fieldsOf(value, path, 'LeaderboardEntry')
+  return {
+    player: field(fields, 'player', address, path),
+    bestWeight: field(fields, 'best_weight', u64, path),
+    lastUpdated: field(fields, 'last_updated', u64, path),
+    joinedAt: field(fields, 'joined_at', u64, path),
+  }
+}
+
+export const decodeLeaderboardRound: Decoder<LeaderboardRound> = (value, path) => {
+  const fields = fieldsOf(value, path, 'LeaderboardRound')
+  return {
+    id: field(fields, 'id', uid, path),
+    roundId: field(fields, 'round_id', u64, path),
+    fruitType: field(fields, 'fruit_type', u8, path),
+    startTime: field(fields, 'start_time', u64, path),
+    endTime: field(fields, 'end_time', u64, path),
+    prizePool: field(fields, 'prize_pool', balance, path),
+    entriesTableId: field(fields, 'entries', (table, tablePath) => field(fieldsOf(table, tablePath), 'id', uid, tablePath), path),
+    participantCount: field(fields, 'participant_count', u64, path),
+    isActive: field(fields, 'is_active', bool, path),
+    prizesDistributed: field(fields, 'prizes_distributed', bool, path),
+    firstPlace: field(fields, 'first_place', address, path),
+    firstWeight: field(fields, 'first_weight', u64, path),
+    secondPlace: field(fields, 'second_place', address, path),
+    secondWeight: field(fields, 'second_weight', u64, path),
+    thirdPlace: field(fields, 'third_place', address, path),
+    thirdWeight: field(fields, 'third_weight', u64, path),
+  }
+}
+
+export const decodeFruitNFT: Decoder<FruitNFT> = (value, path) => {
+  const fields = fieldsOf(value, path, 'FruitNFT')
+  return {
+    id: field(fields, 'id', uid, path),
+    name: field(fields, 'name', string, path),
+    description: field(fields, 'description', string, path),
+    fruitType: field(fields, 'fruit_type', u8, path),
+    rarity: field(fields, 'rarity', u8, path),
+    weight: field(fields, 'weight', u64, path),
+    createdBy: field(fields, 'created_by', address, path),
+    createdAt: field(fields, 'created_at', u64, path),
+  }
+}
+
+export const decodeFarmSession: Decoder<FarmSession> = (value, path) => {
+  const fields = fieldsOf(value, path, 'FarmSession')
+  return {
+    id: field(fields, 'id', uid, path),
+    owner: field(fields, 'owner', address, path),
+    delegate: field(fields, 'delegate', address, path),
+    expiresAt: field(fields, 'expires_at', u64, path),
+    scope: field(fields, 'scope', u64, path),
+    landId: field(fields, 'land_id', address, path),
+    inventoryId: field(fields, 'inventory_id', address, path),
+    allowance: field(fields, 'allowance', balance, path),
+  }
+}
+
+export const decodeSessionReceipt: Decoder<SessionReceipt> = (value, path) => {
+  const fields = fieldsOf(value, path, 'SessionReceipt')
+  return {
+    id: field(fields, 'id', uid, path),
+    sessionId: field(fields, 'session_id', address, path),
+  }
+}
+
+/**
+ * Decode a `getObject` / `getOwnedObjects` result fetched with `showContent`.
+ * Throws DecodeError when the object is missing or isn't what `decode` expects.
+ */
+export function decodeObject<T>(response: SuiObjectResponse, decode: Decoder<T>): T {
+  const path = response.data?.objectId ?? 'object'
+  if (response.error) throw new DecodeError(path, `not readable (${response.error.code})`)
+  const content = response.data?.content
+  if (content?.dataType !== 'moveObject') throw new DecodeError(path, 'no Move object content; fetch with showContent')
+  return decode(content, path)
+}
+
+/** Decode the value of a Table entry read with `getDynamicFieldObject` */
+export function decodeTableValue<T>(response: SuiObjectResponse, decode: Decoder<T>): T {
+  return decodeObject(response, (content, path) => field(fieldsOf(content, path), 'value', decode, path))
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { Transaction } from '@mysten/sui/transactions'
+import { evaluateSponsorPolicy, type PolicyDecision, type SponsorMode } from './policy'
+
+const PACKAGE_ID = '0x1234'
+const ADMIN_CAP = '0xcafe'
+const LAND = '0xa1'
+const INVENTORY = '0xa2'
+const PLAYER = '0xb0b'
+
+function evaluate(tx: Transaction, mode: SponsorMode = 'user', allowDirectMints = false): PolicyDecision {
+  return evaluateSponsorPolicy(tx.getData(), mode, { packageId: PACKAGE_ID, adminCapId: ADMIN_CAP, allowDirectMints })
+}
+
+function rejectionOf(decision: PolicyDecision) {
+  if (decision.approved) throw new Error('expected the transaction to be rejected')
+  return decision.rejection
+}
+
+function plantInSlot(capPosition: number): Transaction {
+  const tx = new Transaction()
+  const args = [tx.object(LAND), tx.object(INVENTORY), tx.pure.u64(0), tx.object('0x6')]
+  args.splice(capPosition, 0, tx.object(ADMIN_CAP))
+  tx.moveCall({ target: `${PACKAGE_ID}::land::plant_in_slot`, arguments: args })
+  return tx
+}
+
+function mintSeeds(): Transaction {
+  const tx = new Transaction()
+  tx.moveCall({
+    target: `${PACKAGE_ID}::seed::mint_seeds`,
+    arguments: [tx.object(ADMIN_CAP), tx.pure.u64(1000), tx.pure.address(PLAYER)],
+  })
+  return tx
+}
+
+describe('evaluateSponsorPolicy', () => {
+  it('approves allowlisted calls into the game package with their budget actions', () => {
+    const tx = new Transaction()
+    tx.moveCall({ target: `${PACKAGE_ID}::land::harvest_ready`, arguments: [tx.object(LAND), tx.object(INVENTORY), tx.object('0x6')] })
+    tx.moveCall({ target: `${PACKAGE_ID}::market::merge_fruits`, arguments: [tx.object(INVENTORY), tx.pure.u8(1)] })
+    expect(evaluate(tx)).toEqual({ approved: true, actions: ['farm', 'market'], beneficiary: undefined })
+  })
+
+  it('rejects an empty transaction', () => {
+    expect(rejectionOf(evaluate(new Transaction())).code).toBe('EMPTY_TRANSACTION')
+  })
+
+  it('rejects a target outside the allowlist', () => {
+    const tx = new Transaction()
+    tx.moveCall({ target: `${PACKAGE_ID}::seed::set_minter`, arguments: [tx.object(ADMIN_CAP), tx.pure.address(PLAYER)] })
+    expect(rejectionOf(evaluate(tx))).toMatchObject({ code: 'TARGET_NOT_ALLOWED', commandIndex: 0, target: 'seed::set_minter' })
+  })
+
+  it('rejects an allowlisted target sent in the wrong mode', () => {
+    const tx = new Transaction()
+    tx.moveCall({ target: `${PACKAGE_ID}::leaderboard::create_new_round`, arguments: [tx.object('0xc0')] })
+    expect(rejectionOf(evaluate(tx, 'sponsor')).code).toBe('TARGET_NOT_ALLOWED')
+  })
+
+  it('rejects a call into a foreign package, even with an allowlisted name', () => {
+    const tx = new Transaction()
+    tx.moveCall({ target: `${PACKAGE_ID}::land::harvest_ready`, arguments: [tx.object(LAND), tx.object(INVENTORY), tx.object('0x6')] })
+    tx.moveCall({ target: '0x9999::land::harvest_ready', arguments: [tx.object(LAND)] })
+    expect(rejectionOf(evaluate(tx))).toMatchObject({ code: 'FOREIGN_PACKAGE', commandIndex: 1 })
+  })
+
+  it('rejects commands other than Move calls and coin plumbing', () => {
+    const tx = new Transaction()
+    tx.transferObjects([tx.object(INVENTORY)], PLAYER)
+    expect(rejectionOf(evaluate(tx))).toMatchObject({ code: 'COMMAND_NOT_ALLOWED', commandIndex: 0 })
+  })
+
+  it('accepts the SeedAdminCap only in the argument position its function expects', () => {
+    expect(evaluate(plantInSlot(3)).approved).toBe(true)
+    expect(rejectionOf(evaluate(plantInSlot(0)))).toMatchObject({ code: 'ADMIN_CAP_MISUSE', target: 'land::plant_in_slot' })
+  })
+
+  it('rejects the SeedAdminCap in a call that takes none', () => {
+    const tx = new Transaction()
+    tx.moveCall({ target: `${PACKAGE_ID}::land::harvest_ready`, arguments: [tx.object(LAND), tx.object(ADMIN_CAP), tx.object('0x6')] })
+    expect(rejectionOf(evaluate(tx)).code).toBe('ADMIN_CAP_MISUSE')
+  })
+
+  it('rejects the SeedAdminCap in coin plumbing', () => {
+    const tx = new Transaction()
+    tx.mergeCoins(tx.object('0xc01'), [tx.object(ADMIN_CAP)])
+    expect(rejectionOf(evaluate(tx)).code).toBe('ADMIN_CAP_MISUSE')
+  })
+
+  it('rejects any use of the gas coin', () => {
+    const tx = new Transaction()
+    const [coin] = tx.splitCoins(tx.gas, [1000])
+    tx.moveCall({ target: `${PACKAGE_ID}::market::merge_fruits`, arguments: [tx.object(INVENTORY), coin] })
+    expect(rejectionOf(evaluate(tx))).toMatchObject({ code: 'GAS_COIN_USED', commandIndex: 0 })
+  })
+
+  it('rejects seed::mint_seeds unless direct mints are allowed', () => {
+    expect(rejectionOf(evaluate(mintSeeds(), 'sponsor'))).toMatchObject({ code: 'UNVERIFIED_MINT', target: 'seed::mint_seeds' })
+    expect(rejectionOf(evaluate(mintSeeds(), 'user', true)).code).toBe('TARGET_NOT_ALLOWED')
+    expect(evaluate(mintSeeds(), 'sponsor', true)).toEqual({
+      approved: true,
+      actions: ['mint'],
+      beneficiary: '0x0000000000000000000000000000000000000000000000000000000000000b0b',
+    })
+  })
+})
@@ -0,0 +1,240 @@
+import type { Argument, CallArg, Command, TransactionData } from '@mysten/sui/transactions'
+import { bcs } from '@mysten/sui/bcs'
+import { fromBase64, normalizeSuiAddress, normalizeSuiObjectId } from '@mysten/sui/utils'
+
+/**
+ * Who signs as sender:
+ * - 'user': the player sends, the sponsor only pays gas (/sponsor)
+ * - 'sponsor': the sponsor sends and pays, no user signature (/execute)
+ */
+export type SponsorMode = 'user' | 'sponsor'
+
+/** Action types sponsorship budgets are tracked by */
+export type SponsorAction = 'farm' | 'inventory' | 'market' | 'leaderboard' | 'game' | 'mint'
+
+export type PolicyRejectionCode =
+  | 'EMPTY_TRANSACTION'
+  | 'COMMAND_NOT_ALLOWED'
+  | 'FOREIGN_PACKAGE'
+  | 'TARGET_NOT_ALLOWED'
+  | 'ADMIN_CAP_MISUSE'
+  | 'GAS_COIN_USED'
+  | 'UNVERIFIED_MINT'
+
+export interface PolicyRejection {
+  code: PolicyRejectionCode
+  message: string
+  /** Index of the offending PTB command, when there is one */
+  commandIndex?: number
+  /** `module::function` of the offending Move call, when there is one */
+  target?: string
+}
+
+export type PolicyDecision =
+  | {
+      approved: true
+      /** Budget categories the transaction's Move calls fall into */
+      actions: SponsorAction[]
+      /** Address the transaction benefits, when a call names one (e.g. a mint recipient) */
+      beneficiary?: string
+    }
+  | { approved: false; rejection: PolicyRejection }
+
+interface MoveCallRule {
+  modes: SponsorMode[]
+  action: SponsorAction
+  /** Argument position where the SeedAdminCap is expected; the cap is rejected anywhere else */
+  adminCapArg?: number
+  /** Argument position of an address the call benefits, charged instead of the sender */
+  beneficiaryArg?: number
+}
+
+// Move calls the sponsor will pay for. Anything not listed here is refused.
+const MOVE_CALL_RULES: Record<string, MoveCallRule> = {
+  // land.move
+  'land::create_first_land': { modes: ['user'], action: 'farm' },
+  'land::buy_new_land': { modes: ['user'], action: 'farm', adminCapArg: 1 },
+  'land::upgrade_land': { modes: ['user'], action: 'farm', adminCapArg: 2 },
+  'land::plant_in_slot': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'land::plant_all': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'land::harvest_ready': { modes: ['user'], action: 'farm' },
+  'land::use_watering_can': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'land::use_fertilizer': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'land::use_shovel': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  // player.move
+  'player::create_player': { modes: ['user'], action: 'inventory' },
+  'player::upgrade_inventory': { modes: ['user'], action: 'inventory', adminCapArg: 3 },
+  // market.move
+  'market::merge_fruits': { modes: ['user'], action: 'market' },
+  // session.move - the sender is the player (start/end) or their session key (the rest)
+  'session::start_session': { modes: ['user'], action: 'farm' },
+  'session::end_session': { modes: ['user'], action: 'farm' },
+  'session::destroy_cap': { modes: ['user'], action: 'farm' },
+  'session::plant_in_slot': { modes: ['user'], action: 'farm', adminCapArg: 4 },
+  'session::plant_all': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'session::harvest_ready': { modes: ['user'], action: 'farm' },
+  'session::use_watering_can': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'session::use_fertilizer': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'session::use_shovel': { modes: ['user'], action: 'farm', adminCapArg: 3 },
+  'session::merge_fruits': { modes: ['user'], action: 'market' },
+  // fruit_nft.move
+  'fruit_nft::mint_from_inventory': { modes: ['user'], action: 'inventory' },
+  'fruit_nft::transfer_nft': { modes: ['user'], action: 'inventory' },
+  // leaderboard.move
+  'leaderboard::create_new_round': { modes: ['user'], action: 'leaderboard' },
+  'leaderboard::update_entry': { modes: ['user'], action: 'leaderboard' },
+  'leaderboard::close_round_and_distribute': { modes: ['user'], action: 'leaderboard' },
+  // game.move - on-chain merge game; the harvest mints only what the relay's signed replay verified
+  'game::start_game_entry': { modes: ['user'], action: 'game' },
+  'game::drop_fruit': { modes: ['user'], action: 'game' },
+  'game::merge_fruits': { modes: ['user'], action: 'game' },
+  'game::start_claim': { modes: ['user'], action: 'game' },
+  'game::complete_harvest': { modes: ['user'], action: 'game', adminCapArg: 2 },
+  'game::trigger_game_over': { modes: ['user'], action: 'game' },
+  'game::reset_game': { modes: ['user'], action: 'game' },
+  // seed.move - only the sponsor itself may mint, and only with allowDirectMints
+  'seed::mint_seeds': { modes: ['sponsor'], action: 'mint', adminCapArg: 0, beneficiaryArg: 2 },
+}
+
+// Coin plumbing used to build SEED payments; Move calls are checked separately
+const ALLOWED_COMMANDS = new Set<Command['$kind']>(['MoveCall', 'SplitCoins', 'MergeCoins'])
+
+function commandArguments(command: Command): Argument[] {
+  switch (command.$kind) {
+    case 'MoveCall': return command.MoveCall.arguments
+    case 'SplitCoins': return [command.SplitCoins.coin, ...command.SplitCoins.amounts]
+    case 'MergeCoins': return [command.MergeCoins.destination, ...command.MergeCoins.sources]
+    case 'TransferObjects': return [...command.TransferObjects.objects, command.TransferObjects.address]
+    case 'MakeMoveVec': return command.MakeMoveVec.elements
+    default: return []
+  }
+}
+
+function inputObjectId(input: CallArg | undefined): string | null {
+  if (!input) return null
+  if (input.$kind === 'UnresolvedObject') return normalizeSuiObjectId(input.UnresolvedObject.objectId)
+  if (input.$kind !== 'Object') return null
+  const object = input.Object
+  switch (object.$kind) {
+    case 'ImmOrOwnedObject': return normalizeSuiObjectId(object.ImmOrOwnedObject.objectId)
+    case 'SharedObject': return normalizeSuiObjectId(object.SharedObject.objectId)
+    case 'Receiving': return normalizeSuiObjectId(object.Receiving.objectId)
+    default: return null
+  }
+}
+
+function inputAddress(data: TransactionData, arg: Argument | undefined): string | undefined {
+  if (arg?.$kind !== 'Input') return undefined
+  const input = data.inputs[arg.Input]
+  if (input?.$kind !== 'Pure') return undefined
+  try {
+    return normalizeSuiAddress(bcs.Address.parse(fromBase64(input.Pure.bytes)))
+  } catch {
+    return undefined
+  }
+}
+
+const reject = (rejection: PolicyRejection): PolicyDecision => ({ approved: false, rejection })
+
+/**
+ * Decide whether the sponsor should sign a transaction.
+ * Only allowlisted Move calls into our own package are approved, the SeedAdminCap may only
+ * appear in the argument slot its function expects, and the sponsor's gas coin is off limits.
+ * Mints are refused unless `allowDirectMints` is set; game SEED goes through a verified claim.
+ */
+export function evaluateSponsorPolicy(
+  data: TransactionData,
+  mode: SponsorMode,
+  config: { packageId: string; adminCapId: string; allowDirectMints: boolean }
+): PolicyDecision {
+  const packageId = normalizeSuiObjectId(config.packageId)
+  const adminCapId = normalizeSuiObjectId(config.adminCapId)
+
+  if (data.commands.length === 0) {
+    return reject({ code: 'EMPTY_TRANSACTION', message: 'Transaction has no commands' })
+  }
+
+  const actions = new Set<SponsorAction>()
+  let beneficiary: string | undefined
+
+  for (const [commandIndex, command] of data.commands.entries()) {
+    if (!ALLOWED_COMMANDS.has(command.$kind)) {
+      return reject({
+        code: 'COMMAND_NOT_ALLOWED',
+        message: `${command.$kind} commands are not sponsored`,
+        commandIndex,
+      })
+    }
+
+    const args = commandArguments(command)
+    if (args.some((arg) => arg.$kind === 'GasCoin')) {
+      return reject({
+        code: 'GAS_COIN_USED',
+        message: 'Sponsored transactions cannot spend the sponsor gas coin',
+        commandIndex,
+      })
+    }
+
+    const adminCapPositions = args
+      .map((arg, position) => (arg.$kind === 'Input' && inputObjectId(data.inputs[arg.Input]) === adminCapId ? position : -1))
+      .filter((position) => position >= 0)
+
+    if (command.$kind !== 'MoveCall') {
+      if (adminCapPositions.length > 0) {
+        return reject({
+          code: 'ADMIN_CAP_MISUSE',
+          message: `The SEED admin cap cannot be used in ${command.$kind}`,
+          commandIndex,
+        })
+      }
+      continue
+    }
+
+    const call = command.MoveCall
+    const target = `${call.module}::${call.function}`
+
+    if (normalizeSuiObjectId(call.package) !== packageId) {
+      return reject({
+        code: 'FOREIGN_PACKAGE',
+        message: `Calls outside the game package are not sponsored (${call.package}::${target})`,
+        commandIndex,
+        target,
+      })
+    }
+
+    const rule = MOVE_CALL_RULES[target]
+    if (!rule || !rule.modes.includes(mode)) {
+      return reject({
+        code: 'TARGET_NOT_ALLOWED',
+        message: `${target} is not eligible for sponsorship`,
+        commandIndex,
+        target,
+      })
+    }
+
+    if (rule.action === 'mint' && !config.allowDirectMints) {
+      return reject({
+        code: 'UNVERIFIED_MINT',
+        message: 'SEED is only minted for verified game claims',
+        commandIndex,
+        target,
+      })
+    }
+
+    if (adminCapPositions.some((position) => position !== rule.adminCapArg)) {
+      return reject({
+        code: 'ADMIN_CAP_MISUSE',
+        message: `${target} cannot receive the SEED admin cap in that position`,
+        commandIndex,
+        target,
+      })
+    }
+
+    actions.add(rule.action)
+    if (rule.beneficiaryArg !== undefined) {
+      beneficiary ??= inputAddress(data, call.arguments[rule.beneficiaryArg])
+    }
+  }
+
+  return { approved: true, actions: [...actions], beneficiary }
+}
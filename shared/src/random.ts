@@ -0,0 +1,55 @@
+import { toBase58, toHex } from '@mysten/sui/utils'
+
+/**
+ * Seeded stand-in for sui::random (mulberry32). The same seed and the same transactions give
+ * the same fruit, so a simulated session can be replayed.
+ */
+export class SeededRandom {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /** An independent copy at the same position, e.g. for a transaction that may not commit */
+  fork(): SeededRandom {
+    return new SeededRandom(this.state)
+  }
+
+  /** Continue from where `fork` got to */
+  adopt(fork: SeededRandom) {
+    this.state = fork.state
+  }
+
+  nextU32(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return (t ^ (t >>> 14)) >>> 0
+  }
+
+  /** Uniform integer in [min, max], like RandomGenerator::generate_u*_in_range */
+  intInRange(min: number, max: number): number {
+    return min + (this.nextU32() % (max - min + 1))
+  }
+
+  bytes(length: number): Uint8Array {
+    const bytes = new Uint8Array(length)
+    for (let i = 0; i < length; i += 4) {
+      const word = this.nextU32()
+      for (let j = 0; j < 4 && i + j < length; j++) bytes[i + j] = (word >>> (8 * j)) & 0xff
+    }
+    return bytes
+  }
+
+  /** A fresh 32-byte object ID */
+  address(): string {
+    return `0x${toHex(this.bytes(32))}`
+  }
+
+  /** A fresh object or transaction digest */
+  digest(): string {
+    return toBase58(this.bytes(32))
+  }
+}